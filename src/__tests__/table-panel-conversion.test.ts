@@ -39,9 +39,9 @@ describe('Table and Panel Conversion Tests', () => {
       expect(headerRow.content[0].type).toBe('tableHeader');
       expect(headerRow.content[1].type).toBe('tableHeader');
       
-      // Check header content
-      expect(headerRow.content[0].content[0].text).toBe('Column 1');
-      expect(headerRow.content[1].content[0].text).toBe('Column 2');
+      // Check header content (cells hold a paragraph)
+      expect(headerRow.content[0].content[0].content[0].text).toBe('Column 1');
+      expect(headerRow.content[1].content[0].content[0].text).toBe('Column 2');
       
       // Data rows should be table cells
       const dataRow1 = table.content[1];
@@ -50,8 +50,8 @@ describe('Table and Panel Conversion Tests', () => {
       expect(dataRow1.content[1].type).toBe('tableCell');
       
       // Check data content
-      expect(dataRow1.content[0].content[0].text).toBe('Data 1');
-      expect(dataRow1.content[1].content[0].text).toBe('Data 2');
+      expect(dataRow1.content[0].content[0].content[0].text).toBe('Data 1');
+      expect(dataRow1.content[1].content[0].content[0].text).toBe('Data 2');
     });
 
     it('should NOT convert table to paragraph node with raw text', async () => {
@@ -93,12 +93,12 @@ describe('Table and Panel Conversion Tests', () => {
       // Check header row
       expect(headerRow.content).toHaveLength(3);
       expect(headerRow.content[0].type).toBe('tableHeader');
-      expect(headerRow.content[0].content[0].text).toBe('Header 1');
+      expect(headerRow.content[0].content[0].content[0].text).toBe('Header 1');
       
       // Check data row  
       expect(dataRow.content).toHaveLength(3);
       expect(dataRow.content[0].type).toBe('tableCell');
-      expect(dataRow.content[0].content[0].text).toBe('Data 1');
+      expect(dataRow.content[0].content[0].content[0].text).toBe('Data 1');
     });
   });
 
@@ -12,6 +12,10 @@ export { ParserError, ConversionError } from './errors';
 
 // Export converter registry for external use
 export { ConverterRegistry } from './parser/ConverterRegistry.js';
+export { HtmlConverterRegistry } from './parser/HtmlConverterRegistry.js';
+export type { HtmlNodeConverter, HtmlMarkConverter, HtmlConversionContext } from './parser/types.js';
+export { AsciiDocConverterRegistry } from './parser/AsciiDocConverterRegistry.js';
+export type { AsciiDocNodeConverter, AsciiDocMarkConverter, AsciiDocConversionContext } from './parser/types.js';
 
 // Export test utilities  
 export { normalizeMarkdownForComparison, expectMarkdownEqual, toMatchMarkdown } from './utils/test-utils.js';
@@ -19,9 +23,32 @@ export { normalizeMarkdownForComparison, expectMarkdownEqual, toMatchMarkdown }
 // Export metadata utilities
 export { isAdfMetadataComment, parseAdfMetadataComment } from './utils/metadata-comments.js';
 
+// Export emoji utilities
+export { createEmojiRegistry, getEmojiData, getEmojiDataByText } from './utils/emoji-mapping.js';
+export type { EmojiData, CustomEmoji, EmojiRegistry } from './utils/emoji-mapping.js';
+
+// Export mention utilities
+export { createInMemoryMentionResolver } from './utils/mention-resolver.js';
+export type { MentionResolver, MentionUser } from './utils/mention-resolver.js';
+
+// Export media utilities
+export type { MediaResolver, ResolvedMedia } from './utils/media-resolver.js';
+
+// Export link utilities
+export type { LinkResolver, ResolvedLink, UnresolvedLink } from './utils/link-resolver.js';
+export type { JiraIssueLinkOptions } from './utils/jira-issue-keys.js';
+
 // Export conversion engines
 export { MarkdownToAdfEngine } from './parser/engines/MarkdownToAdfEngine.js';
 export { AdfToMarkdownEngine } from './parser/engines/AdfToMarkdownEngine.js';
+export { AdfToHtmlEngine } from './parser/engines/AdfToHtmlEngine.js';
+export { AdfToTextEngine } from './parser/engines/AdfToTextEngine.js';
+export { WikiMarkupToAdfEngine } from './parser/engines/WikiMarkupToAdfEngine.js';
+export { AdfToWikiMarkupEngine } from './parser/engines/AdfToWikiMarkupEngine.js';
+export { StorageFormatToAdfEngine } from './parser/engines/StorageFormatToAdfEngine.js';
+export { AdfToStorageFormatEngine } from './parser/engines/AdfToStorageFormatEngine.js';
+export { AdfToSlackEngine } from './parser/engines/AdfToSlackEngine.js';
+export { AdfToAsciiDocEngine } from './parser/engines/AdfToAsciiDocEngine.js';
 
 // Export parser components
 export { MarkdownParser } from './parser/markdown-to-adf/MarkdownParser.js';
@@ -0,0 +1,61 @@
+/**
+ * @file Converter registry for managing ADF to AsciiDoc node and mark converters
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocMarkConverter } from './types';
+import { convertBlocks } from '../utils/asciidoc-utils.js';
+
+export class AsciiDocConverterRegistry {
+  private nodeConverters = new Map<string, AsciiDocNodeConverter>();
+  private markConverters = new Map<string, AsciiDocMarkConverter>();
+
+  registerNode(converter: AsciiDocNodeConverter): void {
+    this.nodeConverters.set(converter.nodeType, converter);
+  }
+
+  registerMark(converter: AsciiDocMarkConverter): void {
+    this.markConverters.set(converter.markType, converter);
+  }
+
+  registerNodes(converters: AsciiDocNodeConverter[]): void {
+    converters.forEach(c => this.registerNode(c));
+  }
+
+  registerMarks(converters: AsciiDocMarkConverter[]): void {
+    converters.forEach(c => this.registerMark(c));
+  }
+
+  getNodeConverter(nodeType: string): AsciiDocNodeConverter {
+    const converter = this.nodeConverters.get(nodeType);
+    if (!converter) {
+      return this.getFallbackNodeConverter();
+    }
+    return converter;
+  }
+
+  getMarkConverter(markType: string): AsciiDocMarkConverter {
+    const converter = this.markConverters.get(markType);
+    if (!converter) {
+      return this.getFallbackMarkConverter();
+    }
+    return converter;
+  }
+
+  private getFallbackNodeConverter(): AsciiDocNodeConverter {
+    return {
+      nodeType: 'unknown',
+      // Unknown nodes keep their content (if any), as blocks when it holds blocks
+      toAsciiDoc: (node, context) => {
+        if (!node.content) return '';
+        return node.content.some(child => child.content) ? convertBlocks(node.content, context) : context.convertChildren(node.content);
+      }
+    };
+  }
+
+  private getFallbackMarkConverter(): AsciiDocMarkConverter {
+    return {
+      markType: 'unknown',
+      toAsciiDoc: (text) => text
+    };
+  }
+}
@@ -8,6 +8,8 @@ import { safeJSONStringify } from '../utils/json-utils.js';
 export class ConverterRegistry {
   private nodeConverters = new Map<string, NodeConverter>();
   private markConverters = new Map<string, MarkConverter>();
+  private fallbackNodeConverter?: NodeConverter;
+  private fallbackMarkConverter?: MarkConverter;
 
   registerNode(converter: NodeConverter): void {
     this.nodeConverters.set(converter.nodeType, converter);
@@ -25,6 +27,15 @@ export class ConverterRegistry {
     converters.forEach(c => this.registerMark(c));
   }
 
+  /**
+   * Replace the converters for node and mark types with no registered converter,
+   * which by default keep them as metadata comments
+   */
+  setFallbackConverters(nodeConverter: NodeConverter, markConverter: MarkConverter): void {
+    this.fallbackNodeConverter = nodeConverter;
+    this.fallbackMarkConverter = markConverter;
+  }
+
   getNodeConverter(nodeType: string): NodeConverter {
     const converter = this.nodeConverters.get(nodeType);
     if (!converter) {
@@ -42,6 +53,9 @@ export class ConverterRegistry {
   }
 
   private getFallbackNodeConverter(nodeType: string): NodeConverter {
+    if (this.fallbackNodeConverter) {
+      return this.fallbackNodeConverter;
+    }
     return {
       nodeType: 'unknown',
       toMarkdown: (node) => {
@@ -52,6 +66,9 @@ export class ConverterRegistry {
   }
 
   private getFallbackMarkConverter(markType: string): MarkConverter {
+    if (this.fallbackMarkConverter) {
+      return this.fallbackMarkConverter;
+    }
     return {
       markType: 'unknown',
       toMarkdown: (text, mark) => {
@@ -0,0 +1,57 @@
+/**
+ * @file Converter registry for managing ADF to HTML node and mark converters
+ */
+
+import type { HtmlNodeConverter, HtmlMarkConverter } from './types';
+
+export class HtmlConverterRegistry {
+  private nodeConverters = new Map<string, HtmlNodeConverter>();
+  private markConverters = new Map<string, HtmlMarkConverter>();
+
+  registerNode(converter: HtmlNodeConverter): void {
+    this.nodeConverters.set(converter.nodeType, converter);
+  }
+
+  registerMark(converter: HtmlMarkConverter): void {
+    this.markConverters.set(converter.markType, converter);
+  }
+
+  registerNodes(converters: HtmlNodeConverter[]): void {
+    converters.forEach(c => this.registerNode(c));
+  }
+
+  registerMarks(converters: HtmlMarkConverter[]): void {
+    converters.forEach(c => this.registerMark(c));
+  }
+
+  getNodeConverter(nodeType: string): HtmlNodeConverter {
+    const converter = this.nodeConverters.get(nodeType);
+    if (!converter) {
+      return this.getFallbackNodeConverter();
+    }
+    return converter;
+  }
+
+  getMarkConverter(markType: string): HtmlMarkConverter {
+    const converter = this.markConverters.get(markType);
+    if (!converter) {
+      return this.getFallbackMarkConverter();
+    }
+    return converter;
+  }
+
+  private getFallbackNodeConverter(): HtmlNodeConverter {
+    return {
+      nodeType: 'unknown',
+      // Unknown nodes keep their content (if any); there is nothing safe to render for their attrs
+      toHtml: (node, context) => (node.content ? context.convertChildren(node.content) : '')
+    };
+  }
+
+  private getFallbackMarkConverter(): HtmlMarkConverter {
+    return {
+      markType: 'unknown',
+      toHtml: (html) => html
+    };
+  }
+}
@@ -9,7 +9,7 @@ import remarkStringify from 'remark-stringify';
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkGfm from 'remark-gfm';
 import { remarkAdf } from './remark/remark-adf.js';
-import type { ADFDocument, ADFNode, ConversionOptions, ValidationResult } from '../types/index.js';
+import type { ADFDocument, ADFNode, ConversionOptions, HtmlRenderOptions, MarkdownLoss, SlackBlock, TextRenderOptions, ValidationResult } from '../types/index.js';
 import type { ConversionContext } from './types.js';
 import { AdfValidator } from '../validators/AdfValidator.js';
 import { MarkdownValidator } from '../validators/MarkdownValidator.js';
@@ -17,9 +17,18 @@ import { ParserError, ValidationError } from '../errors/index.js';
 import { ConverterRegistry } from './ConverterRegistry.js';
 import { MarkdownToAdfEngine } from './engines/MarkdownToAdfEngine.js';
 import { AdfToMarkdownEngine } from './engines/AdfToMarkdownEngine.js';
+import { AdfToHtmlEngine } from './engines/AdfToHtmlEngine.js';
+import { AdfToTextEngine } from './engines/AdfToTextEngine.js';
+import { WikiMarkupToAdfEngine } from './engines/WikiMarkupToAdfEngine.js';
+import { AdfToWikiMarkupEngine } from './engines/AdfToWikiMarkupEngine.js';
+import { StorageFormatToAdfEngine } from './engines/StorageFormatToAdfEngine.js';
+import { AdfToStorageFormatEngine } from './engines/AdfToStorageFormatEngine.js';
+import { AdfToSlackEngine } from './engines/AdfToSlackEngine.js';
+import { AdfToAsciiDocEngine } from './engines/AdfToAsciiDocEngine.js';
 import { measureSync, measureAsync, globalPerformanceMonitor } from '../performance/PerformanceMonitor.js';
 import { ErrorRecoveryManager } from '../errors/ErrorRecovery.js';
 import { getSafeJSONLength } from '../utils/json-utils.js';
+import type { UnresolvedLink } from '../utils/link-resolver.js';
 
 // Import node converters for legacy support
 import { ParagraphConverter } from './adf-to-markdown/nodes/ParagraphConverter.js';
@@ -31,6 +40,7 @@ import { BulletListConverter } from './adf-to-markdown/nodes/BulletListConverter
 import { OrderedListConverter } from './adf-to-markdown/nodes/OrderedListConverter.js';
 import { ListItemConverter } from './adf-to-markdown/nodes/ListItemConverter.js';
 import { MediaConverter } from './adf-to-markdown/nodes/MediaConverter.js';
+import { MediaInlineConverter } from './adf-to-markdown/nodes/MediaInlineConverter.js';
 import { MediaSingleConverter } from './adf-to-markdown/nodes/MediaSingleConverter.js';
 import { TableConverter } from './adf-to-markdown/nodes/TableConverter.js';
 import { TableRowConverter } from './adf-to-markdown/nodes/TableRowConverter.js';
@@ -45,8 +55,16 @@ import { DateConverter } from './adf-to-markdown/nodes/DateConverter.js';
 import { EmojiConverter } from './adf-to-markdown/nodes/EmojiConverter.js';
 import { StatusConverter } from './adf-to-markdown/nodes/StatusConverter.js';
 import { InlineCardConverter } from './adf-to-markdown/nodes/InlineCardConverter.js';
+import { BlockCardConverter, EmbedCardConverter } from './adf-to-markdown/nodes/BlockCardConverter.js';
 import { MediaGroupConverter } from './adf-to-markdown/nodes/MediaGroupConverter.js';
 import { DocConverter } from './adf-to-markdown/nodes/DocConverter.js';
+import { TaskListConverter } from './adf-to-markdown/nodes/TaskListConverter.js';
+import { TaskItemConverter } from './adf-to-markdown/nodes/TaskItemConverter.js';
+import { DecisionListConverter } from './adf-to-markdown/nodes/DecisionListConverter.js';
+import { DecisionItemConverter } from './adf-to-markdown/nodes/DecisionItemConverter.js';
+import { LayoutSectionConverter } from './adf-to-markdown/nodes/LayoutSectionConverter.js';
+import { LayoutColumnConverter } from './adf-to-markdown/nodes/LayoutColumnConverter.js';
+import { ExtensionConverter, BodiedExtensionConverter, InlineExtensionConverter } from './adf-to-markdown/nodes/ExtensionConverter.js';
 
 // Import mark converters for legacy support
 import { StrongConverter } from './adf-to-markdown/marks/StrongConverter.js';
@@ -58,6 +76,7 @@ import { UnderlineConverter } from './adf-to-markdown/marks/UnderlineConverter.j
 import { TextColorConverter } from './adf-to-markdown/marks/TextColorConverter.js';
 import { BackgroundColorConverter } from './adf-to-markdown/marks/BackgroundColorConverter.js';
 import { SubsupConverter } from './adf-to-markdown/marks/SubsupConverter.js';
+import { AnnotationConverter } from './adf-to-markdown/marks/AnnotationConverter.js';
 
 /**
  * Main parser class - uses unified conversion engines
@@ -65,6 +84,18 @@ import { SubsupConverter } from './adf-to-markdown/marks/SubsupConverter.js';
 export class Parser {
   private mdToAdfEngine: MarkdownToAdfEngine;
   private adfToMdEngine: AdfToMarkdownEngine;
+  private markdownLossReport: MarkdownLoss[] = [];
+  private unresolvedLinks: UnresolvedLink[] = [];
+  private adfToHtmlEngine: AdfToHtmlEngine;
+  private adfToTextEngine: AdfToTextEngine;
+  private wikiToAdfEngine: WikiMarkupToAdfEngine;
+  private adfToWikiEngine: AdfToWikiMarkupEngine;
+  private wikiMarkupWarnings: string[] = [];
+  private storageToAdfEngine: StorageFormatToAdfEngine;
+  private adfToStorageEngine: AdfToStorageFormatEngine;
+  private storageFormatWarnings: string[] = [];
+  private adfToSlackEngine: AdfToSlackEngine;
+  private adfToAsciiDocEngine: AdfToAsciiDocEngine;
   private options: ConversionOptions;
   private errorRecovery: ErrorRecoveryManager;
   
@@ -79,6 +110,14 @@ export class Parser {
       // Initialize core conversion engines
       this.mdToAdfEngine = new MarkdownToAdfEngine(this.options);
       this.adfToMdEngine = new AdfToMarkdownEngine(this.options);
+      this.adfToHtmlEngine = new AdfToHtmlEngine(this.options);
+      this.adfToTextEngine = new AdfToTextEngine(this.options);
+      this.wikiToAdfEngine = new WikiMarkupToAdfEngine(this.options);
+      this.adfToWikiEngine = new AdfToWikiMarkupEngine(this.options);
+      this.storageToAdfEngine = new StorageFormatToAdfEngine(this.options);
+      this.adfToStorageEngine = new AdfToStorageFormatEngine(this.options);
+      this.adfToSlackEngine = new AdfToSlackEngine(this.options);
+      this.adfToAsciiDocEngine = new AdfToAsciiDocEngine(this.options);
       
       // Initialize error recovery manager
       this.errorRecovery = new ErrorRecoveryManager({
@@ -114,12 +153,202 @@ export class Parser {
   adfToMarkdown(adf: ADFDocument, options?: ConversionOptions): string {
     return measureSync('adfToMarkdown', () => {
       // If options are provided, use a temporary engine with merged options
+      const engine = options && Object.keys(options).length > 0
+        ? new AdfToMarkdownEngine({ ...this.options, ...options })
+        : this.adfToMdEngine;
+      const markdown = engine.convert(adf);
+      this.markdownLossReport = engine.getLossReport();
+      this.unresolvedLinks = engine.getUnresolvedLinks();
+      return markdown;
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to Extended Markdown, waiting for async resolvers (mentionResolver, mediaResolver, linkResolver)
+   */
+  async adfToMarkdownAsync(adf: ADFDocument, options?: ConversionOptions): Promise<string> {
+    return await measureAsync('adfToMarkdownAsync', async () => {
+      // If options are provided, use a temporary engine with merged options
+      const engine = options && Object.keys(options).length > 0
+        ? new AdfToMarkdownEngine({ ...this.options, ...options })
+        : this.adfToMdEngine;
+      const markdown = await engine.convertAsync(adf);
+      this.markdownLossReport = engine.getLossReport();
+      this.unresolvedLinks = engine.getUnresolvedLinks();
+      return markdown;
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * What the most recent ADF to markdown conversion dropped with `markdownProfile: 'clean'`
+   */
+  getMarkdownLossReport(): MarkdownLoss[] {
+    return this.markdownLossReport.map(loss => ({ ...loss }));
+  }
+
+  /**
+   * Convert ADF to HTML
+   * Uses the AdfToHtmlEngine; options such as classPrefix apply to this call only
+   */
+  adfToHtml(adf: ADFDocument, options?: HtmlRenderOptions): string {
+    return measureSync('adfToHtml', () => {
+      if (options && Object.keys(options).length > 0) {
+        return new AdfToHtmlEngine({ ...this.options, ...options }).convert(adf);
+      }
+      return this.adfToHtmlEngine.convert(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to plain text
+   * Uses the AdfToTextEngine; options such as tableFormat and maxLength apply to this call only
+   */
+  adfToText(adf: ADFDocument, options?: TextRenderOptions): string {
+    return measureSync('adfToText', () => {
       if (options && Object.keys(options).length > 0) {
-        const mergedOptions = { ...this.options, ...options };
-        const tempEngine = new AdfToMarkdownEngine(mergedOptions);
-        return tempEngine.convert(adf);
+        return new AdfToTextEngine({ ...this.options, ...options }).convert(adf);
       }
-      return this.adfToMdEngine.convert(adf);
+      return this.adfToTextEngine.convert(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert Jira wiki markup to ADF
+   * Unsupported constructs are kept as text and reported by getWikiMarkupWarnings()
+   */
+  wikiMarkupToAdf(wikiMarkup: string): ADFDocument {
+    return measureSync('wikiMarkupToAdf', () => {
+      const adf = this.wikiToAdfEngine.convert(wikiMarkup);
+      this.wikiMarkupWarnings = this.wikiToAdfEngine.getWarnings();
+      return adf;
+    }, wikiMarkup?.length || 0);
+  }
+
+  /**
+   * Convert ADF to Jira wiki markup
+   * Nodes and marks wiki markup can't express are reported by getWikiMarkupWarnings()
+   */
+  adfToWikiMarkup(adf: ADFDocument): string {
+    return measureSync('adfToWikiMarkup', () => {
+      const wikiMarkup = this.adfToWikiEngine.convert(adf);
+      this.wikiMarkupWarnings = this.adfToWikiEngine.getWarnings();
+      return wikiMarkup;
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Warnings from the most recent wiki markup conversion, in either direction
+   */
+  getWikiMarkupWarnings(): string[] {
+    return [...this.wikiMarkupWarnings];
+  }
+
+  /**
+   * Convert Confluence storage format (XHTML) to ADF
+   * Macros without an ADF node become extensions; other losses are reported by getStorageFormatWarnings()
+   */
+  storageFormatToAdf(storage: string): ADFDocument {
+    return measureSync('storageFormatToAdf', () => {
+      const adf = this.storageToAdfEngine.convert(storage);
+      this.storageFormatWarnings = this.storageToAdfEngine.getWarnings();
+      return adf;
+    }, storage?.length || 0);
+  }
+
+  /**
+   * Convert Confluence storage format to ADF, waiting for async resolvers (mentionResolver, mediaResolver)
+   */
+  async storageFormatToAdfAsync(storage: string): Promise<ADFDocument> {
+    return await measureAsync('storageFormatToAdfAsync', async () => {
+      const adf = await this.storageToAdfEngine.convertAsync(storage);
+      this.storageFormatWarnings = this.storageToAdfEngine.getWarnings();
+      return adf;
+    }, storage?.length || 0);
+  }
+
+  /**
+   * Convert ADF to Confluence storage format (XHTML)
+   * Nodes storage format can't express are reported by getStorageFormatWarnings()
+   */
+  adfToStorageFormat(adf: ADFDocument): string {
+    return measureSync('adfToStorageFormat', () => {
+      const storage = this.adfToStorageEngine.convert(adf);
+      this.storageFormatWarnings = this.adfToStorageEngine.getWarnings();
+      return storage;
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to Confluence storage format, waiting for an async mediaResolver
+   */
+  async adfToStorageFormatAsync(adf: ADFDocument): Promise<string> {
+    return await measureAsync('adfToStorageFormatAsync', async () => {
+      const storage = await this.adfToStorageEngine.convertAsync(adf);
+      this.storageFormatWarnings = this.adfToStorageEngine.getWarnings();
+      return storage;
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Warnings from the most recent storage format conversion, in either direction
+   */
+  getStorageFormatWarnings(): string[] {
+    return [...this.storageFormatWarnings];
+  }
+
+  /**
+   * Convert ADF to Slack mrkdwn, e.g. for the `text` of a message
+   * Mentions of users with a slackUserId from the mentionResolver become `<@U123>`
+   */
+  adfToSlackMrkdwn(adf: ADFDocument): string {
+    return measureSync('adfToSlackMrkdwn', () => {
+      return this.adfToSlackEngine.convert(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to Slack mrkdwn, waiting for async resolvers (mentionResolver, mediaResolver)
+   */
+  async adfToSlackMrkdwnAsync(adf: ADFDocument): Promise<string> {
+    return await measureAsync('adfToSlackMrkdwnAsync', async () => {
+      return await this.adfToSlackEngine.convertAsync(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to Slack Block Kit blocks, within Slack's block and text length limits
+   */
+  adfToSlackBlocks(adf: ADFDocument): SlackBlock[] {
+    return measureSync('adfToSlackBlocks', () => {
+      return this.adfToSlackEngine.convertToBlocks(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to Slack Block Kit blocks, waiting for async resolvers (mentionResolver, mediaResolver)
+   */
+  async adfToSlackBlocksAsync(adf: ADFDocument): Promise<SlackBlock[]> {
+    return await measureAsync('adfToSlackBlocksAsync', async () => {
+      return await this.adfToSlackEngine.convertToBlocksAsync(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to AsciiDoc
+   * Panels become admonitions, expands collapsible blocks and media `image::` macros
+   */
+  adfToAsciiDoc(adf: ADFDocument): string {
+    return measureSync('adfToAsciiDoc', () => {
+      return this.adfToAsciiDocEngine.convert(adf);
+    }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
+  }
+
+  /**
+   * Convert ADF to AsciiDoc, waiting for async resolvers (mentionResolver, mediaResolver)
+   */
+  async adfToAsciiDocAsync(adf: ADFDocument): Promise<string> {
+    return await measureAsync('adfToAsciiDocAsync', async () => {
+      return await this.adfToAsciiDocEngine.convertAsync(adf);
     }, getSafeJSONLength(adf), this.countNodes(adf.content || []));
   }
 
@@ -150,12 +379,12 @@ export class Parser {
   markdownToAdf(markdown: string, options?: ConversionOptions): ADFDocument {
     return measureSync('markdownToAdf', () => {
       // If options are provided, use a temporary engine with merged options
-      if (options && Object.keys(options).length > 0) {
-        const mergedOptions = { ...this.options, ...options };
-        const tempEngine = new MarkdownToAdfEngine(mergedOptions);
-        return tempEngine.convert(markdown);
-      }
-      return this.mdToAdfEngine.convert(markdown);
+      const engine = options && Object.keys(options).length > 0
+        ? new MarkdownToAdfEngine({ ...this.options, ...options })
+        : this.mdToAdfEngine;
+      const adf = engine.convert(markdown);
+      this.unresolvedLinks = engine.getUnresolvedLinks();
+      return adf;
     }, markdown.length);
   }
 
@@ -183,7 +412,13 @@ export class Parser {
    */
   async markdownToAdfAsync(markdown: string, options?: ConversionOptions): Promise<ADFDocument> {
     return await measureAsync('markdownToAdfAsync', async () => {
-      return await this.mdToAdfEngine.convertAsync(markdown);
+      // If options are provided, use a temporary engine with merged options
+      const engine = options && Object.keys(options).length > 0
+        ? new MarkdownToAdfEngine({ ...this.options, ...options })
+        : this.mdToAdfEngine;
+      const adf = await engine.convertAsync(markdown);
+      this.unresolvedLinks = engine.getUnresolvedLinks();
+      return adf;
     }, markdown.length);
   }
 
@@ -261,6 +496,15 @@ export class Parser {
     return new MarkdownValidator().validate(markdown);
   }
 
+  /**
+   * Links the linkResolver could not map in the most recent markdown conversion: relative markdown
+   * links without a page URL (`source: 'markdown'`) or ADF link URLs without a markdown path
+   * (`source: 'adf'`). Every ADF link URL is looked up, so external URLs are listed too.
+   */
+  getUnresolvedLinks(): UnresolvedLink[] {
+    return this.unresolvedLinks.map(link => ({ ...link }));
+  }
+
   /**
    * Get performance statistics for parser operations
    */
@@ -317,6 +561,7 @@ export class Parser {
       new OrderedListConverter(),
       new ListItemConverter(),
       new MediaConverter(),
+      new MediaInlineConverter(),
       new MediaSingleConverter(),
       new TableConverter(),
       new TableRowConverter(),
@@ -332,8 +577,19 @@ export class Parser {
       new EmojiConverter(),
       new StatusConverter(),
       new InlineCardConverter(),
+      new BlockCardConverter(),
+      new EmbedCardConverter(),
       new MediaGroupConverter(),
-      new DocConverter()
+      new DocConverter(),
+      new TaskListConverter(),
+      new TaskItemConverter(),
+      new DecisionListConverter(),
+      new DecisionItemConverter(),
+      new LayoutSectionConverter(),
+      new LayoutColumnConverter(),
+      new ExtensionConverter(),
+      new BodiedExtensionConverter(),
+      new InlineExtensionConverter()
     ]);
     
     // Register mark converters
@@ -346,7 +602,8 @@ export class Parser {
       new UnderlineConverter(),
       new TextColorConverter(),
       new BackgroundColorConverter(),
-      new SubsupConverter()
+      new SubsupConverter(),
+      new AnnotationConverter()
     ]);
   }
   
@@ -0,0 +1,107 @@
+/**
+ * @file Mark converters for AsciiDoc output
+ */
+
+import type { AsciiDocMarkConverter, AsciiDocConversionContext } from '../../types';
+import { linkMacro, passMacro } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * Marks written as a pair of delimiters, optionally with a role (`[.underline]#text#`).
+ * The delimiters are doubled (`**text**`) when the mark touches a word character.
+ */
+class DelimiterMarkConverter implements AsciiDocMarkConverter {
+  constructor(public markType: string, private readonly delimiter: string, private readonly role = '') {}
+
+  toAsciiDoc(text: string, _mark: unknown, context: AsciiDocConversionContext): string {
+    const delimiter = context.unconstrained ? this.delimiter.repeat(2) : this.delimiter;
+    return `${this.role ? `[.${this.role}]` : ''}${delimiter}${text}${delimiter}`;
+  }
+}
+
+export class StrongAsciiDocConverter extends DelimiterMarkConverter {
+  constructor() {
+    super('strong', '*');
+  }
+}
+
+export class EmAsciiDocConverter extends DelimiterMarkConverter {
+  constructor() {
+    super('em', '_');
+  }
+}
+
+export class StrikeAsciiDocConverter extends DelimiterMarkConverter {
+  constructor() {
+    super('strike', '#', 'line-through');
+  }
+}
+
+export class UnderlineAsciiDocConverter extends DelimiterMarkConverter {
+  constructor() {
+    super('underline', '#', 'underline');
+  }
+}
+
+/**
+ * Background colors become highlighted text
+ */
+export class BackgroundColorAsciiDocConverter extends DelimiterMarkConverter {
+  constructor() {
+    super('backgroundColor', '#');
+  }
+}
+
+/**
+ * Literal monospace (`` `+code+` ``), or a pass macro when the code contains `+`. The macro
+ * applies the special characters substitution so `<` and `&` are still shown as written.
+ */
+export class CodeAsciiDocConverter implements AsciiDocMarkConverter {
+  markType = 'code';
+
+  toAsciiDoc(text: string): string {
+    return text.includes('+') ? `\`${passMacro(text)}\`` : `\`+${text}+\``;
+  }
+}
+
+export class SubsupAsciiDocConverter implements AsciiDocMarkConverter {
+  markType = 'subsup';
+
+  toAsciiDoc(text: string, mark: any): string {
+    return (mark as { attrs?: { type?: string } }).attrs?.type === 'sub' ? `~${text}~` : `^${text}^`;
+  }
+}
+
+export class LinkAsciiDocConverter implements AsciiDocMarkConverter {
+  markType = 'link';
+
+  toAsciiDoc(text: string, mark: any): string {
+    const href = String((mark as { attrs?: { href?: string } }).attrs?.href || '');
+    if (!href) {
+      return text;
+    }
+    return href === text ? linkMacro(href) : linkMacro(href, text);
+  }
+}
+
+/**
+ * Marks with no AsciiDoc equivalent keep their text
+ */
+class TextOnlyMarkConverter implements AsciiDocMarkConverter {
+  constructor(public markType: string) {}
+
+  toAsciiDoc(text: string): string {
+    return text;
+  }
+}
+
+export class TextColorAsciiDocConverter extends TextOnlyMarkConverter {
+  constructor() {
+    super('textColor');
+  }
+}
+
+export class AnnotationAsciiDocConverter extends TextOnlyMarkConverter {
+  constructor() {
+    super('annotation');
+  }
+}
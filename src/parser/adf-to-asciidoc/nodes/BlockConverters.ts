@@ -0,0 +1,93 @@
+/**
+ * @file Basic block node converters for AsciiDoc output (doc, paragraph, heading, blockquote, rule, hardBreak, codeBlock)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, CodeBlockNode, HeadingNode } from '../../../types';
+import { convertBlocks, delimitedBlock, escapeBlockStarts } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * Document root: top-level blocks separated by blank lines
+ */
+export class DocAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'doc';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return convertBlocks(node.content || [], context);
+  }
+}
+
+export class ParagraphAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'paragraph';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return escapeBlockStarts(context.convertChildren(node.content || []));
+  }
+}
+
+/**
+ * ADF heading levels 1-6 become section levels 1-5, below the page title (`= Title`):
+ * ```asciidoc
+ * == Heading 1
+ * ```
+ */
+export class HeadingAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'heading';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const level = Math.min(Math.max(Number((node as HeadingNode).attrs?.level) || 1, 1), 5);
+    const text = context.convertChildren(node.content || []).replace(/ \+\n/g, ' ').replace(/\n/g, ' ');
+    return `${'='.repeat(level + 1)} ${text}`;
+  }
+}
+
+/**
+ * ```asciidoc
+ * ____
+ * Quoted text
+ * ____
+ * ```
+ */
+export class BlockquoteAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'blockquote';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return delimitedBlock('_', convertBlocks(node.content || [], context));
+  }
+}
+
+export class RuleAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'rule';
+
+  toAsciiDoc(): string {
+    return "'''";
+  }
+}
+
+export class HardBreakAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'hardBreak';
+
+  toAsciiDoc(): string {
+    return ' +\n';
+  }
+}
+
+/**
+ * Listing blocks keep the code block's language:
+ * ```asciidoc
+ * [source,js]
+ * ----
+ * const a = 1;
+ * ----
+ * ```
+ */
+export class CodeBlockAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'codeBlock';
+
+  toAsciiDoc(node: ADFNode): string {
+    const codeBlockNode = node as CodeBlockNode;
+    const code = (codeBlockNode.content || []).map(child => child.text || '').join('');
+    const language = /^[\w+#.-]+$/.test(codeBlockNode.attrs?.language || '') ? codeBlockNode.attrs?.language : undefined;
+    return `${language ? `[source,${language}]` : '[source]'}\n${delimitedBlock('-', code)}`;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file Smart card and extension node converters for AsciiDoc output
+ * (inlineCard, blockCard, embedCard, extension, bodiedExtension, inlineExtension)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, ExtensionNode } from '../../../types';
+import { convertBlocks, linkMacro } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * Cards become links to their URL, titled with the card data's name when there is one
+ */
+function cardToAsciiDoc(node: ADFNode): string {
+  const { url, data } = node.attrs || {};
+  if (!url) {
+    return '';
+  }
+  const { name, title } = (data || {}) as { name?: string; title?: string };
+  return linkMacro(String(url), String(name || title || ''));
+}
+
+export class InlineCardAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'inlineCard';
+
+  toAsciiDoc(node: ADFNode): string {
+    return cardToAsciiDoc(node);
+  }
+}
+
+export class BlockCardAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'blockCard';
+
+  toAsciiDoc(node: ADFNode): string {
+    return cardToAsciiDoc(node);
+  }
+}
+
+export class EmbedCardAsciiDocConverter extends BlockCardAsciiDocConverter {
+  nodeType = 'embedCard';
+}
+
+/**
+ * Extensions can't be rendered outside their host product. They are kept as a comment with the
+ * extension key, followed by the body of bodied extensions:
+ * ```asciidoc
+ * // extension: toc
+ * ```
+ */
+export class ExtensionAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'extension';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const key = (node as ExtensionNode).attrs?.extensionKey;
+    const comment = `// extension: ${key || 'unknown'}`;
+    const body = convertBlocks(node.content || [], context);
+    return body ? `${comment}\n${body}` : comment;
+  }
+}
+
+export class BodiedExtensionAsciiDocConverter extends ExtensionAsciiDocConverter {
+  nodeType = 'bodiedExtension';
+}
+
+/**
+ * Inline extensions have no inline equivalent and are dropped
+ */
+export class InlineExtensionAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'inlineExtension';
+
+  toAsciiDoc(): string {
+    return '';
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file Container node converters for AsciiDoc output (panel, expand, nestedExpand, layoutSection, layoutColumn)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, PanelNode, ExpandNode } from '../../../types';
+import { ADMONITION_LABELS, convertBlocks, delimitedBlock, escapeAsciiDocText } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * Panels become admonition blocks: info as NOTE, note as IMPORTANT, success as TIP,
+ * warning as WARNING and error as CAUTION:
+ * ```asciidoc
+ * [WARNING]
+ * ====
+ * Content
+ * ====
+ * ```
+ */
+export class PanelAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'panel';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const panelType = (node as PanelNode).attrs?.panelType as string;
+    const label = ADMONITION_LABELS[panelType] || ADMONITION_LABELS.info;
+    return `[${label}]\n${delimitedBlock('=', convertBlocks(node.content || [], context))}`;
+  }
+}
+
+/**
+ * Expands become collapsible blocks:
+ * ```asciidoc
+ * .Title
+ * [%collapsible]
+ * ====
+ * Content
+ * ====
+ * ```
+ */
+export class ExpandAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'expand';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const title = (node as ExpandNode).attrs?.title;
+    const body = delimitedBlock('=', convertBlocks(node.content || [], context));
+    return `${title ? `.${escapeAsciiDocText(title)}\n` : ''}[%collapsible]\n${body}`;
+  }
+}
+
+export class NestedExpandAsciiDocConverter extends ExpandAsciiDocConverter {
+  nodeType = 'nestedExpand';
+}
+
+/**
+ * AsciiDoc has no columns; layout columns follow one another
+ */
+export class LayoutSectionAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'layoutSection';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return convertBlocks(node.content || [], context);
+  }
+}
+
+export class LayoutColumnAsciiDocConverter extends LayoutSectionAsciiDocConverter {
+  nodeType = 'layoutColumn';
+}
@@ -0,0 +1,100 @@
+/**
+ * @file Inline node converters for AsciiDoc output (text, mention, emoji, date, status)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, TextNode } from '../../../types';
+import { escapeAsciiDocText } from '../../../utils/asciidoc-utils.js';
+
+const STATUS_COLORS = ['neutral', 'purple', 'blue', 'red', 'yellow', 'green'];
+
+/**
+ * Whether the text of a sibling node touches a mark at its start or end with a word character
+ */
+function touchesWordCharacter(sibling: ADFNode | undefined, atEnd: boolean): boolean {
+  const text = sibling?.type === 'text' ? sibling.text || '' : '';
+  return /\w/.test(atEnd ? text.slice(-1) : text.charAt(0));
+}
+
+/**
+ * Escaped text with its marks applied in order. Formatting marks only work next to
+ * non-space characters, so surrounding whitespace is kept outside them; code is not escaped.
+ * Marks touching a word character in the surrounding text (`**no**ted`) are unconstrained.
+ */
+export class TextAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'text';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const textNode = node as TextNode;
+    const text = textNode.text || '';
+    const marks = textNode.marks || [];
+    const [, leading, content, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) || ['', '', text, ''];
+
+    if (!content || marks.length === 0) {
+      return escapeAsciiDocText(text);
+    }
+
+    const siblings = context.parent?.content || [];
+    const index = siblings.indexOf(node);
+    const unconstrained = (!leading && touchesWordCharacter(siblings[index - 1], true))
+      || (!trailing && touchesWordCharacter(siblings[index + 1], false));
+    const markContext = unconstrained ? { ...context, unconstrained } : context;
+
+    let result = marks.some(mark => mark.type === 'code') ? content : escapeAsciiDocText(content);
+    for (const mark of marks) {
+      const markConverter = context.options.registry?.getMarkConverter(mark.type);
+      if (markConverter) {
+        result = markConverter.toAsciiDoc(result, mark, markContext);
+      }
+    }
+
+    return `${leading}${result}${trailing}`;
+  }
+}
+
+export class MentionAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'mention';
+
+  toAsciiDoc(node: ADFNode): string {
+    const { id, text } = node.attrs || {};
+    const displayText = String(text || `@${id || 'unknown'}`);
+    return escapeAsciiDocText(displayText.startsWith('@') ? displayText : `@${displayText}`);
+  }
+}
+
+export class EmojiAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'emoji';
+
+  toAsciiDoc(node: ADFNode): string {
+    const { shortName, text } = node.attrs || {};
+    return String(text || shortName || '');
+  }
+}
+
+export class DateAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'date';
+
+  toAsciiDoc(node: ADFNode): string {
+    const date = new Date(parseInt(String(node.attrs?.timestamp)));
+    return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+  }
+}
+
+/**
+ * Status lozenges become text with roles for styling:
+ * ```asciidoc
+ * [.status.status-green]#DONE#
+ * ```
+ */
+export class StatusAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'status';
+
+  toAsciiDoc(node: ADFNode): string {
+    const { text, color } = node.attrs || {};
+    if (!text) {
+      return '';
+    }
+    const statusColor = STATUS_COLORS.includes(String(color)) ? String(color) : 'neutral';
+    return `[.status.status-${statusColor}]#${escapeAsciiDocText(String(text))}#`;
+  }
+}
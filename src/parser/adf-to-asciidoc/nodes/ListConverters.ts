@@ -0,0 +1,123 @@
+/**
+ * @file List node converters for AsciiDoc output (bullet, ordered, task and decision lists)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, OrderedListNode, TaskItemNode } from '../../../types';
+import { LIST_NODE_TYPES } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * Nesting repeats the marker: `*`, `**` for bullets and `.`, `..` for numbered items
+ */
+function listMarker(context: AsciiDocConversionContext): string {
+  const marker = context.parent?.type === 'orderedList' ? '.' : '*';
+  return marker.repeat(Math.max(context.listDepth, 1));
+}
+
+export class BulletListAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'bulletList';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return (node.content || []).map(item => context.convertChildren([item])).join('\n');
+  }
+}
+
+/**
+ * ```asciidoc
+ * [start=3]
+ * . Third
+ * . Fourth
+ * ```
+ */
+export class OrderedListAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'orderedList';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const order = Number((node as OrderedListNode).attrs?.order);
+    const items = (node.content || []).map(item => context.convertChildren([item])).join('\n');
+    return Number.isInteger(order) && order > 1 ? `[start=${order}]\n${items}` : items;
+  }
+}
+
+/**
+ * Levels of nesting still open at the end of a list: each item's last nested list adds one
+ */
+function openListDepth(list: ADFNode): number {
+  const lastItem = list.content?.[list.content.length - 1];
+  const lastChild = lastItem?.content?.[lastItem.content.length - 1];
+  return 1 + (lastChild && LIST_NODE_TYPES.has(lastChild.type) ? openListDepth(lastChild) : 0);
+}
+
+/**
+ * The first paragraph follows the marker; further blocks are attached with `+` list
+ * continuations and nested lists follow directly. A block after a nested list gets one empty
+ * line above its `+` per nesting level to close, so it attaches to this item:
+ * ```asciidoc
+ * * Item
+ * +
+ * [source]
+ * ----
+ * code
+ * ----
+ * ** Nested item
+ *
+ * +
+ * More text for Item
+ * ```
+ */
+export class ListItemAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'listItem';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const children = node.content || [];
+    let text = children[0]?.type === 'paragraph' ? context.convertChildren([children[0]]) : '{blank}';
+
+    let previousList: ADFNode | undefined;
+    for (const child of children[0]?.type === 'paragraph' ? children.slice(1) : children) {
+      const rendered = context.convertChildren([child]);
+      if (!rendered) continue;
+      if (LIST_NODE_TYPES.has(child.type)) {
+        text += `\n${rendered}`;
+        previousList = child;
+      } else {
+        text += `\n${previousList ? '\n'.repeat(openListDepth(previousList)) : ''}+\n${rendered}`;
+        previousList = undefined;
+      }
+    }
+
+    return `${listMarker(context)} ${text || '{blank}'}`;
+  }
+}
+
+/**
+ * Task lists become checklists:
+ * ```asciidoc
+ * * [x] Done
+ * * [ ] To do
+ * ```
+ */
+export class TaskListAsciiDocConverter extends BulletListAsciiDocConverter {
+  nodeType = 'taskList';
+}
+
+export class TaskItemAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'taskItem';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const checkbox = (node as TaskItemNode).attrs?.state === 'DONE' ? '[x]' : '[ ]';
+    const text = context.convertChildren(node.content || []);
+    return `${listMarker(context)} ${checkbox}${text ? ` ${text}` : ''}`;
+  }
+}
+
+export class DecisionListAsciiDocConverter extends BulletListAsciiDocConverter {
+  nodeType = 'decisionList';
+}
+
+export class DecisionItemAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'decisionItem';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return `${listMarker(context)} ${context.convertChildren(node.content || []) || '{blank}'}`;
+  }
+}
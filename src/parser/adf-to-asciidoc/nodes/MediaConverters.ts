@@ -0,0 +1,89 @@
+/**
+ * @file Media node converters for AsciiDoc output (media, mediaInline, mediaSingle, mediaGroup, caption)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode } from '../../../types';
+import { convertBlocks, macroText } from '../../../utils/asciidoc-utils.js';
+
+/**
+ * The image macro for media. The target is the external URL or the path from the media
+ * resolver; other file media are referenced by alt text (usually the attachment filename) or id.
+ */
+function imageMacro(node: ADFNode, prefix: 'image:' | 'image::', context: AsciiDocConversionContext): string {
+  const attrs = node.attrs || {};
+  const resolved = typeof attrs.id === 'string' ? context.options.mediaCache?.resolveIdSync(attrs.id) : null;
+  const target = String((attrs.type === 'external' ? attrs.url : resolved || attrs.alt || attrs.id) || '')
+    .replace(/ /g, '%20')
+    .replace(/\[/g, '%5B');
+
+  if (!target) {
+    return '';
+  }
+
+  const options = [
+    attrs.alt ? macroText(String(attrs.alt)) : '',
+    Number(attrs.width) > 0 ? `width=${Number(attrs.width)}` : '',
+    Number(attrs.height) > 0 ? `height=${Number(attrs.height)}` : ''
+  ];
+  while (options.length > 0 && !options[options.length - 1]) {
+    options.pop();
+  }
+  return `${prefix}${target}[${options.join(',')}]`;
+}
+
+/**
+ * ```asciidoc
+ * image::https://example.com/diagram.png[Diagram,width=400]
+ * ```
+ */
+export class MediaAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'media';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return imageMacro(node, 'image::', context);
+  }
+}
+
+export class MediaInlineAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'mediaInline';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return imageMacro(node, 'image:', context);
+  }
+}
+
+/**
+ * The caption becomes the image's block title:
+ * ```asciidoc
+ * .Caption
+ * image::diagram.png[Diagram]
+ * ```
+ */
+export class MediaSingleAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'mediaSingle';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const content = node.content || [];
+    const caption = content.find(child => child.type === 'caption');
+    const image = convertBlocks(content.filter(child => child.type !== 'caption'), context);
+    const title = caption ? context.convertChildren([caption]).replace(/ \+\n|\n/g, ' ') : '';
+    return image && title ? `.${title}\n${image}` : image;
+  }
+}
+
+export class CaptionAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'caption';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return context.convertChildren(node.content || []);
+  }
+}
+
+export class MediaGroupAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'mediaGroup';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return convertBlocks(node.content || [], context);
+  }
+}
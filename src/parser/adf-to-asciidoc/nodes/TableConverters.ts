@@ -0,0 +1,72 @@
+/**
+ * @file Table node converters for AsciiDoc output (table, tableRow, tableHeader, tableCell)
+ */
+
+import type { AsciiDocNodeConverter, AsciiDocConversionContext } from '../../types';
+import type { ADFNode, TableCellNode } from '../../../types';
+import { convertBlocks } from '../../../utils/asciidoc-utils.js';
+
+function isHeaderRow(row: ADFNode | undefined): boolean {
+  return !!row?.content?.length && row.content.every(cell => cell.type === 'tableHeader');
+}
+
+/**
+ * A first row of header cells becomes the table header:
+ * ```asciidoc
+ * [cols="2*",options="header"]
+ * |===
+ * | Name
+ * | Value
+ *
+ * 2+| Spans both columns
+ * |===
+ * ```
+ */
+export class TableAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'table';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const rows = node.content || [];
+    const columns = Math.max(1, ...rows.map(row => (row.content || [])
+      .reduce((sum, cell) => sum + Math.max(1, Number(cell.attrs?.colspan) || 1), 0)));
+
+    const attrs = [`cols="${columns}*"`, isHeaderRow(rows[0]) && 'options="header"'].filter(Boolean).join(',');
+    const body = rows.map(row => context.convertChildren([row])).join('\n\n');
+    return `[${attrs}]\n|===\n${body}\n|===`;
+  }
+}
+
+export class TableRowAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'tableRow';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    return (node.content || []).map(cell => context.convertChildren([cell])).join('\n');
+  }
+}
+
+/**
+ * Cells are written one per line with their span (`2+|`, `.3+|`, `2.3+|`). Cells with more
+ * than one paragraph use the AsciiDoc cell style (`a|`); header cells outside the header row
+ * use the header style (`h|`).
+ */
+export class TableCellAsciiDocConverter implements AsciiDocNodeConverter {
+  nodeType = 'tableCell';
+
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string {
+    const cellAttrs: TableCellNode['attrs'] = (node as TableCellNode).attrs || {};
+    const colspan = Number(cellAttrs.colspan) > 1 ? String(cellAttrs.colspan) : '';
+    const rowspan = Number(cellAttrs.rowspan) > 1 ? `.${cellAttrs.rowspan}` : '';
+    const span = colspan || rowspan ? `${colspan}${rowspan}+` : '';
+
+    const content = node.content || [];
+    const simple = content.length === 0 || (content.length === 1 && content[0].type === 'paragraph');
+    const style = !simple ? 'a' : node.type === 'tableHeader' && !isHeaderRow(context.parent) ? 'h' : '';
+
+    const text = (simple ? context.convertChildren(content) : convertBlocks(content, context)).replace(/\|/g, '\\|');
+    return `${span}${style}|${text ? ` ${text}` : ''}`;
+  }
+}
+
+export class TableHeaderAsciiDocConverter extends TableCellAsciiDocConverter {
+  nodeType = 'tableHeader';
+}
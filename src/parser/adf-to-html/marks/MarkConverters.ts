@@ -0,0 +1,107 @@
+/**
+ * @file Mark converters for HTML output
+ */
+
+import type { HtmlMarkConverter, HtmlConversionContext } from '../../types';
+import { htmlAttributes, htmlClass, sanitizeColor, sanitizeUrl } from '../../../utils/html-utils.js';
+
+/**
+ * Marks that map to a single HTML element
+ */
+class ElementMarkConverter implements HtmlMarkConverter {
+  constructor(public markType: string, private readonly tagName: string) {}
+
+  toHtml(html: string): string {
+    return `<${this.tagName}>${html}</${this.tagName}>`;
+  }
+}
+
+export class StrongHtmlConverter extends ElementMarkConverter {
+  constructor() {
+    super('strong', 'strong');
+  }
+}
+
+export class EmHtmlConverter extends ElementMarkConverter {
+  constructor() {
+    super('em', 'em');
+  }
+}
+
+export class CodeHtmlConverter extends ElementMarkConverter {
+  constructor() {
+    super('code', 'code');
+  }
+}
+
+export class StrikeHtmlConverter extends ElementMarkConverter {
+  constructor() {
+    super('strike', 's');
+  }
+}
+
+export class UnderlineHtmlConverter extends ElementMarkConverter {
+  constructor() {
+    super('underline', 'u');
+  }
+}
+
+/**
+ * Links with an unsafe href (`javascript:` and the like) keep their text only
+ */
+export class LinkHtmlConverter implements HtmlMarkConverter {
+  markType = 'link';
+
+  toHtml(html: string, mark: any): string {
+    const href = sanitizeUrl(mark.attrs?.href);
+    if (!href) {
+      return html;
+    }
+    return `<a${htmlAttributes({ href, title: mark.attrs?.title })}>${html}</a>`;
+  }
+}
+
+export class TextColorHtmlConverter implements HtmlMarkConverter {
+  markType = 'textColor';
+
+  toHtml(html: string, mark: any): string {
+    const color = sanitizeColor(mark.attrs?.color);
+    return color ? `<span${htmlAttributes({ style: `color: ${color}` })}>${html}</span>` : html;
+  }
+}
+
+export class BackgroundColorHtmlConverter implements HtmlMarkConverter {
+  markType = 'backgroundColor';
+
+  toHtml(html: string, mark: any): string {
+    const color = sanitizeColor(mark.attrs?.color);
+    return color ? `<span${htmlAttributes({ style: `background-color: ${color}` })}>${html}</span>` : html;
+  }
+}
+
+export class SubsupHtmlConverter implements HtmlMarkConverter {
+  markType = 'subsup';
+
+  toHtml(html: string, mark: any): string {
+    const tagName = mark.attrs?.type === 'sub' ? 'sub' : 'sup';
+    return `<${tagName}>${html}</${tagName}>`;
+  }
+}
+
+/**
+ * ```html
+ * <span class="adf-annotation" data-annotation-id="..." data-annotation-type="inlineComment">text</span>
+ * ```
+ */
+export class AnnotationHtmlConverter implements HtmlMarkConverter {
+  markType = 'annotation';
+
+  toHtml(html: string, mark: any, context: HtmlConversionContext): string {
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'annotation'),
+      'data-annotation-id': mark.attrs?.id,
+      'data-annotation-type': mark.attrs?.annotationType
+    });
+    return `<span${attrs}>${html}</span>`;
+  }
+}
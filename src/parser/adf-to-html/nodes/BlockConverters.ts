@@ -0,0 +1,96 @@
+/**
+ * @file Basic block node converters for HTML output (doc, paragraph, heading, blockquote, rule, hardBreak, codeBlock)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, CodeBlockNode, HeadingNode } from '../../../types';
+import { escapeHtml, htmlAttributes, htmlClass, htmlStyle, blockMarkStyles, breakoutMode } from '../../../utils/html-utils.js';
+
+/**
+ * Document root: top-level blocks, one per line
+ */
+export class DocHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'doc';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return (node.content || []).map(child => context.convertChildren([child])).filter(Boolean).join('\n');
+  }
+}
+
+/**
+ * ```html
+ * <p style="text-align: center">text</p>
+ * ```
+ */
+export class ParagraphHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'paragraph';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const style = htmlStyle(...blockMarkStyles(node.marks));
+    return `<p${htmlAttributes({ style })}>${context.convertChildren(node.content || [])}</p>`;
+  }
+}
+
+/**
+ * ```html
+ * <h2>text</h2>
+ * ```
+ */
+export class HeadingHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'heading';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const headingNode = node as HeadingNode;
+    const level = Math.min(Math.max(Number(headingNode.attrs?.level) || 1, 1), 6);
+    const style = htmlStyle(...blockMarkStyles(node.marks));
+    return `<h${level}${htmlAttributes({ style })}>${context.convertChildren(node.content || [])}</h${level}>`;
+  }
+}
+
+export class BlockquoteHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'blockquote';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<blockquote>${context.convertChildren(node.content || [])}</blockquote>`;
+  }
+}
+
+export class RuleHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'rule';
+
+  toHtml(): string {
+    return '<hr>';
+  }
+}
+
+export class HardBreakHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'hardBreak';
+
+  toHtml(): string {
+    return '<br>';
+  }
+}
+
+/**
+ * ```html
+ * <pre class="adf-code-block" data-language="js"><code class="language-js">const a = 1;</code></pre>
+ * ```
+ */
+export class CodeBlockHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'codeBlock';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const codeBlockNode = node as CodeBlockNode;
+    const code = (codeBlockNode.content || []).map(child => child.text || '').join('');
+    // The language also becomes a class name, so it is limited to name-like characters
+    const language = /^[\w+#.-]+$/.test(codeBlockNode.attrs?.language || '') ? codeBlockNode.attrs?.language : undefined;
+
+    const preAttrs = htmlAttributes({
+      class: htmlClass(context, 'code-block'),
+      'data-language': language,
+      'data-breakout-mode': breakoutMode(node.marks)
+    });
+    const codeAttrs = htmlAttributes({ class: language && `language-${language}` });
+    return `<pre${preAttrs}><code${codeAttrs}>${escapeHtml(code)}</code></pre>`;
+  }
+}
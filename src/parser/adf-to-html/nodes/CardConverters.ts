@@ -0,0 +1,89 @@
+/**
+ * @file Smart card and extension node converters for HTML output
+ * (inlineCard, blockCard, embedCard, extension, bodiedExtension, inlineExtension)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, ExtensionNode } from '../../../types';
+import { escapeHtml, htmlAttributes, htmlClass, sanitizeUrl } from '../../../utils/html-utils.js';
+
+/**
+ * Cards render as links to their URL, titled with the card data's name when there is one
+ */
+function cardToHtml(node: ADFNode, className: string, context: HtmlConversionContext): string {
+  const { url, data, layout } = node.attrs || {};
+  const href = sanitizeUrl(url);
+  const title = data?.name || data?.title || url || 'Card';
+  const link = href
+    ? `<a${htmlAttributes({ class: htmlClass(context, className), href })}>${escapeHtml(String(title))}</a>`
+    : `<span${htmlAttributes({ class: htmlClass(context, className) })}>${escapeHtml(String(title))}</span>`;
+
+  if (node.type === 'inlineCard') {
+    return link;
+  }
+  return `<div${htmlAttributes({ class: htmlClass(context, `${className}-container`), 'data-layout': layout })}>${link}</div>`;
+}
+
+/**
+ * ```html
+ * <a class="adf-inline-card" href="https://example.com">https://example.com</a>
+ * ```
+ */
+export class InlineCardHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'inlineCard';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return cardToHtml(node, 'inline-card', context);
+  }
+}
+
+/**
+ * ```html
+ * <div class="adf-block-card-container"><a class="adf-block-card" href="https://example.com">https://example.com</a></div>
+ * ```
+ */
+export class BlockCardHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'blockCard';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return cardToHtml(node, 'block-card', context);
+  }
+}
+
+export class EmbedCardHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'embedCard';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return cardToHtml(node, 'embed-card', context);
+  }
+}
+
+/**
+ * Extensions can't be rendered outside their host product; they become elements carrying the
+ * extension type and key, with the body of bodied extensions inside:
+ * ```html
+ * <div class="adf-extension" data-extension-type="com.atlassian.confluence.macro.core" data-extension-key="toc"></div>
+ * ```
+ */
+export class ExtensionHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'extension';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const extensionNode = node as ExtensionNode;
+    const tag = node.type === 'inlineExtension' ? 'span' : 'div';
+    const attrs = htmlAttributes({
+      class: htmlClass(context, node.type === 'bodiedExtension' ? 'bodied-extension' : node.type === 'inlineExtension' ? 'inline-extension' : 'extension'),
+      'data-extension-type': extensionNode.attrs?.extensionType,
+      'data-extension-key': extensionNode.attrs?.extensionKey
+    });
+    return `<${tag}${attrs}>${context.convertChildren(node.content || [])}</${tag}>`;
+  }
+}
+
+export class BodiedExtensionHtmlConverter extends ExtensionHtmlConverter {
+  nodeType = 'bodiedExtension';
+}
+
+export class InlineExtensionHtmlConverter extends ExtensionHtmlConverter {
+  nodeType = 'inlineExtension';
+}
@@ -0,0 +1,87 @@
+/**
+ * @file Container node converters for HTML output (panel, expand, nestedExpand, layoutSection, layoutColumn)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, PanelNode, ExpandNode, LayoutColumnNode } from '../../../types';
+import { escapeHtml, htmlAttributes, htmlClass, htmlStyle, sanitizeColor, breakoutMode } from '../../../utils/html-utils.js';
+
+const PANEL_TYPES = ['info', 'note', 'warning', 'error', 'success', 'custom'];
+
+/**
+ * Panels get a type class; custom panels also carry their icon and background color:
+ * ```html
+ * <div class="adf-panel adf-panel-info" data-panel-type="info">...</div>
+ * <div class="adf-panel adf-panel-custom" data-panel-type="custom" data-panel-icon=":rocket:" style="background-color: #E3FCEF">...</div>
+ * ```
+ */
+export class PanelHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'panel';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const attrs: Partial<PanelNode['attrs']> = (node as PanelNode).attrs || {};
+    const panelType = PANEL_TYPES.includes(attrs.panelType as string) ? attrs.panelType : 'info';
+    const color = sanitizeColor(attrs.panelColor);
+
+    const panelAttrs = htmlAttributes({
+      class: htmlClass(context, 'panel', `panel-${panelType}`),
+      'data-panel-type': panelType,
+      'data-panel-icon': attrs.panelIcon,
+      style: htmlStyle(color && `background-color: ${color}`)
+    });
+    return `<div${panelAttrs}>${context.convertChildren(node.content || [])}</div>`;
+  }
+}
+
+/**
+ * ```html
+ * <details class="adf-expand"><summary>Title</summary>...</details>
+ * ```
+ */
+export class ExpandHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'expand';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const expandNode = node as ExpandNode;
+    const attrs = htmlAttributes({
+      class: htmlClass(context, node.type === 'nestedExpand' ? 'nested-expand' : 'expand'),
+      'data-breakout-mode': breakoutMode(node.marks)
+    });
+    const summary = `<summary>${escapeHtml(expandNode.attrs?.title || '')}</summary>`;
+    return `<details${attrs}>${summary}${context.convertChildren(node.content || [])}</details>`;
+  }
+}
+
+export class NestedExpandHtmlConverter extends ExpandHtmlConverter {
+  nodeType = 'nestedExpand';
+}
+
+/**
+ * ```html
+ * <div class="adf-layout-section"><div class="adf-layout-column" style="flex-basis: 50%">...</div>...</div>
+ * ```
+ */
+export class LayoutSectionHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'layoutSection';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'layout-section'),
+      'data-breakout-mode': breakoutMode(node.marks)
+    });
+    return `<div${attrs}>${context.convertChildren(node.content || [])}</div>`;
+  }
+}
+
+export class LayoutColumnHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'layoutColumn';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const width = Number((node as LayoutColumnNode).attrs?.width);
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'layout-column'),
+      style: htmlStyle(width > 0 && `flex-basis: ${width}%`)
+    });
+    return `<div${attrs}>${context.convertChildren(node.content || [])}</div>`;
+  }
+}
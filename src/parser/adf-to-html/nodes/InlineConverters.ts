@@ -0,0 +1,103 @@
+/**
+ * @file Inline node converters for HTML output (text, mention, emoji, date, status)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, TextNode } from '../../../types';
+import { escapeHtml, htmlAttributes, htmlClass } from '../../../utils/html-utils.js';
+
+const STATUS_COLORS = ['neutral', 'purple', 'blue', 'red', 'yellow', 'green'];
+
+/**
+ * Escaped text with its marks applied in order
+ */
+export class TextHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'text';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const textNode = node as TextNode;
+    let html = escapeHtml(textNode.text || '');
+
+    for (const mark of textNode.marks || []) {
+      const markConverter = context.options.registry?.getMarkConverter(mark.type);
+      if (markConverter) {
+        html = markConverter.toHtml(html, mark, context);
+      }
+    }
+
+    return html;
+  }
+}
+
+/**
+ * ```html
+ * <span class="adf-mention" data-mention-id="5b10a2844c20165700ede21g">@Alice Smith</span>
+ * ```
+ */
+export class MentionHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'mention';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const { id, text } = node.attrs || {};
+    const displayText = text || `@${id || 'unknown'}`;
+    const attrs = htmlAttributes({ class: htmlClass(context, 'mention'), 'data-mention-id': id });
+    return `<span${attrs}>${escapeHtml(displayText.startsWith('@') ? displayText : `@${displayText}`)}</span>`;
+  }
+}
+
+/**
+ * ```html
+ * <span class="adf-emoji" data-emoji-short-name=":smile:">😄</span>
+ * ```
+ */
+export class EmojiHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'emoji';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const { shortName, id, text } = node.attrs || {};
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'emoji'),
+      'data-emoji-short-name': shortName,
+      'data-emoji-id': id
+    });
+    return `<span${attrs}>${escapeHtml(text || shortName || '')}</span>`;
+  }
+}
+
+/**
+ * ```html
+ * <time class="adf-date" datetime="2024-03-15">2024-03-15</time>
+ * ```
+ */
+export class DateHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'date';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const date = new Date(parseInt(node.attrs?.timestamp));
+    const className = htmlClass(context, 'date');
+
+    if (isNaN(date.getTime())) {
+      return `<span${htmlAttributes({ class: className })}>Invalid Date</span>`;
+    }
+
+    const dateString = date.toISOString().split('T')[0];
+    return `<time${htmlAttributes({ class: className, datetime: dateString })}>${dateString}</time>`;
+  }
+}
+
+/**
+ * Status lozenges get a color class:
+ * ```html
+ * <span class="adf-status adf-status-green">DONE</span>
+ * ```
+ */
+export class StatusHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'status';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const { text, color } = node.attrs || {};
+    const statusColor = STATUS_COLORS.includes(color) ? color : 'neutral';
+    const attrs = htmlAttributes({ class: htmlClass(context, 'status', `status-${statusColor}`) });
+    return `<span${attrs}>${escapeHtml(text || '')}</span>`;
+  }
+}
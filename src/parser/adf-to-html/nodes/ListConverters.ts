@@ -0,0 +1,81 @@
+/**
+ * @file List node converters for HTML output (bullet, ordered, task and decision lists)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, OrderedListNode, TaskItemNode, DecisionItemNode } from '../../../types';
+import { htmlAttributes, htmlClass } from '../../../utils/html-utils.js';
+
+export class BulletListHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'bulletList';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<ul>${context.convertChildren(node.content || [])}</ul>`;
+  }
+}
+
+export class OrderedListHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'orderedList';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const order = Number((node as OrderedListNode).attrs?.order);
+    const start = Number.isInteger(order) && order !== 1 ? order : undefined;
+    return `<ol${htmlAttributes({ start })}>${context.convertChildren(node.content || [])}</ol>`;
+  }
+}
+
+export class ListItemHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'listItem';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<li>${context.convertChildren(node.content || [])}</li>`;
+  }
+}
+
+/**
+ * ```html
+ * <ul class="adf-task-list"><li class="adf-task-item" data-state="DONE"><input type="checkbox" disabled checked> text</li></ul>
+ * ```
+ */
+export class TaskListHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'taskList';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<ul${htmlAttributes({ class: htmlClass(context, 'task-list') })}>${context.convertChildren(node.content || [])}</ul>`;
+  }
+}
+
+export class TaskItemHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'taskItem';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const state = (node as TaskItemNode).attrs?.state === 'DONE' ? 'DONE' : 'TODO';
+    const checkbox = `<input${htmlAttributes({ type: 'checkbox', disabled: true, checked: state === 'DONE' })}>`;
+    const attrs = htmlAttributes({ class: htmlClass(context, 'task-item'), 'data-state': state });
+    const content = context.convertChildren(node.content || []);
+    return `<li${attrs}>${checkbox}${content ? ` ${content}` : ''}</li>`;
+  }
+}
+
+/**
+ * ```html
+ * <ul class="adf-decision-list"><li class="adf-decision-item" data-state="DECIDED">text</li></ul>
+ * ```
+ */
+export class DecisionListHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'decisionList';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<ul${htmlAttributes({ class: htmlClass(context, 'decision-list') })}>${context.convertChildren(node.content || [])}</ul>`;
+  }
+}
+
+export class DecisionItemHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'decisionItem';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const state = (node as DecisionItemNode).attrs?.state === 'UNDECIDED' ? 'UNDECIDED' : 'DECIDED';
+    const attrs = htmlAttributes({ class: htmlClass(context, 'decision-item'), 'data-state': state });
+    return `<li${attrs}>${context.convertChildren(node.content || [])}</li>`;
+  }
+}
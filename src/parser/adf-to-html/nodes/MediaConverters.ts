@@ -0,0 +1,103 @@
+/**
+ * @file Media node converters for HTML output (media, mediaInline, mediaSingle, mediaGroup, caption)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, MediaSingleNode } from '../../../types';
+import { escapeHtml, htmlAttributes, htmlClass, htmlStyle, sanitizeColor, sanitizeUrl } from '../../../utils/html-utils.js';
+
+/**
+ * Render media as an image when there is a source for it (external URL or a path from the media
+ * resolver), otherwise as a placeholder carrying the media id for the host page to fill in
+ */
+function mediaToHtml(node: ADFNode, className: string, context: HtmlConversionContext): string {
+  const attrs = node.attrs || {};
+  const border = node.marks?.find(mark => mark.type === 'border');
+  const borderColor = sanitizeColor(border?.attrs?.color);
+  const style = htmlStyle(border && `border: ${Number(border.attrs?.size) || 1}px solid ${borderColor || 'currentColor'}`);
+
+  const source = attrs.type === 'external'
+    ? sanitizeUrl(attrs.url)
+    : (typeof attrs.id === 'string' && sanitizeUrl(context.options.mediaCache?.resolveIdSync(attrs.id))) || null;
+
+  if (source) {
+    return `<img${htmlAttributes({
+      class: htmlClass(context, className),
+      src: source,
+      alt: attrs.alt || '',
+      width: attrs.width,
+      height: attrs.height,
+      'data-media-id': attrs.id,
+      style
+    })}>`;
+  }
+
+  const placeholderAttrs = htmlAttributes({
+    class: htmlClass(context, className, 'media-placeholder'),
+    'data-media-id': attrs.id,
+    'data-media-type': attrs.type,
+    'data-collection': attrs.collection || undefined,
+    'data-width': attrs.width,
+    'data-height': attrs.height,
+    style
+  });
+  return `<span${placeholderAttrs}>${escapeHtml(attrs.alt || 'Media')}</span>`;
+}
+
+/**
+ * ```html
+ * <img class="adf-media" src="https://example.com/diagram.png" alt="Diagram">
+ * <span class="adf-media adf-media-placeholder" data-media-id="abc-123" data-media-type="file">Diagram</span>
+ * ```
+ */
+export class MediaHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'media';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return mediaToHtml(node, 'media', context);
+  }
+}
+
+export class MediaInlineHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'mediaInline';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return mediaToHtml(node, 'media-inline', context);
+  }
+}
+
+/**
+ * ```html
+ * <figure class="adf-media-single" data-layout="center"><img ...><figcaption class="adf-caption">Caption</figcaption></figure>
+ * ```
+ */
+export class MediaSingleHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'mediaSingle';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const mediaSingleNode = node as MediaSingleNode;
+    const width = Number(mediaSingleNode.attrs?.width);
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'media-single'),
+      'data-layout': mediaSingleNode.attrs?.layout,
+      style: htmlStyle(width > 0 && width <= 100 && `width: ${width}%`)
+    });
+    return `<figure${attrs}>${context.convertChildren(node.content || [])}</figure>`;
+  }
+}
+
+export class CaptionHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'caption';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<figcaption${htmlAttributes({ class: htmlClass(context, 'caption') })}>${context.convertChildren(node.content || [])}</figcaption>`;
+  }
+}
+
+export class MediaGroupHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'mediaGroup';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<div${htmlAttributes({ class: htmlClass(context, 'media-group') })}>${context.convertChildren(node.content || [])}</div>`;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @file Table node converters for HTML output (table, tableRow, tableHeader, tableCell)
+ */
+
+import type { HtmlNodeConverter, HtmlConversionContext } from '../../types';
+import type { ADFNode, TableNode, TableCellNode } from '../../../types';
+import { htmlAttributes, htmlClass, htmlStyle, sanitizeColor } from '../../../utils/html-utils.js';
+
+/**
+ * ```html
+ * <table class="adf-table" data-layout="wide"><tbody><tr><th>Header</th></tr><tr><td colspan="2">Cell</td></tr></tbody></table>
+ * ```
+ */
+export class TableHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'table';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const tableNode = node as TableNode;
+    const attrs = htmlAttributes({
+      class: htmlClass(context, 'table'),
+      'data-layout': tableNode.attrs?.layout,
+      'data-number-column': tableNode.attrs?.isNumberColumnEnabled === true
+    });
+    return `<table${attrs}><tbody>${context.convertChildren(node.content || [])}</tbody></table>`;
+  }
+}
+
+export class TableRowHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'tableRow';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    return `<tr>${context.convertChildren(node.content || [])}</tr>`;
+  }
+}
+
+export class TableCellHtmlConverter implements HtmlNodeConverter {
+  nodeType = 'tableCell';
+
+  toHtml(node: ADFNode, context: HtmlConversionContext): string {
+    const cellAttrs: TableCellNode['attrs'] = (node as TableCellNode).attrs || {};
+    const tag = node.type === 'tableHeader' ? 'th' : 'td';
+    const background = sanitizeColor(cellAttrs.background);
+
+    const attrs = htmlAttributes({
+      colspan: Number(cellAttrs.colspan) > 1 ? Number(cellAttrs.colspan) : undefined,
+      rowspan: Number(cellAttrs.rowspan) > 1 ? Number(cellAttrs.rowspan) : undefined,
+      style: htmlStyle(background && `background-color: ${background}`)
+    });
+    return `<${tag}${attrs}>${context.convertChildren(node.content || [])}</${tag}>`;
+  }
+}
+
+export class TableHeaderHtmlConverter extends TableCellHtmlConverter {
+  nodeType = 'tableHeader';
+}
@@ -0,0 +1,118 @@
+/**
+ * @file Mark converters for the clean markdown profile
+ */
+
+import type { MarkConverter, ConversionContext } from '../../types';
+import { StrongConverter } from '../marks/StrongConverter.js';
+import { EmConverter } from '../marks/EmConverter.js';
+import { CodeConverter } from '../marks/CodeConverter.js';
+import { StrikeConverter } from '../marks/StrikeConverter.js';
+import { LinkConverter } from '../marks/LinkConverter.js';
+import { recordLoss } from '../../../utils/markdown-loss.js';
+
+/**
+ * Converts marks with their extended converter, keeping only the attributes markdown can express
+ */
+class WithoutAttributesMarkConverter implements MarkConverter {
+  markType: string;
+
+  constructor(private readonly converter: MarkConverter, private readonly keptAttributes: string[] = []) {
+    this.markType = converter.markType;
+  }
+
+  toMarkdown(text: string, mark: any, context: ConversionContext): string {
+    const attrs = Object.fromEntries(Object.entries((mark as { attrs?: Record<string, unknown> }).attrs || {})
+      .filter(([key]) => this.keptAttributes.includes(key)));
+    return this.converter.toMarkdown(text, { type: this.markType, ...(Object.keys(attrs).length > 0 && { attrs }) }, context);
+  }
+}
+
+export class CleanStrongConverter extends WithoutAttributesMarkConverter {
+  constructor() {
+    super(new StrongConverter());
+  }
+}
+
+export class CleanEmConverter extends WithoutAttributesMarkConverter {
+  constructor() {
+    super(new EmConverter());
+  }
+}
+
+export class CleanCodeConverter extends WithoutAttributesMarkConverter {
+  constructor() {
+    super(new CodeConverter());
+  }
+}
+
+export class CleanStrikeConverter extends WithoutAttributesMarkConverter {
+  constructor() {
+    super(new StrikeConverter());
+  }
+}
+
+export class CleanLinkConverter extends WithoutAttributesMarkConverter {
+  constructor() {
+    super(new LinkConverter(), ['href', 'title']);
+  }
+}
+
+/**
+ * Subscript and superscript as plain `<sub>` / `<sup>` tags, without the extended metadata comment
+ */
+export class CleanSubsupConverter implements MarkConverter {
+  markType = 'subsup';
+
+  toMarkdown(text: string, mark: unknown): string {
+    const tag = (mark as { attrs?: { type?: string } }).attrs?.type === 'sub' ? 'sub' : 'sup';
+    return `<${tag}>${text}</${tag}>`;
+  }
+}
+
+/**
+ * Marks with no markdown form keep their text and are recorded as dropped
+ */
+class DroppedMarkConverter implements MarkConverter {
+  constructor(public markType: string, private readonly detail: string) {}
+
+  toMarkdown(text: string, _mark: any, context: ConversionContext): string {
+    recordLoss(context, this.markType, this.detail);
+    return text;
+  }
+}
+
+export class CleanUnderlineConverter extends DroppedMarkConverter {
+  constructor() {
+    super('underline', 'underline');
+  }
+}
+
+export class CleanTextColorConverter extends DroppedMarkConverter {
+  constructor() {
+    super('textColor', 'text color');
+  }
+}
+
+export class CleanBackgroundColorConverter extends DroppedMarkConverter {
+  constructor() {
+    super('backgroundColor', 'highlight');
+  }
+}
+
+export class CleanAnnotationConverter extends DroppedMarkConverter {
+  constructor() {
+    super('annotation', 'inline comment');
+  }
+}
+
+/**
+ * Used for mark types with no registered converter
+ */
+export class CleanFallbackMarkConverter implements MarkConverter {
+  markType = 'unknown';
+
+  toMarkdown(text: string, mark: any, context: ConversionContext): string {
+    recordLoss(context, String((mark as { type?: string }).type), 'unsupported mark');
+    return text;
+  }
+}
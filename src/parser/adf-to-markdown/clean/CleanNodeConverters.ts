@@ -0,0 +1,416 @@
+/**
+ * @file Node converters for the clean markdown profile
+ *
+ * The clean profile writes plain CommonMark/GFM: no `<!-- adf:... -->` comments, `adf://` URLs,
+ * `{status:...}` tokens or `~~~` fences. These converters replace the extended ones for nodes
+ * that have no plain markdown form, and record what they drop in the conversion's loss tracker.
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, DecisionItemNode, ExtensionNode, MediaNode } from '../../../types';
+import { ParagraphConverter } from '../nodes/ParagraphConverter.js';
+import { HeadingConverter } from '../nodes/HeadingConverter.js';
+import { BlockquoteConverter } from '../nodes/BlockquoteConverter.js';
+import { ListItemConverter } from '../nodes/ListItemConverter.js';
+import { OrderedListConverter } from '../nodes/OrderedListConverter.js';
+import { CodeBlockConverter } from '../nodes/CodeBlockConverter.js';
+import { TaskListConverter } from '../nodes/TaskListConverter.js';
+import { TaskItemConverter } from '../nodes/TaskItemConverter.js';
+import { escapeHtml } from '../../../utils/html-utils.js';
+import { getJiraIssueKeyFromUrl } from '../../../utils/jira-issue-keys.js';
+import { recordLoss, withoutMetadata } from '../../../utils/markdown-loss.js';
+
+/**
+ * Bold labels for panel types
+ */
+const PANEL_LABELS: Record<string, string> = {
+  info: 'Info',
+  note: 'Note',
+  success: 'Success',
+  warning: 'Warning',
+  error: 'Error'
+};
+
+/**
+ * Convert nodes as blocks separated by blank lines
+ */
+function convertBlocks(nodes: ADFNode[], context: ConversionContext): string {
+  return nodes
+    .map(node => context.convertChildren([node]))
+    .filter(block => block.trim().length > 0)
+    .join('\n\n');
+}
+
+function quoteLines(content: string): string {
+  return content.split('\n').map(line => (line.trim() ? `> ${line}` : '>')).join('\n');
+}
+
+/**
+ * Links are written as `[title](url)`, or as an autolink without a title
+ */
+function linkMarkdown(url: string, title?: string): string {
+  return title ? `[${title}](${url})` : `<${url}>`;
+}
+
+/**
+ * Converts nodes with their extended converter, after removing the attributes and block marks
+ * it would otherwise keep in metadata comments
+ */
+class WithoutMetadataConverter implements NodeConverter {
+  nodeType: string;
+
+  constructor(private readonly converter: NodeConverter, private readonly keptAttributes: string[] = []) {
+    this.nodeType = converter.nodeType;
+  }
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    return this.converter.toMarkdown(withoutMetadata(node, this.keptAttributes, context), context);
+  }
+}
+
+export class CleanParagraphConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new ParagraphConverter());
+  }
+}
+
+export class CleanHeadingConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new HeadingConverter(), ['level']);
+  }
+}
+
+export class CleanBlockquoteConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new BlockquoteConverter());
+  }
+}
+
+export class CleanListItemConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new ListItemConverter());
+  }
+}
+
+export class CleanOrderedListConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new OrderedListConverter(), ['order']);
+  }
+}
+
+export class CleanCodeBlockConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new CodeBlockConverter(), ['language']);
+  }
+}
+
+export class CleanTaskListConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new TaskListConverter());
+  }
+}
+
+export class CleanTaskItemConverter extends WithoutMetadataConverter {
+  constructor() {
+    super(new TaskItemConverter(), ['state']);
+  }
+}
+
+/**
+ * Panels become blockquotes led by a bold label for the panel type:
+ * ```markdown
+ * > **Warning:** Back up the database first.
+ * ```
+ */
+export class CleanPanelConverter implements NodeConverter {
+  nodeType = 'panel';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const panelNode = withoutMetadata(node, ['panelType'], context);
+    const content = convertBlocks(panelNode.content || [], context);
+    if (!content) {
+      return '';
+    }
+
+    const label = `**${PANEL_LABELS[String(panelNode.attrs?.panelType)] || 'Note'}:**`;
+    return quoteLines(panelNode.content?.[0]?.type === 'paragraph' ? `${label} ${content}` : `${label}\n\n${content}`);
+  }
+}
+
+/**
+ * Expands become HTML disclosure elements, which GitHub and most renderers support:
+ * ```markdown
+ * <details>
+ * <summary>Title</summary>
+ *
+ * Hidden content
+ *
+ * </details>
+ * ```
+ */
+export class CleanExpandConverter implements NodeConverter {
+  nodeType = 'expand';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const expandNode = withoutMetadata(node, ['title'], context);
+    const title = String(expandNode.attrs?.title || '');
+    const content = convertBlocks(expandNode.content || [], context);
+
+    const lines = ['<details>'];
+    if (title) {
+      lines.push(`<summary>${escapeHtml(title)}</summary>`);
+    }
+    if (content) {
+      lines.push('', content, '');
+    }
+    lines.push('</details>');
+    return lines.join('\n');
+  }
+}
+
+export class CleanNestedExpandConverter extends CleanExpandConverter {
+  nodeType = 'nestedExpand';
+}
+
+/**
+ * Decisions become a bullet list with bold labels
+ */
+export class CleanDecisionListConverter implements NodeConverter {
+  nodeType = 'decisionList';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    return (node.content || [])
+      .map(item => context.convertChildren([item]))
+      .filter(item => item.length > 0)
+      .join('\n');
+  }
+}
+
+export class CleanDecisionItemConverter implements NodeConverter {
+  nodeType = 'decisionItem';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const label = (node as DecisionItemNode).attrs?.state === 'UNDECIDED' ? '**Undecided:**' : '**Decision:**';
+    const content = context.convertChildren(node.content || []);
+
+    // Hard breaks inside the item need a 2-space indent to stay in the list item
+    const lines = content.split('\n').map((line, index) => (index === 0 || !line.trim() ? line : `  ${line}`));
+    return `- ${label} ${lines.join('\n')}`.trimEnd();
+  }
+}
+
+/**
+ * Layout columns are written one after another
+ */
+export class CleanLayoutSectionConverter implements NodeConverter {
+  nodeType = 'layoutSection';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const layoutNode = withoutMetadata(node, [], context);
+    recordLoss(context, node.type, 'column layout');
+    return convertBlocks(layoutNode.content || [], context);
+  }
+}
+
+export class CleanLayoutColumnConverter implements NodeConverter {
+  nodeType = 'layoutColumn';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    return convertBlocks(node.content || [], context);
+  }
+}
+
+/**
+ * Extensions (macros) only render in their host product. They are dropped; bodied
+ * extensions keep their body.
+ */
+export class CleanExtensionConverter implements NodeConverter {
+  nodeType = 'extension';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const key = (node as ExtensionNode).attrs?.extensionKey;
+    recordLoss(context, node.type, `${key ? `"${key}"` : 'unnamed'} macro`);
+    return convertBlocks(node.content || [], context);
+  }
+}
+
+export class CleanBodiedExtensionConverter extends CleanExtensionConverter {
+  nodeType = 'bodiedExtension';
+}
+
+export class CleanInlineExtensionConverter extends CleanExtensionConverter {
+  nodeType = 'inlineExtension';
+}
+
+export class CleanMentionConverter implements NodeConverter {
+  nodeType = 'mention';
+
+  toMarkdown(node: ADFNode): string {
+    const { id, text } = node.attrs || {};
+    const name = String(text || id || 'unknown').replace(/^@/, '');
+    return `@${name}`;
+  }
+}
+
+/**
+ * Statuses become bold bracketed text, e.g. `**[IN PROGRESS]**`
+ */
+export class CleanStatusConverter implements NodeConverter {
+  nodeType = 'status';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const statusNode = withoutMetadata(node, ['text'], context);
+    const text = String(statusNode.attrs?.text || '').trim();
+    return text ? `**[${text.toUpperCase()}]**` : '';
+  }
+}
+
+export class CleanDateConverter implements NodeConverter {
+  nodeType = 'date';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const date = new Date(parseInt(String(node.attrs?.timestamp)));
+    if (isNaN(date.getTime())) {
+      recordLoss(context, node.type, 'invalid timestamp');
+      return '';
+    }
+    return date.toISOString().split('T')[0];
+  }
+}
+
+export class CleanEmojiConverter implements NodeConverter {
+  nodeType = 'emoji';
+
+  toMarkdown(node: ADFNode): string {
+    const { shortName, text } = node.attrs || {};
+    if (text) {
+      return String(text);
+    }
+    return shortName ? `:${String(shortName).replace(/^:|:$/g, '')}:` : '';
+  }
+}
+
+export class CleanInlineCardConverter implements NodeConverter {
+  nodeType = 'inlineCard';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const { url, data } = node.attrs || {};
+    if (!url) {
+      return '';
+    }
+
+    const issueKey = context.options.jiraIssueLinks && Object.keys(node.attrs || {}).length === 1
+      ? getJiraIssueKeyFromUrl(String(url), context.options.jiraIssueLinks)
+      : null;
+    if (issueKey) {
+      return issueKey;
+    }
+
+    const { title, name } = (data || {}) as { title?: string; name?: string };
+    return linkMarkdown(String(url), title || name);
+  }
+}
+
+/**
+ * Block cards become a link in a paragraph of their own
+ */
+export class CleanBlockCardConverter implements NodeConverter {
+  nodeType = 'blockCard';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const cardNode = withoutMetadata(node, ['url', 'data'], context);
+    const { url, data } = cardNode.attrs || {};
+    if (!url) {
+      return '';
+    }
+    const { title, name } = (data || {}) as { title?: string; name?: string };
+    return linkMarkdown(String(url), title || name);
+  }
+}
+
+export class CleanEmbedCardConverter extends CleanBlockCardConverter {
+  nodeType = 'embedCard';
+}
+
+/**
+ * The URL of external media, or the path the media resolver gives for file media
+ */
+function mediaSource(node: ADFNode, context: ConversionContext): string | null {
+  const { type, url, id } = (node as MediaNode).attrs || {};
+  const source = type === 'external' ? url : typeof id === 'string' ? context.options.mediaCache?.resolveIdSync(id) : null;
+  if (!source) {
+    return null;
+  }
+  return /\s/.test(source) ? `<${source}>` : source;
+}
+
+/**
+ * Media with a URL or resolved path become images. File media the media resolver can't
+ * map have nothing to link to and are dropped.
+ */
+export class CleanMediaConverter implements NodeConverter {
+  nodeType = 'media';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const mediaNode = withoutMetadata(node, ['type', 'url', 'alt'], context);
+    const source = mediaSource(node, context);
+    if (!source) {
+      recordLoss(context, node.type, 'media without a URL');
+      return '';
+    }
+    return `![${String(mediaNode.attrs?.alt || '')}](${source})`;
+  }
+}
+
+export class CleanMediaInlineConverter implements NodeConverter {
+  nodeType = 'mediaInline';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const mediaNode = withoutMetadata(node, ['type', 'url', 'alt'], context);
+    const alt = String(mediaNode.attrs?.alt || '');
+    const source = mediaSource(node, context);
+    if (!source) {
+      // The file name (alt text) keeps the sentence readable
+      recordLoss(context, node.type, 'media without a URL');
+      return alt;
+    }
+    return `![${alt}](${source})`;
+  }
+}
+
+/**
+ * Captions follow the image as a paragraph
+ */
+export class CleanMediaSingleConverter implements NodeConverter {
+  nodeType = 'mediaSingle';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const mediaSingleNode = withoutMetadata(node, [], context);
+    const content = mediaSingleNode.content || [];
+    const caption = content.find(child => child.type === 'caption');
+    const media = convertBlocks(content.filter(child => child.type !== 'caption'), context);
+    const captionText = caption ? context.convertChildren(caption.content || []) : '';
+    return media && captionText ? `${media}\n\n${captionText}` : media;
+  }
+}
+
+export class CleanMediaGroupConverter implements NodeConverter {
+  nodeType = 'mediaGroup';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    return convertBlocks(node.content || [], context);
+  }
+}
+
+/**
+ * Used for node types with no registered converter: the content is kept and the node dropped
+ */
+export class CleanFallbackNodeConverter implements NodeConverter {
+  nodeType = 'unknown';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    recordLoss(context, node.type, 'unsupported node');
+    const content = node.content || [];
+    return content.some(child => child.content) ? convertBlocks(content, context) : context.convertChildren(content);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @file Table converter for the clean markdown profile
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode } from '../../../types';
+import { withoutMetadata } from '../../../utils/markdown-loss.js';
+
+/**
+ * A cell's content on one line: blocks and line breaks become `<br>` and pipes are escaped
+ */
+function cellMarkdown(cell: ADFNode, context: ConversionContext): string {
+  return (cell.content || [])
+    .map(child => context.convertChildren([child]))
+    .filter(block => block.trim().length > 0)
+    .join('\n\n')
+    .replace(/ *\n+/g, '<br>')
+    .replace(/(^|[^\\])\|/g, '$1\\|');
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Every table becomes a GFM pipe table. Merged cells keep their content in the first
+ * cell of the span and leave the rest empty. A table without a header row gets an empty one,
+ * as GFM requires it.
+ */
+export class CleanTableConverter implements NodeConverter {
+  nodeType = 'table';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const rows = withoutMetadata(node, [], context).content || [];
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const grid: string[][] = rows.map(() => []);
+    rows.forEach((row, rowIndex) => {
+      let column = 0;
+      for (const cell of row.content || []) {
+        while (grid[rowIndex][column] !== undefined) {
+          column++;
+        }
+        const colspan = Math.max(1, Number(cell.attrs?.colspan) || 1);
+        const rowspan = Math.max(1, Number(cell.attrs?.rowspan) || 1);
+
+        for (let spannedRow = rowIndex; spannedRow < Math.min(rows.length, rowIndex + rowspan); spannedRow++) {
+          for (let spannedColumn = column; spannedColumn < column + colspan; spannedColumn++) {
+            grid[spannedRow][spannedColumn] = '';
+          }
+        }
+        grid[rowIndex][column] = cellMarkdown(withoutMetadata(cell, [], context), context);
+        column += colspan;
+      }
+    });
+
+    const columnCount = Math.max(1, ...grid.map(cells => cells.length));
+    const lines = grid.map(cells => tableRow(Array.from({ length: columnCount }, (_, column) => cells[column] ?? '')));
+
+    const hasHeaderRow = rows[0].content?.some(cell => cell.type === 'tableHeader');
+    const separator = tableRow(Array<string>(columnCount).fill('---'));
+    const header = hasHeaderRow ? lines.shift() : tableRow(Array<string>(columnCount).fill(''));
+    return [header, separator, ...lines].join('\n');
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @file Annotation mark converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/marks/annotation/
+ */
+
+import type { MarkConverter, ConversionContext } from '../../types';
+import type { ADFNode, AnnotationMark } from '../../../types';
+
+const ANNOTATION_CLOSE_COMMENT = '<!-- /adf:annotation -->';
+
+/**
+ * Opening comment for an annotated range
+ */
+function annotationOpenComment(mark: AnnotationMark): string {
+  const { id, annotationType, ...otherAttrs } = mark.attrs;
+  const attrsString = Object.entries({ id, annotationType: annotationType || 'inlineComment', ...otherAttrs })
+    .map(([key, value]) => `${key}="${String(value)}"`)
+    .join(' ');
+
+  return `<!-- adf:annotation ${attrsString} -->`;
+}
+
+function getAnnotationMarks(node: ADFNode): AnnotationMark[] {
+  return (node.marks || []).filter((mark): mark is AnnotationMark =>
+    mark.type === 'annotation' && Boolean((mark as AnnotationMark).attrs?.id));
+}
+
+/**
+ * Annotation Mark Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/marks/annotation/
+ *
+ * Purpose:
+ * Annotation marks anchor Confluence inline comments to a range of text
+ *
+ * Note: Markdown has no equivalent, so the annotated range is wrapped in a pair of
+ * metadata comments that render invisibly and keep the comment thread attached
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "annotation",
+ *   "attrs": {
+ *     "id": "c8a0b6f0-0d8e-4b3a-9a8e-3f0c5f4f2d11",
+ *     "annotationType": "inlineComment"
+ *   }
+ * }
+ * ```
+ *
+ * Markdown Representation:
+ * ```markdown
+ * <!-- adf:annotation id="c8a0b6f0-0d8e-4b3a-9a8e-3f0c5f4f2d11" annotationType="inlineComment" -->annotated text<!-- /adf:annotation -->
+ * ```
+ */
+export class AnnotationConverter implements MarkConverter {
+  markType = 'annotation';
+
+  toMarkdown(text: string, mark: any, _context: ConversionContext): string {
+    const annotationMark = mark as AnnotationMark;
+
+    if (!annotationMark.attrs?.id) {
+      return text;
+    }
+
+    return `${annotationOpenComment(annotationMark)}${text}${ANNOTATION_CLOSE_COMMENT}`;
+  }
+}
+
+/**
+ * Check whether any of the nodes carries an annotation mark
+ */
+export function hasAnnotationMarks(nodes: ADFNode[]): boolean {
+  return nodes.some(node => getAnnotationMarks(node).length > 0);
+}
+
+/**
+ * Convert inline nodes, wrapping each annotated range in one pair of comments rather than
+ * wrapping every text node on its own. Ranges nest; when two ranges overlap, the inner one
+ * is closed and reopened around the end of the outer one:
+ * ```markdown
+ * <!-- adf:annotation id="a1" ... -->ab<!-- adf:annotation id="a2" ... -->cd<!-- /adf:annotation --><!-- /adf:annotation --><!-- adf:annotation id="a2" ... -->ef<!-- /adf:annotation -->
+ * ```
+ */
+export function convertAnnotatedNodes(nodes: ADFNode[], convertNode: (node: ADFNode) => string): string {
+  const annotationsByNode = nodes.map((node, index) => {
+    // A hard break inside a range carries no marks but shouldn't split the range
+    if (node.type === 'hardBreak') {
+      const nextIds = new Set(getAnnotationMarks(nodes[index + 1] || node).map(mark => mark.attrs.id));
+      return getAnnotationMarks(nodes[index - 1] || node).filter(mark => nextIds.has(mark.attrs.id));
+    }
+    return getAnnotationMarks(node);
+  });
+
+  const rangeEnd = (id: string, start: number): number => {
+    let end = start;
+    while (end < nodes.length && annotationsByNode[end].some(mark => mark.attrs.id === id)) {
+      end++;
+    }
+    return end;
+  };
+
+  const open: AnnotationMark[] = [];
+  let markdown = '';
+
+  nodes.forEach((node, index) => {
+    const wantedIds = new Set(annotationsByNode[index].map(mark => mark.attrs.id));
+
+    // Close every range from the first one that ends here, reopening the ones that continue
+    let kept = 0;
+    while (kept < open.length && wantedIds.has(open[kept].attrs.id)) {
+      kept++;
+    }
+    const closed = open.splice(kept);
+    markdown += ANNOTATION_CLOSE_COMMENT.repeat(closed.length);
+
+    // Longer ranges open first so they enclose the shorter ones
+    const opening = annotationsByNode[index]
+      .filter(mark => !open.some(openMark => openMark.attrs.id === mark.attrs.id))
+      .sort((a, b) => rangeEnd(b.attrs.id, index) - rangeEnd(a.attrs.id, index));
+    for (const mark of opening) {
+      markdown += annotationOpenComment(mark);
+      open.push(mark);
+    }
+
+    const { marks, ...unmarkedNode } = node;
+    const otherMarks = marks?.filter(mark => mark.type !== 'annotation');
+    markdown += convertNode(otherMarks && otherMarks.length > 0 ? { ...unmarkedNode, marks: otherMarks } : unmarkedNode);
+  });
+
+  return markdown + ANNOTATION_CLOSE_COMMENT.repeat(open.length);
+}
@@ -5,6 +5,7 @@
 
 import type { MarkConverter, ConversionContext } from '../../types';
 import type { LinkMark } from '../../../types';
+import { getJiraIssueKeyFromUrl } from '../../../utils/jira-issue-keys.js';
 
 /**
  * Link Mark Converter
@@ -30,6 +31,13 @@ import type { LinkMark } from '../../../types';
  * ```markdown
  * [link text](https://example.com "Example Link")
  * ```
+ *
+ * With a link resolver, page URLs are written as the relative markdown path they resolve to:
+ * ```markdown
+ * [Setup guide](../guide/setup.md#install)
+ * ```
+ *
+ * With Jira issue linking, a link whose text is the key of the issue it points to collapses to the bare key.
  */
 export class LinkConverter implements MarkConverter {
   markType = 'link';
@@ -42,7 +50,13 @@ export class LinkConverter implements MarkConverter {
       return text;
     }
 
-    const { href, title, ...customAttrs } = linkMark.attrs;
+    const { href: adfHref, title, ...customAttrs } = linkMark.attrs;
+
+    if (context.options.jiraIssueLinks && !title && Object.keys(customAttrs).length === 0
+      && getJiraIssueKeyFromUrl(adfHref, context.options.jiraIssueLinks) === text) {
+      return text;
+    }
+    const href = context.options.linkCache?.resolveUrlSync(adfHref) || adfHref;
     
     // Build markdown link
     let result: string;
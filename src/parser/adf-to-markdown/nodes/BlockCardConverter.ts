@@ -0,0 +1,105 @@
+/**
+ * @file Block-level smart card converters (blockCard, embedCard)
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/blockcard/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, BlockCardNode, EmbedCardNode } from '../../../types';
+
+/**
+ * Escape brackets so a title can't end the link text early
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\[\]]/g, '\\$&');
+}
+
+/**
+ * Render a block-level card as a standalone `card:` link followed by a display hint comment.
+ * `layout` and `width` are written as readable attributes; anything else (data, localId,
+ * original dimensions) falls back to the JSON attrs form so it round-trips losslessly.
+ */
+function cardToMarkdown(nodeType: 'blockCard' | 'embedCard', attrs: Record<string, unknown> = {}): string {
+  const { url, ...otherAttrs } = attrs;
+  const data = otherAttrs.data as { name?: string; title?: string } | undefined;
+  const cardUrl = typeof url === 'string' ? url : '';
+  const title = data?.name || data?.title || cardUrl || 'Card';
+  const link = `[${escapeLinkText(title)}](card:${cardUrl})`;
+
+  const attrKeys = Object.keys(otherAttrs);
+  if (attrKeys.length === 0) {
+    return `${link}<!-- adf:${nodeType} -->`;
+  }
+
+  if (attrKeys.every(key => key === 'layout' || key === 'width')) {
+    const attrsString = attrKeys.map(key => `${key}="${String(otherAttrs[key])}"`).join(' ');
+    return `${link}<!-- adf:${nodeType} ${attrsString} -->`;
+  }
+
+  return `${link}<!-- adf:${nodeType} attrs='${JSON.stringify(otherAttrs)}' -->`;
+}
+
+/**
+ * Block Card Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/blockcard/
+ *
+ * Purpose:
+ * Block Card nodes render a link as a full-width smart card preview
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "blockCard",
+ *   "attrs": { "url": "https://example.atlassian.net/browse/PROJ-1" }
+ * }
+ * ```
+ *
+ * Markdown Representation:
+ * ```markdown
+ * [https://example.atlassian.net/browse/PROJ-1](card:https://example.atlassian.net/browse/PROJ-1)<!-- adf:blockCard -->
+ * ```
+ */
+export class BlockCardConverter implements NodeConverter {
+  nodeType = 'blockCard';
+
+  toMarkdown(node: ADFNode, _context: ConversionContext): string {
+    const blockCardNode = node as BlockCardNode;
+    return cardToMarkdown('blockCard', blockCardNode.attrs);
+  }
+}
+
+/**
+ * Embed Card Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/embedcard/
+ *
+ * Purpose:
+ * Embed Card nodes render a link as an embedded, interactive preview (videos, designs, boards)
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "embedCard",
+ *   "attrs": {
+ *     "url": "https://www.youtube.com/watch?v=abc",
+ *     "layout": "wide",
+ *     "width": 80
+ *   }
+ * }
+ * ```
+ *
+ * Markdown Representation:
+ * ```markdown
+ * [https://www.youtube.com/watch?v=abc](card:https://www.youtube.com/watch?v=abc)<!-- adf:embedCard layout="wide" width="80" -->
+ * ```
+ */
+export class EmbedCardConverter implements NodeConverter {
+  nodeType = 'embedCard';
+
+  toMarkdown(node: ADFNode, _context: ConversionContext): string {
+    const embedCardNode = node as EmbedCardNode;
+    return cardToMarkdown('embedCard', embedCardNode.attrs);
+  }
+}
@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, CodeBlockNode } from '../../../types';
+import { formatBreakoutAttributes } from '../../../utils/fence-utils.js';
 
 /**
  * Code Block Node Converter
@@ -34,6 +35,8 @@ import type { ADFNode, CodeBlockNode } from '../../../types';
  * console.log('Hello World');
  * ```
  * ```
+ *
+ * A breakout mark is written in the fence info string: ```` ```javascript breakout=wide ````
  */
 export class CodeBlockConverter implements NodeConverter {
   nodeType = 'codeBlock';
@@ -41,11 +44,14 @@ export class CodeBlockConverter implements NodeConverter {
   toMarkdown(node: ADFNode, context: ConversionContext): string {
     const codeBlockNode = node as CodeBlockNode;
     
+    const breakout = formatBreakoutAttributes(codeBlockNode.marks);
+    
     if (!codeBlockNode.content || codeBlockNode.content.length === 0) {
-      return '```\n\n```';
+      return `\`\`\`${breakout}\n\n\`\`\``;
     }
 
     const language = codeBlockNode.attrs?.language || '';
+    const info = breakout ? `${language} ${breakout}`.trim() : language;
     
     // Extract text content from text nodes
     const codeContent = codeBlockNode.content
@@ -58,7 +64,7 @@ export class CodeBlockConverter implements NodeConverter {
       delete (customAttrs as any).language;
     }
     
-    let result = `\`\`\`${language}\n${codeContent}\n\`\`\``;
+    let result = `\`\`\`${info}\n${codeContent}\n\`\`\``;
     
     // Add metadata for custom attributes
     if (Object.keys(customAttrs).length > 0) {
@@ -0,0 +1,74 @@
+/**
+ * @file Decision Item node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/decisionitem/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, DecisionItemNode } from '../../../types';
+
+/**
+ * Decision Item Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/decisionitem/
+ *
+ * Purpose:
+ * Decision Item nodes record a single decision within a decision list
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "decisionItem",
+ *   "attrs": {
+ *     "localId": "decision-1",
+ *     "state": "DECIDED"
+ *   },
+ *   "content": [
+ *     { "type": "text", "text": "Use PostgreSQL" }
+ *   ]
+ * }
+ * ```
+ *
+ * Markdown Representation (inside a `~~~decisions` fence):
+ * ```markdown
+ * - [D] Use PostgreSQL <!-- adf:decisionItem localId="decision-1" -->
+ * - [ ] Pick a hosting provider
+ * ```
+ */
+export class DecisionItemConverter implements NodeConverter {
+  nodeType = 'decisionItem';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const decisionItemNode = node as DecisionItemNode;
+    const state = decisionItemNode.attrs?.state;
+    const marker = state === 'UNDECIDED' ? '[ ]' : '[D]';
+
+    const content = decisionItemNode.content && decisionItemNode.content.length > 0
+      ? context.convertChildren(decisionItemNode.content)
+      : '';
+
+    // Hard breaks inside the item need a 2-space indent to stay in the list item
+    const lines = content.split('\n').map((line, index) => {
+      if (index === 0 || line.trim().length === 0) {
+        return line;
+      }
+      return `  ${line}`;
+    });
+
+    let result = `- ${marker} ${lines.join('\n')}`.trimEnd();
+
+    // Preserve localId (and any state without a marker) for round-trip fidelity
+    const metadataAttrs: string[] = [];
+    if (decisionItemNode.attrs?.localId) {
+      metadataAttrs.push(`localId="${decisionItemNode.attrs.localId}"`);
+    }
+    if (state && state !== 'DECIDED' && state !== 'UNDECIDED') {
+      metadataAttrs.push(`state="${String(state)}"`);
+    }
+    if (metadataAttrs.length > 0) {
+      result += ` <!-- adf:decisionItem ${metadataAttrs.join(' ')} -->`;
+    }
+
+    return result;
+  }
+}
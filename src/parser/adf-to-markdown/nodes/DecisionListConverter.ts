@@ -0,0 +1,67 @@
+/**
+ * @file Decision List node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/decisionlist/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, DecisionListNode } from '../../../types';
+
+/**
+ * Decision List Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/decisionlist/
+ *
+ * Purpose:
+ * Decision List nodes group decisionItem nodes, typically in meeting notes
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "decisionList",
+ *   "attrs": { "localId": "decisions-1" },
+ *   "content": [
+ *     {
+ *       "type": "decisionItem",
+ *       "attrs": { "localId": "decision-1", "state": "DECIDED" },
+ *       "content": [{ "type": "text", "text": "Use PostgreSQL" }]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * ~~~decisions localId="decisions-1"
+ * - [D] Use PostgreSQL <!-- adf:decisionItem localId="decision-1" -->
+ * ~~~
+ * ```
+ */
+export class DecisionListConverter implements NodeConverter {
+  nodeType = 'decisionList';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const decisionListNode = node as DecisionListNode;
+
+    if (!decisionListNode.content || decisionListNode.content.length === 0) {
+      return '';
+    }
+
+    const items = decisionListNode.content.map(item => {
+      const itemConverter = context.options.registry?.getNodeConverter('decisionItem');
+      if (itemConverter) {
+        return itemConverter.toMarkdown(item, {
+          ...context,
+          depth: context.depth + 1,
+          parent: decisionListNode
+        });
+      }
+      return '';
+    }).filter(item => item.length > 0);
+
+    const localId = decisionListNode.attrs?.localId;
+    const fenceAttrs = localId ? ` localId="${localId}"` : '';
+
+    return `~~~decisions${fenceAttrs}\n${items.join('\n')}\n~~~`;
+  }
+}
@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, ExpandNode } from '../../../types';
+import { formatBreakoutAttributes } from '../../../utils/fence-utils.js';
 
 /**
  * Expand Node Converter
@@ -39,17 +40,20 @@ import type { ADFNode, ExpandNode } from '../../../types';
  * Hidden content here
  * ~~~
  * ```
+ *
+ * A breakout mark is written as a fence attribute: `~~~expand title="Wide" breakout=wide`
  */
 export class ExpandConverter implements NodeConverter {
   nodeType = 'expand';
 
   toMarkdown(node: ADFNode, context: ConversionContext): string {
     const expandNode = node as ExpandNode;
+    const breakout = formatBreakoutAttributes(expandNode.marks);
     
     if (!expandNode.content || expandNode.content.length === 0) {
       // Empty expand with just title
       const title = expandNode.attrs?.title || '';
-      return `~~~expand title="${title}"\n\n~~~`;
+      return `~~~expand title="${title}"${breakout ? ` ${breakout}` : ''}\n\n~~~`;
     }
 
     const title = expandNode.attrs?.title || '';
@@ -71,6 +75,9 @@ export class ExpandConverter implements NodeConverter {
       const attrsJson = JSON.stringify(customAttrs);
       attributeString += ` attrs='${attrsJson}'`;
     }
+    if (breakout) {
+      attributeString += ` ${breakout}`;
+    }
     
     return `~~~expand ${attributeString}\n${content}\n~~~`;
   }
@@ -0,0 +1,128 @@
+/**
+ * @file Extension node converters (extension, bodiedExtension, inlineExtension)
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/extension/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, ExtensionNode } from '../../../types';
+import { wrapInFence, toSingleQuotedJson } from '../../../utils/fence-utils.js';
+
+/**
+ * Build the attribute string shared by all extension representations:
+ * `type="..." key="..." params='{...}' attrs='{...}'`
+ */
+function formatExtensionAttributes(attrs: ExtensionNode['attrs']): string {
+  const { extensionType, extensionKey, parameters, ...customAttrs } = attrs || {};
+  const parts: string[] = [];
+
+  if (extensionType) {
+    parts.push(`type="${extensionType}"`);
+  }
+  if (extensionKey) {
+    parts.push(`key="${extensionKey}"`);
+  }
+  if (parameters && Object.keys(parameters).length > 0) {
+    parts.push(`params='${toSingleQuotedJson(parameters)}'`);
+  }
+  if (Object.keys(customAttrs).length > 0) {
+    parts.push(`attrs='${toSingleQuotedJson(customAttrs)}'`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Extension Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/extension/
+ *
+ * Purpose:
+ * Extension nodes are block-level macros without a body (table of contents, page tree, Jira issue lists)
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "extension",
+ *   "attrs": {
+ *     "extensionType": "com.atlassian.confluence.macro.core",
+ *     "extensionKey": "toc",
+ *     "parameters": { "macroParams": { "maxLevel": { "value": "3" } } },
+ *     "layout": "default"
+ *   }
+ * }
+ * ```
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * ~~~extension type="com.atlassian.confluence.macro.core" key="toc" params='{"macroParams":{"maxLevel":{"value":"3"}}}' attrs='{"layout":"default"}'
+ * ~~~
+ * ```
+ */
+export class ExtensionConverter implements NodeConverter {
+  nodeType = 'extension';
+
+  toMarkdown(node: ADFNode, _context: ConversionContext): string {
+    const extensionNode = node as ExtensionNode;
+    return `~~~extension ${formatExtensionAttributes(extensionNode.attrs)}\n~~~`;
+  }
+}
+
+/**
+ * Bodied Extension Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/bodiedextension/
+ *
+ * Purpose:
+ * Bodied Extension nodes are block-level macros that wrap editable content (Excerpt, Section)
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * ~~~bodiedExtension type="com.atlassian.confluence.macro.core" key="excerpt"
+ * Body content in **markdown**
+ * ~~~
+ * ```
+ */
+export class BodiedExtensionConverter implements NodeConverter {
+  nodeType = 'bodiedExtension';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const extensionNode = node as ExtensionNode;
+
+    // For macro bodies, we need block-level spacing between elements
+    const content = (extensionNode.content || []).map(child => {
+      const converter = context.options.registry?.getNodeConverter(child.type);
+      if (!converter) return '';
+      return converter.toMarkdown(child, context);
+    }).filter(content => content.trim().length > 0).join('\n\n');
+
+    return wrapInFence('bodiedExtension', formatExtensionAttributes(extensionNode.attrs), content);
+  }
+}
+
+/**
+ * Inline Extension Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/inlineextension/
+ *
+ * Purpose:
+ * Inline Extension nodes are macros rendered within a line of text (e.g. a single Jira issue)
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * See {extension:jira type="com.atlassian.jira" params='{"key":"PROJ-1"}'} for details
+ * ```
+ */
+export class InlineExtensionConverter implements NodeConverter {
+  nodeType = 'inlineExtension';
+
+  toMarkdown(node: ADFNode, _context: ConversionContext): string {
+    const extensionNode = node as ExtensionNode;
+    const { extensionKey, ...otherAttrs } = extensionNode.attrs || {};
+    const attributeString = formatExtensionAttributes(otherAttrs);
+
+    return `{extension:${extensionKey || ''}${attributeString ? ` ${attributeString}` : ''}}`;
+  }
+}
@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, HeadingNode } from '../../../types';
+import { blockMarksToAttributes, generateBlockMarksComment } from '../../../utils/metadata-comments.js';
 
 /**
  * Heading Node Converter
@@ -32,6 +33,11 @@ import type { ADFNode, HeadingNode } from '../../../types';
  * ```markdown
  * ## Chapter Title
  * ```
+ *
+ * Alignment and indentation block marks:
+ * ```markdown
+ * ## Chapter Title<!-- adf:heading align="end" -->
+ * ```
  */
 export class HeadingConverter implements NodeConverter {
   nodeType = 'heading';
@@ -54,9 +60,10 @@ export class HeadingConverter implements NodeConverter {
     }
     
     if (Object.keys(customAttrs).length > 0) {
-      return `${hashes} ${content} <!-- adf:heading attrs='${JSON.stringify(customAttrs)}' -->`;
+      const attrs = { ...customAttrs, ...blockMarksToAttributes(headingNode.marks) };
+      return `${hashes} ${content} <!-- adf:heading attrs='${JSON.stringify(attrs)}' -->`;
     }
     
-    return `${hashes} ${content}`;
+    return `${hashes} ${content}${generateBlockMarksComment('heading', headingNode.marks)}`;
   }
 }
\ No newline at end of file
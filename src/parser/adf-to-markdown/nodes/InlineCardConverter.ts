@@ -4,6 +4,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode } from '../../../types';
+import { getJiraIssueKeyFromUrl } from '../../../utils/jira-issue-keys.js';
 
 /**
  * Inline Card Node Converter
@@ -15,6 +16,16 @@ import type { ADFNode } from '../../../types';
  * ```markdown
  * [Card Title](adf://card/https%3A%2F%2Fexample.com)<!-- adf:inlineCard attrs='{"url":"https://example.com"}' -->
  * ```
+ *
+ * With Jira issue linking, cards for issues on the configured site collapse to the bare key:
+ * ```markdown
+ * PROJ-123
+ * ```
+ *
+ * With a link resolver, cards for URLs it maps back to a path are written as a link to the path:
+ * ```markdown
+ * [API](./api.md)
+ * ```
  */
 export class InlineCardConverter implements NodeConverter {
   nodeType = 'inlineCard';
@@ -25,12 +36,24 @@ export class InlineCardConverter implements NodeConverter {
     if (!url) {
       return '[Card]';
     }
+
+    const issueKey = context.options.jiraIssueLinks && Object.keys(node.attrs!).length === 1
+      ? getJiraIssueKeyFromUrl(url, context.options.jiraIssueLinks)
+      : null;
+    if (issueKey) {
+      return issueKey;
+    }
     
+    const path = context.options.linkCache?.resolveUrlSync(url as string);
+
     // Try to get title from data
-    const title = data?.title || data?.name || 'Card';
+    const title = data?.title || data?.name || path || 'Card';
     
-    // Use placeholder URL scheme for cards
-    const cardUrl = `adf://card/${encodeURIComponent(url)}`;
+    // Use the resolved path, or a placeholder URL scheme for cards
+    const cardUrl = path || `adf://card/${encodeURIComponent(url)}`;
+    if (path && Object.keys(node.attrs || {}).length === 1) {
+      return `[${title}](${cardUrl})`;
+    }
     
     // Add metadata comment to preserve card attributes if needed
     if (node.attrs && Object.keys(node.attrs).length > 0) {
@@ -0,0 +1,62 @@
+/**
+ * @file Layout Column node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/layoutcolumn/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, LayoutColumnNode } from '../../../types';
+import { wrapInFence } from '../../../utils/fence-utils.js';
+
+/**
+ * Layout Column Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/layoutcolumn/
+ *
+ * Purpose:
+ * Layout Column nodes hold block content for one column of a layoutSection.
+ * The width is a percentage of the section width.
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "layoutColumn",
+ *   "attrs": { "width": 50 },
+ *   "content": [
+ *     { "type": "paragraph", "content": [...] }
+ *   ]
+ * }
+ * ```
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * ~~~column width=50
+ * Column content
+ * ~~~
+ * ```
+ */
+export class LayoutColumnConverter implements NodeConverter {
+  nodeType = 'layoutColumn';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const layoutColumnNode = node as LayoutColumnNode;
+
+    // For column content, we need block-level spacing between elements
+    const content = (layoutColumnNode.content || []).map(child => {
+      const converter = context.options.registry?.getNodeConverter(child.type);
+      if (!converter) return '';
+      return converter.toMarkdown(child, context);
+    }).filter(content => content.trim().length > 0).join('\n\n');
+
+    const { width, ...customAttrs } = layoutColumnNode.attrs || {};
+    let attributeString = width !== undefined ? `width=${String(width)}` : '';
+
+    // Add custom attributes if present (beyond width)
+    if (Object.keys(customAttrs).length > 0) {
+      const attrsJson = JSON.stringify(customAttrs);
+      attributeString += `${attributeString ? ' ' : ''}attrs='${attrsJson}'`;
+    }
+
+    return wrapInFence('column', attributeString, content);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @file Layout Section node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/layoutsection/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, LayoutSectionNode } from '../../../types';
+import { formatBreakoutAttributes, wrapInFence } from '../../../utils/fence-utils.js';
+
+/**
+ * Layout Section Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/layoutsection/
+ *
+ * Purpose:
+ * Layout Section nodes arrange their layoutColumn children side by side
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "layoutSection",
+ *   "content": [
+ *     { "type": "layoutColumn", "attrs": { "width": 50 }, "content": [...] },
+ *     { "type": "layoutColumn", "attrs": { "width": 50 }, "content": [...] }
+ *   ]
+ * }
+ * ```
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * ~~~~layout
+ * ~~~column width=50
+ * Left column
+ * ~~~
+ *
+ * ~~~column width=50
+ * Right column
+ * ~~~
+ * ~~~~
+ * ```
+ */
+export class LayoutSectionConverter implements NodeConverter {
+  nodeType = 'layoutSection';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const layoutSectionNode = node as LayoutSectionNode;
+
+    if (!layoutSectionNode.content || layoutSectionNode.content.length === 0) {
+      return '';
+    }
+
+    const columns = layoutSectionNode.content.map(column => {
+      const converter = context.options.registry?.getNodeConverter(column.type);
+      if (!converter) return '';
+      return converter.toMarkdown(column, {
+        ...context,
+        depth: context.depth + 1,
+        parent: layoutSectionNode
+      });
+    }).filter(column => column.trim().length > 0).join('\n\n');
+
+    // Add custom attributes and breakout mark if present
+    const attributes: string[] = [];
+    if (layoutSectionNode.attrs && Object.keys(layoutSectionNode.attrs).length > 0) {
+      attributes.push(`attrs='${JSON.stringify(layoutSectionNode.attrs)}'`);
+    }
+    const breakout = formatBreakoutAttributes(layoutSectionNode.marks);
+    if (breakout) {
+      attributes.push(breakout);
+    }
+
+    return wrapInFence('layout', attributes.join(' '), columns);
+  }
+}
@@ -34,6 +34,24 @@ import type { ADFNode, MediaNode } from '../../../types';
  * ![Media](adf:media:abc-123-def)
  * <!-- adf:media id="abc-123-def" type="file" collection="contentId-123" width="400" height="300" -->
  * ```
+ *
+ * External media is written as a regular image of its URL:
+ * ```markdown
+ * <!-- adf:media type="external" width="400" -->
+ * ![Diagram](https://example.com/diagram.png)
+ * ```
+ *
+ * With a media resolver, file media is written with the path or URL it resolves to and
+ * the comment keeps the id:
+ * ```markdown
+ * <!-- adf:media id="abc-123-def" type="file" collection="contentId-123" -->
+ * ![Media](./images/diagram.png)
+ * ```
+ *
+ * A border mark is carried in its own metadata comment:
+ * ```markdown
+ * <!-- adf:border size="2" color="#091e4224" -->
+ * ```
  */
 export class MediaConverter implements NodeConverter {
   nodeType = 'media';
@@ -41,14 +59,20 @@ export class MediaConverter implements NodeConverter {
   toMarkdown(node: ADFNode, context: ConversionContext): string {
     const mediaNode = node as MediaNode;
     
+    if (mediaNode.attrs?.type === 'external' && mediaNode.attrs.url) {
+      const { url, alt, ...externalAttrs } = mediaNode.attrs;
+      return this.withMetadata(mediaNode, externalAttrs, `![${alt || 'Media'}](${url})`);
+    }
+
     if (!mediaNode.attrs?.id) {
       return '![Media](adf:media:unknown)';
     }
 
     const { id, type, collection, width, height, alt, ...customAttrs } = mediaNode.attrs;
     
-    // Create media reference in markdown format
-    const mediaRef = `![${alt || 'Media'}](adf:media:${id})`;
+    // Create media reference in markdown format, using the resolved path when there is one
+    const source = context.options.mediaCache?.resolveIdSync(id);
+    const mediaRef = `![${alt || 'Media'}](${source || `adf:media:${id}`})`;
     
     // Build attributes object for metadata
     const attrs: Record<string, any> = { id, type };
@@ -59,12 +83,24 @@ export class MediaConverter implements NodeConverter {
     // Add any custom attributes (alt is not included in metadata)
     Object.assign(attrs, customAttrs);
     
+    return this.withMetadata(mediaNode, attrs, mediaRef);
+  }
+
+  private withMetadata(mediaNode: MediaNode, attrs: Record<string, any>, mediaRef: string): string {
     // Add metadata comment with all attributes (attribute format, not JSON)
     const metadata = `<!-- adf:media ${Object.entries(attrs)
       .map(([key, value]) => `${key}="${value}"`)
       .join(' ')} -->`;
     
+    // Border marks are kept in a separate comment so media attrs stay flat
+    const border = mediaNode.marks?.find(mark => mark.type === 'border');
+    const borderMetadata = border?.attrs
+      ? `\n<!-- adf:border ${Object.entries(border.attrs)
+        .map(([key, value]) => `${key}="${value}"`)
+        .join(' ')} -->`
+      : '';
+    
     // Comment comes ABOVE the content
-    return `${metadata}\n${mediaRef}`;
+    return `${metadata}${borderMetadata}\n${mediaRef}`;
   }
 }
\ No newline at end of file
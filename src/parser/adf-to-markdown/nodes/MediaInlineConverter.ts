@@ -0,0 +1,54 @@
+/**
+ * @file Media inline node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/mediaInline/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, MediaInlineNode } from '../../../types';
+
+/**
+ * Media Inline Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/mediaInline/
+ *
+ * Purpose:
+ * Media Inline nodes are file attachments shown within a line of text
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "mediaInline",
+ *   "attrs": {
+ *     "id": "abc-123-def",
+ *     "type": "file",
+ *     "collection": "contentId-123"
+ *   }
+ * }
+ * ```
+ *
+ * Extended Markdown Representation:
+ * ```markdown
+ * See ![report.pdf](adf:media:abc-123-def)<!-- adf:mediaInline type="file" collection="contentId-123" --> for details
+ * ```
+ */
+export class MediaInlineConverter implements NodeConverter {
+  nodeType = 'mediaInline';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const mediaInlineNode = node as MediaInlineNode;
+    const { id, alt, ...otherAttrs } = mediaInlineNode.attrs || {};
+
+    // With a resolved path the image shows the file and the directive keeps the id
+    const source = id ? context.options.mediaCache?.resolveIdSync(id) : null;
+    const directiveAttrs = source ? { id, ...otherAttrs } : otherAttrs;
+
+    // The directive comment keeps this inline; without it the image would become a mediaSingle
+    const attrsString = Object.entries(directiveAttrs)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => ` ${key}="${String(value)}"`)
+      .join('');
+
+    return `![${alt || ''}](${source || `adf:media:${id || 'unknown'}`})<!-- adf:mediaInline${attrsString} -->`;
+  }
+}
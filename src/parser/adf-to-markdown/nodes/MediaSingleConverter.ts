@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, MediaSingleNode } from '../../../types';
+import { wrapInFence } from '../../../utils/fence-utils.js';
 
 /**
  * Media Single Node Converter
@@ -37,6 +38,16 @@ import type { ADFNode, MediaSingleNode } from '../../../types';
  * ![Media](adf:media:abc-123-def)
  * <!-- adf:mediaSingle layout="center" width="80" -->
  * ```
+ *
+ * With a caption, the media is written as a fence block and the caption is the
+ * paragraph following the image:
+ * ```markdown
+ * ~~~mediaSingle layout=center width=80
+ * ![Media](adf:media:abc-123-def)
+ *
+ * Figure 1: **Login** screen
+ * ~~~
+ * ```
  */
 export class MediaSingleConverter implements NodeConverter {
   nodeType = 'mediaSingle';
@@ -48,8 +59,21 @@ export class MediaSingleConverter implements NodeConverter {
       return '';
     }
 
+    const caption = mediaSingleNode.content.find(child => child.type === 'caption');
+    const mediaNodes = mediaSingleNode.content.filter(child => child.type !== 'caption');
+
     // Convert the inner media node
-    const mediaContent = context.convertChildren(mediaSingleNode.content);
+    const mediaContent = context.convertChildren(mediaNodes);
+
+    if (caption) {
+      const attrs = Object.entries(mediaSingleNode.attrs || {})
+        .map(([key, value]) => /\s/.test(String(value)) ? `${key}="${value}"` : `${key}=${value}`)
+        .join(' ');
+      const captionContent = context.convertChildren(caption.content || []);
+      const body = captionContent ? `${mediaContent}\n\n${captionContent}` : mediaContent;
+
+      return wrapInFence('mediaSingle', attrs, body);
+    }
     
     // Add mediaSingle attributes as metadata (attribute format, not JSON)
     if (mediaSingleNode.attrs && Object.keys(mediaSingleNode.attrs).length > 0) {
@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, PanelNode } from '../../../types';
+import { PANEL_FENCE_ATTRIBUTES, formatFenceAttributeValue, canFormatFenceAttributeValue, toSingleQuotedJson } from '../../../utils/fence-utils.js';
 
 /**
  * Panel Node Converter
@@ -34,6 +35,13 @@ import type { ADFNode, PanelNode } from '../../../types';
  * This is an info panel with content.
  * ~~~
  * ```
+ *
+ * Custom panels carry their icon and background colour as fence attributes:
+ * ```markdown
+ * ~~~panel type=custom icon=:rocket: iconId=1f680 iconText=🚀 color=#E3FCEF
+ * Launch checklist
+ * ~~~
+ * ```
  */
 export class PanelConverter implements NodeConverter {
   nodeType = 'panel';
@@ -49,15 +57,20 @@ export class PanelConverter implements NodeConverter {
     const content = context.convertChildren(panelNode.content);
     
     // Add custom attributes if present (beyond panelType)
-    const customAttrs = { ...panelNode.attrs };
-    if ('panelType' in customAttrs) {
-      delete (customAttrs as any).panelType;
-    }
+    const customAttrs: Record<string, unknown> = { ...panelNode.attrs };
+    delete customAttrs.panelType;
     
     let attributeString = `type=${panelType}`;
+    for (const [fenceName, attrName] of Object.entries(PANEL_FENCE_ATTRIBUTES)) {
+      const value = customAttrs[attrName];
+      if (value !== undefined && value !== null && canFormatFenceAttributeValue(value)) {
+        attributeString += ` ${fenceName}=${formatFenceAttributeValue(value)}`;
+        delete customAttrs[attrName];
+      }
+    }
+    
     if (Object.keys(customAttrs).length > 0) {
-      const attrsJson = JSON.stringify(customAttrs);
-      attributeString += ` attrs='${attrsJson}'`;
+      attributeString += ` attrs='${toSingleQuotedJson(customAttrs)}'`;
     }
     
     return `~~~panel ${attributeString}\n${content}\n~~~`;
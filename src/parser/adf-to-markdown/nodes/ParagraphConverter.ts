@@ -5,6 +5,7 @@
 
 import type { NodeConverter, ConversionContext } from '../../types';
 import type { ADFNode, ParagraphNode } from '../../../types';
+import { blockMarksToAttributes, generateBlockMarksComment } from '../../../utils/metadata-comments.js';
 
 /**
  * Paragraph Node Converter
@@ -29,6 +30,11 @@ import type { ADFNode, ParagraphNode } from '../../../types';
  * ```markdown
  * Hello World
  * ```
+ *
+ * Alignment and indentation block marks:
+ * ```markdown
+ * Hello World<!-- adf:paragraph align="center" indent="1" -->
+ * ```
  */
 export class ParagraphConverter implements NodeConverter {
   nodeType = 'paragraph';
@@ -61,9 +67,11 @@ export class ParagraphConverter implements NodeConverter {
         }
       };
       
-      return `${content} <!-- adf:paragraph attrs='${safeStringify(paragraphNode.attrs)}' -->`;
+      // Block marks join the attrs JSON; a second comment on the same line would be split off
+      const attrs = { ...paragraphNode.attrs, ...blockMarksToAttributes(paragraphNode.marks) };
+      return `${content} <!-- adf:paragraph attrs='${safeStringify(attrs)}' -->`;
     }
     
-    return content;
+    return content + generateBlockMarksComment('paragraph', paragraphNode.marks);
   }
 }
\ No newline at end of file
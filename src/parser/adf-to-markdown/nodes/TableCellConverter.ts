@@ -53,8 +53,9 @@ export class TableCellConverter implements NodeConverter {
     // Convert content - typically paragraphs, but can contain other nodes
     const content = context.convertChildren(tableCellNode.content);
     
-    // Handle multi-line content by replacing newlines with <br> for table compatibility
-    const cellContent = content.replace(/\n/g, '<br>');
+    // Handle multi-line content by replacing newlines with <br> for table compatibility, and
+    // escape pipes so they don't end the cell
+    const cellContent = content.replace(/\n/g, '<br>').replace(/(?<!\\)\|/g, '\\|');
     
     // Handle colspan by duplicating content across cells (basic approach)
     const colspan = tableCellNode.attrs?.colspan || 1;
@@ -4,7 +4,171 @@
  */
 
 import type { NodeConverter, ConversionContext } from '../../types';
-import type { ADFNode, TableNode } from '../../../types';
+import type { ADFNode, TableNode, TableRowNode } from '../../../types';
+import { wrapInFence, formatFenceAttributeValue, canFormatFenceAttributeValue, toSingleQuotedJson } from '../../../utils/fence-utils.js';
+
+/**
+ * Cell attributes written as readable fence attributes; anything else goes into `attrs='{...}'`
+ */
+const CELL_FENCE_ATTRIBUTES = ['colspan', 'rowspan', 'colwidth', 'background'];
+
+/**
+ * GFM separator cells for paragraph alignments that have a column marker
+ */
+const ALIGNMENT_SEPARATORS: Record<string, string> = {
+  center: ' :------: ',
+  end: ' -------: '
+};
+
+/**
+ * Check whether a GFM pipe table can hold the table without losing information.
+ * Pipe tables have no merged cells or column widths, and each cell holds a single line of inline
+ * content; a hard break would be written as `<br>`, which doesn't parse back to a hard break.
+ */
+function isPipeTableCompatible(tableNode: TableNode): boolean {
+  const cellsFit = tableNode.content.every(row => (row.content || []).every(cell => {
+    const { colspan, rowspan, colwidth } = cell.attrs || {};
+    if ((colspan ?? 1) !== 1 || (rowspan ?? 1) !== 1 || colwidth !== undefined) {
+      return false;
+    }
+
+    const content = cell.content || [];
+    return content.length <= 1 && content.every(child =>
+      child.type === 'paragraph' && !(child.content || []).some(inline => inline.type === 'hardBreak'));
+  }));
+
+  // Below the header row, header cells may only form a whole first column
+  const bodyRows = tableNode.content.slice(1).map(row => row.content || []);
+  const headersFit = bodyRows.every(cells => cells.slice(1).every(cell => cell.type !== 'tableHeader')) &&
+    new Set(bodyRows.map(cells => cells[0]?.type)).size <= 1;
+
+  return cellsFit && headersFit && getColumnAlignments(tableNode) !== null;
+}
+
+/**
+ * Get the paragraph alignment (`center`/`end`) of a single-paragraph cell
+ */
+function getCellAlignment(cell: ADFNode): string | undefined {
+  const alignment = cell.content?.[0]?.marks?.find(mark => mark.type === 'alignment');
+  return alignment?.attrs?.align as string | undefined;
+}
+
+/**
+ * Get the alignment of each column, or null when cells in a column disagree
+ * and GFM separator markers cannot express it
+ */
+function getColumnAlignments(tableNode: TableNode): Array<string | undefined> | null {
+  const alignments: Array<string | undefined> = [];
+  const columnCount = Math.max(...tableNode.content.map(row => row.content?.length || 0));
+
+  for (let column = 0; column < columnCount; column++) {
+    const values = new Set(tableNode.content.map(row => {
+      const cell = row.content?.[column];
+      return cell ? getCellAlignment(cell) : undefined;
+    }));
+    if (values.size > 1) {
+      return null;
+    }
+    alignments.push([...values][0]);
+  }
+
+  return alignments;
+}
+
+/**
+ * Remove paragraph alignment marks from cells, as they are written in the separator row instead
+ */
+function withoutCellAlignment(rowNode: TableRowNode): TableRowNode {
+  return {
+    ...rowNode,
+    content: (rowNode.content || []).map(cell => ({
+      ...cell,
+      content: cell.content?.map(child => {
+        if (!child.marks) {
+          return child;
+        }
+        const stripped: ADFNode = { ...child, marks: child.marks.filter(mark => mark.type !== 'alignment') };
+        if (stripped.marks?.length === 0) {
+          delete stripped.marks;
+        }
+        return stripped;
+      })
+    }))
+  };
+}
+
+/**
+ * Build the `<!-- adf:table ... -->` comment written before a pipe table.
+ * `isNumberColumnEnabled` is written as `numbered="true"` and a first column of
+ * header cells as `headerColumn="true"`; defaults are left out and don't survive a round trip.
+ */
+function formatTableMetadata(tableNode: TableNode, hasHeaderColumn: boolean): string {
+  const { isNumberColumnEnabled, layout, ...otherAttrs } = tableNode.attrs || {};
+  const metadata: Record<string, unknown> = {
+    ...(isNumberColumnEnabled === true && { numbered: true }),
+    ...(hasHeaderColumn && { headerColumn: true }),
+    ...(layout !== undefined && layout !== 'default' && { layout }),
+    ...otherAttrs
+  };
+
+  const entries = Object.entries(metadata);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  if (entries.every(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))) {
+    return `<!-- adf:table ${entries.map(([key, value]) => `${key}="${String(value)}"`).join(' ')} -->`;
+  }
+
+  return `<!-- adf:table attrs='${JSON.stringify(metadata)}' -->`;
+}
+
+/**
+ * Build the attribute string of a `~~~cell`/`~~~header` fence:
+ * `colspan=2 rowspan=1 colwidth=120,200 background=#DEEBFF attrs='{...}'`
+ */
+function formatCellAttributes(attrs: Record<string, unknown> = {}): string {
+  const parts: string[] = [];
+  const customAttrs: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(attrs)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (key === 'colwidth' && Array.isArray(value)) {
+      parts.push(`colwidth=${value.join(',')}`);
+    } else if (CELL_FENCE_ATTRIBUTES.includes(key) && canFormatFenceAttributeValue(value)) {
+      parts.push(`${key}=${formatFenceAttributeValue(value)}`);
+    } else {
+      customAttrs[key] = value;
+    }
+  }
+
+  if (Object.keys(customAttrs).length > 0) {
+    parts.push(`attrs='${toSingleQuotedJson(customAttrs)}'`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Render a table row as a `~~~row` fence of `~~~header`/`~~~cell` fences with block content
+ */
+function rowToFenceGrid(rowNode: TableRowNode, context: ConversionContext): string {
+  const cells = (rowNode.content || []).map(cell => {
+    // Cell content is full block markdown, so keep block-level spacing between elements
+    const content = (cell.content || []).map(child => {
+      const converter = context.options.registry?.getNodeConverter(child.type);
+      if (!converter) return '';
+      return converter.toMarkdown(child, context);
+    }).filter(content => content.trim().length > 0).join('\n\n');
+
+    const fenceName = cell.type === 'tableHeader' ? 'header' : 'cell';
+    return wrapInFence(fenceName, formatCellAttributes(cell.attrs), content);
+  });
+
+  return wrapInFence('row', '', cells.join('\n\n'));
+}
 
 /**
  * Table Node Converter
@@ -41,6 +205,25 @@ import type { ADFNode, TableNode } from '../../../types';
  * |----------|----------|
  * | Cell 1   | Cell 2   |
  * ```
+ *
+ * Column alignment is written in the separator row, and table attributes in a comment before the table:
+ * ```markdown
+ * <!-- adf:table numbered="true" headerColumn="true" layout="wide" -->
+ * | Header 1 | Header 2 |
+ * | :------: | -------: |
+ * | Row 1    | Cell 1   |
+ * ```
+ *
+ * Tables with merged cells, column widths or block content in cells use a fence grid instead:
+ * ```markdown
+ * ~~~~~table
+ * ~~~~row
+ * ~~~header colspan=2 colwidth=120,200
+ * Merged header
+ * ~~~
+ * ~~~~
+ * ~~~~~
+ * ```
  */
 export class TableConverter implements NodeConverter {
   nodeType = 'table';
@@ -52,8 +235,25 @@ export class TableConverter implements NodeConverter {
       return '';
     }
 
+    if (!isPipeTableCompatible(tableNode)) {
+      const rows = tableNode.content.map(rowNode => rowToFenceGrid(rowNode, {
+        ...context,
+        depth: context.depth + 1,
+        parent: tableNode
+      }));
+      const attributeString = tableNode.attrs && Object.keys(tableNode.attrs).length > 0
+        ? `attrs='${JSON.stringify(tableNode.attrs)}'`
+        : '';
+
+      return wrapInFence('table', attributeString, rows.join('\n\n'));
+    }
+
+    const alignments = getColumnAlignments(tableNode) || [];
+    const hasAlignment = alignments.some(alignment => alignment !== undefined);
+    const tableRows = hasAlignment ? tableNode.content.map(withoutCellAlignment) : tableNode.content;
+
     // Convert all table rows
-    const rows = tableNode.content.map(rowNode => {
+    const rows = tableRows.map(rowNode => {
       const rowConverter = context.options.registry?.getNodeConverter('tableRow');
       if (rowConverter) {
         return rowConverter.toMarkdown(rowNode, { 
@@ -89,26 +289,22 @@ export class TableConverter implements NodeConverter {
       
       // Fallback to counting pipes if ADF analysis fails
       if (actualColumnCount === 0) {
-        actualColumnCount = (rows[0].match(/\|/g) || []).length - 1;
+        actualColumnCount = (rows[0].match(/(?<!\\)\|/g) || []).length - 1;
       }
       
-      const separator = '|' + ' -------- |'.repeat(Math.max(1, actualColumnCount));
+      const separatorCells = Array.from({ length: Math.max(1, actualColumnCount) }, (_, column) =>
+        ALIGNMENT_SEPARATORS[alignments[column] ?? ''] ?? ' -------- '
+      );
+      const separator = `|${separatorCells.join('|')}|`;
       result = `${rows[0]}\n${separator}${rows.slice(1).length > 0 ? '\n' + rows.slice(1).join('\n') : ''}`;
     }
     
-    // Add metadata for custom attributes (excluding default values)
-    const customAttrs = { ...tableNode.attrs };
-    
-    // Remove default values that shouldn't show in metadata
-    if ((customAttrs as any).isNumberColumnEnabled === false) {
-      delete (customAttrs as any).isNumberColumnEnabled;
-    }
-    if ((customAttrs as any).layout === 'default') {
-      delete (customAttrs as any).layout;
-    }
-    
-    if (Object.keys(customAttrs).length > 0) {
-      result += `\n<!-- adf:table attrs='${JSON.stringify(customAttrs)}' -->`;
+    // Table attributes go in a metadata comment before the table so they attach to it when parsed
+    const bodyRows = tableNode.content.slice(1);
+    const hasHeaderColumn = bodyRows.length > 0 && bodyRows.every(row => row.content?.[0]?.type === 'tableHeader');
+    const metadata = formatTableMetadata(tableNode, hasHeaderColumn);
+    if (metadata) {
+      result = `${metadata}\n${result}`;
     }
     
     return result;
@@ -50,8 +50,8 @@ export class TableHeaderConverter implements NodeConverter {
       return '';
     }
 
-    // Convert content - typically paragraphs with text
-    const content = context.convertChildren(tableHeaderNode.content);
+    // Convert content - typically paragraphs with text - escaping pipes so they don't end the cell
+    const content = context.convertChildren(tableHeaderNode.content).replace(/(?<!\\)\|/g, '\\|');
     
     // Handle colspan by duplicating content across cells (basic approach)
     const colspan = tableHeaderNode.attrs?.colspan || 1;
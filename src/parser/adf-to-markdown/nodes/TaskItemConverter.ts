@@ -0,0 +1,65 @@
+/**
+ * @file Task Item node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/taskitem/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, TaskItemNode } from '../../../types';
+
+/**
+ * Task Item Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/taskitem/
+ *
+ * Purpose:
+ * Task Item nodes represent individual action items within a task list
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "taskItem",
+ *   "attrs": {
+ *     "localId": "task-1",
+ *     "state": "DONE"
+ *   },
+ *   "content": [
+ *     { "type": "text", "text": "Ship the release" }
+ *   ]
+ * }
+ * ```
+ *
+ * Markdown Representation:
+ * ```markdown
+ * - [x] Ship the release <!-- adf:taskItem localId="task-1" -->
+ * ```
+ */
+export class TaskItemConverter implements NodeConverter {
+  nodeType = 'taskItem';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const taskItemNode = node as TaskItemNode;
+    const checkbox = taskItemNode.attrs?.state === 'DONE' ? '[x]' : '[ ]';
+
+    const content = taskItemNode.content && taskItemNode.content.length > 0
+      ? context.convertChildren(taskItemNode.content)
+      : '';
+
+    // Hard breaks inside the item need a 2-space indent to stay in the list item
+    const lines = content.split('\n').map((line, index) => {
+      if (index === 0 || line.trim().length === 0) {
+        return line;
+      }
+      return `  ${line}`;
+    });
+
+    let result = `- ${checkbox} ${lines.join('\n')}`.trimEnd();
+
+    // Preserve localId for round-trip fidelity
+    if (taskItemNode.attrs?.localId) {
+      result += ` <!-- adf:taskItem localId="${taskItemNode.attrs.localId}" -->`;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @file Task List node converter
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/tasklist/
+ */
+
+import type { NodeConverter, ConversionContext } from '../../types';
+import type { ADFNode, TaskListNode } from '../../../types';
+
+/**
+ * Task List Node Converter
+ *
+ * Official Documentation:
+ * @see https://developer.atlassian.com/cloud/jira/platform/apis/document/nodes/tasklist/
+ *
+ * Purpose:
+ * Task List nodes group action items (taskItem) and may nest further task lists
+ *
+ * ADF Schema:
+ * ```json
+ * {
+ *   "type": "taskList",
+ *   "attrs": { "localId": "list-1" },
+ *   "content": [
+ *     {
+ *       "type": "taskItem",
+ *       "attrs": { "localId": "task-1", "state": "TODO" },
+ *       "content": [{ "type": "text", "text": "Write tests" }]
+ *     },
+ *     {
+ *       "type": "taskList",
+ *       "attrs": { "localId": "list-2" },
+ *       "content": [...]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Markdown Representation (GFM task list):
+ * ```markdown
+ * <!-- adf:taskList localId="list-1" -->
+ * - [ ] Write tests <!-- adf:taskItem localId="task-1" -->
+ *   - [x] Nested task
+ * ```
+ */
+export class TaskListConverter implements NodeConverter {
+  nodeType = 'taskList';
+
+  toMarkdown(node: ADFNode, context: ConversionContext): string {
+    const taskListNode = node as TaskListNode;
+
+    if (!taskListNode.content || taskListNode.content.length === 0) {
+      return '';
+    }
+
+    const childContext: ConversionContext = {
+      ...context,
+      depth: context.depth + 1,
+      parent: taskListNode
+    };
+
+    const items = taskListNode.content.map(child => {
+      const converter = context.options.registry?.getNodeConverter(child.type);
+      if (!converter) {
+        return '';
+      }
+
+      const markdown = converter.toMarkdown(child, childContext);
+
+      // Nested task lists are indented under the preceding task item
+      if (child.type === 'taskList') {
+        return markdown
+          .split('\n')
+          .map(line => (line.trim().length > 0 ? `  ${line}` : line))
+          .join('\n');
+      }
+
+      return markdown;
+    }).filter(item => item.length > 0);
+
+    const result = items.join('\n');
+
+    if (taskListNode.attrs?.localId) {
+      return `<!-- adf:taskList localId="${taskListNode.attrs.localId}" -->\n${result}`;
+    }
+
+    return result;
+  }
+}
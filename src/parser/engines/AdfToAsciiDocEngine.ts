@@ -0,0 +1,255 @@
+/**
+ * @file AdfToAsciiDocEngine.ts
+ * @description Engine for converting ADF to AsciiDoc using the converter registry approach
+ */
+
+import type { ADFDocument, ADFNode, ConversionOptions } from '../../types/index.js';
+import type { AsciiDocConversionContext } from '../types.js';
+import { AsciiDocConverterRegistry } from '../AsciiDocConverterRegistry.js';
+import { MentionResolverCache, resolveAdfMentions, resolveAdfMentionsAsync } from '../../utils/mention-resolver.js';
+import { MediaResolverCache, prefetchMediaIds } from '../../utils/media-resolver.js';
+import { LIST_NODE_TYPES } from '../../utils/asciidoc-utils.js';
+
+// Import node converters
+import {
+  DocAsciiDocConverter,
+  ParagraphAsciiDocConverter,
+  HeadingAsciiDocConverter,
+  BlockquoteAsciiDocConverter,
+  RuleAsciiDocConverter,
+  HardBreakAsciiDocConverter,
+  CodeBlockAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/BlockConverters.js';
+import {
+  BulletListAsciiDocConverter,
+  OrderedListAsciiDocConverter,
+  ListItemAsciiDocConverter,
+  TaskListAsciiDocConverter,
+  TaskItemAsciiDocConverter,
+  DecisionListAsciiDocConverter,
+  DecisionItemAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/ListConverters.js';
+import {
+  PanelAsciiDocConverter,
+  ExpandAsciiDocConverter,
+  NestedExpandAsciiDocConverter,
+  LayoutSectionAsciiDocConverter,
+  LayoutColumnAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/ContainerConverters.js';
+import {
+  TableAsciiDocConverter,
+  TableRowAsciiDocConverter,
+  TableHeaderAsciiDocConverter,
+  TableCellAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/TableConverters.js';
+import {
+  MediaAsciiDocConverter,
+  MediaInlineAsciiDocConverter,
+  MediaSingleAsciiDocConverter,
+  MediaGroupAsciiDocConverter,
+  CaptionAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/MediaConverters.js';
+import {
+  TextAsciiDocConverter,
+  MentionAsciiDocConverter,
+  EmojiAsciiDocConverter,
+  DateAsciiDocConverter,
+  StatusAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/InlineConverters.js';
+import {
+  InlineCardAsciiDocConverter,
+  BlockCardAsciiDocConverter,
+  EmbedCardAsciiDocConverter,
+  ExtensionAsciiDocConverter,
+  BodiedExtensionAsciiDocConverter,
+  InlineExtensionAsciiDocConverter
+} from '../adf-to-asciidoc/nodes/CardConverters.js';
+
+// Import mark converters
+import {
+  StrongAsciiDocConverter,
+  EmAsciiDocConverter,
+  CodeAsciiDocConverter,
+  LinkAsciiDocConverter,
+  StrikeAsciiDocConverter,
+  UnderlineAsciiDocConverter,
+  TextColorAsciiDocConverter,
+  BackgroundColorAsciiDocConverter,
+  SubsupAsciiDocConverter,
+  AnnotationAsciiDocConverter
+} from '../adf-to-asciidoc/marks/MarkConverters.js';
+
+/**
+ * Core engine for ADF to AsciiDoc conversion
+ * Mirrors AdfToHtmlEngine with a registry of AsciiDoc converters
+ */
+export class AdfToAsciiDocEngine {
+  private registry: AsciiDocConverterRegistry;
+  private options: ConversionOptions;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+
+    this.registry = new AsciiDocConverterRegistry();
+    this.registerConverters();
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+  }
+
+  /**
+   * Convert ADF document to AsciiDoc
+   */
+  convert(adf: ADFDocument): string {
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return '';
+    }
+
+    try {
+      return this.convertAdfToAsciiDoc(this.mentionCache ? resolveAdfMentions(adf, this.mentionCache) : adf);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to AsciiDoc conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Convert ADF document to AsciiDoc, waiting for async mention and media resolvers
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    if (!adf || typeof adf !== 'object') {
+      return this.convert(adf);
+    }
+    if (this.mediaCache) {
+      await prefetchMediaIds(adf, this.mediaCache);
+    }
+    return this.convert(this.mentionCache ? await resolveAdfMentionsAsync(adf, this.mentionCache) : adf);
+  }
+
+  /**
+   * Register all node and mark converters
+   */
+  private registerConverters(): void {
+    // Register node converters
+    this.registry.registerNodes([
+      new DocAsciiDocConverter(),
+      new ParagraphAsciiDocConverter(),
+      new TextAsciiDocConverter(),
+      new HeadingAsciiDocConverter(),
+      new PanelAsciiDocConverter(),
+      new CodeBlockAsciiDocConverter(),
+      new BulletListAsciiDocConverter(),
+      new OrderedListAsciiDocConverter(),
+      new ListItemAsciiDocConverter(),
+      new MediaAsciiDocConverter(),
+      new MediaInlineAsciiDocConverter(),
+      new MediaSingleAsciiDocConverter(),
+      new MediaGroupAsciiDocConverter(),
+      new CaptionAsciiDocConverter(),
+      new TableAsciiDocConverter(),
+      new TableRowAsciiDocConverter(),
+      new TableHeaderAsciiDocConverter(),
+      new TableCellAsciiDocConverter(),
+      new ExpandAsciiDocConverter(),
+      new NestedExpandAsciiDocConverter(),
+      new BlockquoteAsciiDocConverter(),
+      new RuleAsciiDocConverter(),
+      new HardBreakAsciiDocConverter(),
+      new MentionAsciiDocConverter(),
+      new DateAsciiDocConverter(),
+      new EmojiAsciiDocConverter(),
+      new StatusAsciiDocConverter(),
+      new InlineCardAsciiDocConverter(),
+      new BlockCardAsciiDocConverter(),
+      new EmbedCardAsciiDocConverter(),
+      new TaskListAsciiDocConverter(),
+      new TaskItemAsciiDocConverter(),
+      new DecisionListAsciiDocConverter(),
+      new DecisionItemAsciiDocConverter(),
+      new LayoutSectionAsciiDocConverter(),
+      new LayoutColumnAsciiDocConverter(),
+      new ExtensionAsciiDocConverter(),
+      new BodiedExtensionAsciiDocConverter(),
+      new InlineExtensionAsciiDocConverter()
+    ]);
+
+    // Register mark converters
+    this.registry.registerMarks([
+      new StrongAsciiDocConverter(),
+      new EmAsciiDocConverter(),
+      new CodeAsciiDocConverter(),
+      new LinkAsciiDocConverter(),
+      new StrikeAsciiDocConverter(),
+      new UnderlineAsciiDocConverter(),
+      new TextColorAsciiDocConverter(),
+      new BackgroundColorAsciiDocConverter(),
+      new SubsupAsciiDocConverter(),
+      new AnnotationAsciiDocConverter()
+    ]);
+  }
+
+  /**
+   * Core ADF to AsciiDoc conversion logic
+   */
+  private convertAdfToAsciiDoc(adf: ADFDocument): string {
+    // Handle missing or invalid content array
+    if (!adf.content || !Array.isArray(adf.content)) {
+      return '';
+    }
+
+    const context = this.createContext(adf as ADFNode, undefined, 0, 0);
+    return this.registry.getNodeConverter('doc').toAsciiDoc(adf as ADFNode, context);
+  }
+
+  /**
+   * Context for converting a node. List markers and table cell styles depend on the
+   * surrounding nodes, so each child gets its own context with its parent and list depth.
+   */
+  private createContext(node: ADFNode, parent: ADFNode | undefined, depth: number, listDepth: number): AsciiDocConversionContext {
+    return {
+      convertChildren: (nodes: ADFNode[]) => {
+        if (!Array.isArray(nodes)) return '';
+        return nodes.map(child => {
+          try {
+            const childListDepth = LIST_NODE_TYPES.has(child.type) ? listDepth + 1 : listDepth;
+            const childContext = this.createContext(child, node, depth + 1, childListDepth);
+            return this.registry.getNodeConverter(child.type).toAsciiDoc(child, childContext);
+          } catch (error: unknown) {
+            // Graceful degradation for nodes that fail to convert
+            if (this.options.enableLogging) {
+              console.warn(`Failed to convert node type "${child.type}":`, error);
+            }
+            return '';
+          }
+        }).join('');
+      },
+      depth,
+      listDepth,
+      parent,
+      options: {
+        registry: this.registry,
+        mediaCache: this.mediaCache
+      }
+    };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * @file AdfToHtmlEngine.ts
+ * @description Engine for converting ADF to HTML using the converter registry approach
+ */
+
+import type { ADFDocument, ADFNode, ConversionOptions, HtmlRenderOptions } from '../../types/index.js';
+import type { HtmlConversionContext } from '../types.js';
+import { HtmlConverterRegistry } from '../HtmlConverterRegistry.js';
+import { MentionResolverCache, resolveAdfMentions, resolveAdfMentionsAsync } from '../../utils/mention-resolver.js';
+import { MediaResolverCache, prefetchMediaIds } from '../../utils/media-resolver.js';
+
+// Import node converters
+import {
+  DocHtmlConverter,
+  ParagraphHtmlConverter,
+  HeadingHtmlConverter,
+  BlockquoteHtmlConverter,
+  RuleHtmlConverter,
+  HardBreakHtmlConverter,
+  CodeBlockHtmlConverter
+} from '../adf-to-html/nodes/BlockConverters.js';
+import {
+  BulletListHtmlConverter,
+  OrderedListHtmlConverter,
+  ListItemHtmlConverter,
+  TaskListHtmlConverter,
+  TaskItemHtmlConverter,
+  DecisionListHtmlConverter,
+  DecisionItemHtmlConverter
+} from '../adf-to-html/nodes/ListConverters.js';
+import {
+  PanelHtmlConverter,
+  ExpandHtmlConverter,
+  NestedExpandHtmlConverter,
+  LayoutSectionHtmlConverter,
+  LayoutColumnHtmlConverter
+} from '../adf-to-html/nodes/ContainerConverters.js';
+import {
+  TableHtmlConverter,
+  TableRowHtmlConverter,
+  TableHeaderHtmlConverter,
+  TableCellHtmlConverter
+} from '../adf-to-html/nodes/TableConverters.js';
+import {
+  MediaHtmlConverter,
+  MediaInlineHtmlConverter,
+  MediaSingleHtmlConverter,
+  MediaGroupHtmlConverter,
+  CaptionHtmlConverter
+} from '../adf-to-html/nodes/MediaConverters.js';
+import {
+  TextHtmlConverter,
+  MentionHtmlConverter,
+  EmojiHtmlConverter,
+  DateHtmlConverter,
+  StatusHtmlConverter
+} from '../adf-to-html/nodes/InlineConverters.js';
+import {
+  InlineCardHtmlConverter,
+  BlockCardHtmlConverter,
+  EmbedCardHtmlConverter,
+  ExtensionHtmlConverter,
+  BodiedExtensionHtmlConverter,
+  InlineExtensionHtmlConverter
+} from '../adf-to-html/nodes/CardConverters.js';
+
+// Import mark converters
+import {
+  StrongHtmlConverter,
+  EmHtmlConverter,
+  CodeHtmlConverter,
+  LinkHtmlConverter,
+  StrikeHtmlConverter,
+  UnderlineHtmlConverter,
+  TextColorHtmlConverter,
+  BackgroundColorHtmlConverter,
+  SubsupHtmlConverter,
+  AnnotationHtmlConverter
+} from '../adf-to-html/marks/MarkConverters.js';
+
+/**
+ * Core engine for ADF to HTML conversion
+ * Mirrors AdfToMarkdownEngine with a registry of HTML converters
+ */
+export class AdfToHtmlEngine {
+  private registry: HtmlConverterRegistry;
+  private options: ConversionOptions & Required<HtmlRenderOptions>;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+
+  constructor(options: ConversionOptions & HtmlRenderOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      classPrefix: 'adf-',
+      ...options
+    };
+
+    this.registry = new HtmlConverterRegistry();
+    this.registerConverters();
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+  }
+
+  /**
+   * Convert ADF document to HTML
+   */
+  convert(adf: ADFDocument): string {
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return '';
+    }
+
+    try {
+      return this.convertAdfToHtml(this.mentionCache ? resolveAdfMentions(adf, this.mentionCache) : adf);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to HTML conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Convert ADF document to HTML, waiting for async mention and media resolvers
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    if (!adf || typeof adf !== 'object') {
+      return this.convert(adf);
+    }
+    if (this.mediaCache) {
+      await prefetchMediaIds(adf, this.mediaCache);
+    }
+    return this.convert(this.mentionCache ? await resolveAdfMentionsAsync(adf, this.mentionCache) : adf);
+  }
+
+  /**
+   * Register all node and mark converters
+   */
+  private registerConverters(): void {
+    // Register node converters
+    this.registry.registerNodes([
+      new DocHtmlConverter(),
+      new ParagraphHtmlConverter(),
+      new TextHtmlConverter(),
+      new HeadingHtmlConverter(),
+      new PanelHtmlConverter(),
+      new CodeBlockHtmlConverter(),
+      new BulletListHtmlConverter(),
+      new OrderedListHtmlConverter(),
+      new ListItemHtmlConverter(),
+      new MediaHtmlConverter(),
+      new MediaInlineHtmlConverter(),
+      new MediaSingleHtmlConverter(),
+      new MediaGroupHtmlConverter(),
+      new CaptionHtmlConverter(),
+      new TableHtmlConverter(),
+      new TableRowHtmlConverter(),
+      new TableHeaderHtmlConverter(),
+      new TableCellHtmlConverter(),
+      new ExpandHtmlConverter(),
+      new NestedExpandHtmlConverter(),
+      new BlockquoteHtmlConverter(),
+      new RuleHtmlConverter(),
+      new HardBreakHtmlConverter(),
+      new MentionHtmlConverter(),
+      new DateHtmlConverter(),
+      new EmojiHtmlConverter(),
+      new StatusHtmlConverter(),
+      new InlineCardHtmlConverter(),
+      new BlockCardHtmlConverter(),
+      new EmbedCardHtmlConverter(),
+      new TaskListHtmlConverter(),
+      new TaskItemHtmlConverter(),
+      new DecisionListHtmlConverter(),
+      new DecisionItemHtmlConverter(),
+      new LayoutSectionHtmlConverter(),
+      new LayoutColumnHtmlConverter(),
+      new ExtensionHtmlConverter(),
+      new BodiedExtensionHtmlConverter(),
+      new InlineExtensionHtmlConverter()
+    ]);
+
+    // Register mark converters
+    this.registry.registerMarks([
+      new StrongHtmlConverter(),
+      new EmHtmlConverter(),
+      new CodeHtmlConverter(),
+      new LinkHtmlConverter(),
+      new StrikeHtmlConverter(),
+      new UnderlineHtmlConverter(),
+      new TextColorHtmlConverter(),
+      new BackgroundColorHtmlConverter(),
+      new SubsupHtmlConverter(),
+      new AnnotationHtmlConverter()
+    ]);
+  }
+
+  /**
+   * Core ADF to HTML conversion logic
+   */
+  private convertAdfToHtml(adf: ADFDocument): string {
+    const context: HtmlConversionContext = {
+      convertChildren: (nodes: ADFNode[]) => {
+        if (!Array.isArray(nodes)) return '';
+        return nodes.map(node => {
+          try {
+            return this.registry.getNodeConverter(node.type).toHtml(node, context);
+          } catch (error: unknown) {
+            // Graceful degradation for nodes that fail to convert
+            if (this.options.enableLogging) {
+              console.warn(`Failed to convert node type "${node.type}":`, error);
+            }
+            return '';
+          }
+        }).join('');
+      },
+      depth: 0,
+      options: {
+        classPrefix: this.options.classPrefix,
+        registry: this.registry,
+        mediaCache: this.mediaCache
+      }
+    };
+
+    // Handle missing or invalid content array
+    if (!adf.content || !Array.isArray(adf.content)) {
+      return '';
+    }
+
+    return this.registry.getNodeConverter('doc').toHtml(adf, context);
+  }
+}
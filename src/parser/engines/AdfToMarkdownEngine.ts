@@ -3,10 +3,14 @@
  * @description Core engine for converting ADF to Markdown - uses ConverterRegistry
  */
 
-import type { ADFDocument, ADFNode, ConversionOptions } from '../../types/index.js';
+import type { ADFDocument, ADFNode, ConversionOptions, MarkdownLoss } from '../../types/index.js';
 import type { ConversionContext } from '../types.js';
 import { ConverterRegistry } from '../ConverterRegistry.js';
 import { AdfValidator } from '../../validators/AdfValidator.js';
+import { MentionResolverCache, resolveAdfMentions, resolveAdfMentionsAsync } from '../../utils/mention-resolver.js';
+import { MediaResolverCache, prefetchMediaIds } from '../../utils/media-resolver.js';
+import { LinkResolverCache, prefetchAdfLinks, type UnresolvedLink } from '../../utils/link-resolver.js';
+import { MarkdownLossTracker } from '../../utils/markdown-loss.js';
 
 // Import node converters
 import { ParagraphConverter } from '../adf-to-markdown/nodes/ParagraphConverter.js';
@@ -18,6 +22,7 @@ import { BulletListConverter } from '../adf-to-markdown/nodes/BulletListConverte
 import { OrderedListConverter } from '../adf-to-markdown/nodes/OrderedListConverter.js';
 import { ListItemConverter } from '../adf-to-markdown/nodes/ListItemConverter.js';
 import { MediaConverter } from '../adf-to-markdown/nodes/MediaConverter.js';
+import { MediaInlineConverter } from '../adf-to-markdown/nodes/MediaInlineConverter.js';
 import { MediaSingleConverter } from '../adf-to-markdown/nodes/MediaSingleConverter.js';
 import { TableConverter } from '../adf-to-markdown/nodes/TableConverter.js';
 import { TableRowConverter } from '../adf-to-markdown/nodes/TableRowConverter.js';
@@ -32,8 +37,16 @@ import { DateConverter } from '../adf-to-markdown/nodes/DateConverter.js';
 import { EmojiConverter } from '../adf-to-markdown/nodes/EmojiConverter.js';
 import { StatusConverter } from '../adf-to-markdown/nodes/StatusConverter.js';
 import { InlineCardConverter } from '../adf-to-markdown/nodes/InlineCardConverter.js';
+import { BlockCardConverter, EmbedCardConverter } from '../adf-to-markdown/nodes/BlockCardConverter.js';
 import { MediaGroupConverter } from '../adf-to-markdown/nodes/MediaGroupConverter.js';
 import { DocConverter } from '../adf-to-markdown/nodes/DocConverter.js';
+import { TaskListConverter } from '../adf-to-markdown/nodes/TaskListConverter.js';
+import { TaskItemConverter } from '../adf-to-markdown/nodes/TaskItemConverter.js';
+import { DecisionListConverter } from '../adf-to-markdown/nodes/DecisionListConverter.js';
+import { DecisionItemConverter } from '../adf-to-markdown/nodes/DecisionItemConverter.js';
+import { LayoutSectionConverter } from '../adf-to-markdown/nodes/LayoutSectionConverter.js';
+import { LayoutColumnConverter } from '../adf-to-markdown/nodes/LayoutColumnConverter.js';
+import { ExtensionConverter, BodiedExtensionConverter, InlineExtensionConverter } from '../adf-to-markdown/nodes/ExtensionConverter.js';
 
 // Import mark converters
 import { StrongConverter } from '../adf-to-markdown/marks/StrongConverter.js';
@@ -45,6 +58,55 @@ import { UnderlineConverter } from '../adf-to-markdown/marks/UnderlineConverter.
 import { TextColorConverter } from '../adf-to-markdown/marks/TextColorConverter.js';
 import { BackgroundColorConverter } from '../adf-to-markdown/marks/BackgroundColorConverter.js';
 import { SubsupConverter } from '../adf-to-markdown/marks/SubsupConverter.js';
+import { AnnotationConverter, convertAnnotatedNodes, hasAnnotationMarks } from '../adf-to-markdown/marks/AnnotationConverter.js';
+
+// Import clean profile converters
+import {
+  CleanParagraphConverter,
+  CleanHeadingConverter,
+  CleanBlockquoteConverter,
+  CleanListItemConverter,
+  CleanOrderedListConverter,
+  CleanCodeBlockConverter,
+  CleanTaskListConverter,
+  CleanTaskItemConverter,
+  CleanPanelConverter,
+  CleanExpandConverter,
+  CleanNestedExpandConverter,
+  CleanDecisionListConverter,
+  CleanDecisionItemConverter,
+  CleanLayoutSectionConverter,
+  CleanLayoutColumnConverter,
+  CleanExtensionConverter,
+  CleanBodiedExtensionConverter,
+  CleanInlineExtensionConverter,
+  CleanMentionConverter,
+  CleanStatusConverter,
+  CleanDateConverter,
+  CleanEmojiConverter,
+  CleanInlineCardConverter,
+  CleanBlockCardConverter,
+  CleanEmbedCardConverter,
+  CleanMediaConverter,
+  CleanMediaInlineConverter,
+  CleanMediaSingleConverter,
+  CleanMediaGroupConverter,
+  CleanFallbackNodeConverter
+} from '../adf-to-markdown/clean/CleanNodeConverters.js';
+import { CleanTableConverter } from '../adf-to-markdown/clean/CleanTableConverter.js';
+import {
+  CleanStrongConverter,
+  CleanEmConverter,
+  CleanCodeConverter,
+  CleanStrikeConverter,
+  CleanLinkConverter,
+  CleanSubsupConverter,
+  CleanUnderlineConverter,
+  CleanTextColorConverter,
+  CleanBackgroundColorConverter,
+  CleanAnnotationConverter,
+  CleanFallbackMarkConverter
+} from '../adf-to-markdown/clean/CleanMarkConverters.js';
 
 /**
  * Core engine for ADF to Markdown conversion
@@ -54,6 +116,10 @@ export class AdfToMarkdownEngine {
   private registry: ConverterRegistry;
   private validator: AdfValidator;
   private options: Required<ConversionOptions>;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+  private linkCache?: LinkResolverCache;
+  private lossTracker = new MarkdownLossTracker();
 
   constructor(options: ConversionOptions = {}) {
     this.options = {
@@ -69,18 +135,34 @@ export class AdfToMarkdownEngine {
       maxRetries: 3,
       retryDelay: 100,
       fallbackStrategy: 'best-effort',
+      markdownProfile: 'extended',
       ...options
     } as Required<ConversionOptions>;
 
     this.registry = new ConverterRegistry();
     this.validator = new AdfValidator();
     this.registerConverters();
+    if (this.options.markdownProfile === 'clean') {
+      this.registerCleanConverters();
+    }
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+    if (this.options.linkResolver) {
+      this.linkCache = new LinkResolverCache(this.options.linkResolver);
+    }
   }
 
   /**
    * Convert ADF document to markdown
    */
   convert(adf: ADFDocument): string {
+    this.linkCache?.clearUnresolvedLinks();
+
     if (!adf || typeof adf !== 'object') {
       if (this.options.strict) {
         throw new Error('Invalid ADF document: must be a non-null object');
@@ -103,7 +185,7 @@ export class AdfToMarkdownEngine {
       }
       
       // Convert using registered converters
-      return this.convertAdfToMarkdown(adf);
+      return this.convertAdfToMarkdown(this.mentionCache ? resolveAdfMentions(adf, this.mentionCache) : adf);
     } catch (error) {
       if (this.options.strict) {
         throw error;
@@ -117,6 +199,36 @@ export class AdfToMarkdownEngine {
     }
   }
 
+  /**
+   * Convert ADF document to markdown, waiting for async mention, media and link resolvers
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    if (!adf || typeof adf !== 'object') {
+      return this.convert(adf);
+    }
+    if (this.mediaCache) {
+      await prefetchMediaIds(adf, this.mediaCache);
+    }
+    if (this.linkCache) {
+      await prefetchAdfLinks(adf, this.linkCache);
+    }
+    return this.convert(this.mentionCache ? await resolveAdfMentionsAsync(adf, this.mentionCache) : adf);
+  }
+
+  /**
+   * Link URLs the link resolver could not map to markdown paths in the most recent conversion
+   */
+  getUnresolvedLinks(): UnresolvedLink[] {
+    return this.linkCache?.getUnresolvedLinks() || [];
+  }
+
+  /**
+   * What the clean profile dropped in the most recent conversion; empty for the extended profile
+   */
+  getLossReport(): MarkdownLoss[] {
+    return this.lossTracker.getReport();
+  }
+
   /**
    * Convert ADF document to markdown with validation
    */
@@ -176,7 +288,7 @@ export class AdfToMarkdownEngine {
       }
       
       // Check for ADF extensions
-      if (['panel', 'expand', 'mediaSingle', 'mediaGroup', 'mention', 'emoji', 'date', 'status'].includes(node.type)) {
+      if (['panel', 'expand', 'mediaSingle', 'mediaGroup', 'mention', 'emoji', 'date', 'status', 'taskList', 'decisionList', 'layoutSection', 'extension', 'bodiedExtension', 'inlineExtension', 'blockCard', 'embedCard', 'mediaInline'].includes(node.type)) {
         stats.hasAdfExtensions = true;
       }
       
@@ -221,6 +333,7 @@ export class AdfToMarkdownEngine {
       new OrderedListConverter(),
       new ListItemConverter(),
       new MediaConverter(),
+      new MediaInlineConverter(),
       new MediaSingleConverter(),
       new TableConverter(),
       new TableRowConverter(),
@@ -236,8 +349,19 @@ export class AdfToMarkdownEngine {
       new EmojiConverter(),
       new StatusConverter(),
       new InlineCardConverter(),
+      new BlockCardConverter(),
+      new EmbedCardConverter(),
       new MediaGroupConverter(),
-      new DocConverter()
+      new DocConverter(),
+      new TaskListConverter(),
+      new TaskItemConverter(),
+      new DecisionListConverter(),
+      new DecisionItemConverter(),
+      new LayoutSectionConverter(),
+      new LayoutColumnConverter(),
+      new ExtensionConverter(),
+      new BodiedExtensionConverter(),
+      new InlineExtensionConverter()
     ]);
     
     // Register mark converters
@@ -250,34 +374,108 @@ export class AdfToMarkdownEngine {
       new UnderlineConverter(),
       new TextColorConverter(),
       new BackgroundColorConverter(),
-      new SubsupConverter()
+      new SubsupConverter(),
+      new AnnotationConverter()
     ]);
   }
 
+  /**
+   * Replace converters whose output has ADF metadata with plain CommonMark/GFM ones
+   */
+  private registerCleanConverters(): void {
+    this.registry.registerNodes([
+      new CleanParagraphConverter(),
+      new CleanHeadingConverter(),
+      new CleanPanelConverter(),
+      new CleanCodeBlockConverter(),
+      new CleanOrderedListConverter(),
+      new CleanListItemConverter(),
+      new CleanMediaConverter(),
+      new CleanMediaInlineConverter(),
+      new CleanMediaSingleConverter(),
+      new CleanTableConverter(),
+      new CleanExpandConverter(),
+      new CleanNestedExpandConverter(),
+      new CleanBlockquoteConverter(),
+      new CleanMentionConverter(),
+      new CleanDateConverter(),
+      new CleanEmojiConverter(),
+      new CleanStatusConverter(),
+      new CleanInlineCardConverter(),
+      new CleanBlockCardConverter(),
+      new CleanEmbedCardConverter(),
+      new CleanMediaGroupConverter(),
+      new CleanTaskListConverter(),
+      new CleanTaskItemConverter(),
+      new CleanDecisionListConverter(),
+      new CleanDecisionItemConverter(),
+      new CleanLayoutSectionConverter(),
+      new CleanLayoutColumnConverter(),
+      new CleanExtensionConverter(),
+      new CleanBodiedExtensionConverter(),
+      new CleanInlineExtensionConverter()
+    ]);
+
+    this.registry.registerMarks([
+      new CleanStrongConverter(),
+      new CleanEmConverter(),
+      new CleanCodeConverter(),
+      new CleanLinkConverter(),
+      new CleanStrikeConverter(),
+      new CleanUnderlineConverter(),
+      new CleanTextColorConverter(),
+      new CleanBackgroundColorConverter(),
+      new CleanSubsupConverter(),
+      new CleanAnnotationConverter()
+    ]);
+
+    this.registry.setFallbackConverters(new CleanFallbackNodeConverter(), new CleanFallbackMarkConverter());
+  }
+
+  /**
+   * Output for a node whose converter failed: a comment in extended markdown, nothing in clean markdown
+   */
+  private failedNodeMarkdown(node: ADFNode): string {
+    if (this.options.markdownProfile === 'clean') {
+      this.lossTracker.record(node.type, 'failed to convert');
+      return '';
+    }
+    return this.options.preserveUnknownNodes ? `<!-- Unknown node: ${node.type} -->` : '';
+  }
+
   /**
    * Core ADF to markdown conversion logic
    */
   private convertAdfToMarkdown(adf: ADFDocument): string {
+    this.lossTracker.clear();
+    const convertNode = (node: ADFNode): string => {
+      try {
+        const converter = this.registry.getNodeConverter(node.type);
+        return converter.toMarkdown(node, context);
+      } catch (error: unknown) {
+        // Graceful degradation for unknown node types
+        if (this.options.enableLogging) {
+          console.warn(`Failed to convert node type "${node.type}":`, error);
+        }
+        return this.failedNodeMarkdown(node);
+      }
+    };
     const context: ConversionContext = {
       convertChildren: (nodes: ADFNode[]) => {
         if (!Array.isArray(nodes)) return '';
-        return nodes.map(node => {
-          try {
-            const converter = this.registry.getNodeConverter(node.type);
-            return converter.toMarkdown(node, context);
-          } catch (error: unknown) {
-            // Graceful degradation for unknown node types
-            if (this.options.enableLogging) {
-              console.warn(`Failed to convert node type "${node.type}":`, error);
-            }
-            return this.options.preserveUnknownNodes ? `<!-- Unknown node: ${node.type} -->` : '';
-          }
-        }).join('');
+        // Annotated ranges are wrapped once across neighbouring nodes; the clean profile drops them
+        if (this.options.markdownProfile !== 'clean' && hasAnnotationMarks(nodes)) {
+          return convertAnnotatedNodes(nodes, convertNode);
+        }
+        return nodes.map(convertNode).join('');
       },
       depth: 0,
       options: {
         ...this.options,
-        registry: this.registry
+        registry: this.registry,
+        mediaCache: this.mediaCache,
+        linkCache: this.linkCache,
+        lossTracker: this.lossTracker
       }
     };
     
@@ -287,18 +485,7 @@ export class AdfToMarkdownEngine {
     }
     
     // For the top-level document, we need to join block elements with double newlines
-    const content = adf.content.map(node => {
-      try {
-        const converter = this.registry.getNodeConverter(node.type);
-        return converter.toMarkdown(node, context);
-      } catch (error: unknown) {
-        // Graceful degradation for unknown node types
-        if (this.options.enableLogging) {
-          console.warn(`Failed to convert node type "${node.type}":`, error);
-        }
-        return this.options.preserveUnknownNodes ? `<!-- Unknown node: ${node.type} -->` : '';
-      }
-    }).filter(content => content.length > 0).join('\n\n');
+    const content = adf.content.map(convertNode).filter(content => content.length > 0).join('\n\n');
     
     return content;
   }
@@ -0,0 +1,687 @@
+/**
+ * @file AdfToSlackEngine.ts
+ * @description Engine for converting ADF to Slack mrkdwn text and Block Kit blocks
+ */
+
+import type {
+  ADFDocument,
+  ADFNode,
+  ADFMark,
+  ConversionOptions,
+  SlackBlock,
+  SlackRichTextElement,
+  SlackRichTextList,
+  SlackRichTextStyle
+} from '../../types/index.js';
+import { MentionResolverCache, prefetchMentionIds } from '../../utils/mention-resolver.js';
+import { MediaResolverCache, prefetchMediaIds } from '../../utils/media-resolver.js';
+import { SLACK_LIMITS, SLACK_PANEL_EMOJI, escapeSlackText, escapeSlackUrl, splitSlackText } from '../../utils/slack-utils.js';
+import { alignColumns, truncateText } from '../../utils/text-utils.js';
+
+// mrkdwn delimiters, applied innermost first in this order
+const MARK_DELIMITERS: Record<string, string> = {
+  code: '`',
+  strike: '~',
+  em: '_',
+  strong: '*'
+};
+
+const RICH_TEXT_STYLES: Record<string, keyof SlackRichTextStyle> = {
+  strong: 'bold',
+  em: 'italic',
+  strike: 'strike',
+  code: 'code'
+};
+
+const INLINE_NODE_TYPES = new Set([
+  'text', 'hardBreak', 'mention', 'emoji', 'date', 'status', 'inlineCard', 'mediaInline', 'inlineExtension'
+]);
+
+const LIST_NODE_TYPES = new Set(['bulletList', 'orderedList', 'taskList', 'decisionList']);
+
+const EMOJI_SHORT_NAME_PATTERN = /^:([\w+-]+):$/;
+
+/**
+ * Core engine for ADF to Slack conversion
+ *
+ * convert() renders mrkdwn for the `text` of a message; convertToBlocks() renders Block Kit
+ * blocks. Slack has no panels, expands or tables: panels become quotes led by an emoji,
+ * expands show their title in bold above their content and tables are aligned in a code block.
+ * Output is kept within Slack's message and block length limits.
+ */
+export class AdfToSlackEngine {
+  private options: ConversionOptions;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+  private blocks: SlackBlock[] = [];
+  private pendingText: string[] = [];
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+  }
+
+  /**
+   * Convert an ADF document to Slack mrkdwn
+   */
+  convert(adf: ADFDocument): string {
+    if (!this.isDocument(adf)) return '';
+
+    try {
+      return truncateText(this.renderBlocks(adf.content || []), SLACK_LIMITS.messageText);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to Slack mrkdwn conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Convert an ADF document to Slack mrkdwn, waiting for async mention and media resolvers
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    await this.prefetch(adf);
+    return this.convert(adf);
+  }
+
+  /**
+   * Convert an ADF document to Block Kit blocks
+   */
+  convertToBlocks(adf: ADFDocument): SlackBlock[] {
+    if (!this.isDocument(adf)) return [];
+
+    try {
+      this.blocks = [];
+      this.pendingText = [];
+      this.addBlocks(adf.content || []);
+      this.flushText();
+      return this.limitBlocks(this.blocks);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to Slack blocks conversion failed, returning no blocks:', error);
+      }
+
+      return [];
+    }
+  }
+
+  /**
+   * Convert an ADF document to Block Kit blocks, waiting for async mention and media resolvers
+   */
+  async convertToBlocksAsync(adf: ADFDocument): Promise<SlackBlock[]> {
+    await this.prefetch(adf);
+    return this.convertToBlocks(adf);
+  }
+
+  private isDocument(adf: ADFDocument): boolean {
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return false;
+    }
+    return true;
+  }
+
+  private async prefetch(adf: ADFDocument): Promise<void> {
+    if (!adf || typeof adf !== 'object') return;
+
+    if (this.mentionCache) {
+      await prefetchMentionIds(adf, this.mentionCache);
+    }
+    if (this.mediaCache) {
+      await prefetchMediaIds(adf, this.mediaCache);
+    }
+  }
+
+  // --- Block Kit ---
+
+  /**
+   * Add blocks for the given nodes. Nodes without a block of their own are rendered as mrkdwn
+   * and collected into the next section.
+   */
+  private addBlocks(nodes: ADFNode[]): void {
+    if (!Array.isArray(nodes)) return;
+    nodes.forEach(node => this.addBlock(node));
+  }
+
+  private addBlock(node: ADFNode): void {
+    const attrs = node.attrs || {};
+
+    switch (node.type) {
+      case 'heading': {
+        const text = this.renderPlainText(node.content || []).trim();
+        if (text) {
+          this.pushBlock({ type: 'header', text: { type: 'plain_text', text: truncateText(text, SLACK_LIMITS.headerText), emoji: true } });
+        }
+        return;
+      }
+
+      case 'rule':
+        this.pushBlock({ type: 'divider' });
+        return;
+
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+      case 'decisionList':
+        this.pushBlock({ type: 'rich_text', elements: this.renderRichTextList(node, 0) });
+        return;
+
+      case 'codeBlock': {
+        const code = (node.content || []).map(child => child.text || '').join('');
+        const elements = splitSlackText(code, SLACK_LIMITS.sectionText)
+          .map(chunk => ({ type: 'rich_text_preformatted' as const, elements: [{ type: 'text' as const, text: chunk || ' ' }] }));
+        this.pushBlock({ type: 'rich_text', elements });
+        return;
+      }
+
+      case 'expand':
+      case 'nestedExpand':
+        if (attrs.title) {
+          this.pendingText.push(`*${escapeSlackText(String(attrs.title))}*`);
+        }
+        this.addBlocks(node.content || []);
+        return;
+
+      case 'mediaSingle':
+      case 'mediaGroup':
+        for (const child of node.content || []) {
+          if (child.type === 'caption') {
+            const caption = this.renderInline(child.content || []);
+            if (caption) {
+              this.pushBlock({ type: 'context', elements: [{ type: 'mrkdwn', text: caption }] });
+            }
+          } else {
+            this.addMedia(child);
+          }
+        }
+        return;
+
+      case 'layoutSection':
+      case 'layoutColumn':
+      case 'bodiedExtension':
+        this.addBlocks(node.content || []);
+        return;
+
+      case 'extension':
+        return;
+
+      default: {
+        const text = this.renderBlock(node);
+        if (text.trim()) {
+          this.pendingText.push(text);
+        }
+      }
+    }
+  }
+
+  /**
+   * Image blocks need a public URL; other media fall back to their link or alt text
+   */
+  private addMedia(node: ADFNode): void {
+    const url = this.mediaUrl(node);
+    if (url && /^https?:\/\//i.test(url)) {
+      const alt = String(node.attrs?.alt || 'image');
+      this.pushBlock({ type: 'image', image_url: url, alt_text: truncateText(alt, SLACK_LIMITS.imageAltText) });
+      return;
+    }
+
+    const text = this.renderMedia(node);
+    if (text) {
+      this.pendingText.push(text);
+    }
+  }
+
+  private pushBlock(block: SlackBlock): void {
+    this.flushText();
+    this.blocks.push(block);
+  }
+
+  /**
+   * Turn the collected mrkdwn into sections, splitting text over the section limit
+   */
+  private flushText(): void {
+    if (this.pendingText.length === 0) return;
+
+    for (const chunk of splitSlackText(this.pendingText.join('\n\n'), SLACK_LIMITS.sectionText)) {
+      this.blocks.push({ type: 'section', text: { type: 'mrkdwn', text: chunk } });
+    }
+    this.pendingText = [];
+  }
+
+  /**
+   * Keep a message within the block limit, ending it with a context block that counts the
+   * blocks left out
+   */
+  private limitBlocks(blocks: SlackBlock[]): SlackBlock[] {
+    if (blocks.length <= SLACK_LIMITS.blocks) {
+      return blocks;
+    }
+
+    const kept = blocks.slice(0, SLACK_LIMITS.blocks - 1);
+    const omitted = blocks.length - kept.length;
+    return [...kept, { type: 'context', elements: [{ type: 'mrkdwn', text: `_${omitted} more blocks not shown_` }] }];
+  }
+
+  /**
+   * Slack nests lists as consecutive `rich_text_list` elements with increasing indent
+   */
+  private renderRichTextList(node: ADFNode, indent: number): SlackRichTextList[] {
+    const lists: SlackRichTextList[] = [];
+    const style = node.type === 'orderedList' ? 'ordered' : 'bullet';
+    const start = Number(node.attrs?.order) || 1;
+    let current: SlackRichTextList | undefined;
+    let count = 0;
+
+    const appendNested = (list: ADFNode) => {
+      current = undefined;
+      lists.push(...this.renderRichTextList(list, indent + 1));
+    };
+
+    for (const item of node.content || []) {
+      // Nested task and decision lists sit directly inside their parent list
+      if (LIST_NODE_TYPES.has(item.type)) {
+        appendNested(item);
+        continue;
+      }
+
+      if (!current) {
+        const offset = style === 'ordered' ? start - 1 + count : 0;
+        current = {
+          type: 'rich_text_list',
+          style,
+          ...(indent > 0 && { indent }),
+          ...(offset > 0 && { offset }),
+          elements: []
+        };
+        lists.push(current);
+      }
+
+      const elements: SlackRichTextElement[] = [];
+      if (item.type === 'taskItem') {
+        elements.push({ type: 'text', text: item.attrs?.state === 'DONE' ? '☑ ' : '☐ ' });
+      }
+
+      const nested: ADFNode[] = [];
+      const children = item.type === 'listItem' ? item.content || [] : [{ type: 'paragraph', content: item.content || [] }];
+      let hasBody = false;
+      for (const child of children) {
+        if (LIST_NODE_TYPES.has(child.type)) {
+          nested.push(child);
+          continue;
+        }
+        if (hasBody) {
+          elements.push({ type: 'text', text: '\n' });
+        }
+        hasBody = true;
+        elements.push(...(child.type === 'paragraph'
+          ? this.renderRichText(child.content || [])
+          : [{ type: 'text' as const, text: this.renderPlainText([child]) }]));
+      }
+
+      current.elements.push({ type: 'rich_text_section', elements: elements.length > 0 ? elements : [{ type: 'text', text: ' ' }] });
+      count++;
+      nested.forEach(appendNested);
+    }
+
+    return lists;
+  }
+
+  private renderRichText(nodes: ADFNode[]): SlackRichTextElement[] {
+    if (!Array.isArray(nodes)) return [];
+
+    return nodes.flatMap((node): SlackRichTextElement[] => {
+      const attrs = node.attrs || {};
+
+      switch (node.type) {
+        case 'text': {
+          const style = this.richTextStyle(node.marks || []);
+          const link = node.marks?.find(mark => mark.type === 'link' && mark.attrs?.href);
+          return [link
+            ? { type: 'link', url: String(link.attrs?.href), text: node.text || '', ...(style && { style }) }
+            : { type: 'text', text: node.text || '', ...(style && { style }) }];
+        }
+        case 'hardBreak':
+          return [{ type: 'text', text: '\n' }];
+        case 'mention': {
+          const slackUserId = this.slackUserId(node);
+          return [slackUserId ? { type: 'user', user_id: slackUserId } : { type: 'text', text: `@${this.mentionName(node)}` }];
+        }
+        case 'emoji': {
+          const match = EMOJI_SHORT_NAME_PATTERN.exec(String(attrs.shortName || ''));
+          return [match ? { type: 'emoji', name: match[1] } : { type: 'text', text: String(attrs.text || attrs.shortName || '') }];
+        }
+        case 'date': {
+          const date = this.parseDate(attrs.timestamp);
+          return date
+            ? [{ type: 'date', timestamp: Math.floor(date.getTime() / 1000), format: '{date_short}', fallback: date.toISOString().split('T')[0] }]
+            : [];
+        }
+        case 'status':
+          return [{ type: 'text', text: String(attrs.text || ''), style: { code: true } }];
+        case 'inlineCard':
+          return attrs.url ? [{ type: 'link', url: String(attrs.url) }] : [];
+        case 'mediaInline':
+          return [{ type: 'text', text: this.renderPlainText([node]) }];
+        case 'inlineExtension':
+          return [];
+        default:
+          return this.renderRichText(node.content || []);
+      }
+    });
+  }
+
+  private richTextStyle(marks: ADFMark[]): SlackRichTextStyle | undefined {
+    const style: SlackRichTextStyle = {};
+    for (const mark of marks) {
+      const key = RICH_TEXT_STYLES[mark.type];
+      if (key) {
+        style[key] = true;
+      }
+    }
+    return Object.keys(style).length > 0 ? style : undefined;
+  }
+
+  // --- mrkdwn ---
+
+  private renderBlocks(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes
+      .map(node => this.renderBlock(node))
+      .filter(text => text.trim() !== '')
+      .join('\n\n');
+  }
+
+  private renderBlock(node: ADFNode): string {
+    const attrs = node.attrs || {};
+
+    switch (node.type) {
+      case 'paragraph':
+        return this.renderInline(node.content || []);
+
+      case 'heading': {
+        const text = this.renderInline(node.content || [], true);
+        return text.trim() ? `*${text.trim()}*` : '';
+      }
+
+      case 'codeBlock': {
+        const code = (node.content || []).map(child => child.text || '').join('');
+        return `\`\`\`\n${escapeSlackText(code)}\n\`\`\``;
+      }
+
+      case 'blockquote':
+        return this.quote(this.renderBlocks(node.content || []));
+
+      case 'panel': {
+        const emoji = SLACK_PANEL_EMOJI[String(attrs.panelType)] || SLACK_PANEL_EMOJI.info;
+        return this.quote(`${emoji} ${this.renderBlocks(node.content || [])}`);
+      }
+
+      case 'expand':
+      case 'nestedExpand': {
+        const title = attrs.title ? `*${escapeSlackText(String(attrs.title))}*` : '';
+        return [title, this.renderBlocks(node.content || [])].filter(Boolean).join('\n');
+      }
+
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+      case 'decisionList':
+        return this.renderList(node, 0);
+
+      case 'table':
+        return this.renderTable(node);
+
+      case 'rule':
+        return '---';
+
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return (node.content || []).map(child => this.renderBlock(child)).filter(Boolean).join('\n');
+
+      case 'media':
+        return this.renderMedia(node);
+
+      case 'caption': {
+        const caption = this.renderInline(node.content || []);
+        return caption ? `_${caption}_` : '';
+      }
+
+      case 'blockCard':
+      case 'embedCard':
+        return attrs.url ? `<${escapeSlackUrl(String(attrs.url))}>` : '';
+
+      case 'extension':
+        return '';
+
+      default:
+        if (INLINE_NODE_TYPES.has(node.type)) {
+          return this.renderInline([node]);
+        }
+        // Layouts, bodied extensions and unknown containers keep their content
+        if ((node.content || []).every(child => INLINE_NODE_TYPES.has(child.type))) {
+          return this.renderInline(node.content || []);
+        }
+        return this.renderBlocks(node.content || []);
+    }
+  }
+
+  private quote(text: string): string {
+    return text.split('\n').map(line => `> ${line}`).join('\n');
+  }
+
+  /**
+   * Slack has no list syntax; items start with a bullet, number or checkbox and nested lists
+   * are indented
+   */
+  private renderList(node: ADFNode, depth: number): string {
+    const start = Number(node.attrs?.order) || 1;
+    const padding = '    '.repeat(depth);
+    let index = 0;
+
+    return (node.content || []).map(item => {
+      if (LIST_NODE_TYPES.has(item.type)) {
+        return this.renderList(item, depth + 1);
+      }
+
+      const marker = node.type === 'orderedList'
+        ? `${start + index++}.`
+        : item.type === 'taskItem' ? (item.attrs?.state === 'DONE' ? '☑' : '☐') : '•';
+
+      if (item.type !== 'listItem') {
+        return `${padding}${marker} ${this.renderInline(item.content || [])}`;
+      }
+
+      const lines: string[] = [];
+      for (const child of item.content || []) {
+        if (LIST_NODE_TYPES.has(child.type)) {
+          lines.push(this.renderList(child, depth + 1));
+        } else {
+          const text = this.renderBlock(child).split('\n').join(`\n${padding}  `);
+          lines.push(lines.length === 0 ? `${padding}${marker} ${text}` : `${padding}  ${text}`);
+        }
+      }
+      return lines.length > 0 ? lines.join('\n') : `${padding}${marker}`;
+    }).join('\n');
+  }
+
+  /**
+   * Tables as aligned columns in a code block; merged cells are padded with empty cells
+   */
+  private renderTable(node: ADFNode): string {
+    const rows = (node.content || []).map(row => (row.content || []).flatMap(cell => {
+      const text = this.renderPlainText(cell.content || []).replace(/\s*\n\s*/g, ' ').trim();
+      const colspan = Math.max(1, Number(cell.attrs?.colspan) || 1);
+      return [text, ...Array<string>(colspan - 1).fill('')];
+    }));
+
+    const firstRow = node.content?.[0]?.content || [];
+    const hasHeader = firstRow.length > 0 && firstRow.every(cell => cell.type === 'tableHeader');
+    return `\`\`\`\n${escapeSlackText(alignColumns(rows, hasHeader))}\n\`\`\``;
+  }
+
+  private mediaUrl(node: ADFNode): string | null {
+    const attrs = node.attrs || {};
+    if (attrs.type === 'external') {
+      return attrs.url ? String(attrs.url) : null;
+    }
+    return typeof attrs.id === 'string' ? this.mediaCache?.resolveIdSync(attrs.id) || null : null;
+  }
+
+  private renderMedia(node: ADFNode): string {
+    const url = this.mediaUrl(node);
+    const alt = node.attrs?.alt ? escapeSlackText(String(node.attrs.alt)) : '';
+
+    if (url && /^https?:\/\//i.test(url)) {
+      return alt ? `<${escapeSlackUrl(url)}|${alt}>` : `<${escapeSlackUrl(url)}>`;
+    }
+    return alt;
+  }
+
+  /**
+   * Render inline nodes as mrkdwn. Headings are bold as a whole, so `bold` skips strong marks.
+   */
+  private renderInline(nodes: ADFNode[], bold = false): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes.map(node => {
+      const attrs = node.attrs || {};
+
+      switch (node.type) {
+        case 'text': {
+          const marks = (node.marks || []).filter(mark => !(bold && mark.type === 'strong'));
+          return this.renderText(node.text || '', marks);
+        }
+        case 'hardBreak':
+          return '\n';
+        case 'mention': {
+          const slackUserId = this.slackUserId(node);
+          return slackUserId ? `<@${slackUserId}>` : `@${escapeSlackText(this.mentionName(node))}`;
+        }
+        case 'emoji': {
+          const shortName = String(attrs.shortName || '');
+          return EMOJI_SHORT_NAME_PATTERN.test(shortName) ? shortName : escapeSlackText(String(attrs.text || shortName));
+        }
+        case 'date': {
+          const date = this.parseDate(attrs.timestamp);
+          return date ? `<!date^${Math.floor(date.getTime() / 1000)}^{date_short}|${date.toISOString().split('T')[0]}>` : '';
+        }
+        case 'status':
+          return attrs.text ? `\`${escapeSlackText(String(attrs.text))}\`` : '';
+        case 'inlineCard':
+          return attrs.url ? `<${escapeSlackUrl(String(attrs.url))}>` : '';
+        case 'mediaInline':
+          return this.renderMedia(node);
+        case 'inlineExtension':
+          return '';
+        default:
+          return this.renderInline(node.content || [], bold);
+      }
+    }).join('');
+  }
+
+  /**
+   * Apply marks as mrkdwn delimiters. Slack only recognizes delimiters next to non-space
+   * characters, so surrounding whitespace is moved outside them.
+   */
+  private renderText(text: string, marks: ADFMark[]): string {
+    const [, leading, content, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) || ['', '', text, ''];
+    if (!content) {
+      return text;
+    }
+
+    let result = escapeSlackText(content);
+    for (const type of Object.keys(MARK_DELIMITERS)) {
+      if (marks.some(mark => mark.type === type)) {
+        result = `${MARK_DELIMITERS[type]}${result}${MARK_DELIMITERS[type]}`;
+      }
+    }
+
+    const link = marks.find(mark => mark.type === 'link' && mark.attrs?.href);
+    if (link) {
+      result = `<${escapeSlackUrl(String(link.attrs?.href))}|${result}>`;
+    }
+
+    return `${leading}${result}${trailing}`;
+  }
+
+  /**
+   * Plain text for header blocks and table cells
+   */
+  private renderPlainText(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes.map(node => {
+      const attrs = node.attrs || {};
+
+      switch (node.type) {
+        case 'text':
+          return node.text || '';
+        case 'hardBreak':
+          return '\n';
+        case 'mention':
+          return `@${this.mentionName(node)}`;
+        case 'emoji':
+          return String(attrs.shortName || attrs.text || '');
+        case 'date': {
+          const date = this.parseDate(attrs.timestamp);
+          return date ? date.toISOString().split('T')[0] : '';
+        }
+        case 'status':
+          return String(attrs.text || '');
+        case 'inlineCard':
+          return String(attrs.url || '');
+        case 'media':
+        case 'mediaInline':
+          return String(attrs.alt || '');
+        case 'paragraph':
+        case 'heading':
+        case 'codeBlock':
+          return this.renderPlainText(node.content || []);
+        default:
+          return (node.content || []).map(child => this.renderPlainText([child])).join('\n');
+      }
+    }).join('');
+  }
+
+  private slackUserId(node: ADFNode): string | undefined {
+    const id: unknown = node.attrs?.id;
+    return typeof id === 'string' ? this.mentionCache?.lookupSync('id', id)?.slackUserId : undefined;
+  }
+
+  /**
+   * The resolver's display name, or the name stored in the mention
+   */
+  private mentionName(node: ADFNode): string {
+    const id: unknown = node.attrs?.id;
+    const user = typeof id === 'string' ? this.mentionCache?.lookupSync('id', id) : null;
+    return user?.displayName || String(node.attrs?.text || id || '').replace(/^@/, '');
+  }
+
+  private parseDate(timestamp: unknown): Date | null {
+    const date = new Date(parseInt(String(timestamp)));
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * @file AdfToStorageFormatEngine.ts
+ * @description Engine for converting ADF to Confluence storage format (XHTML)
+ */
+
+import type { ADFDocument, ADFNode, ADFMark, ConversionOptions } from '../../types/index.js';
+import { MediaResolverCache, prefetchMediaIds } from '../../utils/media-resolver.js';
+import { PANEL_TYPE_MACROS, STATUS_COLOURS } from '../../utils/wiki-markup.js';
+import { CONFLUENCE_MACRO_EXTENSION_TYPE, getConfluenceEmoticon, getLayoutType } from '../../utils/storage-format.js';
+import { cdata, escapeXml } from '../../utils/xml-utils.js';
+
+const MARK_ELEMENTS: Record<string, string> = {
+  strong: 'strong',
+  em: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code'
+};
+
+const IMAGE_ALIGNMENTS: Record<string, string> = {
+  'center': 'center',
+  'align-start': 'left',
+  'wrap-left': 'left',
+  'align-end': 'right',
+  'wrap-right': 'right'
+};
+
+/**
+ * Core engine for ADF to Confluence storage format conversion
+ *
+ * Nodes storage format can't express are rendered as closely as possible and reported by
+ * getWarnings().
+ */
+export class AdfToStorageFormatEngine {
+  private options: ConversionOptions;
+  private mediaCache?: MediaResolverCache;
+  private warnings: string[] = [];
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+  }
+
+  /**
+   * Convert an ADF document to storage format XHTML
+   */
+  convert(adf: ADFDocument): string {
+    this.warnings = [];
+
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return '';
+    }
+
+    try {
+      return this.renderBlocks(adf.content || []);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to storage format conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Convert an ADF document to storage format XHTML, waiting for an async media resolver
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    if (this.mediaCache && adf && typeof adf === 'object') {
+      await prefetchMediaIds(adf, this.mediaCache);
+    }
+    return this.convert(adf);
+  }
+
+  /**
+   * Warnings from the most recent conversion
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  private warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+
+  private renderBlocks(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+    return nodes.map(node => this.renderBlock(node)).join('');
+  }
+
+  private renderBlock(node: ADFNode): string {
+    const attrs = node.attrs || {};
+
+    switch (node.type) {
+      case 'paragraph':
+        return `<p>${this.renderInline(node.content || [])}</p>`;
+
+      case 'heading': {
+        const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6);
+        return `<h${level}>${this.renderInline(node.content || [])}</h${level}>`;
+      }
+
+      case 'bulletList':
+        return `<ul>${this.renderListItems(node)}</ul>`;
+
+      case 'orderedList': {
+        const order = Number(attrs.order);
+        return `<ol${order > 1 ? ` start="${order}"` : ''}>${this.renderListItems(node)}</ol>`;
+      }
+
+      case 'blockquote':
+        return `<blockquote>${this.renderBlocks(node.content || [])}</blockquote>`;
+
+      case 'rule':
+        return '<hr />';
+
+      case 'codeBlock': {
+        const code = (node.content || []).map(child => child.text || '').join('');
+        return macro('code', { language: attrs.language }, `<ac:plain-text-body>${cdata(code)}</ac:plain-text-body>`);
+      }
+
+      case 'panel':
+        return this.renderPanel(node);
+
+      case 'expand':
+      case 'nestedExpand':
+        return macro('expand', { title: attrs.title }, `<ac:rich-text-body>${this.renderBlocks(node.content || [])}</ac:rich-text-body>`);
+
+      case 'table':
+        return `<table><tbody>${(node.content || []).map(row => `<tr>${(row.content || []).map(cell => this.renderTableCell(cell)).join('')}</tr>`).join('')}</tbody></table>`;
+
+      case 'taskList':
+        return `<ac:task-list>${(node.content || []).map(item => this.renderTask(item)).join('')}</ac:task-list>`;
+
+      case 'decisionList':
+        this.warn('Decision lists are rendered as bullet lists');
+        return `<ul>${(node.content || []).map(item => `<li>${this.renderInline(item.content || [])}</li>`).join('')}</ul>`;
+
+      case 'layoutSection':
+        return this.renderLayout(node);
+
+      case 'mediaSingle':
+        return this.renderMediaSingle(node);
+
+      case 'mediaGroup':
+        return (node.content || []).map(media => `<p>${this.renderImage(media, {})}</p>`).join('');
+
+      case 'blockCard':
+      case 'embedCard':
+        return attrs.url
+          ? `<p><a href="${escapeXml(attrs.url)}" data-card-appearance="${node.type === 'blockCard' ? 'block' : 'embed'}">${escapeXml(attrs.url)}</a></p>`
+          : '';
+
+      case 'extension':
+      case 'bodiedExtension':
+        return this.renderExtension(node);
+
+      default:
+        if (node.content) {
+          this.warn(`Unsupported node "${node.type}"; its content was kept`);
+          return this.renderBlocks(node.content);
+        }
+        this.warn(`Unsupported node "${node.type}" was dropped`);
+        return '';
+    }
+  }
+
+  /**
+   * List items keep a single paragraph inline, as Confluence writes them
+   */
+  private renderListItems(node: ADFNode): string {
+    return (node.content || []).map(item => {
+      const content = item.content || [];
+      const [first, ...rest] = content;
+      const body = first?.type === 'paragraph'
+        ? this.renderInline(first.content || []) + this.renderBlocks(rest)
+        : this.renderBlocks(content);
+      return `<li>${body}</li>`;
+    }).join('');
+  }
+
+  private renderTableCell(cell: ADFNode): string {
+    const tag = cell.type === 'tableHeader' ? 'th' : 'td';
+    const colspan = Number(cell.attrs?.colspan);
+    const rowspan = Number(cell.attrs?.rowspan);
+    const attrs = `${colspan > 1 ? ` colspan="${colspan}"` : ''}${rowspan > 1 ? ` rowspan="${rowspan}"` : ''}`;
+    return `<${tag}${attrs}>${this.renderBlocks(cell.content || [])}</${tag}>`;
+  }
+
+  private renderTask(item: ADFNode): string {
+    if (item.type === 'taskList') {
+      this.warn('Nested task lists are flattened');
+      return (item.content || []).map(child => this.renderTask(child)).join('');
+    }
+    const id = item.attrs?.localId ? `<ac:task-id>${escapeXml(String(item.attrs.localId))}</ac:task-id>` : '';
+    const status = item.attrs?.state === 'DONE' ? 'complete' : 'incomplete';
+    return `<ac:task>${id}<ac:task-status>${status}</ac:task-status><ac:task-body>${this.renderInline(item.content || [])}</ac:task-body></ac:task>`;
+  }
+
+  /**
+   * {info}, {tip}, {note} and {warning} macros for the matching panel types; custom panels use
+   * the panel macro with their background color
+   */
+  private renderPanel(node: ADFNode): string {
+    const attrs = node.attrs || {};
+    const body = `<ac:rich-text-body>${this.renderBlocks(node.content || [])}</ac:rich-text-body>`;
+
+    if (attrs.panelType === 'custom') {
+      return macro('panel', { bgColor: attrs.panelColor }, body);
+    }
+
+    const name = PANEL_TYPE_MACROS[attrs.panelType];
+    if (!name) {
+      this.warn(`Panel type "${attrs.panelType}" has no Confluence macro; rendered as info`);
+    }
+    return macro(name || 'info', {}, body);
+  }
+
+  private renderLayout(node: ADFNode): string {
+    const columns = node.content || [];
+    const type = getLayoutType(columns.map(column => Number(column.attrs?.width) || 100 / columns.length));
+    const cells = columns.map(column => `<ac:layout-cell>${this.renderBlocks(column.content || [])}</ac:layout-cell>`).join('');
+    return `<ac:layout><ac:layout-section ac:type="${type}">${cells}</ac:layout-section></ac:layout>`;
+  }
+
+  private renderMediaSingle(node: ADFNode): string {
+    const media = node.content?.find(child => child.type === 'media');
+    const caption = node.content?.find(child => child.type === 'caption');
+    if (!media) return '';
+
+    const imageAttrs = {
+      'ac:align': IMAGE_ALIGNMENTS[node.attrs?.layout] || 'center',
+      'ac:layout': node.attrs?.layout
+    };
+    const captionXml = caption ? `<ac:caption><p>${this.renderInline(caption.content || [])}</p></ac:caption>` : '';
+    return `<p>${this.renderImage(media, imageAttrs, captionXml)}</p>`;
+  }
+
+  /**
+   * `ac:image` for media: external media by URL, file media as attachments named by the media
+   * resolver (or their alt text)
+   */
+  private renderImage(media: ADFNode, imageAttrs: Record<string, string | undefined>, captionXml = ''): string {
+    const attrs = media.attrs || {};
+    let resource: string;
+
+    if (attrs.type === 'external') {
+      // Attachments imported without a media id keep their bare filename as the URL
+      const url = String(attrs.url || '');
+      resource = /^[a-z][a-z\d+.-]*:|^\/\//i.test(url) || url.includes('/')
+        ? `<ri:url ri:value="${escapeXml(url)}" />`
+        : `<ri:attachment ri:filename="${escapeXml(url)}" />`;
+    } else {
+      const resolved = typeof attrs.id === 'string' ? this.mediaCache?.resolveIdSync(attrs.id) : null;
+      if (!resolved) {
+        this.warn(`Media "${attrs.id}" has no attachment filename; its ${attrs.alt ? 'alt text' : 'id'} was used`);
+      }
+      resource = `<ri:attachment ri:filename="${escapeXml(String(resolved || attrs.alt || attrs.id || ''))}" />`;
+    }
+
+    const xmlAttrs = xmlAttributes({
+      ...imageAttrs,
+      'ac:alt': attrs.alt,
+      'ac:width': attrs.width,
+      'ac:height': attrs.height
+    });
+    return `<ac:image${xmlAttrs}>${captionXml}${resource}</ac:image>`;
+  }
+
+  /**
+   * Extensions become structured macros with their parameters, body and plain text body
+   */
+  private renderExtension(node: ADFNode): string {
+    const attrs = node.attrs || {};
+    if (attrs.extensionType && attrs.extensionType !== CONFLUENCE_MACRO_EXTENSION_TYPE) {
+      this.warn(`Extension type "${attrs.extensionType}" is not a Confluence macro; rendered as macro "${attrs.extensionKey}"`);
+    }
+
+    const macroParams: Record<string, unknown> = attrs.parameters?.macroParams || {};
+    const params = Object.fromEntries(Object.entries(macroParams).map(([name, param]) => [
+      name,
+      param && typeof param === 'object' && 'value' in param ? String((param as { value: unknown }).value) : String(param)
+    ]));
+
+    const body = node.type === 'bodiedExtension'
+      ? `<ac:rich-text-body>${this.renderBlocks(node.content || [])}</ac:rich-text-body>`
+      : typeof attrs.text === 'string' ? `<ac:plain-text-body>${cdata(attrs.text)}</ac:plain-text-body>` : '';
+
+    return macro(String(attrs.extensionKey || 'unknown'), params, body, attrs.localId);
+  }
+
+  private renderInline(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes.map(node => {
+      const attrs = node.attrs || {};
+
+      switch (node.type) {
+        case 'text':
+          return this.renderText(node.text || '', node.marks || []);
+        case 'hardBreak':
+          return '<br />';
+        case 'mention':
+          return `<ac:link><ri:user ri:account-id="${escapeXml(String(attrs.id || ''))}" /></ac:link>`;
+        case 'emoji':
+          return `<ac:emoticon${xmlAttributes({
+            'ac:name': getConfluenceEmoticon(attrs.shortName || ''),
+            'ac:emoji-shortname': attrs.shortName,
+            'ac:emoji-id': attrs.id,
+            'ac:emoji-fallback': attrs.text
+          })} />`;
+        case 'date': {
+          const date = new Date(parseInt(attrs.timestamp));
+          return isNaN(date.getTime()) ? '' : `<time datetime="${date.toISOString().split('T')[0]}" />`;
+        }
+        case 'status':
+          return macro('status', { colour: STATUS_COLOURS[attrs.color] || 'Grey', title: attrs.text });
+        case 'inlineCard':
+          return attrs.url ? `<a href="${escapeXml(attrs.url)}" data-card-appearance="inline">${escapeXml(attrs.url)}</a>` : '';
+        case 'mediaInline':
+          return this.renderImage(node, {});
+        case 'inlineExtension':
+          return this.renderExtension(node);
+        default:
+          this.warn(`Unsupported inline node "${node.type}"`);
+          return this.renderInline(node.content || []);
+      }
+    }).join('');
+  }
+
+  private renderText(text: string, marks: ADFMark[]): string {
+    let result = escapeXml(text);
+
+    for (const mark of marks) {
+      const element = MARK_ELEMENTS[mark.type];
+      if (element) {
+        result = `<${element}>${result}</${element}>`;
+      } else if (mark.type === 'subsup') {
+        const tag = mark.attrs?.type === 'sub' ? 'sub' : 'sup';
+        result = `<${tag}>${result}</${tag}>`;
+      } else if (mark.type === 'link' && mark.attrs?.href) {
+        result = `<a href="${escapeXml(String(mark.attrs.href))}">${result}</a>`;
+      } else if (mark.type === 'textColor' && mark.attrs?.color) {
+        result = `<span style="color: ${escapeXml(String(mark.attrs.color))}">${result}</span>`;
+      } else if (mark.type === 'backgroundColor' && mark.attrs?.color) {
+        result = `<span style="background-color: ${escapeXml(String(mark.attrs.color))}">${result}</span>`;
+      } else if (mark.type === 'annotation' && mark.attrs?.id) {
+        result = `<ac:inline-comment-marker ac:ref="${escapeXml(String(mark.attrs.id))}">${result}</ac:inline-comment-marker>`;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Attributes with a value, as ` name="value"` pairs
+ */
+function xmlAttributes(attrs: Record<string, unknown>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * A structured macro with its parameters (empty values are skipped) and body
+ */
+function macro(name: string, params: Record<string, unknown>, body = '', macroId?: unknown): string {
+  const parameters = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([param, value]) => `<ac:parameter ac:name="${escapeXml(param)}">${escapeXml(String(value))}</ac:parameter>`)
+    .join('');
+  return `<ac:structured-macro${xmlAttributes({ 'ac:name': name, 'ac:macro-id': macroId })}>${parameters}${body}</ac:structured-macro>`;
+}
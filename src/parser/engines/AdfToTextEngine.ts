@@ -0,0 +1,266 @@
+/**
+ * @file AdfToTextEngine.ts
+ * @description Engine for converting ADF to plain text for notifications, logs and search indexing
+ */
+
+import type { ADFDocument, ADFNode, ConversionOptions, TextRenderOptions } from '../../types/index.js';
+import { MentionResolverCache, resolveAdfMentions, resolveAdfMentionsAsync } from '../../utils/mention-resolver.js';
+import { alignColumns, truncateText, wrapText } from '../../utils/text-utils.js';
+
+type TextEngineOptions = ConversionOptions & TextRenderOptions &
+  Required<Pick<TextRenderOptions, 'bullet' | 'tableFormat' | 'mentionPrefix' | 'statusFormat' | 'formatDate' | 'mediaPlaceholder'>>;
+
+const INLINE_NODE_TYPES = new Set([
+  'text', 'hardBreak', 'mention', 'emoji', 'date', 'status', 'inlineCard', 'mediaInline', 'inlineExtension'
+]);
+
+const LIST_NODE_TYPES = new Set(['bulletList', 'orderedList', 'taskList', 'decisionList']);
+
+/**
+ * Core engine for ADF to plain text conversion
+ *
+ * Blocks are separated by blank lines; list items and table rows take one line each.
+ * Formatting marks are dropped and link marks keep their text.
+ */
+export class AdfToTextEngine {
+  private options: TextEngineOptions;
+  private mentionCache?: MentionResolverCache;
+
+  constructor(options: ConversionOptions & TextRenderOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      bullet: '-',
+      tableFormat: 'aligned',
+      mentionPrefix: '@',
+      statusFormat: 'brackets',
+      formatDate: (date: Date) => date.toISOString().split('T')[0],
+      mediaPlaceholder: '[media]',
+      ...options
+    };
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+  }
+
+  /**
+   * Convert ADF document to plain text
+   */
+  convert(adf: ADFDocument): string {
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return '';
+    }
+
+    try {
+      const document = this.mentionCache ? resolveAdfMentions(adf, this.mentionCache) : adf;
+      const text = this.renderBlocks(document.content || [], this.options.lineWidth, '\n\n');
+      return this.options.maxLength !== undefined ? truncateText(text, this.options.maxLength) : text;
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to text conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Convert ADF document to plain text, waiting for an async mention resolver
+   */
+  async convertAsync(adf: ADFDocument): Promise<string> {
+    if (!adf || typeof adf !== 'object' || !this.mentionCache) {
+      return this.convert(adf);
+    }
+    return this.convert(await resolveAdfMentionsAsync(adf, this.mentionCache));
+  }
+
+  /**
+   * Render block nodes, dropping blocks with no text
+   */
+  private renderBlocks(nodes: ADFNode[], width: number | undefined, separator: string): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes
+      .map(node => this.renderBlock(node, width))
+      .filter(text => text.trim() !== '')
+      .join(separator);
+  }
+
+  private renderBlock(node: ADFNode, width: number | undefined): string {
+    switch (node.type) {
+      case 'paragraph':
+      case 'heading':
+        return wrapText(this.renderInline(node.content || []), width ?? 0);
+
+      case 'codeBlock':
+        return (node.content || []).map(child => child.text || '').join('');
+
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+      case 'decisionList':
+        return this.renderList(node, width);
+
+      case 'table':
+        return this.renderTable(node);
+
+      case 'expand':
+      case 'nestedExpand': {
+        const body = this.renderBlocks(node.content || [], width, '\n\n');
+        return [node.attrs?.title, body].filter(Boolean).join('\n');
+      }
+
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return this.renderBlocks(node.content || [], width, '\n');
+
+      case 'media':
+        return this.renderMedia(node);
+
+      case 'caption':
+        return this.renderInline(node.content || []);
+
+      case 'blockCard':
+      case 'embedCard':
+        return String(node.attrs?.url || '');
+
+      case 'rule':
+        return '---';
+
+      case 'extension':
+        return '';
+
+      default:
+        if (INLINE_NODE_TYPES.has(node.type)) {
+          return this.renderInline([node]);
+        }
+        // Panels, quotes, layouts, bodied extensions and unknown containers keep their content
+        if ((node.content || []).every(child => INLINE_NODE_TYPES.has(child.type))) {
+          return wrapText(this.renderInline(node.content || []), width ?? 0);
+        }
+        return this.renderBlocks(node.content || [], width, '\n\n');
+    }
+  }
+
+  /**
+   * Render list items one per line, indenting continuation lines and nested lists under the marker
+   */
+  private renderList(node: ADFNode, width: number | undefined): string {
+    const start = Number(node.attrs?.order) || 1;
+    let index = 0;
+
+    return (node.content || []).map(item => {
+      // Nested task and decision lists sit directly inside their parent list
+      if (LIST_NODE_TYPES.has(item.type)) {
+        return this.indent(this.renderList(item, width && width - 2), 2);
+      }
+
+      const marker = this.listMarker(node.type, item, start + index++);
+      const itemWidth = width && width - marker.length - 1;
+      const body = item.type === 'listItem'
+        ? this.renderBlocks(item.content || [], itemWidth, '\n')
+        : wrapText(this.renderInline(item.content || []), itemWidth ?? 0);
+
+      return `${marker} ${this.indent(body, marker.length + 1).trimStart()}`;
+    }).join('\n');
+  }
+
+  private listMarker(listType: string, item: ADFNode, number: number): string {
+    if (listType === 'orderedList') {
+      return `${number}.`;
+    }
+    if (item.type === 'taskItem') {
+      return item.attrs?.state === 'DONE' ? '[x]' : '[ ]';
+    }
+    return this.options.bullet;
+  }
+
+  private indent(text: string, size: number): string {
+    const padding = ' '.repeat(size);
+    return text.split('\n').map(line => (line ? padding + line : line)).join('\n');
+  }
+
+  /**
+   * Render a table as aligned columns or TSV; merged cells are padded with empty cells
+   */
+  private renderTable(node: ADFNode): string {
+    // Rows each column is still covered for by a cell spanning down from an earlier row
+    const spannedRows: number[] = [];
+    const skipSpannedColumns = (row: string[], all: boolean): void => {
+      while (spannedRows[row.length] > 0 || (all && spannedRows.slice(row.length).some(count => count > 0))) {
+        spannedRows[row.length] = Math.max(0, (spannedRows[row.length] || 0) - 1);
+        row.push('');
+      }
+    };
+
+    const rows = (node.content || []).map(tableRow => {
+      const row: string[] = [];
+      for (const cell of tableRow.content || []) {
+        skipSpannedColumns(row, false);
+        const text = this.renderBlocks(cell.content || [], undefined, ' ').replace(/\s*\n\s*/g, ' ');
+        const colspan = Math.max(1, Number(cell.attrs?.colspan) || 1);
+        const rowspan = Math.max(1, Number(cell.attrs?.rowspan) || 1);
+        for (let span = 0; span < colspan; span++) {
+          spannedRows[row.length] = rowspan - 1;
+          row.push(span === 0 ? text : '');
+        }
+      }
+      skipSpannedColumns(row, true);
+      return row;
+    });
+
+    if (this.options.tableFormat === 'tsv') {
+      return rows.map(row => row.map(cell => cell.replace(/\t/g, ' ')).join('\t')).join('\n');
+    }
+
+    const firstRow = node.content?.[0]?.content || [];
+    const hasHeader = firstRow.length > 0 && firstRow.every(cell => cell.type === 'tableHeader');
+    return alignColumns(rows, hasHeader);
+  }
+
+  private renderMedia(node: ADFNode): string {
+    return node.attrs?.alt ? String(node.attrs.alt) : this.options.mediaPlaceholder;
+  }
+
+  private renderInline(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes.map(node => {
+      const attrs = node.attrs || {};
+      switch (node.type) {
+        case 'text':
+          return node.text || '';
+        case 'hardBreak':
+          return '\n';
+        case 'mention': {
+          const name = String(attrs.text || attrs.id || '').replace(/^@/, '');
+          return name ? `${this.options.mentionPrefix}${name}` : '';
+        }
+        case 'emoji':
+          return String(attrs.text || attrs.shortName || '');
+        case 'date': {
+          const date = new Date(parseInt(String(attrs.timestamp)));
+          return isNaN(date.getTime()) ? String(attrs.timestamp ?? '') : this.options.formatDate(date);
+        }
+        case 'status':
+          return this.options.statusFormat === 'brackets' ? `[${attrs.text || ''}]` : String(attrs.text || '');
+        case 'inlineCard':
+          return String(attrs.url || '');
+        case 'mediaInline':
+          return this.renderMedia(node);
+        case 'inlineExtension':
+          return '';
+        default:
+          return this.renderInline(node.content || []);
+      }
+    }).join('');
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * @file AdfToWikiMarkupEngine.ts
+ * @description Engine for converting ADF to Jira wiki markup
+ */
+
+import type { ADFDocument, ADFNode, ADFMark, ConversionOptions } from '../../types/index.js';
+import { PANEL_TYPE_MACROS, STATUS_COLOURS, escapeWikiText, formatMacroParams, getWikiEmoticon } from '../../utils/wiki-markup.js';
+
+// Mark delimiters, applied innermost first in this order
+const MARK_DELIMITERS: Record<string, string> = {
+  strong: '*',
+  em: '_',
+  strike: '-',
+  underline: '+'
+};
+
+// Atlassian account IDs: 24 alphanumerics (`5b10a2844c20165700ede21g`) or `prefix:uuid`. Other ids
+// come from `[~username]` mentions that weren't resolved, and are written back as usernames
+const ACCOUNT_ID_PATTERN = /^(?:[\da-z]{24,}|[\w-]+:[\w-]+)$/i;
+
+// Marks with no wiki markup; their text is kept without the formatting
+const UNSUPPORTED_MARKS = new Set(['backgroundColor', 'annotation']);
+
+/**
+ * Core engine for ADF to Jira wiki markup conversion
+ *
+ * Nodes and marks without a wiki markup equivalent are rendered as closely as possible
+ * and reported by getWarnings().
+ */
+export class AdfToWikiMarkupEngine {
+  private options: ConversionOptions;
+  private warnings: string[] = [];
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+  }
+
+  /**
+   * Convert an ADF document to wiki markup
+   */
+  convert(adf: ADFDocument): string {
+    this.warnings = [];
+
+    if (!adf || typeof adf !== 'object') {
+      if (this.options.strict) {
+        throw new Error('Invalid ADF document: must be a non-null object');
+      }
+      return '';
+    }
+
+    try {
+      return this.renderBlocks(adf.content || []);
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('ADF to wiki markup conversion failed, returning empty string:', error);
+      }
+
+      return '';
+    }
+  }
+
+  /**
+   * Warnings from the most recent conversion
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  private warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+
+  private renderBlocks(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes
+      .map(node => this.renderBlock(node))
+      .filter(text => text !== '')
+      .join('\n\n');
+  }
+
+  private renderBlock(node: ADFNode): string {
+    const attrs = node.attrs || {};
+
+    switch (node.type) {
+      case 'paragraph':
+        return this.renderInline(node.content || []);
+
+      case 'heading':
+        return `h${Math.min(Math.max(Number(attrs.level) || 1, 1), 6)}. ${this.renderInline(node.content || [])}`;
+
+      case 'codeBlock': {
+        const code = (node.content || []).map(child => child.text || '').join('');
+        return attrs.language ? `{code:${attrs.language}}\n${code}\n{code}` : `{noformat}\n${code}\n{noformat}`;
+      }
+
+      case 'blockquote':
+        return `{quote}\n${this.renderBlocks(node.content || [])}\n{quote}`;
+
+      case 'panel':
+        return this.renderPanel(node);
+
+      case 'expand':
+      case 'nestedExpand':
+        return `{expand${attrs.title ? `:${attrs.title}` : ''}}\n${this.renderBlocks(node.content || [])}\n{expand}`;
+
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+      case 'decisionList':
+        return this.renderList(node, '');
+
+      case 'table':
+        return this.renderTable(node);
+
+      case 'rule':
+        return '----';
+
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return (node.content || []).map(child => this.renderBlock(child)).filter(Boolean).join('\n');
+
+      case 'media':
+        return this.renderMedia(node);
+
+      case 'caption':
+        this.warn('Media captions are rendered as paragraphs');
+        return this.renderInline(node.content || []);
+
+      case 'blockCard':
+      case 'embedCard':
+        return attrs.url ? `[${attrs.url}]` : '';
+
+      case 'layoutSection':
+        this.warn('Layouts are not supported; columns are rendered one after another');
+        return this.renderBlocks((node.content || []).flatMap(column => column.content || []));
+
+      case 'extension':
+      case 'bodiedExtension':
+        this.warn(`Extension "${attrs.extensionKey || node.type}" is not supported and was dropped`);
+        return '';
+
+      default:
+        if (node.content) {
+          this.warn(`Unsupported node "${node.type}"; its content was kept`);
+          return this.renderBlocks(node.content);
+        }
+        this.warn(`Unsupported node "${node.type}" was dropped`);
+        return '';
+    }
+  }
+
+  /**
+   * {info}, {tip}, {note} and {warning} for the matching panel types; custom panels use
+   * {panel} with their background color
+   */
+  private renderPanel(node: ADFNode): string {
+    const attrs = node.attrs || {};
+    const body = this.renderBlocks(node.content || []);
+
+    if (attrs.panelType === 'custom') {
+      return `{panel${formatMacroParams({ bgColor: attrs.panelColor })}}\n${body}\n{panel}`;
+    }
+
+    const macro = PANEL_TYPE_MACROS[attrs.panelType];
+    if (!macro) {
+      this.warn(`Panel type "${attrs.panelType}" has no wiki macro; rendered as {info}`);
+    }
+    return `{${macro || 'info'}}\n${body}\n{${macro || 'info'}}`;
+  }
+
+  /**
+   * Lists repeat the parent markers for nested items (`*`, `**`, `#*`). Task and decision
+   * lists become bullet lists.
+   */
+  private renderList(node: ADFNode, parentMarkers: string): string {
+    const markers = parentMarkers + (node.type === 'orderedList' ? '#' : '*');
+    if (node.type === 'taskList') {
+      this.warn('Task lists are rendered as bullet lists with (/) and (x) emoticons');
+    }
+    if (node.type === 'decisionList') {
+      this.warn('Decision lists are rendered as bullet lists');
+    }
+
+    return (node.content || []).map(item => {
+      if (item.type === 'bulletList' || item.type === 'orderedList' || item.type === 'taskList' || item.type === 'decisionList') {
+        return this.renderList(item, markers);
+      }
+
+      if (item.type === 'taskItem') {
+        const checkbox = item.attrs?.state === 'DONE' ? '(/)' : '(x)';
+        return `${markers} ${checkbox} ${this.renderInline(item.content || [])}`;
+      }
+      if (item.type === 'decisionItem') {
+        return `${markers} ${this.renderInline(item.content || [])}`;
+      }
+
+      // listItem: the first paragraph follows the marker, nested lists follow on their own lines
+      const lines: string[] = [];
+      for (const child of item.content || []) {
+        if (child.type === 'bulletList' || child.type === 'orderedList' || child.type === 'taskList') {
+          lines.push(this.renderList(child, markers));
+        } else if (lines.length === 0) {
+          lines.push(`${markers} ${this.renderInline(child.content || [])}`);
+        } else {
+          this.warn('List items with several blocks are joined with line breaks');
+          lines[lines.length - 1] += ` \\\\ ${child.type === 'paragraph' ? this.renderInline(child.content || []) : this.renderBlock(child)}`;
+        }
+      }
+      return lines.length > 0 ? lines.join('\n') : markers;
+    }).join('\n');
+  }
+
+  /**
+   * `||header||` and `|cell|` rows; merged cells are not supported and keep their content
+   */
+  private renderTable(node: ADFNode): string {
+    return (node.content || []).map(row => {
+      const cells = (row.content || []).map(cell => {
+        if (Number(cell.attrs?.colspan) > 1 || Number(cell.attrs?.rowspan) > 1) {
+          this.warn('Merged table cells are not supported; cells were kept unmerged');
+        }
+        const separator = cell.type === 'tableHeader' ? '||' : '|';
+        const content = (cell.content || [])
+          .map(child => (child.type === 'paragraph' ? this.renderInline(child.content || []) : this.renderBlock(child)))
+          .join(' \\\\ ')
+          .replace(/\n/g, ' \\\\ ');
+        return `${separator}${content || ' '}`;
+      });
+      const last = row.content?.[row.content.length - 1]?.type === 'tableHeader' ? '||' : '|';
+      return cells.join('') + last;
+    }).join('\n');
+  }
+
+  private renderMedia(node: ADFNode): string {
+    const attrs = node.attrs || {};
+    const source = attrs.type === 'external' ? attrs.url : attrs.alt || attrs.id;
+
+    if (!source) {
+      return '';
+    }
+    if (attrs.type !== 'external') {
+      this.warn('Attached media is referenced by alt text or media id, which Jira may not resolve');
+    }
+
+    const options = [
+      attrs.alt && attrs.type === 'external' ? `alt=${attrs.alt}` : '',
+      attrs.width ? `width=${attrs.width}` : '',
+      attrs.height ? `height=${attrs.height}` : ''
+    ].filter(Boolean).join(', ');
+    return `!${source}${options ? `|${options}` : ''}!`;
+  }
+
+  private renderInline(nodes: ADFNode[]): string {
+    if (!Array.isArray(nodes)) return '';
+
+    return nodes.map(node => {
+      const attrs = node.attrs || {};
+
+      switch (node.type) {
+        case 'text':
+          return this.renderText(node.text || '', node.marks || []);
+        case 'hardBreak':
+          return '\n';
+        case 'mention': {
+          const id = String(attrs.id || '');
+          if (!id) {
+            return escapeWikiText(attrs.text || '');
+          }
+          return ACCOUNT_ID_PATTERN.test(id) ? `[~accountid:${id}]` : `[~${id}]`;
+        }
+        case 'emoji':
+          return getWikiEmoticon(attrs.shortName || '') || attrs.text || attrs.shortName || '';
+        case 'date': {
+          const date = new Date(parseInt(attrs.timestamp));
+          return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+        }
+        case 'status':
+          return `{status${formatMacroParams({ colour: STATUS_COLOURS[attrs.color] || 'Grey', title: attrs.text })}}`;
+        case 'inlineCard':
+          return attrs.url ? `[${attrs.url}]` : '';
+        case 'mediaInline':
+          return this.renderMedia(node);
+        case 'inlineExtension':
+          this.warn(`Extension "${attrs.extensionKey || node.type}" is not supported and was dropped`);
+          return '';
+        default:
+          this.warn(`Unsupported inline node "${node.type}"`);
+          return this.renderInline(node.content || []);
+      }
+    }).join('');
+  }
+
+  private renderText(text: string, marks: ADFMark[]): string {
+    const code = marks.some(mark => mark.type === 'code');
+    let result = code ? `{{${text}}}` : escapeWikiText(text);
+
+    for (const mark of marks) {
+      const delimiter = MARK_DELIMITERS[mark.type];
+      if (delimiter) {
+        result = `${delimiter}${result}${delimiter}`;
+      } else if (mark.type === 'subsup') {
+        result = mark.attrs?.type === 'sub' ? `~${result}~` : `^${result}^`;
+      } else if (mark.type === 'textColor' && mark.attrs?.color) {
+        result = `{color:${mark.attrs.color}}${result}{color}`;
+      } else if (mark.type === 'link' && mark.attrs?.href) {
+        result = result === escapeWikiText(mark.attrs.href) ? `[${mark.attrs.href}]` : `[${result}|${mark.attrs.href}]`;
+      } else if (UNSUPPORTED_MARKS.has(mark.type)) {
+        this.warn(`Unsupported mark "${mark.type}"; its text was kept`);
+      }
+    }
+
+    return result;
+  }
+}
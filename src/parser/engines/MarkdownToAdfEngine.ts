@@ -12,6 +12,19 @@ import type { Root } from 'mdast';
 import type { ADFDocument, ConversionOptions } from '../../types/index.js';
 import { ASTBuilder } from '../markdown-to-adf/ASTBuilder.js';
 import { processMetadataComments } from '../../utils/metadata-comments.js';
+import { MentionResolverCache, resolveMarkdownMentions, resolveMarkdownMentionsAsync } from '../../utils/mention-resolver.js';
+import { MediaResolverCache, prefetchImageSources } from '../../utils/media-resolver.js';
+import { LinkResolverCache, prefetchMarkdownLinks, type UnresolvedLink } from '../../utils/link-resolver.js';
+import { ADF_FENCE_TYPES } from '../../utils/fence-utils.js';
+import { ParserError } from '../../errors/index.js';
+
+/**
+ * Fence names (`~~~name ...`) that are converted to ADF block nodes, as a regex alternation
+ */
+const ADF_FENCE_TYPE_PATTERN = ADF_FENCE_TYPES.join('|');
+
+// Opening or closing comment of an annotated range
+const ANNOTATION_COMMENT_PATTERN = /^<!--\s*\/?adf:annotation\b/;
 
 /**
  * Core engine for Markdown to ADF conversion
@@ -21,6 +34,9 @@ export class MarkdownToAdfEngine {
   private processor: any; // Using any to avoid complex unified type issues
   private astBuilder: ASTBuilder;
   private options: Required<ConversionOptions>;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+  private linkCache?: LinkResolverCache;
 
   constructor(options: ConversionOptions = {}) {
     this.options = {
@@ -39,9 +55,24 @@ export class MarkdownToAdfEngine {
       ...options
     } as Required<ConversionOptions>;
 
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+    if (this.options.linkResolver) {
+      this.linkCache = new LinkResolverCache(this.options.linkResolver);
+    }
+
     this.astBuilder = new ASTBuilder({
       strict: this.options.strict,
-      preserveUnknownNodes: this.options.preserveUnknownNodes
+      preserveUnknownNodes: this.options.preserveUnknownNodes,
+      emojiRegistry: this.options.emojiRegistry,
+      detectUnicodeEmoji: this.options.detectUnicodeEmoji,
+      mediaCache: this.mediaCache,
+      linkCache: this.linkCache,
+      jiraIssueLinks: this.options.jiraIssueLinks
     });
 
     this.processor = this.createProcessor();
@@ -78,6 +109,8 @@ export class MarkdownToAdfEngine {
    * Convert markdown to ADF synchronously
    */
   convert(markdown: string): ADFDocument {
+    this.linkCache?.clearUnresolvedLinks();
+
     if (!markdown || typeof markdown !== 'string') {
       if (this.options.strict) {
         throw new Error('Invalid markdown input: must be a non-empty string');
@@ -106,8 +139,13 @@ export class MarkdownToAdfEngine {
       const processedTree = this.processor.runSync(tree) as Root;
 
       // Convert to ADF synchronously
-      return this.convertMdastToAdfSync(processedTree);
+      const adf = this.convertMdastToAdfSync(processedTree);
+      return this.mentionCache ? resolveMarkdownMentions(adf, this.mentionCache) : adf;
     } catch (error) {
+      // Misused resolvers are reported rather than hidden behind the fallback
+      if (error instanceof ParserError) {
+        throw error;
+      }
       if (this.options.strict) {
         throw new Error(`Failed to convert markdown to ADF: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -135,6 +173,8 @@ export class MarkdownToAdfEngine {
    * Convert markdown to ADF asynchronously
    */
   async convertAsync(markdown: string): Promise<ADFDocument> {
+    this.linkCache?.clearUnresolvedLinks();
+
     if (!markdown || typeof markdown !== 'string') {
       if (this.options.strict) {
         throw new Error('Invalid markdown input: must be a non-empty string');
@@ -164,8 +204,12 @@ export class MarkdownToAdfEngine {
 
       // Convert mdast to ADF using our AST builder
       const adf = await this.convertMdastToAdf(processedTree);
-      return adf;
+      return this.mentionCache ? await resolveMarkdownMentionsAsync(adf, this.mentionCache) : adf;
     } catch (error) {
+      // Misused resolvers are reported rather than hidden behind the fallback
+      if (error instanceof ParserError) {
+        throw error;
+      }
       if (this.options.strict) {
         throw new Error(`Failed to convert markdown to ADF: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -189,6 +233,13 @@ export class MarkdownToAdfEngine {
     }
   }
 
+  /**
+   * Relative markdown links the link resolver could not map to page URLs in the most recent conversion
+   */
+  getUnresolvedLinks(): UnresolvedLink[] {
+    return this.linkCache?.getUnresolvedLinks() || [];
+  }
+
   /**
    * Validate markdown input
    */
@@ -290,6 +341,14 @@ export class MarkdownToAdfEngine {
       }
     }
 
+    // Resolve (and upload) local and remote images before the synchronous AST build
+    if (this.mediaCache) {
+      await prefetchImageSources(processedTree, this.mediaCache);
+    }
+    if (this.linkCache) {
+      await prefetchMarkdownLinks(processedTree, this.linkCache);
+    }
+
     // Convert the tree using AST builder
     const adf = this.astBuilder.buildADFFromMdast(processedTree, frontmatter);
     
@@ -348,7 +407,7 @@ export class MarkdownToAdfEngine {
       // Post-process to remove empty paragraphs with only whitespace
       return this.cleanupEmptyParagraphs(adf);
     } catch (error) {
-      if (this.options.strict) {
+      if (this.options.strict || error instanceof ParserError) {
         throw error;
       }
       
@@ -366,7 +425,7 @@ export class MarkdownToAdfEngine {
    * Also handles nested ADF fence blocks within text content
    */
   private postProcessAdfFenceBlocks(tree: Root): Root {
-    const adfBlockTypes = new Set(['panel', 'expand', 'nestedExpand', 'mediaSingle', 'mediaGroup']);
+    const adfBlockTypes = new Set(ADF_FENCE_TYPES);
     
     const processedTree = JSON.parse(JSON.stringify(tree)); // Deep clone
     
@@ -393,7 +452,8 @@ export class MarkdownToAdfEngine {
           try {
             const innerProcessor = this.createInnerProcessor();
             const innerTree = innerProcessor.parse(node.value || '');
-            const processedInnerTree = innerProcessor.runSync(innerTree);
+            // Metadata comments inside the fence need the same treatment as top-level ones
+            const processedInnerTree = processMetadataComments(innerProcessor.runSync(innerTree));
             
             node.children = processedInnerTree.children;
             delete node.value; // Remove text value since we now have children
@@ -414,7 +474,7 @@ export class MarkdownToAdfEngine {
         // Handle text nodes that might contain nested ADF fence blocks
         if (node.type === 'text' && node.value && typeof node.value === 'string') {
           const textContent = node.value;
-          const adfFencePattern = /^~~~(panel|expand|nestedExpand|mediaSingle|mediaGroup)([^\n]*)\n([\s\S]*?)\n~~~$/;
+          const adfFencePattern = new RegExp(`^~~~(${ADF_FENCE_TYPE_PATTERN})([^\\n]*)\\n([\\s\\S]*?)\\n~~~$`);
           
           if (adfFencePattern.test(textContent.trim())) {
             const match = textContent.trim().match(adfFencePattern);
@@ -425,7 +485,7 @@ export class MarkdownToAdfEngine {
               try {
                 const innerProcessor = this.createInnerProcessor();
                 const innerTree = innerProcessor.parse(content);
-                const processedInnerTree = innerProcessor.runSync(innerTree);
+                const processedInnerTree = processMetadataComments(innerProcessor.runSync(innerTree));
                 
                 // Convert text node to adfFence node with processed content
                 node.type = 'adfFence';
@@ -552,8 +612,18 @@ export class MarkdownToAdfEngine {
    * Preprocess markdown to fix consecutive HTML comments that break parsing
    */
   private preprocessConsecutiveHtmlComments(markdown: string): string {
-    // Fix consecutive HTML comments by adding a space between them
-    return markdown.replace(/-->(\s*<!--)/g, '-->\n<!-- ');
+    // Fix consecutive HTML comments by adding a space between them,
+    // keeping the indentation of the following line (e.g. nested list content).
+    // Annotation comments mark inline ranges, so they stay on their line.
+    return markdown.replace(/-->(\s*)<!--/g, (match, whitespace: string, offset: number) => {
+      const previousComment = markdown.slice(markdown.lastIndexOf('<!--', offset), offset);
+      const nextComment = markdown.slice(offset + match.length - 4, offset + match.length + 32);
+      if (ANNOTATION_COMMENT_PATTERN.test(previousComment) || ANNOTATION_COMMENT_PATTERN.test(nextComment)) {
+        return match;
+      }
+      const indent = whitespace.includes('\n') ? whitespace.slice(whitespace.lastIndexOf('\n') + 1) : '';
+      return `-->\n${indent}<!-- `;
+    });
   }
 
   /**
@@ -561,10 +631,15 @@ export class MarkdownToAdfEngine {
    * This handles cases where ADF fence blocks are nested inside other ADF blocks
    */
   private preprocessNestedAdfBlocks(markdown: string): string {
-    // Find nested ADF fence blocks within other ADF fence blocks
-    const adfBlockPattern = /^~~~(expand|panel|mediaSingle|mediaGroup|nestedExpand)([^\n]*)\n([\s\S]*?)\n~~~$/gm;
+    // Find nested ADF fence blocks within other ADF fence blocks.
+    // The body is optional so empty blocks (e.g. ~~~extension) don't swallow the blocks after them.
+    const adfBlockPattern = new RegExp(`^~~~(${ADF_FENCE_TYPE_PATTERN})([^\\n]*)\\n(?:([\\s\\S]*?)\\n)??~~~$`, 'gm');
     
     return markdown.replace(adfBlockPattern, (match, blockType, attributes, content) => {
+      if (content === undefined) {
+        return match;
+      }
+      
       // Process the content to ensure nested ADF blocks are properly formatted
       const processedContent = this.processNestedAdfContent(content);
       return `~~~${blockType}${attributes}\n${processedContent}\n~~~`;
@@ -576,7 +651,7 @@ export class MarkdownToAdfEngine {
    */
   private processNestedAdfContent(content: string): string {
     // Look for potential nested ADF blocks that might not be properly formatted
-    const nestedAdfPattern = /^~~~(panel|expand|mediaSingle|mediaGroup|nestedExpand)([^\n]*)/gm;
+    const nestedAdfPattern = new RegExp(`^~~~(${ADF_FENCE_TYPE_PATTERN})([^\\n]*)`, 'gm');
     
     // Replace with proper code block syntax to ensure they're parsed as code blocks
     return content.replace(nestedAdfPattern, (match, blockType, attributes) => {
@@ -622,7 +697,7 @@ export class MarkdownToAdfEngine {
     const visit = (node: any) => {
       nodeCount++;
       
-      if (['panel', 'expand', 'mediaSingle', 'mediaGroup'].includes(node.type)) {
+      if (['panel', 'expand', 'mediaSingle', 'mediaGroup', 'decisionList', 'layoutSection', 'extension', 'bodiedExtension', 'inlineExtension', 'blockCard', 'embedCard'].includes(node.type)) {
         adfBlockCount++;
         hasAdfExtensions = true;
       }
@@ -0,0 +1,628 @@
+/**
+ * @file StorageFormatToAdfEngine.ts
+ * @description Engine for converting Confluence storage format (XHTML) to ADF
+ */
+
+import type { ADFDocument, ADFNode, ADFMark, ConversionOptions } from '../../types/index.js';
+import { resolveEmoji } from '../../utils/emoji-mapping.js';
+import { mergeTextNodes } from '../../utils/adf-utils.js';
+import { MentionResolverCache, resolveAdfMentions, resolveAdfMentionsAsync } from '../../utils/mention-resolver.js';
+import { MediaResolverCache } from '../../utils/media-resolver.js';
+import { ParserError } from '../../errors/index.js';
+import { PANEL_MACRO_TYPES, STATUS_COLOURS } from '../../utils/wiki-markup.js';
+import { CONFLUENCE_EMOTICONS, CONFLUENCE_MACRO_EXTENSION_TYPE, LAYOUT_COLUMN_WIDTHS } from '../../utils/storage-format.js';
+import { parseXml, childElements, textContent, type XmlElement, type XmlNode } from '../../utils/xml-utils.js';
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre', 'hr', 'table', 'div',
+  'ac:layout', 'ac:layout-section', 'ac:layout-cell', 'ac:task-list', 'ac:image'
+]);
+
+const MARK_ELEMENTS: Record<string, ADFMark> = {
+  strong: { type: 'strong' },
+  b: { type: 'strong' },
+  em: { type: 'em' },
+  i: { type: 'em' },
+  u: { type: 'underline' },
+  s: { type: 'strike' },
+  del: { type: 'strike' },
+  strike: { type: 'strike' },
+  code: { type: 'code' },
+  sub: { type: 'subsup', attrs: { type: 'sub' } },
+  sup: { type: 'subsup', attrs: { type: 'sup' } }
+};
+
+const IMAGE_LAYOUTS: Record<string, string> = {
+  center: 'center',
+  left: 'align-start',
+  right: 'align-end'
+};
+
+const STATUS_COLORS_BY_COLOUR = Object.fromEntries(
+  Object.entries(STATUS_COLOURS).map(([color, colour]) => [colour.toLowerCase(), color])
+);
+
+interface Macro {
+  name: string;
+  params: Record<string, string>;
+  richTextBody?: XmlElement;
+  plainTextBody?: string;
+  macroId?: string;
+}
+
+/**
+ * Core engine for Confluence storage format to ADF conversion
+ *
+ * Macros without an ADF node of their own become extensions. Links to pages and
+ * attachments, and attachments the media resolver can't map, are reported by getWarnings().
+ */
+export class StorageFormatToAdfEngine {
+  private options: ConversionOptions;
+  private mentionCache?: MentionResolverCache;
+  private mediaCache?: MediaResolverCache;
+  private warnings: string[] = [];
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+    if (this.options.mediaResolver) {
+      this.mediaCache = new MediaResolverCache(this.options.mediaResolver);
+    }
+  }
+
+  /**
+   * Convert storage format XHTML to an ADF document
+   */
+  convert(storage: string): ADFDocument {
+    const adf = this.parse(storage);
+    return this.mentionCache ? resolveAdfMentions(adf, this.mentionCache) : adf;
+  }
+
+  /**
+   * Convert storage format XHTML to an ADF document, waiting for async mention and media resolvers
+   */
+  async convertAsync(storage: string): Promise<ADFDocument> {
+    const mediaCache = this.mediaCache;
+    if (mediaCache && typeof storage === 'string') {
+      const filenames = new Set<string>();
+      collectAttachmentFilenames(parseXml(storage), filenames);
+      await Promise.all([...filenames].map(filename => mediaCache.lookup('source', filename)));
+    }
+
+    const adf = this.parse(storage);
+    return this.mentionCache ? await resolveAdfMentionsAsync(adf, this.mentionCache) : adf;
+  }
+
+  /**
+   * Warnings from the most recent conversion
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  private warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+
+  private parse(storage: string): ADFDocument {
+    this.warnings = [];
+
+    if (typeof storage !== 'string') {
+      if (this.options.strict) {
+        throw new Error('Invalid storage format: must be a string');
+      }
+      return { version: 1, type: 'doc', content: [] };
+    }
+
+    try {
+      return { version: 1, type: 'doc', content: this.convertBlocks(parseXml(storage)) };
+    } catch (error) {
+      if (this.options.strict || error instanceof ParserError) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('Storage format to ADF conversion failed, returning empty document:', error);
+      }
+
+      return { version: 1, type: 'doc', content: [] };
+    }
+  }
+
+  /**
+   * Convert block content; runs of inline content between blocks become paragraphs
+   */
+  private convertBlocks(nodes: XmlNode[]): ADFNode[] {
+    const blocks: ADFNode[] = [];
+    let inline: XmlNode[] = [];
+
+    const flush = () => {
+      const paragraph = this.paragraph(inline);
+      if (paragraph) blocks.push(paragraph);
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'element' && this.isBlock(node)) {
+        flush();
+        blocks.push(...this.convertBlock(node));
+      } else {
+        inline.push(node);
+      }
+    }
+
+    flush();
+    return blocks;
+  }
+
+  private isBlock(element: XmlElement): boolean {
+    if (element.name === 'ac:structured-macro') {
+      return element.attrs['ac:name'] !== 'status';
+    }
+    return BLOCK_ELEMENTS.has(element.name);
+  }
+
+  /**
+   * A paragraph of inline content, or null when it has no content
+   */
+  private paragraph(nodes: XmlNode[]): ADFNode | null {
+    const content = trimInline(this.convertInline(nodes, []));
+    return content.length > 0 ? { type: 'paragraph', content } : null;
+  }
+
+  private convertBlock(element: XmlElement): ADFNode[] {
+    switch (element.name) {
+      case 'p': {
+        const meaningful = element.children.filter(child => child.type === 'element' || child.value.trim());
+        const only = meaningful.length === 1 && meaningful[0].type === 'element' ? meaningful[0] : null;
+        if (only?.name === 'ac:image') {
+          return [this.convertImage(only)];
+        }
+        const appearance = only?.name === 'a' ? only.attrs['data-card-appearance'] : undefined;
+        if (only && (appearance === 'block' || appearance === 'embed')) {
+          return [{ type: appearance === 'block' ? 'blockCard' : 'embedCard', attrs: { url: only.attrs.href } }];
+        }
+        const paragraph = this.paragraph(element.children);
+        return paragraph ? [paragraph] : [];
+      }
+
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return [{ type: 'heading', attrs: { level: parseInt(element.name[1]) }, content: trimInline(this.convertInline(element.children, [])) }];
+
+      case 'ul':
+      case 'ol':
+        return [this.convertList(element)];
+
+      case 'blockquote':
+        return [{ type: 'blockquote', content: this.nonEmpty(this.convertBlocks(element.children)) }];
+
+      case 'pre':
+        return [this.codeBlock(textContent(element))];
+
+      case 'hr':
+        return [{ type: 'rule' }];
+
+      case 'table':
+        return [this.convertTable(element)];
+
+      case 'ac:layout':
+      case 'ac:layout-section':
+        return this.convertLayout(element);
+
+      case 'ac:task-list':
+        return [this.convertTaskList(element)];
+
+      case 'ac:image':
+        return [this.convertImage(element)];
+
+      case 'ac:structured-macro':
+        return this.convertMacro(readMacro(element));
+
+      default:
+        return this.convertBlocks(element.children);
+    }
+  }
+
+  private nonEmpty(blocks: ADFNode[]): ADFNode[] {
+    return blocks.length > 0 ? blocks : [{ type: 'paragraph', content: [] }];
+  }
+
+  private codeBlock(text: string, language?: string): ADFNode {
+    return {
+      type: 'codeBlock',
+      attrs: language ? { language } : {},
+      content: text ? [{ type: 'text', text }] : []
+    };
+  }
+
+  private convertList(element: XmlElement): ADFNode {
+    const ordered = element.name === 'ol';
+    const start = parseInt(element.attrs.start);
+
+    return {
+      type: ordered ? 'orderedList' : 'bulletList',
+      ...(ordered && { attrs: { order: start > 0 ? start : 1 } }),
+      content: childElements(element, 'li').map(item => ({
+        type: 'listItem',
+        content: this.nonEmpty(this.convertBlocks(item.children))
+      }))
+    };
+  }
+
+  private convertTable(element: XmlElement): ADFNode {
+    // Rows may sit directly in the table or in thead/tbody/tfoot
+    const rows = childElements(element).flatMap(child => (child.name === 'tr' ? [child] : childElements(child, 'tr')));
+
+    return {
+      type: 'table',
+      attrs: { isNumberColumnEnabled: false, layout: 'default' },
+      content: rows.map(row => ({
+        type: 'tableRow',
+        content: childElements(row).filter(cell => cell.name === 'th' || cell.name === 'td').map(cell => {
+          const colspan = parseInt(cell.attrs.colspan);
+          const rowspan = parseInt(cell.attrs.rowspan);
+          return {
+            type: cell.name === 'th' ? 'tableHeader' : 'tableCell',
+            attrs: {
+              ...(colspan > 1 && { colspan }),
+              ...(rowspan > 1 && { rowspan })
+            },
+            content: this.nonEmpty(this.convertBlocks(cell.children))
+          };
+        })
+      }))
+    };
+  }
+
+  /**
+   * `ac:layout-section` types map to column widths; single-column sections have no ADF
+   * layout and keep their content as plain blocks
+   */
+  private convertLayout(element: XmlElement): ADFNode[] {
+    if (element.name === 'ac:layout') {
+      return childElements(element, 'ac:layout-section').flatMap(section => this.convertLayout(section));
+    }
+
+    const cells = childElements(element, 'ac:layout-cell');
+    if (cells.length < 2) {
+      return cells.flatMap(cell => this.convertBlocks(cell.children));
+    }
+
+    const widths = LAYOUT_COLUMN_WIDTHS[element.attrs['ac:type']];
+    return [{
+      type: 'layoutSection',
+      content: cells.map((cell, index) => ({
+        type: 'layoutColumn',
+        attrs: { width: widths?.length === cells.length ? widths[index] : Math.round(10000 / cells.length) / 100 },
+        content: this.nonEmpty(this.convertBlocks(cell.children))
+      }))
+    }];
+  }
+
+  private convertTaskList(element: XmlElement): ADFNode {
+    return {
+      type: 'taskList',
+      attrs: { localId: this.generateLocalId() },
+      content: childElements(element, 'ac:task').map(task => {
+        const id = textContent(childElements(task, 'ac:task-id')[0] || { type: 'text', value: '' }).trim();
+        const status = textContent(childElements(task, 'ac:task-status')[0] || { type: 'text', value: '' }).trim();
+        const body = childElements(task, 'ac:task-body')[0];
+        return {
+          type: 'taskItem',
+          attrs: { localId: id || this.generateLocalId(), state: status === 'complete' ? 'DONE' : 'TODO' },
+          content: body ? trimInline(this.convertInline(body.children, [])) : []
+        };
+      })
+    };
+  }
+
+  /**
+   * Generate a localId for task lists, which have none in storage format
+   */
+  private generateLocalId(): string {
+    const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+    if (cryptoApi?.randomUUID) {
+      return cryptoApi.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  /**
+   * Panels, expands and code blocks have ADF nodes; other macros become extensions
+   */
+  private convertMacro(macro: Macro): ADFNode[] {
+    const { name, params } = macro;
+    const body = () => this.nonEmpty(this.convertBlocks(macro.richTextBody?.children || []));
+
+    if (PANEL_MACRO_TYPES[name] || name === 'panel') {
+      const content = body().filter(block => block.type !== 'paragraph' || (block.content?.length ?? 0) > 0);
+      if (params.title) {
+        content.unshift({ type: 'paragraph', content: [{ type: 'text', text: params.title, marks: [{ type: 'strong' }] }] });
+      }
+      const attrs = name === 'panel'
+        ? (params.bgColor ? { panelType: 'custom', panelColor: params.bgColor } : { panelType: 'info' })
+        : { panelType: PANEL_MACRO_TYPES[name] };
+      return [{ type: 'panel', attrs, content: this.nonEmpty(content) }];
+    }
+
+    if (name === 'expand') {
+      return [{ type: 'expand', attrs: { title: params.title || '' }, content: body() }];
+    }
+
+    if (name === 'code' || name === 'noformat') {
+      if (params.title) {
+        this.warn(`Code block title "${params.title}" is not supported and was dropped`);
+      }
+      return [this.codeBlock(macro.plainTextBody || '', name === 'code' ? params.language?.toLowerCase() : undefined)];
+    }
+
+    if (name === 'status') {
+      return [{ type: 'paragraph', content: [this.statusNode(params)] }];
+    }
+
+    const attrs = this.extensionAttrs(macro);
+    if (macro.richTextBody) {
+      return [{ type: 'bodiedExtension', attrs, content: body() }];
+    }
+    return [{ type: 'extension', attrs }];
+  }
+
+  private statusNode(params: Record<string, string>): ADFNode {
+    const color = STATUS_COLORS_BY_COLOUR[(params.colour || params.color || '').toLowerCase()] || 'neutral';
+    return { type: 'status', attrs: { text: params.title || '', color } };
+  }
+
+  private extensionAttrs(macro: Macro): Record<string, any> {
+    return {
+      extensionType: CONFLUENCE_MACRO_EXTENSION_TYPE,
+      extensionKey: macro.name,
+      parameters: {
+        macroParams: Object.fromEntries(Object.entries(macro.params).map(([name, value]) => [name, { value }]))
+      },
+      ...(macro.plainTextBody !== undefined && { text: macro.plainTextBody }),
+      ...(macro.macroId && { localId: macro.macroId })
+    };
+  }
+
+  /**
+   * `ac:image` with an attachment or URL; attachments use media from the media resolver
+   */
+  private convertImage(element: XmlElement, inline = false): ADFNode {
+    const media = this.imageMedia(element);
+    if (inline) {
+      return media.type === 'external' ? { type: 'text', text: media.alt || media.url } : { type: 'mediaInline', attrs: media };
+    }
+
+    const caption = childElements(element, 'ac:caption')[0];
+    const captionContent = caption ? trimInline(this.convertInline(caption.children, [])) : [];
+
+    return {
+      type: 'mediaSingle',
+      attrs: { layout: IMAGE_LAYOUTS[element.attrs['ac:align']] || 'center' },
+      content: [
+        { type: 'media', attrs: media },
+        ...(captionContent.length > 0 ? [{ type: 'caption', content: captionContent }] : [])
+      ]
+    };
+  }
+
+  private imageMedia(element: XmlElement): Record<string, any> {
+    const alt = element.attrs['ac:alt'] || element.attrs['ac:title'];
+    const width = parseInt(element.attrs['ac:width']);
+    const height = parseInt(element.attrs['ac:height']);
+    const size = { ...(width > 0 && { width }), ...(height > 0 && { height }) };
+
+    const attachment = childElements(element, 'ri:attachment')[0];
+    if (attachment) {
+      const filename = attachment.attrs['ri:filename'] || '';
+      const resolved = this.mediaCache?.resolveSourceSync(filename);
+      if (resolved) {
+        return {
+          type: resolved.type || 'file',
+          id: resolved.id,
+          collection: resolved.collection || '',
+          ...(resolved.width && { width: resolved.width }),
+          ...(resolved.height && { height: resolved.height }),
+          ...size,
+          ...(alt && { alt })
+        };
+      }
+      this.warn(`Attachment "${filename}" has no media id; it was kept as an external image`);
+      return { type: 'external', url: filename, ...size, alt: alt || filename };
+    }
+
+    const url = childElements(element, 'ri:url')[0]?.attrs['ri:value'] || '';
+    return { type: 'external', url, ...size, ...(alt && { alt }) };
+  }
+
+  private convertInline(nodes: XmlNode[], marks: ADFMark[]): ADFNode[] {
+    const result: ADFNode[] = [];
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        const text = node.value.replace(/\s+/g, ' ');
+        if (text) {
+          result.push({ type: 'text', text, ...(marks.length > 0 && { marks }) });
+        }
+        continue;
+      }
+
+      const mark = MARK_ELEMENTS[node.name];
+      if (mark) {
+        result.push(...this.convertInline(node.children, [...marks, mark]));
+        continue;
+      }
+
+      result.push(...this.convertInlineElement(node, marks));
+    }
+
+    return mergeTextNodes(result);
+  }
+
+  private convertInlineElement(element: XmlElement, marks: ADFMark[]): ADFNode[] {
+    switch (element.name) {
+      case 'br':
+        return [{ type: 'hardBreak' }];
+
+      case 'a': {
+        const href = element.attrs.href;
+        if (href && element.attrs['data-card-appearance']) {
+          return [{ type: 'inlineCard', attrs: { url: href } }];
+        }
+        return this.convertInline(element.children, href ? [...marks, { type: 'link', attrs: { href } }] : marks);
+      }
+
+      case 'span': {
+        const style = parseStyle(element.attrs.style);
+        const spanMarks: ADFMark[] = [
+          ...(style.color ? [{ type: 'textColor', attrs: { color: style.color } }] : []),
+          ...(style['background-color'] ? [{ type: 'backgroundColor', attrs: { color: style['background-color'] } }] : [])
+        ];
+        return this.convertInline(element.children, [...marks, ...spanMarks]);
+      }
+
+      case 'time': {
+        const timestamp = Date.parse(`${element.attrs.datetime}T00:00:00Z`);
+        return isNaN(timestamp) ? [] : [{ type: 'date', attrs: { timestamp: String(timestamp) } }];
+      }
+
+      case 'ac:link':
+        return this.convertLink(element, marks);
+
+      case 'ac:emoticon':
+        return [this.convertEmoticon(element)];
+
+      case 'ac:image':
+        return [this.convertImage(element, true)];
+
+      case 'ac:structured-macro': {
+        const macro = readMacro(element);
+        return macro.name === 'status'
+          ? [this.statusNode(macro.params)]
+          : [{ type: 'inlineExtension', attrs: this.extensionAttrs(macro) }];
+      }
+
+      case 'ac:inline-comment-marker':
+        return this.convertInline(element.children, [
+          ...marks,
+          { type: 'annotation', attrs: { id: element.attrs['ac:ref'], annotationType: 'inlineComment' } }
+        ]);
+
+      case 'ac:placeholder':
+        return [];
+
+      default:
+        return this.convertInline(element.children, marks);
+    }
+  }
+
+  /**
+   * `ac:link` to a user becomes a mention and an anchor link a link mark; page and attachment
+   * links have no URL in storage format and keep their text
+   */
+  private convertLink(element: XmlElement, marks: ADFMark[]): ADFNode[] {
+    const user = childElements(element, 'ri:user')[0];
+    if (user) {
+      const id = user.attrs['ri:account-id'] || user.attrs['ri:userkey'] || user.attrs['ri:username'] || '';
+      return [{ type: 'mention', attrs: { id, text: `@${id}`, userType: 'DEFAULT' } }];
+    }
+
+    const body = childElements(element).find(child => child.name === 'ac:link-body' || child.name === 'ac:plain-text-link-body');
+    const anchor = element.attrs['ac:anchor'];
+    const page = childElements(element, 'ri:page')[0];
+    const attachment = childElements(element, 'ri:attachment')[0];
+
+    if (anchor && !page && !attachment) {
+      const linkMarks = [...marks, { type: 'link', attrs: { href: `#${anchor}` } }];
+      return body ? this.convertInline(body.children, linkMarks) : [{ type: 'text', text: anchor, marks: linkMarks }];
+    }
+
+    const target = page?.attrs['ri:content-title'] || attachment?.attrs['ri:filename'] || '';
+    this.warn(`Link to ${page ? 'page' : attachment ? 'attachment' : 'content'} "${target}" has no URL and was kept as text`);
+    return body
+      ? this.convertInline(body.children, marks)
+      : (target ? [{ type: 'text', text: target, ...(marks.length > 0 && { marks }) }] : []);
+  }
+
+  private convertEmoticon(element: XmlElement): ADFNode {
+    const shortName = element.attrs['ac:emoji-shortname'];
+    const name = element.attrs['ac:name'] || '';
+    const emoji = resolveEmoji(shortName || CONFLUENCE_EMOTICONS[name] || name, this.options.emojiRegistry);
+    const id = element.attrs['ac:emoji-id'] || emoji.id;
+    const text = element.attrs['ac:emoji-fallback'] || emoji.text;
+
+    return { type: 'emoji', attrs: { shortName: emoji.shortName, ...(id && { id }), text } };
+  }
+}
+
+/**
+ * Read a structured macro's name, parameters and body
+ */
+function readMacro(element: XmlElement): Macro {
+  const params: Record<string, string> = {};
+  for (const param of childElements(element, 'ac:parameter')) {
+    params[param.attrs['ac:name'] || ''] = textContent(param).trim();
+  }
+
+  const plainTextBody = childElements(element, 'ac:plain-text-body')[0];
+  return {
+    name: element.attrs['ac:name'] || '',
+    params,
+    richTextBody: childElements(element, 'ac:rich-text-body')[0],
+    plainTextBody: plainTextBody ? textContent(plainTextBody) : undefined,
+    macroId: element.attrs['ac:macro-id']
+  };
+}
+
+function collectAttachmentFilenames(nodes: XmlNode[], filenames: Set<string>): void {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+    if (node.name === 'ac:image') {
+      const filename = childElements(node, 'ri:attachment')[0]?.attrs['ri:filename'];
+      if (filename) filenames.add(filename);
+    }
+    collectAttachmentFilenames(node.children, filenames);
+  }
+}
+
+function parseStyle(style: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const declaration of (style || '').split(';')) {
+    const separator = declaration.indexOf(':');
+    if (separator > 0) {
+      result[declaration.slice(0, separator).trim().toLowerCase()] = declaration.slice(separator + 1).trim();
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop whitespace at the start and end of a paragraph's content, left over from XHTML indentation
+ */
+function trimInline(nodes: ADFNode[]): ADFNode[] {
+  const result = [...nodes];
+  const first = result[0];
+  if (first?.type === 'text') {
+    result[0] = { ...first, text: (first.text || '').trimStart() };
+  }
+  const lastIndex = result.length - 1;
+  const last = result[lastIndex];
+  if (last?.type === 'text') {
+    result[lastIndex] = { ...last, text: (last.text || '').trimEnd() };
+  }
+  return result.filter(node => node.type !== 'text' || node.text);
+}
@@ -0,0 +1,620 @@
+/**
+ * @file WikiMarkupToAdfEngine.ts
+ * @description Engine for converting Jira wiki markup to ADF
+ */
+
+import type { ADFDocument, ADFNode, ADFMark, ConversionOptions } from '../../types/index.js';
+import { resolveEmoji } from '../../utils/emoji-mapping.js';
+import { mergeTextNodes } from '../../utils/adf-utils.js';
+import { MentionResolverCache, resolveMarkdownMentions, resolveMarkdownMentionsAsync } from '../../utils/mention-resolver.js';
+import { PANEL_MACRO_TYPES, STATUS_COLOURS, WIKI_EMOTICONS, WIKI_EMOTICON_KEYS, parseMacroParams } from '../../utils/wiki-markup.js';
+
+interface ListLine {
+  markers: string;
+  text: string;
+  line: number;
+}
+
+interface TableCell {
+  header: boolean;
+  text: string;
+}
+
+// `{code:java}`, `{panel:title=Notes}` and friends at the start of a line
+const BLOCK_MACRO_PATTERN = /^\{(code|noformat|panel|quote|expand|info|note|warning|tip)(?::([^}]*))?\}(.*)$/;
+const HEADING_PATTERN = /^h([1-6])\.\s*(.*)$/;
+const BLOCKQUOTE_PATTERN = /^bq\.\s+(.*)$/;
+const RULE_PATTERN = /^-{4,}$/;
+const IMAGE_PATTERN = /^!([^\s!|][^!|]*)(?:\|([^!]*))?!$/;
+const LIST_PATTERN = /^([*#]+|-)\s+(.*)$/;
+
+// Formatting marks: *strong*, _emphasis_, -strike-, +underline+, ^sup^, ~sub~, ??citation??
+const WIKI_MARKS: Record<string, ADFMark> = {
+  '*': { type: 'strong' },
+  '_': { type: 'em' },
+  '-': { type: 'strike' },
+  '+': { type: 'underline' },
+  '^': { type: 'subsup', attrs: { type: 'sup' } },
+  '~': { type: 'subsup', attrs: { type: 'sub' } },
+  '??': { type: 'em' }
+};
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const URL_PATTERN = /^(?:https?|ftp):\/\/[^\s\]|)]+/;
+const STATUS_COLORS_BY_COLOUR = Object.fromEntries(
+  Object.entries(STATUS_COLOURS).map(([color, colour]) => [colour.toLowerCase(), color])
+);
+
+/**
+ * Core engine for Jira wiki markup to ADF conversion
+ *
+ * Constructs without an ADF equivalent (anchors, attachments, unknown macros) are kept as
+ * text and reported by getWarnings().
+ */
+export class WikiMarkupToAdfEngine {
+  private options: ConversionOptions;
+  private mentionCache?: MentionResolverCache;
+  private warnings: string[] = [];
+
+  constructor(options: ConversionOptions = {}) {
+    this.options = {
+      strict: false,
+      enableLogging: false,
+      ...options
+    };
+
+    if (this.options.mentionResolver) {
+      this.mentionCache = new MentionResolverCache(this.options.mentionResolver);
+    }
+  }
+
+  /**
+   * Convert wiki markup to an ADF document
+   */
+  convert(wikiMarkup: string): ADFDocument {
+    const adf = this.parse(wikiMarkup);
+    return this.mentionCache ? resolveMarkdownMentions(adf, this.mentionCache) : adf;
+  }
+
+  /**
+   * Convert wiki markup to an ADF document, waiting for an async mention resolver
+   */
+  async convertAsync(wikiMarkup: string): Promise<ADFDocument> {
+    const adf = this.parse(wikiMarkup);
+    return this.mentionCache ? await resolveMarkdownMentionsAsync(adf, this.mentionCache) : adf;
+  }
+
+  /**
+   * Warnings from the most recent conversion
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  private parse(wikiMarkup: string): ADFDocument {
+    this.warnings = [];
+
+    if (typeof wikiMarkup !== 'string') {
+      if (this.options.strict) {
+        throw new Error('Invalid wiki markup: must be a string');
+      }
+      return { version: 1, type: 'doc', content: [] };
+    }
+
+    try {
+      return { version: 1, type: 'doc', content: this.parseBlocks(wikiMarkup.split(/\r?\n/), 0) };
+    } catch (error) {
+      if (this.options.strict) {
+        throw error;
+      }
+
+      if (this.options.enableLogging) {
+        console.warn('Wiki markup to ADF conversion failed, returning empty document:', error);
+      }
+
+      return { version: 1, type: 'doc', content: [] };
+    }
+  }
+
+  private warn(message: string, line: number): void {
+    this.warnings.push(`Line ${line}: ${message}`);
+  }
+
+  /**
+   * Parse block-level wiki markup; `offset` is the line number before the first line
+   */
+  private parseBlocks(lines: string[], offset: number): ADFNode[] {
+    const blocks: ADFNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i].trim();
+      const lineNumber = offset + i + 1;
+
+      if (!line) {
+        i++;
+        continue;
+      }
+
+      const macro = BLOCK_MACRO_PATTERN.exec(line);
+      if (macro) {
+        const [, name, params, rest] = macro;
+        const end = this.findMacroEnd(lines, i, name, rest);
+        blocks.push(this.buildMacroBlock(name, params, end.body, lineNumber));
+        i = end.next;
+        continue;
+      }
+
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        blocks.push({ type: 'heading', attrs: { level: parseInt(heading[1]) }, content: this.parseInline(heading[2], lineNumber) });
+        i++;
+        continue;
+      }
+
+      const blockquote = BLOCKQUOTE_PATTERN.exec(line);
+      if (blockquote) {
+        blocks.push({ type: 'blockquote', content: [this.paragraph(blockquote[1], lineNumber)] });
+        i++;
+        continue;
+      }
+
+      if (RULE_PATTERN.test(line)) {
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      const image = IMAGE_PATTERN.exec(line);
+      if (image) {
+        blocks.push(this.buildImage(image[1], image[2], lineNumber));
+        i++;
+        continue;
+      }
+
+      if (line.startsWith('|')) {
+        const start = i;
+        while (i < lines.length && this.isTableLine(lines, i, start)) i++;
+        blocks.push(this.buildTable(lines.slice(start, i), offset + start + 1));
+        continue;
+      }
+
+      if (LIST_PATTERN.test(line)) {
+        const items: ListLine[] = [];
+        while (i < lines.length && lines[i].trim()) {
+          const item = LIST_PATTERN.exec(lines[i].trim());
+          if (item) {
+            items.push({ markers: item[1].replace(/-/g, '*'), text: item[2], line: offset + i + 1 });
+          } else if (this.startsBlock(lines[i].trim())) {
+            break;
+          } else {
+            // Continuation of the previous item
+            items[items.length - 1].text += `\n${lines[i].trim()}`;
+          }
+          i++;
+        }
+        let index = 0;
+        while (index < items.length) {
+          const [list, next] = this.buildList(items, index, 1);
+          blocks.push(list);
+          index = next;
+        }
+        continue;
+      }
+
+      // Paragraph: consecutive lines up to a blank line or another block
+      const start = i;
+      i++;
+      while (i < lines.length && lines[i].trim() && !this.startsBlock(lines[i].trim())) i++;
+      blocks.push(this.paragraph(lines.slice(start, i).map(text => text.trim()).join('\n'), lineNumber));
+    }
+
+    return blocks;
+  }
+
+  private startsBlock(line: string): boolean {
+    return BLOCK_MACRO_PATTERN.test(line) || HEADING_PATTERN.test(line) || BLOCKQUOTE_PATTERN.test(line) ||
+      RULE_PATTERN.test(line) || IMAGE_PATTERN.test(line) || line.startsWith('|') || LIST_PATTERN.test(line);
+  }
+
+  /**
+   * Find the closing tag of a block macro. Text after the closing tag on the same line is
+   * left in place to be parsed as the next block.
+   */
+  private findMacroEnd(lines: string[], start: number, name: string, rest: string): { body: string[]; next: number } {
+    const closing = `{${name}}`;
+    const body: string[] = [];
+    let current = rest;
+
+    for (let i = start; i < lines.length; i++) {
+      if (i > start) {
+        current = lines[i];
+      }
+
+      const end = current.indexOf(closing);
+      if (end !== -1) {
+        body.push(current.slice(0, end));
+        const after = current.slice(end + closing.length);
+        if (after.trim()) {
+          lines[i] = after;
+          return { body, next: i };
+        }
+        return { body, next: i + 1 };
+      }
+      body.push(current);
+    }
+
+    this.warn(`Unclosed {${name}} macro runs to the end of the document`, start + 1);
+    return { body, next: lines.length };
+  }
+
+  private buildMacroBlock(name: string, rawParams: string | undefined, body: string[], line: number): ADFNode {
+    const params = parseMacroParams(rawParams);
+
+    if (name === 'code' || name === 'noformat') {
+      // Drop the line breaks directly after the opening tag and before the closing tag
+      const text = body.join('\n').replace(/^[ \t]*\n/, '').replace(/\n[ \t]*$/, '');
+      const { '': bareLanguage, language, title, ...others } = params;
+      const codeLanguage = name === 'code' ? language || bareLanguage : undefined;
+      this.warnIgnoredParams(name, { ...others, ...(title && { title }), ...(name === 'noformat' && bareLanguage && { '': bareLanguage }) }, line);
+      return { type: 'codeBlock', attrs: codeLanguage ? { language: codeLanguage.toLowerCase() } : {}, content: text ? [{ type: 'text', text }] : [] };
+    }
+
+    const content = this.parseBlocks(body, line - 1);
+
+    if (name === 'quote') {
+      this.warnIgnoredParams(name, params, line);
+      return { type: 'blockquote', content: content.length > 0 ? content : [this.paragraph('', line)] };
+    }
+
+    if (name === 'expand') {
+      const { '': bareTitle, title, ...others } = params;
+      this.warnIgnoredParams(name, others, line);
+      return { type: 'expand', attrs: { title: title || bareTitle || '' }, content: content.length > 0 ? content : [this.paragraph('', line)] };
+    }
+
+    // Panels: {panel} and the {info}, {tip}, {note} and {warning} macros
+    const { '': bareTitle, title, bgColor, ...others } = params;
+    this.warnIgnoredParams(name, others, line);
+
+    const panelTitle = title || bareTitle;
+    if (panelTitle) {
+      content.unshift({ type: 'paragraph', content: [{ type: 'text', text: panelTitle, marks: [{ type: 'strong' }] }] });
+    }
+
+    const attrs = name === 'panel' && bgColor
+      ? { panelType: 'custom', panelColor: bgColor }
+      : { panelType: PANEL_MACRO_TYPES[name] || 'info' };
+    return { type: 'panel', attrs, content: content.length > 0 ? content : [this.paragraph('', line)] };
+  }
+
+  private warnIgnoredParams(name: string, params: Record<string, string>, line: number): void {
+    for (const [param, value] of Object.entries(params)) {
+      this.warn(`Ignored {${name}} parameter "${param ? `${param}=${value}` : value}"`, line);
+    }
+  }
+
+  /**
+   * `!image.png!` and `!https://example.com/a.png|alt=Diagram, width=300!`
+   */
+  private buildImage(source: string, rawOptions: string | undefined, line: number): ADFNode {
+    const attrs: Record<string, any> = { type: 'external', url: source.trim() };
+
+    for (const option of (rawOptions || '').split(',')) {
+      const [name, value] = option.split('=').map(part => part.trim());
+      if (!name) continue;
+      if (name === 'alt' && value) {
+        attrs.alt = value;
+      } else if ((name === 'width' || name === 'height') && Number(value) > 0) {
+        attrs[name] = Number(value);
+      } else {
+        this.warn(`Ignored image option "${option.trim()}"`, line);
+      }
+    }
+
+    return { type: 'mediaSingle', attrs: { layout: 'center' }, content: [{ type: 'media', attrs }] };
+  }
+
+  /**
+   * Table lines start with `|`; a line that doesn't is a continuation of the previous row
+   * when that row has no closing `|`
+   */
+  private isTableLine(lines: string[], index: number, start: number): boolean {
+    const line = lines[index].trim();
+    if (line.startsWith('|')) return true;
+    return index > start && line !== '' && !this.startsBlock(line) && !lines[index - 1].trim().endsWith('|');
+  }
+
+  private buildTable(lines: string[], firstLine: number): ADFNode {
+    const rows: { cells: TableCell[]; line: number }[] = [];
+
+    lines.forEach((line, index) => {
+      const text = line.trim();
+      if (text.startsWith('|') || rows.length === 0) {
+        rows.push({ cells: this.splitTableRow(text), line: firstLine + index });
+      } else {
+        const cells = rows[rows.length - 1].cells;
+        if (cells.length > 0) {
+          cells[cells.length - 1].text += `\n${text}`;
+        }
+      }
+    });
+
+    return {
+      type: 'table',
+      attrs: { isNumberColumnEnabled: false, layout: 'default' },
+      content: rows.map(row => ({
+        type: 'tableRow',
+        content: row.cells.map(cell => ({
+          type: cell.header ? 'tableHeader' : 'tableCell',
+          attrs: {},
+          content: [this.paragraph(cell.text.trim(), row.line)]
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Split a row at `|` and `||`, ignoring pipes inside links and macros
+   */
+  private splitTableRow(row: string): TableCell[] {
+    const cells: TableCell[] = [];
+    let depth = 0;
+    let current: TableCell | null = null;
+
+    for (let i = 0; i < row.length; i++) {
+      const char = row[i];
+      if (char === '\\' && i + 1 < row.length) {
+        if (current) current.text += char + row[i + 1];
+        i++;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if ((char === ']' || char === '}') && depth > 0) {
+        depth--;
+      }
+
+      if (char === '|' && depth === 0) {
+        if (current) cells.push(current);
+        const header = row[i + 1] === '|';
+        if (header) i++;
+        current = { header, text: '' };
+      } else if (current && char !== '\\') {
+        current.text += char;
+      }
+    }
+
+    // The trailing separator opens an empty cell that isn't part of the row
+    if (current && current.text.trim()) {
+      cells.push(current);
+    }
+    return cells;
+  }
+
+  /**
+   * Build a list from consecutive list lines. Nesting follows the marker length
+   * (`*`, `**`, `#*`); a marker type change at the same depth starts a new list.
+   */
+  private buildList(items: ListLine[], start: number, depth: number): [ADFNode, number] {
+    const listType = items[start].markers[depth - 1] === '#' ? 'orderedList' : 'bulletList';
+    const list: ADFNode = { type: listType, ...(listType === 'orderedList' && { attrs: { order: 1 } }), content: [] };
+    const content = list.content as ADFNode[];
+    let i = start;
+
+    while (i < items.length && items[i].markers.length >= depth) {
+      const item = items[i];
+      const itemType = item.markers[depth - 1] === '#' ? 'orderedList' : 'bulletList';
+
+      if (item.markers.length === depth) {
+        if (itemType !== listType && i > start) break;
+        content.push({ type: 'listItem', content: [this.paragraph(item.text, item.line)] });
+        i++;
+      } else {
+        // Skipped levels get an empty item to hold the nested list
+        if (content.length === 0) {
+          content.push({ type: 'listItem', content: [this.paragraph('', item.line)] });
+        }
+        const [nested, next] = this.buildList(items, i, depth + 1);
+        const parentItem = content[content.length - 1];
+        parentItem.content = [...(parentItem.content || []), nested];
+        i = next;
+      }
+    }
+
+    return [list, i];
+  }
+
+  private paragraph(text: string, line: number): ADFNode {
+    return { type: 'paragraph', content: this.parseInline(text, line) };
+  }
+
+  /**
+   * Parse inline markup into text nodes with marks and inline nodes, merging adjacent text with the same marks
+   */
+  private parseInline(text: string, line: number, marks: ADFMark[] = []): ADFNode[] {
+    const nodes: ADFNode[] = [];
+    let buffer = '';
+
+    const flush = () => {
+      if (buffer) {
+        nodes.push({ type: 'text', text: buffer, ...(marks.length > 0 && { marks }) });
+        buffer = '';
+      }
+    };
+    const push = (...inline: ADFNode[]) => {
+      flush();
+      nodes.push(...inline);
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      const rest = text.slice(i);
+      const previous = text[i - 1] || ' ';
+
+      // Forced line break and escapes
+      if (rest.startsWith('\\\\')) {
+        push({ type: 'hardBreak' });
+        i += 2;
+        continue;
+      }
+      if (char === '\\' && i + 1 < text.length) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (char === '\n') {
+        push({ type: 'hardBreak' });
+        i++;
+        continue;
+      }
+
+      // {{monospace}}
+      if (rest.startsWith('{{')) {
+        const end = text.indexOf('}}', i + 2);
+        if (end > i + 2) {
+          push({ type: 'text', text: text.slice(i + 2, end), marks: [...marks, { type: 'code' }] });
+          i = end + 2;
+          continue;
+        }
+      }
+
+      if (char === '{') {
+        const macro = /^\{(\w+)(?::([^}]*))?\}/.exec(rest);
+        if (macro) {
+          const consumed = this.parseInlineMacro(macro, text, i, line, marks, push);
+          if (consumed > 0) {
+            i += consumed;
+            continue;
+          }
+          this.warn(`Unsupported macro {${macro[1]}} kept as text`, line);
+          buffer += macro[0];
+          i += macro[0].length;
+          continue;
+        }
+      }
+
+      if (char === '[') {
+        const end = text.indexOf(']', i + 1);
+        if (end > i + 1) {
+          push(...this.parseLink(text.slice(i + 1, end), line, marks));
+          i = end + 1;
+          continue;
+        }
+      }
+
+      // Emoticons stand apart from words: `f(x)` and `a:D` stay text
+      const emoticon = !WORD_CHAR.test(previous) && WIKI_EMOTICON_KEYS.find(key => rest.startsWith(key));
+      if (emoticon && (emoticon.startsWith('(') || !WORD_CHAR.test(text[i + emoticon.length] || ' '))) {
+        const emoji = resolveEmoji(WIKI_EMOTICONS[emoticon], this.options.emojiRegistry);
+        push({ type: 'emoji', attrs: { shortName: emoji.shortName, ...(emoji.id && { id: emoji.id }), text: emoji.text } });
+        i += emoticon.length;
+        continue;
+      }
+
+      const url = !WORD_CHAR.test(previous) && !marks.some(mark => mark.type === 'link') && URL_PATTERN.exec(rest);
+      if (url) {
+        const href = url[0].replace(/[.,;:!?]+$/, '');
+        push({ type: 'text', text: href, marks: [...marks, { type: 'link', attrs: { href } }] });
+        i += href.length;
+        continue;
+      }
+
+      const markKey = rest.startsWith('??') ? '??' : char;
+      if (WIKI_MARKS[markKey] && !WORD_CHAR.test(previous)) {
+        const end = this.findMarkEnd(text, i, markKey);
+        if (end !== -1) {
+          push(...this.parseInline(text.slice(i + markKey.length, end), line, [...marks, WIKI_MARKS[markKey]]));
+          i = end + markKey.length;
+          continue;
+        }
+      }
+
+      buffer += char;
+      i++;
+    }
+
+    flush();
+    return mergeTextNodes(nodes);
+  }
+
+  /**
+   * Find the closing delimiter of a formatting mark: not preceded by whitespace and not
+   * followed by a letter or digit
+   */
+  private findMarkEnd(text: string, start: number, delimiter: string): number {
+    const contentStart = start + delimiter.length;
+    if (!/\S/.test(text[contentStart] || '') || text.startsWith(delimiter, contentStart)) {
+      return -1;
+    }
+
+    let end = text.indexOf(delimiter, contentStart + 1);
+    while (end !== -1) {
+      if (/\S/.test(text[end - 1]) && text[end - 1] !== '\\' && !WORD_CHAR.test(text[end + delimiter.length] || ' ')) {
+        return end;
+      }
+      end = text.indexOf(delimiter, end + 1);
+    }
+    return -1;
+  }
+
+  /**
+   * Inline macros: {color:red}text{color} and {status:colour=Green|title=Done}.
+   * Returns the number of characters consumed, or 0 for unsupported macros.
+   */
+  private parseInlineMacro(
+    macro: RegExpExecArray,
+    text: string,
+    start: number,
+    line: number,
+    marks: ADFMark[],
+    push: (...nodes: ADFNode[]) => void
+  ): number {
+    const [source, name, rawParams] = macro;
+
+    if (name === 'color' && rawParams) {
+      const end = text.indexOf('{color}', start + source.length);
+      if (end === -1) return 0;
+      push(...this.parseInline(text.slice(start + source.length, end), line, [...marks, { type: 'textColor', attrs: { color: rawParams.trim() } }]));
+      return end + '{color}'.length - start;
+    }
+
+    if (name === 'status') {
+      const params = parseMacroParams(rawParams);
+      const color = STATUS_COLORS_BY_COLOUR[(params.colour || params.color || '').toLowerCase()] || 'neutral';
+      push({ type: 'status', attrs: { text: params.title || '', color } });
+      return source.length;
+    }
+
+    return 0;
+  }
+
+  /**
+   * `[url]`, `[text|url]`, `[~username]`, `[~accountid:123]` and `[^attachment.txt]`
+   */
+  private parseLink(content: string, line: number, marks: ADFMark[]): ADFNode[] {
+    if (content.startsWith('~')) {
+      const id = content.slice(1).replace(/^accountid:/, '');
+      return [{ type: 'mention', attrs: { id, text: `@${id}`, userType: 'DEFAULT' } }];
+    }
+
+    if (content.startsWith('^')) {
+      this.warn(`Attachment link [${content}] kept as text`, line);
+      return [{ type: 'text', text: content.slice(1), ...(marks.length > 0 && { marks }) }];
+    }
+
+    // A third part (`[text|url|tip]`) is a tooltip
+    const [first, second] = content.split('|');
+    const label = first;
+    const href = (second === undefined ? first : second).trim();
+
+    if (!/^(?:[a-z][a-z0-9+.-]*:|#|\/)/i.test(href)) {
+      this.warn(`Link to "${href}" has no URL and was kept as text`, line);
+      return [{ type: 'text', text: label, ...(marks.length > 0 && { marks }) }];
+    }
+
+    const linkMarks = [...marks, { type: 'link', attrs: { href } }];
+    return second === undefined
+      ? [{ type: 'text', text: label, marks: linkMarks }]
+      : this.parseInline(label, line, linkMarks);
+  }
+}
@@ -6,20 +6,43 @@
 
 import { Token, TokenType, ADFMetadata } from './types.js';
 import { ADFDocument, ADFNode, ADFMark } from '../../types/adf.types.js';
-import type { Root } from 'mdast';
+import type { Root, List, ListItem, Paragraph, PhrasingContent } from 'mdast';
 import type { AdfFenceNode } from '../remark/adf-from-markdown.js';
-import { getNodeMetadata, applyMetadataToAdfNode, generateMetadataComment, isAdfMetadataComment } from '../../utils/metadata-comments.js';
+import { getNodeMetadata, applyMetadataToAdfNode, generateMetadataComment, isAdfMetadataComment, parseAdfMetadataComment, type AdfMetadata } from '../../utils/metadata-comments.js';
 import { MarkdownTokenizer } from './MarkdownTokenizer.js';
-import { getEmojiData, createFallbackEmojiData, type EmojiData } from '../../utils/emoji-mapping.js';
+import { parseAdfAttributes } from '../micromark/adf-fence.js';
+import { ADF_FENCE_TYPES, PANEL_FENCE_ATTRIBUTES } from '../../utils/fence-utils.js';
+import { resolveEmoji, findUnicodeEmoji, type EmojiData, type EmojiRegistry } from '../../utils/emoji-mapping.js';
+import type { MediaResolverCache } from '../../utils/media-resolver.js';
+import type { LinkResolverCache } from '../../utils/link-resolver.js';
+import { findJiraIssueKey, getJiraIssueUrl, getJiraIssueKeyFromUrl, type JiraIssueLinkOptions } from '../../utils/jira-issue-keys.js';
+import { ParserError } from '../../errors/index.js';
+
+// Annotation marks wrap the annotated range: <!-- adf:annotation id="..." -->text<!-- /adf:annotation -->
+const ANNOTATION_OPEN_PATTERN = /^<!--\s*adf:annotation\s+(.*?)\s*-->/;
+const ANNOTATION_CLOSE_PATTERN = /<!--\s*\/adf:annotation\s*-->/;
+const ANNOTATION_COMMENT_PATTERN = /<!--\s*(\/?)adf:annotation\b.*?-->/g;
+
+// ADF inline node types, kept as they are when block content is flattened into a taskItem
+const INLINE_NODE_TYPES = new Set([
+  'text', 'hardBreak', 'mention', 'emoji', 'date', 'status', 'inlineCard', 'mediaInline', 'inlineExtension', 'placeholder'
+]);
 
 export interface ASTBuildOptions {
   strict?: boolean;
   preserveUnknownNodes?: boolean;
   defaultVersion?: number;
+  emojiRegistry?: EmojiRegistry;
+  detectUnicodeEmoji?: boolean;
+  mediaCache?: MediaResolverCache;
+  linkCache?: LinkResolverCache;
+  jiraIssueLinks?: JiraIssueLinkOptions;
 }
 
 export class ASTBuilder {
   private options: ASTBuildOptions;
+  // Set while converting link text, where issue keys are not linked again
+  private insideLink = false;
 
   constructor(options: ASTBuildOptions = {}) {
     this.options = {
@@ -361,7 +384,7 @@ export class ASTBuilder {
       type: 'panel',
       attrs: {
         panelType,
-        ...fenceAttrs,
+        ...this.mapPanelAttributes(fenceAttrs),
         ...customAttrs
       },
       content
@@ -605,8 +628,8 @@ export class ASTBuilder {
   }
   
   private convertLinkToken(token: Token): ADFNode[] {
-    const href = token.metadata?.attrs?.href;
     const title = token.metadata?.attrs?.title;
+    let href = token.metadata?.attrs?.href;
     
     if (!href) {
       // Invalid link, treat as plain text
@@ -615,6 +638,13 @@ export class ASTBuilder {
         text: token.content || token.raw
       }];
     }
+
+    // Relative markdown links point at the page the link resolver maps them to
+    const resolved = this.options.linkCache?.resolvePathSync(href);
+    if (resolved?.inlineCard) {
+      return [{ type: 'inlineCard', attrs: { url: resolved.href } }];
+    }
+    href = resolved?.href || href;
     
     // Create link mark attributes
     const linkAttrs: any = { href };
@@ -664,11 +694,10 @@ export class ASTBuilder {
   }
 
   /**
-   * Get emoji data for a shortname, with fallback for unknown emojis
+   * Get emoji data for a shortname, checking site custom emoji first and falling back for unknown emojis
    */
   private getEmojiData(shortName: string): EmojiData {
-    const emojiData = getEmojiData(shortName);
-    return emojiData || createFallbackEmojiData(shortName);
+    return resolveEmoji(shortName, this.options.emojiRegistry);
   }
 
   /**
@@ -683,7 +712,9 @@ export class ASTBuilder {
       /:[a-zA-Z0-9_+-]+:/.test(content) ||  // Emoji patterns  
       content.includes('{date:') ||    // Date elements with braces
       /(^|[^\w-])\d{4}-\d{2}-\d{2}(?![\w-])/.test(content) ||  // Standalone dates YYYY-MM-DD
-      content.includes('{status:')     // Status elements
+      content.includes('{status:') ||  // Status elements
+      (!!this.options.detectUnicodeEmoji && findUnicodeEmoji(content) !== null) ||  // Raw Unicode emoji
+      (!!this.options.jiraIssueLinks && findJiraIssueKey(content, this.options.jiraIssueLinks) !== null)  // Jira issue keys
     );
   }
 
@@ -827,6 +858,18 @@ export class ASTBuilder {
           }
         })
       },
+      // Inline extensions: {extension:key type="..." params='{...}'}
+      {
+        regex: /\{extension:([^\s}]+)((?:\s+\w+=(?:"[^"]*"|'[^']*'|[^\s"'}]+))*)\s*\}/,
+        type: 'inlineExtension',
+        process: (match: RegExpMatchArray) => ({
+          type: 'inlineExtension' as const,
+          attrs: this.buildExtensionAttributes({
+            ...parseAdfAttributes(match[2]),
+            key: match[1]
+          })
+        })
+      },
       // Media references: ![alt text](media:id) (return special type for block processing)
       {
         regex: /!\[([^\]]*)\]\(media:([^)]+)\)/,
@@ -867,9 +910,62 @@ export class ASTBuilder {
       }
     }
 
+    // Raw Unicode emoji (opt-in) become emoji nodes when they are in the dataset
+    const unicodeEmoji = this.options.detectUnicodeEmoji ? findUnicodeEmoji(content) : null;
+    if (unicodeEmoji && (!earliestMatch || unicodeEmoji.index < earliestMatch.index)) {
+      earliestMatch = {
+        index: unicodeEmoji.index,
+        beforeText: content.substring(0, unicodeEmoji.index),
+        node: {
+          type: 'emoji',
+          attrs: {
+            shortName: unicodeEmoji.emoji.shortName,
+            text: unicodeEmoji.emoji.text
+          }
+        },
+        afterText: content.substring(unicodeEmoji.index + unicodeEmoji.match.length)
+      };
+    }
+
+    // Jira issue keys (opt-in) become inline cards or links to the issue, except inside link text
+    const issueKey = this.options.jiraIssueLinks && !this.insideLink
+      ? findJiraIssueKey(content, this.options.jiraIssueLinks)
+      : null;
+    if (issueKey && (!earliestMatch || issueKey.index < earliestMatch.index)) {
+      earliestMatch = {
+        index: issueKey.index,
+        beforeText: content.substring(0, issueKey.index),
+        node: this.buildJiraIssueNode(issueKey.key, this.options.jiraIssueLinks!),
+        afterText: content.substring(issueKey.index + issueKey.key.length)
+      };
+    }
+
     return earliestMatch;
   }
 
+  /**
+   * Inline card or link node for a Jira issue key
+   */
+  private buildJiraIssueNode(key: string, jiraIssueLinks: JiraIssueLinkOptions): ADFNode {
+    const url = getJiraIssueUrl(key, jiraIssueLinks);
+    if (jiraIssueLinks.linkType === 'link') {
+      return { type: 'text', text: key, marks: [{ type: 'link', attrs: { href: url } }] };
+    }
+    return { type: 'inlineCard', attrs: { url } };
+  }
+
+  /**
+   * Issue inline cards can't carry marks, so a formatted issue key becomes a link on the key instead
+   */
+  private formattedJiraIssueNode(node: ADFNode): ADFNode {
+    const jiraIssueLinks = this.options.jiraIssueLinks;
+    if (!jiraIssueLinks || node.type !== 'inlineCard' || typeof node.attrs?.url !== 'string') {
+      return node;
+    }
+    const key = getJiraIssueKeyFromUrl(node.attrs.url, jiraIssueLinks);
+    return key ? this.buildJiraIssueNode(key, { ...jiraIssueLinks, linkType: 'link' }) : node;
+  }
+
   /**
    * Process a text node for social elements and return array of ADF nodes
    */
@@ -949,6 +1045,16 @@ export class ASTBuilder {
     
     const nodes: ADFNode[] = [];
     
+    // Annotated ranges: <!-- adf:annotation id="..." -->text<!-- /adf:annotation -->
+    const annotationRange = this.findAnnotationRange(content);
+    if (annotationRange) {
+      return [
+        ...this.parseInlineMarksRecursively(annotationRange.beforeText),
+        ...this.applyOuterAnnotation(this.parseInlineMarksRecursively(annotationRange.text), annotationRange.mark),
+        ...this.parseInlineMarksRecursively(annotationRange.afterText)
+      ];
+    }
+    
     // First check for metadata comment formatting
     const metadataMatch = this.findNextMetadataComment(content);
     if (metadataMatch) {
@@ -1005,12 +1111,16 @@ export class ASTBuilder {
         type: 'link',
         process: (match: RegExpMatchArray, before: string, after: string) => {
           const [fullMatch, linkText, href] = match;
+          const resolved = this.options.linkCache?.resolvePathSync(href);
           return {
             before,
-            node: {
+            node: resolved?.inlineCard ? {
+              type: 'inlineCard',
+              attrs: { url: resolved.href }
+            } : {
               type: 'text',
               text: linkText,
-              marks: [{ type: 'link', attrs: { href } }]
+              marks: [{ type: 'link', attrs: { href: resolved?.href || href } }]
             },
             after
           };
@@ -1318,6 +1428,14 @@ export class ASTBuilder {
         if (node.value && isAdfMetadataComment(node.value)) {
           return null;
         }
+        // A paragraph that starts with an annotation comment is parsed by remark as an HTML block
+        if (node.value && this.parseAnnotationComment(node.value) && ANNOTATION_CLOSE_PATTERN.test(node.value)) {
+          adfNode = {
+            type: 'paragraph',
+            content: this.parseInlineContentWithSocialElements(node.value)
+          };
+          break;
+        }
         // Skip ADF processing directives (like inlineCard, blockCard)
         if (node.value && this.isAdfProcessingDirective(node.value)) {
           return null;
@@ -1359,7 +1477,9 @@ export class ASTBuilder {
    * Convert ADF fence node from micromark extension
    */
   private convertAdfFenceNode(node: AdfFenceNode): ADFNode {
-    const { nodeType, attributes, value } = node;
+    const { nodeType, value } = node;
+    const attributes = { ...node.attributes };
+    const breakoutMark = this.extractBreakoutMark(attributes);
     
     // Parse the content - prioritize children over value
     let content: ADFNode[] = [];
@@ -1382,7 +1502,7 @@ export class ASTBuilder {
           type: 'panel',
           attrs: {
             panelType: attributes.type || 'info',
-            ...this.filterAttributes(attributes, ['type'])
+            ...this.mapPanelAttributes(this.filterAttributes(attributes, ['type']))
           },
           content
         };
@@ -1394,6 +1514,7 @@ export class ASTBuilder {
             ...(attributes.title && { title: attributes.title }),
             ...this.filterAttributes(attributes, ['title'])
           },
+          ...(breakoutMark && { marks: [breakoutMark] }),
           content
         };
       
@@ -1416,7 +1537,7 @@ export class ASTBuilder {
             ...(attributes.width && { width: attributes.width }),
             ...this.filterAttributes(attributes, ['layout', 'width'])
           },
-          content: mediaNodes.length > 0 ? mediaNodes : content
+          content: mediaNodes.length > 0 ? mediaNodes : this.buildMediaSingleContent(content)
         };
       
       case 'mediaGroup':
@@ -1444,6 +1565,64 @@ export class ASTBuilder {
           content: finalMediaNodes.length > 0 ? finalMediaNodes : content
         };
       
+      case 'decisions':
+        return this.convertDecisionFence(node, attributes);
+      
+      case 'layout':
+        return {
+          type: 'layoutSection',
+          ...(Object.keys(attributes).length > 0 && { attrs: { ...attributes } }),
+          ...(breakoutMark && { marks: [breakoutMark] }),
+          content: this.distributeLayoutColumnWidths(
+            content.filter(child => child.type === 'layoutColumn')
+          )
+        };
+      
+      case 'column':
+        return {
+          type: 'layoutColumn',
+          attrs: {
+            ...(attributes.width !== undefined && { width: Number(attributes.width) }),
+            ...this.filterAttributes(attributes, ['width'])
+          },
+          content
+        };
+      
+      case 'extension':
+        return {
+          type: 'extension',
+          attrs: this.buildExtensionAttributes(attributes)
+        };
+      
+      case 'bodiedExtension':
+        return {
+          type: 'bodiedExtension',
+          attrs: this.buildExtensionAttributes(attributes),
+          content
+        };
+      
+      case 'table':
+        return {
+          type: 'table',
+          ...(Object.keys(attributes).length > 0 && { attrs: { ...attributes } }),
+          content: content.filter(child => child.type === 'tableRow')
+        };
+      
+      case 'row':
+        return {
+          type: 'tableRow',
+          content: content.filter(child => child.type === 'tableHeader' || child.type === 'tableCell')
+        };
+      
+      case 'header':
+      case 'cell':
+        return {
+          type: nodeType === 'header' ? 'tableHeader' : 'tableCell',
+          ...(Object.keys(attributes).length > 0 && { attrs: this.buildTableCellAttributes(attributes) }),
+          // ADF cells need at least one block, so an empty cell holds an empty paragraph
+          content: content.length > 0 ? content : [{ type: 'paragraph' }]
+        };
+      
       default:
         // Unknown ADF node type, preserve as a generic node
         return {
@@ -1458,6 +1637,180 @@ export class ASTBuilder {
     }
   }
 
+  /**
+   * Convert `~~~cell`/`~~~header` fence attributes to ADF cell attrs.
+   * `colwidth` is written as a comma-separated list (`colwidth=120,200`).
+   */
+  private buildTableCellAttributes(attributes: Record<string, any>): Record<string, any> {
+    const { colspan, rowspan, colwidth, ...otherAttrs } = attributes;
+    
+    return {
+      ...(colspan !== undefined && { colspan: Number(colspan) }),
+      ...(rowspan !== undefined && { rowspan: Number(rowspan) }),
+      ...(colwidth !== undefined && {
+        colwidth: Array.isArray(colwidth) ? colwidth : String(colwidth).split(',').map(Number)
+      }),
+      ...otherAttrs
+    };
+  }
+
+  /**
+   * Give columns without an explicit width an equal share of the remaining width
+   */
+  private distributeLayoutColumnWidths(columns: ADFNode[]): ADFNode[] {
+    const missing = columns.filter(column => typeof column.attrs?.width !== 'number');
+    if (missing.length === 0) {
+      return columns;
+    }
+
+    const assigned = columns.reduce((sum, column) => {
+      const width = column.attrs?.width;
+      return typeof width === 'number' ? sum + width : sum;
+    }, 0);
+    const share = Math.round((Math.max(0, 100 - assigned) / missing.length) * 100) / 100;
+
+    return columns.map(column => (
+      typeof column.attrs?.width === 'number'
+        ? column
+        : { ...column, attrs: { ...column.attrs, width: share } }
+    ));
+  }
+
+  /**
+   * Normalize the parsed body of a `~~~mediaSingle` fence: standalone images are
+   * already wrapped in a mediaSingle, so unwrap their media, and turn the first
+   * paragraph after the media into the caption.
+   */
+  private buildMediaSingleContent(content: ADFNode[]): ADFNode[] {
+    const media: ADFNode[] = [];
+    let caption: ADFNode | null = null;
+    
+    for (const child of content) {
+      if (child.type === 'mediaSingle') {
+        media.push(...(child.content || []));
+      } else if (child.type === 'media') {
+        media.push(child);
+      } else if (child.type === 'paragraph' && !caption && child.content?.length) {
+        caption = { type: 'caption', content: child.content };
+      }
+    }
+    
+    if (media.length === 0) {
+      return content;
+    }
+    
+    return caption ? [...media, caption] : media;
+  }
+
+  /**
+   * Build extension attrs from fence/inline attributes of the form
+   * `type="..." key="..." params='{...}'`
+   */
+  private buildExtensionAttributes(attributes: Record<string, any>): Record<string, any> {
+    let parameters: Record<string, unknown> | undefined;
+    if (attributes.params !== undefined) {
+      try {
+        parameters = JSON.parse(String(attributes.params)) as Record<string, unknown>;
+      } catch (error) {
+        const message = `Invalid extension params for "${String(attributes.key ?? attributes.type)}": ${String(attributes.params)}`;
+        if (this.options.strict) {
+          throw new ParserError(message, 'INVALID_EXTENSION_PARAMS');
+        }
+        console.warn(`${message}; the parameters were dropped`, error);
+      }
+    }
+
+    return {
+      ...(attributes.type !== undefined && { extensionType: String(attributes.type) }),
+      ...(attributes.key !== undefined && { extensionKey: String(attributes.key) }),
+      ...(parameters && { parameters }),
+      ...this.filterAttributes(attributes, ['type', 'key', 'params'])
+    };
+  }
+
+  /**
+   * Convert a `~~~decisions` fence to an ADF decisionList.
+   * Items use `- [D]` for DECIDED and `- [ ]` for UNDECIDED; other states and
+   * localIds come from `<!-- adf:decisionItem ... -->` metadata comments.
+   */
+  private convertDecisionFence(node: AdfFenceNode, attributes: Record<string, any>): ADFNode {
+    const children: any[] = node.children ?? [];
+    const items: ADFNode[] = [];
+
+    for (const child of children) {
+      if (child.type !== 'list') {
+        continue;
+      }
+      for (const item of child.children || []) {
+        items.push(this.convertMdastDecisionItem(item));
+      }
+    }
+
+    return {
+      type: 'decisionList',
+      attrs: {
+        localId: attributes.localId !== undefined ? String(attributes.localId) : this.generateLocalId(),
+        ...this.filterAttributes(attributes, ['localId'])
+      },
+      content: items
+    };
+  }
+
+  /**
+   * Convert a list item inside a `~~~decisions` fence to an ADF decisionItem
+   */
+  private convertMdastDecisionItem(node: ListItem): ADFNode {
+    const content: ADFNode[] = [];
+    const metadata = [...getNodeMetadata(node)];
+    let state = node.checked === false ? 'UNDECIDED' : 'DECIDED';
+
+    for (const child of node.children || []) {
+      if (child.type !== 'paragraph') {
+        continue;
+      }
+
+      const inlineChildren = [...child.children];
+
+      // Strip the `[D]` / `[ ]` marker from the first paragraph
+      const first = inlineChildren[0];
+      if (content.length === 0 && first?.type === 'text') {
+        const markerMatch = first.value.match(/^\[([dD ])\]\s*/);
+        if (markerMatch) {
+          state = markerMatch[1] === ' ' ? 'UNDECIDED' : 'DECIDED';
+          inlineChildren[0] = { ...first, value: first.value.slice(markerMatch[0].length) };
+        }
+      }
+
+      if (content.length > 0) {
+        content.push({ type: 'hardBreak' });
+      }
+      content.push(...this.convertMdastInlineNodes(inlineChildren));
+      metadata.push(...getNodeMetadata(child));
+    }
+
+    // Trailing whitespace before a metadata comment is not significant
+    this.trimTrailingWhitespace(content);
+
+    const decisionItem: ADFNode = {
+      type: 'decisionItem',
+      attrs: {
+        localId: this.generateLocalId(),
+        state
+      },
+      content
+    };
+
+    if (metadata.length === 0) {
+      return decisionItem;
+    }
+
+    const updated = applyMetadataToAdfNode(decisionItem, metadata) as ADFNode;
+    if (updated.attrs?.localId !== undefined) {
+      updated.attrs.localId = String(updated.attrs.localId);
+    }
+    return updated;
+  }
+
   /**
    * Convert mdast nodes to corresponding format
    */
@@ -1471,9 +1824,10 @@ export class ASTBuilder {
 
   private convertMdastParagraph(node: any): ADFNode | null {
     // Check if this paragraph contains only a single image that's an ADF media placeholder
+    // or an image the media resolver (or an `adf:media` comment) turns into media
     if (node.children && node.children.length === 1 && node.children[0].type === 'image') {
       const imageNode = node.children[0];
-      if (imageNode.url && imageNode.url.match(/^(?:adf:)?media:/)) {
+      if (imageNode.url && (imageNode.url.match(/^(?:adf:)?media:/) || this.resolveImageSource(imageNode.url, getNodeMetadata(node)))) {
         // This is a standalone media element - convert it to block-level media/mediaSingle
         // Transfer any paragraph-level metadata to the image node
         const paragraphMetadata = getNodeMetadata(node);
@@ -1495,6 +1849,12 @@ export class ASTBuilder {
       }
     }
     
+    // A paragraph that is only a link plus a blockCard/embedCard directive is a block-level card
+    const cardNode = this.convertMdastBlockCard(node);
+    if (cardNode) {
+      return cardNode;
+    }
+    
     const content = this.convertMdastInlineNodes(node.children);
     
     // If paragraph content is completely empty, return null to filter it out
@@ -1512,6 +1872,47 @@ export class ASTBuilder {
     };
   }
 
+  /**
+   * Convert `[title](card:url)<!-- adf:blockCard -->` or `<!-- adf:embedCard ... -->`
+   * paragraphs to block-level cards. Returns null for any other paragraph.
+   */
+  private convertMdastBlockCard(node: Paragraph): ADFNode | null {
+    const children = (node.children || []).filter(child =>
+      !(child.type === 'text' && !child.value.trim())
+    );
+    const [link, comment] = children;
+    
+    if (children.length !== 2 || link.type !== 'link' || comment.type !== 'html') {
+      return null;
+    }
+    
+    const directive = parseAdfMetadataComment(comment.value.trim());
+    if (!directive || (directive.nodeType !== 'blockCard' && directive.nodeType !== 'embedCard')) {
+      return null;
+    }
+    
+    const url = link.url.startsWith('card:') ? link.url.substring(5) : link.url;
+    
+    if (directive.nodeType === 'embedCard') {
+      return {
+        type: 'embedCard',
+        attrs: {
+          url,
+          layout: 'center',
+          ...directive.attrs
+        }
+      };
+    }
+    
+    return {
+      type: 'blockCard',
+      attrs: {
+        ...(url && { url }),
+        ...directive.attrs
+      }
+    };
+  }
+
   /**
    * Post-process content to convert link marks to inline cards when appropriate
    */
@@ -1519,7 +1920,7 @@ export class ASTBuilder {
    * Check if an HTML comment is an ADF processing directive
    */
   private isAdfProcessingDirective(value: string): boolean {
-    const processingDirectives = ['inlineCard', 'blockCard'];
+    const processingDirectives = ['inlineCard', 'blockCard', 'embedCard', 'mediaInline', 'annotation', 'emoji', 'mention'];
     return processingDirectives.some(directive => 
       value.includes(`adf:${directive}`)
     );
@@ -1559,14 +1960,62 @@ export class ASTBuilder {
   }
 
   private convertMdastCodeBlock(node: any): ADFNode {
+    // Fence attributes follow the language (```js breakout=wide); without a language they come first
+    const infoString = [node.lang, node.meta].filter(Boolean).join(' ');
+    const language = /^[^\s=]+(?:\s|$)/.test(infoString) ? infoString.split(/\s/)[0] : '';
+    const attributes = parseAdfAttributes(infoString.slice(language.length).trim());
+    const breakoutMark = this.extractBreakoutMark(attributes);
+    
     return {
       type: 'codeBlock',
-      attrs: node.lang ? { language: node.lang } : {},
+      attrs: language ? { language } : {},
+      ...(breakoutMark && { marks: [breakoutMark] }),
       content: [{ type: 'text', text: node.value }]
     };
   }
 
+  /**
+   * Map the short custom panel fence attributes (`icon`, `iconId`, `iconText`, `color`)
+   * to their ADF names, keeping icon values as strings even when they look numeric
+   */
+  private mapPanelAttributes(attributes: Record<string, unknown>): Record<string, unknown> {
+    const mapped: Record<string, unknown> = {};
+    
+    for (const [key, value] of Object.entries(attributes)) {
+      const attrName = PANEL_FENCE_ATTRIBUTES[key];
+      mapped[attrName || key] = attrName ? String(value) : value;
+    }
+    
+    return mapped;
+  }
+
+  /**
+   * Remove the `breakout`/`breakoutWidth` fence attributes and build the matching breakout mark
+   */
+  private extractBreakoutMark(attributes: Record<string, any>): ADFMark | null {
+    const { breakout, breakoutWidth } = attributes;
+    delete attributes.breakout;
+    delete attributes.breakoutWidth;
+    
+    if (breakout !== 'wide' && breakout !== 'full-width') {
+      return null;
+    }
+    
+    return {
+      type: 'breakout',
+      attrs: {
+        mode: breakout,
+        ...(typeof breakoutWidth === 'number' && { width: breakoutWidth })
+      }
+    };
+  }
+
   private convertMdastList(node: any): ADFNode {
+    // GFM task lists (`- [ ]` / `- [x]`) map to taskList rather than bulletList
+    if (this.isMdastTaskList(node)) {
+      return this.convertMdastTaskList(node);
+    }
+
     return {
       type: node.ordered ? 'orderedList' : 'bulletList',
       ...(node.start && node.start !== 1 && { attrs: { order: node.start } }),
@@ -1575,14 +2024,183 @@ export class ASTBuilder {
   }
 
   private convertMdastListItem(node: any): ADFNode {
+    const content = this.convertMdastNodesToADF(node.children);
+
+    // A checkbox in a list that isn't a task list keeps its marker as text
+    if (typeof node.checked === 'boolean') {
+      const marker = node.checked ? '[x]' : '[ ]';
+      const paragraph = content[0]?.type === 'paragraph' ? content[0] : undefined;
+      const firstText = paragraph?.content?.[0];
+      if (firstText?.type === 'text' && !firstText.marks) {
+        firstText.text = `${marker} ${firstText.text}`;
+      } else if (paragraph) {
+        paragraph.content = [{ type: 'text', text: `${marker} ` }, ...(paragraph.content || [])];
+      } else {
+        content.unshift({ type: 'paragraph', content: [{ type: 'text', text: marker }] });
+      }
+    }
+
     return {
       type: 'listItem',
-      content: this.convertMdastNodesToADF(node.children)
+      content
     };
   }
 
+  /**
+   * Check whether an mdast list is a GFM task list (every item carries a checkbox)
+   */
+  private isMdastTaskList(node: List): boolean {
+    return Array.isArray(node.children) && node.children.length > 0 &&
+      node.children.every(item => typeof item.checked === 'boolean');
+  }
+
+  /**
+   * Convert a GFM task list to an ADF taskList.
+   * Nested lists inside an item become sibling taskList nodes, which is how
+   * ADF represents nesting.
+   */
+  private convertMdastTaskList(node: List): ADFNode {
+    const content: ADFNode[] = [];
+
+    for (const item of node.children || []) {
+      content.push(this.convertMdastTaskItem(item));
+
+      for (const child of item.children || []) {
+        if (child.type === 'list' && this.isMdastTaskList(child)) {
+          const nestedList = this.convertMdastTaskList(child);
+          const metadata = getNodeMetadata(child);
+          content.push(metadata.length > 0 ? applyMetadataToAdfNode(nestedList, metadata) as ADFNode : nestedList);
+        }
+      }
+    }
+
+    return {
+      type: 'taskList',
+      attrs: { localId: this.generateLocalId() },
+      content
+    };
+  }
+
+  /**
+   * Convert a GFM task list item to an ADF taskItem with inline content
+   */
+  private convertMdastTaskItem(node: ListItem): ADFNode {
+    const content: ADFNode[] = [];
+    const metadata = [...getNodeMetadata(node)];
+
+    for (const child of node.children || []) {
+      // Nested task lists become sibling taskList nodes in convertMdastTaskList
+      if (child.type === 'list' && this.isMdastTaskList(child)) {
+        continue;
+      }
+
+      const isTextBlock = child.type === 'paragraph' || child.type === 'heading';
+      const inlineContent = isTextBlock
+        ? this.convertMdastInlineNodes(child.children || [])
+        : this.blocksToInline(this.convertMdastNodesToADF([child]));
+      if (inlineContent.length === 0) {
+        continue;
+      }
+
+      // Separate blocks with a hard break to keep taskItem content inline
+      if (content.length > 0) {
+        content.push({ type: 'hardBreak' });
+      }
+      content.push(...inlineContent);
+      if (isTextBlock) {
+        metadata.push(...getNodeMetadata(child));
+      }
+    }
+
+    // Trailing whitespace before a metadata comment is not significant
+    this.trimTrailingWhitespace(content);
+
+    const taskItem: ADFNode = {
+      type: 'taskItem',
+      attrs: {
+        localId: this.generateLocalId(),
+        state: node.checked ? 'DONE' : 'TODO'
+      },
+      content
+    };
+
+    return metadata.length > 0 ? applyMetadataToAdfNode(taskItem, metadata) as ADFNode : taskItem;
+  }
+
+  /**
+   * Flatten ADF blocks into inline content for nodes that only allow inline content
+   * (taskItem). Blocks are separated by hard breaks and code blocks become code-marked text.
+   */
+  private blocksToInline(nodes: ADFNode[]): ADFNode[] {
+    const inline: ADFNode[] = [];
+
+    for (const node of nodes) {
+      if (INLINE_NODE_TYPES.has(node.type)) {
+        inline.push(node);
+        continue;
+      }
+
+      const blockInline = node.type === 'codeBlock'
+        ? this.codeToInline(node.content || [])
+        : this.blocksToInline(node.content || []);
+      if (blockInline.length === 0) {
+        continue;
+      }
+      if (inline.length > 0) {
+        inline.push({ type: 'hardBreak' });
+      }
+      inline.push(...blockInline);
+    }
+
+    return inline;
+  }
+
+  /**
+   * Code block lines as code-marked text separated by hard breaks
+   */
+  private codeToInline(content: ADFNode[]): ADFNode[] {
+    const code = content.map(node => node.text || '').join('');
+    const inline: ADFNode[] = [];
+
+    code.split('\n').forEach((line, index) => {
+      if (index > 0) {
+        inline.push({ type: 'hardBreak' });
+      }
+      if (line) {
+        inline.push({ type: 'text', text: line, marks: [{ type: 'code' }] });
+      }
+    });
+
+    return inline;
+  }
+
+  /**
+   * Remove trailing whitespace from the last text node of inline content
+   */
+  private trimTrailingWhitespace(content: ADFNode[]): void {
+    const lastNode = content[content.length - 1];
+    if (lastNode?.type === 'text' && typeof lastNode.text === 'string') {
+      lastNode.text = lastNode.text.trimEnd();
+      if (lastNode.text.length === 0) {
+        content.pop();
+      }
+    }
+  }
+
+  /**
+   * Generate a localId for nodes that require one (taskList, taskItem)
+   */
+  private generateLocalId(): string {
+    const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+    if (cryptoApi?.randomUUID) {
+      return cryptoApi.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
   private convertMdastTable(node: any): ADFNode {
     const rows = [];
+    const alignments: Array<string | null> = node.align || [];
     
     for (let i = 0; i < node.children.length; i++) {
       const rowNode = node.children[i];
@@ -1590,9 +2208,10 @@ export class ASTBuilder {
       
       if (rowNode.type === 'tableRow') {
         const cells = [];
-        for (const cellNode of rowNode.children) {
+        for (let j = 0; j < rowNode.children.length; j++) {
+          const cellNode = rowNode.children[j];
           if (cellNode.type === 'tableCell') {
-            cells.push(this.convertMdastTableCell(cellNode, isFirstRow));
+            cells.push(this.convertMdastTableCell(cellNode, isFirstRow, alignments[j]));
           }
         }
         
@@ -1616,10 +2235,19 @@ export class ASTBuilder {
     };
   }
 
-  private convertMdastTableCell(node: any, isHeader = false): ADFNode {
+  private convertMdastTableCell(node: any, isHeader = false, align?: string | null): ADFNode {
+    // GFM column alignment becomes a paragraph alignment mark (left is the ADF default)
+    const alignment = align === 'center' ? 'center' : align === 'right' ? 'end' : undefined;
+    const children = this.convertMdastNodesToADF(node.children);
+    const paragraph: ADFNode = {
+      type: 'paragraph',
+      ...(children.length > 0 && { content: children }),
+      ...(alignment && { marks: [{ type: 'alignment', attrs: { align: alignment } }] })
+    };
+    
     const adfNode: ADFNode = {
       type: isHeader ? 'tableHeader' : 'tableCell',
-      content: this.convertMdastNodesToADF(node.children)
+      content: [paragraph]
     };
 
     // Apply metadata if available
@@ -1639,34 +2267,38 @@ export class ASTBuilder {
       return null;
     }
 
+    // Get metadata from the node
+    const metadata = getNodeMetadata(node);
+
     // Check if this is an ADF media placeholder (adf:media: or media:)
-    const adfMediaMatch = node.url.match(/^(?:adf:)?media:(.+)$/);
-    if (!adfMediaMatch) {
-      // Regular image - not a media placeholder
-      // For now, we'll treat regular images as unsupported and return null
-      // In the future, this could be expanded to convert regular images to media nodes
+    const adfMediaMatch = node.url.match(/^(?:adf:)?media:(.*)$/);
+
+    // Handle empty media ID
+    if (adfMediaMatch && !adfMediaMatch[1]) {
       return null;
     }
 
-    const mediaId = adfMediaMatch[1];
-    
-    // Handle empty media ID
-    if (!mediaId) {
+    const sourceAttrs = adfMediaMatch
+      ? { id: adfMediaMatch[1], type: 'file' }
+      : this.resolveImageSource(node.url, metadata);
+
+    // Local images the media resolver doesn't resolve and without an `adf:media` comment are not converted
+    if (!sourceAttrs) {
       return null;
     }
     
-    // Get metadata from the node
-    const metadata = getNodeMetadata(node);
-    
     // Find media and mediaSingle metadata
-    let mediaAttrs: Record<string, any> = { id: mediaId, type: 'file' };
+    let mediaAttrs: Record<string, any> = sourceAttrs;
     let mediaSingleAttrs: Record<string, any> = {};
+    const mediaMarks: ADFMark[] = [];
     
     for (const meta of metadata) {
       if (meta.nodeType === 'media' && meta.attrs) {
         mediaAttrs = { ...mediaAttrs, ...meta.attrs };
       } else if (meta.nodeType === 'mediaSingle' && meta.attrs) {
         mediaSingleAttrs = { ...meta.attrs };
+      } else if (meta.nodeType === 'border' && meta.attrs) {
+        mediaMarks.push({ type: 'border', attrs: { ...meta.attrs } });
       }
     }
 
@@ -1679,11 +2311,12 @@ export class ASTBuilder {
     // Create media node
     const mediaNode: ADFNode = {
       type: 'media',
-      attrs: mediaAttrs
+      attrs: mediaAttrs,
+      ...(mediaMarks.length > 0 && { marks: mediaMarks })
     };
 
-    // Add default collection if missing
-    if (!mediaAttrs.collection) {
+    // Add default collection if missing (external media is addressed by URL only)
+    if (!mediaAttrs.collection && mediaAttrs.type !== 'external') {
       mediaAttrs.collection = '';
     }
 
@@ -1698,6 +2331,47 @@ export class ASTBuilder {
     };
   }
 
+  /**
+   * Media attrs for a regular image: a media id kept in its `adf:media` comment, the media
+   * resolver's result for the source, or external media for URLs. Returns null otherwise.
+   */
+  private resolveImageSource(url: string, metadata: AdfMetadata[]): Record<string, any> | null {
+    const mediaMetadata = metadata.find(meta => meta.nodeType === 'media')?.attrs;
+
+    // Written from a resolved media id: the image has the file path, the comment the id
+    if (mediaMetadata?.id) {
+      return { id: mediaMetadata.id, type: 'file' };
+    }
+
+    const resolved = this.options.mediaCache?.resolveSourceSync(url);
+    if (resolved) {
+      return { type: 'file', ...resolved };
+    }
+
+    if (mediaMetadata?.type === 'external' || /^https?:\/\//i.test(url)) {
+      return { type: 'external', url };
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a regular mdast link to a link mark, mapping relative markdown links through the link resolver
+   */
+  private convertMdastLink(node: any): ADFNode | ADFNode[] | null {
+    const resolved = this.options.linkCache?.resolvePathSync(node.url);
+    if (resolved?.inlineCard) {
+      return { type: 'inlineCard', attrs: { url: resolved.href } };
+    }
+    const insideLink = this.insideLink;
+    this.insideLink = true;
+    try {
+      return this.wrapWithMark(node.children, 'link', { href: resolved?.href || node.url, ...(node.title && { title: node.title }) });
+    } finally {
+      this.insideLink = insideLink;
+    }
+  }
+
   /**
    * Convert inline mdast nodes to ADF text nodes with marks
    */
@@ -1705,19 +2379,137 @@ export class ASTBuilder {
     const adfNodes: ADFNode[] = [];
     
     
+    // Annotation marks opened by <!-- adf:annotation ... --> and not yet closed
+    const openAnnotations: ADFMark[] = [];
+    
     // Convert all nodes normally
-    for (const node of nodes) {
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      
+      if (node.type === 'html') {
+        const annotationMark = this.parseAnnotationComment(node.value);
+        if (annotationMark) {
+          openAnnotations.push(annotationMark);
+          continue;
+        }
+        if (ANNOTATION_CLOSE_PATTERN.test(node.value)) {
+          openAnnotations.pop();
+          continue;
+        }
+      }
+      
+      // 🚀<!-- adf:emoji attrs='{...}' --> restores the emoji or mention node the comment was written for
+      if (this.applyInlineNodeDirective(adfNodes, node)) {
+        continue;
+      }
+      
+      // ![alt](adf:media:id)<!-- adf:mediaInline ... --> stays inline instead of becoming a mediaSingle
+      const mediaInline = this.convertMdastMediaInline(node, nodes[i + 1]);
+      if (mediaInline) {
+        adfNodes.push(mediaInline);
+        i++;
+        continue;
+      }
+      
       const result = this.convertMdastInlineNode(node);
-      if (Array.isArray(result)) {
-        adfNodes.push(...result);
-      } else if (result) {
-        adfNodes.push(result);
+      let converted = Array.isArray(result) ? result : result ? [result] : [];
+      for (const annotationMark of openAnnotations) {
+        converted = this.applyMarkToTextNodes(converted, annotationMark);
       }
+      adfNodes.push(...converted);
     }
     
     return adfNodes;
   }
 
+  /**
+   * Apply an `<!-- adf:emoji ... -->` or `<!-- adf:mention ... -->` directive to the node rendered
+   * just before it. An emoji may also be the trailing emoji text of the previous text node.
+   * Returns false when the node isn't such a directive or nothing precedes it.
+   */
+  private applyInlineNodeDirective(adfNodes: ADFNode[], node: PhrasingContent): boolean {
+    if (node.type !== 'html') {
+      return false;
+    }
+    
+    const directive = parseAdfMetadataComment(node.value.trim());
+    if (!directive?.attrs || (directive.nodeType !== 'emoji' && directive.nodeType !== 'mention')) {
+      return false;
+    }
+    
+    const previous = adfNodes[adfNodes.length - 1];
+    const inlineNode: ADFNode = { type: directive.nodeType, attrs: { ...directive.attrs } };
+    if (previous?.type === directive.nodeType) {
+      adfNodes[adfNodes.length - 1] = inlineNode;
+      return true;
+    }
+    if (directive.nodeType !== 'emoji') {
+      return false;
+    }
+    
+    const rendered = directive.attrs.text || directive.attrs.shortName;
+    if (previous?.type !== 'text' || typeof rendered !== 'string' || !rendered || !previous.text?.endsWith(rendered)) {
+      return false;
+    }
+    
+    const beforeText = previous.text.slice(0, -rendered.length);
+    adfNodes.splice(adfNodes.length - 1, 1, ...(beforeText ? [{ ...previous, text: beforeText }] : []), inlineNode);
+    return true;
+  }
+
+  /**
+   * Convert a media image followed by an `<!-- adf:mediaInline ... -->` directive to a mediaInline node.
+   * Returns null when the pair doesn't match.
+   */
+  private convertMdastMediaInline(node: PhrasingContent, next: PhrasingContent | undefined): ADFNode | null {
+    if (node.type !== 'image' || next?.type !== 'html') {
+      return null;
+    }
+    
+    const mediaMatch = /^(?:adf:)?media:(.+)$/.exec(node.url);
+    const directive = parseAdfMetadataComment(next.value.trim());
+    // Written from a resolved media id, the image has the file path and the directive the id
+    if ((!mediaMatch && !directive?.attrs?.id) || directive?.nodeType !== 'mediaInline') {
+      return null;
+    }
+    
+    return {
+      type: 'mediaInline',
+      attrs: {
+        ...(mediaMatch && { id: mediaMatch[1] }),
+        ...directive.attrs,
+        ...(node.alt && { alt: node.alt })
+      }
+    };
+  }
+
+  /**
+   * Convert an image in running text to mediaInline. Only file media can be inline, so an
+   * external image becomes a link to its URL instead; other images that aren't media
+   * placeholders or resolved by the media resolver are left out.
+   */
+  private convertMdastInlineImage(node: any): ADFNode | null {
+    const mediaMatch = /^(?:adf:)?media:(.+)$/.exec(node.url || '');
+    const sourceAttrs = mediaMatch
+      ? { id: mediaMatch[1], type: 'file' }
+      : node.url ? this.resolveImageSource(node.url, getNodeMetadata(node)) : null;
+    if (!sourceAttrs) {
+      return null;
+    }
+    if (sourceAttrs.type === 'external') {
+      const { url, alt } = node as { url: string; alt?: string };
+      return { type: 'text', text: alt || url, marks: [{ type: 'link', attrs: { href: url } }] };
+    }
+
+    return {
+      type: 'mediaInline',
+      attrs: {
+        ...sourceAttrs,
+        ...(node.alt && { alt: node.alt })
+      }
+    };
+  }
+
   /**
    * Convert single inline mdast node to ADF
    */
@@ -1740,6 +2532,16 @@ export class ASTBuilder {
         return this.wrapWithMark(node.children, 'strike');
       
       case 'link':
+        // Mentions render as [@name](adf://mention/id)
+        if (node.url.startsWith('adf://mention/')) {
+          return {
+            type: 'mention',
+            attrs: {
+              id: node.url.substring(14),
+              text: this.extractContentAsText(this.convertMdastInlineNodes(node.children))
+            }
+          };
+        }
         // Check if this is an inline card (card: URL)
         if (node.url.startsWith('card:')) {
           return {
@@ -1749,13 +2551,13 @@ export class ASTBuilder {
             }
           };
         }
-        return this.wrapWithMark(node.children, 'link', { href: node.url, ...(node.title && { title: node.title }) });
+        return this.convertMdastLink(node);
       
       case 'break':
         return { type: 'hardBreak' };
       
       case 'image':
-        return this.convertMdastImage(node);
+        return this.convertMdastInlineImage(node);
       
       case 'html':
         // Skip ADF metadata comments - they should have been processed already
@@ -1779,6 +2581,90 @@ export class ASTBuilder {
     }
   }
 
+  /**
+   * Parse an opening `<!-- adf:annotation id="..." annotationType="..." -->` comment.
+   * Values are kept as strings so numeric-looking ids survive the round trip.
+   */
+  private parseAnnotationComment(value: string): ADFMark | null {
+    const match = ANNOTATION_OPEN_PATTERN.exec(value.trim());
+    if (!match) {
+      return null;
+    }
+    
+    const attrs: Record<string, string> = {};
+    for (const [, key, attrValue] of match[1].matchAll(/(\w+)="([^"]*)"/g)) {
+      attrs[key] = attrValue;
+    }
+    
+    return {
+      type: 'annotation',
+      attrs: { annotationType: 'inlineComment', ...attrs }
+    };
+  }
+
+  /**
+   * Find the first annotated range in raw inline content, matching its closing comment
+   * past any ranges nested inside it
+   */
+  private findAnnotationRange(content: string): { beforeText: string; text: string; afterText: string; mark: ADFMark } | null {
+    let opening: { index: number; end: number; mark: ADFMark } | null = null;
+    let depth = 0;
+
+    for (const match of content.matchAll(ANNOTATION_COMMENT_PATTERN)) {
+      const index = match.index ?? 0;
+      if (match[1]) {
+        if (!opening) {
+          continue;
+        }
+        depth--;
+        if (depth === 0) {
+          return {
+            beforeText: content.substring(0, opening.index),
+            text: content.substring(opening.end, index),
+            afterText: content.substring(index + match[0].length),
+            mark: opening.mark
+          };
+        }
+        continue;
+      }
+
+      const mark: ADFMark | null = opening ? null : this.parseAnnotationComment(match[0]);
+      if (mark) {
+        opening = { index, end: index + match[0].length, mark };
+      }
+      if (opening) {
+        depth++;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Add an annotation mark to every text node, ahead of the annotations of ranges nested inside it
+   */
+  private applyOuterAnnotation(nodes: ADFNode[], mark: ADFMark): ADFNode[] {
+    return nodes.map(node => {
+      if (node.type !== 'text') {
+        return node;
+      }
+      const marks = node.marks || [];
+      const nestedIndex = marks.findIndex(existing => existing.type === 'annotation');
+      const index = nestedIndex === -1 ? marks.length : nestedIndex;
+      return { ...node, marks: [...marks.slice(0, index), mark, ...marks.slice(index)] };
+    });
+  }
+
+  /**
+   * Append a mark to every text node in a list of inline nodes
+   */
+  private applyMarkToTextNodes(nodes: ADFNode[], mark: ADFMark): ADFNode[] {
+    return nodes.map(node => node.type === 'text'
+      ? { ...node, marks: [...(node.marks || []), mark] }
+      : node
+    );
+  }
+
   /**
    * Wrap mdast children with an ADF mark
    */
@@ -1787,7 +2673,8 @@ export class ASTBuilder {
     const mark = attrs ? { type: markType, attrs } : { type: markType };
     
     // Apply the mark to all text nodes
-    return childNodes.map(node => {
+    return childNodes.map(childNode => {
+      const node = this.formattedJiraIssueNode(childNode);
       if (node.type === 'text') {
         const marks = node.marks ? [...node.marks] : [];
         marks.push(mark);
@@ -2365,6 +3252,6 @@ export class ASTBuilder {
    * Check if a node type is an ADF fence block type that can be nested
    */
   private isAdfFenceBlockType(nodeType: string): boolean {
-    return ['panel', 'expand', 'nestedExpand', 'mediaSingle', 'mediaGroup'].includes(nodeType);
+    return ADF_FENCE_TYPES.includes(nodeType);
   }
 }
\ No newline at end of file
@@ -14,6 +14,7 @@ import remarkGfm from 'remark-gfm';
 import { remark } from 'remark';
 import { remarkAdf } from '../remark/remark-adf.js';
 import { processMetadataComments } from '../../utils/metadata-comments.js';
+import { ADF_FENCE_TYPES } from '../../utils/fence-utils.js';
 import type { Root } from 'mdast';
 
 export interface MarkdownParseOptions {
@@ -264,7 +265,7 @@ export class MarkdownParser {
    * Same method as used in EnhancedMarkdownParser
    */
   private postProcessAdfFenceBlocks(tree: Root): Root {
-    const adfBlockTypes = new Set(['panel', 'expand', 'nestedExpand', 'mediaSingle', 'mediaGroup']);
+    const adfBlockTypes = new Set(ADF_FENCE_TYPES);
     
     const processedTree = JSON.parse(JSON.stringify(tree)); // Deep clone
     
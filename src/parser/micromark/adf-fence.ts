@@ -14,11 +14,10 @@ import {
 import { markdownLineEnding, markdownSpace } from 'micromark-util-character';
 import { factorySpace } from 'micromark-factory-space';
 import { AdfTokenizer, TokenizerState, AdfBlockContext } from './types.js';
+import { ADF_FENCE_TYPES } from '../../utils/fence-utils.js';
 
 // Known ADF block types
-const ADF_BLOCK_TYPES = new Set([
-  'panel', 'expand', 'nestedExpand', 'mediaSingle', 'mediaGroup'
-]);
+const ADF_BLOCK_TYPES = new Set(ADF_FENCE_TYPES);
 
 /**
  * Tokenizer function for ADF fence blocks
@@ -248,7 +247,8 @@ export function parseAdfAttributes(attributeString: string): Record<string, any>
 export function validateAdfContext(nodeType: string, attributes: Record<string, any>): boolean {
   switch (nodeType) {
     case 'panel':
-      return !attributes.type || ['info', 'warning', 'error', 'success', 'note'].includes(attributes.type);
+      return (!attributes.type || ['info', 'warning', 'error', 'success', 'note', 'custom'].includes(attributes.type)) &&
+        (attributes.color === undefined || /^#[0-9a-fA-F]{6}$/.test(String(attributes.color)));
     
     case 'expand':
     case 'nestedExpand':
@@ -260,6 +260,30 @@ export function validateAdfContext(nodeType: string, attributes: Record<string,
     case 'mediaGroup':
       return true; // MediaGroup blocks don't have strict attribute requirements
     
+    case 'decisions':
+      return true; // Decision lists only carry an optional localId
+    
+    case 'layout':
+      return true; // Layout sections are validated through their columns
+    
+    case 'column':
+      return attributes.width === undefined ||
+        (typeof attributes.width === 'number' && attributes.width > 0 && attributes.width <= 100);
+    
+    case 'extension':
+    case 'bodiedExtension':
+      return typeof attributes.key === 'string' && attributes.key.length > 0;
+    
+    case 'table':
+    case 'row':
+      return true; // Table structure is validated through its cells
+    
+    case 'header':
+    case 'cell':
+      return ['colspan', 'rowspan'].every(key =>
+        attributes[key] === undefined || (Number.isInteger(attributes[key]) && attributes[key] > 0)
+      );
+    
     default:
       return false;
   }
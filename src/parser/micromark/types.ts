@@ -26,7 +26,7 @@ export interface AdfFenceContext {
 export interface PanelContext extends AdfFenceContext {
   nodeType: 'panel';
   attributes: {
-    panelType: 'info' | 'warning' | 'error' | 'success' | 'note';
+    panelType: 'info' | 'warning' | 'error' | 'success' | 'note' | 'custom';
     [key: string]: any;
   };
 }
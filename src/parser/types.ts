@@ -4,6 +4,12 @@
 
 import type { ADFNode } from '../types';
 import type { ConverterRegistry } from './ConverterRegistry';
+import type { HtmlConverterRegistry } from './HtmlConverterRegistry';
+import type { AsciiDocConverterRegistry } from './AsciiDocConverterRegistry';
+import type { MediaResolverCache } from '../utils/media-resolver.js';
+import type { LinkResolverCache } from '../utils/link-resolver.js';
+import type { JiraIssueLinkOptions } from '../utils/jira-issue-keys.js';
+import type { MarkdownLossTracker } from '../utils/markdown-loss.js';
 
 export interface ConversionContext {
   convertChildren: (nodes: ADFNode[]) => string;
@@ -17,6 +23,11 @@ export interface ConversionOptions {
   preserveWhitespace?: boolean;
   validateInput?: boolean;
   registry?: ConverterRegistry;
+  mediaCache?: MediaResolverCache;
+  linkCache?: LinkResolverCache;
+  jiraIssueLinks?: JiraIssueLinkOptions;
+  markdownProfile?: 'extended' | 'clean';
+  lossTracker?: MarkdownLossTracker;
 }
 
 export interface NodeConverter {
@@ -29,4 +40,51 @@ export interface MarkConverter {
   markType: string;
   toMarkdown(text: string, mark: any, context: ConversionContext): string;
   fromMarkdown?(text: string, context: ConversionContext): { text: string; marks: any[] };
-}
\ No newline at end of file
+}
+
+export interface HtmlConversionContext {
+  convertChildren: (nodes: ADFNode[]) => string;
+  depth: number;
+  parent?: ADFNode;
+  options: HtmlConversionOptions;
+}
+
+export interface HtmlConversionOptions {
+  classPrefix: string;
+  registry?: HtmlConverterRegistry;
+  mediaCache?: MediaResolverCache;
+}
+
+export interface HtmlNodeConverter {
+  nodeType: string;
+  toHtml(node: ADFNode, context: HtmlConversionContext): string;
+}
+
+export interface HtmlMarkConverter {
+  markType: string;
+  toHtml(html: string, mark: any, context: HtmlConversionContext): string;
+}
+
+export interface AsciiDocConversionContext {
+  convertChildren: (nodes: ADFNode[]) => string;
+  depth: number;
+  listDepth: number;  // Number of enclosing lists, including the node being converted
+  parent?: ADFNode;
+  unconstrained?: boolean;  // Set for marks touching a word character, which need doubled delimiters
+  options: AsciiDocConversionOptions;
+}
+
+export interface AsciiDocConversionOptions {
+  registry?: AsciiDocConverterRegistry;
+  mediaCache?: MediaResolverCache;
+}
+
+export interface AsciiDocNodeConverter {
+  nodeType: string;
+  toAsciiDoc(node: ADFNode, context: AsciiDocConversionContext): string;
+}
+
+export interface AsciiDocMarkConverter {
+  markType: string;
+  toAsciiDoc(text: string, mark: any, context: AsciiDocConversionContext): string;
+}
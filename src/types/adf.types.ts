@@ -45,7 +45,11 @@ export interface TextNode extends ADFNode {
 export interface PanelNode extends ADFNode {
   type: 'panel';
   attrs: {
-    panelType: 'info' | 'warning' | 'error' | 'success' | 'note';
+    panelType: 'info' | 'warning' | 'error' | 'success' | 'note' | 'custom';
+    panelIcon?: string;
+    panelIconId?: string;
+    panelIconText?: string;
+    panelColor?: string;
   };
   content?: ADFNode[];
 }
@@ -76,15 +80,113 @@ export interface ListItemNode extends ADFNode {
   content?: ADFNode[];
 }
 
+export interface TaskListNode extends ADFNode {
+  type: 'taskList';
+  attrs?: {
+    localId?: string;
+  };
+  content: (TaskItemNode | TaskListNode)[];
+}
+
+export interface TaskItemNode extends ADFNode {
+  type: 'taskItem';
+  attrs?: {
+    localId?: string;
+    state?: 'TODO' | 'DONE';
+  };
+  content?: ADFNode[];
+}
+
+export interface DecisionListNode extends ADFNode {
+  type: 'decisionList';
+  attrs?: {
+    localId?: string;
+  };
+  content: DecisionItemNode[];
+}
+
+export interface DecisionItemNode extends ADFNode {
+  type: 'decisionItem';
+  attrs?: {
+    localId?: string;
+    state?: 'DECIDED' | 'UNDECIDED';
+  };
+  content?: ADFNode[];
+}
+
+export interface LayoutSectionNode extends ADFNode {
+  type: 'layoutSection';
+  content: LayoutColumnNode[];
+}
+
+export interface LayoutColumnNode extends ADFNode {
+  type: 'layoutColumn';
+  attrs?: {
+    width?: number;
+  };
+  content?: ADFNode[];
+}
+
+export interface ExtensionNode extends ADFNode {
+  type: 'extension' | 'bodiedExtension' | 'inlineExtension';
+  attrs?: {
+    extensionType?: string;
+    extensionKey?: string;
+    parameters?: Record<string, unknown>;
+    layout?: 'default' | 'wide' | 'full-width';
+    localId?: string;
+    text?: string;
+    [key: string]: unknown;
+  };
+  content?: ADFNode[];
+}
+
+export interface BlockCardNode extends ADFNode {
+  type: 'blockCard';
+  attrs: {
+    url?: string;
+    data?: Record<string, unknown>;
+    layout?: string;
+    width?: number;
+    localId?: string;
+  };
+}
+
+export interface EmbedCardNode extends ADFNode {
+  type: 'embedCard';
+  attrs: {
+    url: string;
+    layout: 'center' | 'align-start' | 'align-end' | 'wrap-left' | 'wrap-right' | 'wide' | 'full-width';
+    width?: number;
+    originalWidth?: number;
+    originalHeight?: number;
+    localId?: string;
+  };
+}
+
 export interface MediaNode extends ADFNode {
   type: 'media';
   attrs: {
     id: string;
     type: 'file' | 'link' | 'external';
     collection?: string;
+    url?: string;         // External media only
+    width?: number;
+    height?: number;
+    alt?: string;
+  };
+}
+
+export interface MediaInlineNode extends ADFNode {
+  type: 'mediaInline';
+  attrs: {
+    id: string;
+    type?: 'file' | 'link' | 'image';
+    collection?: string;
     width?: number;
     height?: number;
     alt?: string;
+    localId?: string;
   };
 }
 
@@ -94,7 +196,12 @@ export interface MediaSingleNode extends ADFNode {
     layout?: 'center' | 'wide' | 'full-width' | 'align-start' | 'align-end' | 'wrap-left' | 'wrap-right';
     width?: number;
   };
-  content?: MediaNode[];
+  content?: Array<MediaNode | CaptionNode>;
+}
+
+export interface CaptionNode extends ADFNode {
+  type: 'caption';
+  content?: ADFNode[];
 }
 
 export interface ExpandNode extends ADFNode {
@@ -130,6 +237,7 @@ export interface TableHeaderNode extends ADFNode {
     colspan?: number;
     rowspan?: number;
     colwidth?: number[];
+    background?: string;
   };
   content?: ADFNode[];
 }
@@ -140,6 +248,7 @@ export interface TableCellNode extends ADFNode {
     colspan?: number;
     rowspan?: number;
     colwidth?: number[];
+    background?: string;
   };
   content?: ADFNode[];
 }
@@ -192,4 +301,42 @@ export interface SubSupMark extends ADFMark {
   attrs: {
     type: 'sub' | 'sup';
   };
-}
\ No newline at end of file
+}
+
+export interface BorderMark extends ADFMark {
+  type: 'border';
+  attrs: {
+    size: number;
+    color: string;
+  };
+}
+
+export interface AnnotationMark extends ADFMark {
+  type: 'annotation';
+  attrs: {
+    id: string;
+    annotationType: 'inlineComment';
+  };
+}
+
+export interface AlignmentMark extends ADFMark {
+  type: 'alignment';
+  attrs: {
+    align: 'center' | 'end';
+  };
+}
+
+export interface IndentationMark extends ADFMark {
+  type: 'indentation';
+  attrs: {
+    level: 1 | 2 | 3 | 4 | 5 | 6;
+  };
+}
+
+export interface BreakoutMark extends ADFMark {
+  type: 'breakout';
+  attrs: {
+    mode: 'wide' | 'full-width';
+    width?: number;
+  };
+}
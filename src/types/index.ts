@@ -4,6 +4,13 @@
 
 export * from './adf.types';
 export * from './markdown.types';
+export * from './slack.types';
+
+import type { EmojiRegistry } from '../utils/emoji-mapping.js';
+import type { MentionResolver } from '../utils/mention-resolver.js';
+import type { MediaResolver } from '../utils/media-resolver.js';
+import type { LinkResolver } from '../utils/link-resolver.js';
+import type { JiraIssueLinkOptions } from '../utils/jira-issue-keys.js';
 
 // Common types
 export interface ConversionOptions {
@@ -18,6 +25,23 @@ export interface ConversionOptions {
   frontmatter?: boolean;
   maxDepth?: number;
   
+  // Emoji options
+  emojiRegistry?: EmojiRegistry;     // Site custom emoji, resolved before the Unicode dataset
+  detectUnicodeEmoji?: boolean;      // Convert raw Unicode emoji in text to emoji nodes
+  
+  // Mention options
+  mentionResolver?: MentionResolver; // Maps `@name` / `{user:name}` to account IDs and IDs to display names
+  
+  // Media options
+  mediaResolver?: MediaResolver;     // Maps local paths and URLs to media and media ids back to paths
+  
+  // Link options
+  linkResolver?: LinkResolver;       // Maps relative markdown links to page URLs and URLs back to paths
+  jiraIssueLinks?: JiraIssueLinkOptions; // Links bare issue keys (`PROJ-123`) to the Jira site
+  
+  // Markdown output options
+  markdownProfile?: 'extended' | 'clean'; // `clean` writes plain CommonMark/GFM without ADF metadata (default: `extended`)
+  
   // Error recovery options
   maxRetries?: number;
   retryDelay?: number;
@@ -27,6 +51,30 @@ export interface ConversionOptions {
   onRecovery?: (strategy: string, context: any) => void;
 }
 
+export interface HtmlRenderOptions {
+  classPrefix?: string;              // Prefix for the classes on rendered ADF elements (default: `adf-`)
+}
+
+export interface TextRenderOptions {
+  bullet?: string;                   // Bullet list marker (default: `-`)
+  tableFormat?: 'aligned' | 'tsv';   // Tables as padded columns or tab-separated values (default: `aligned`)
+  mentionPrefix?: string;            // Prefix for mention names (default: `@`)
+  statusFormat?: 'brackets' | 'plain'; // `[DONE]` or `DONE` (default: `brackets`)
+  formatDate?: (date: Date) => string; // Date node text (default: `YYYY-MM-DD` in UTC)
+  mediaPlaceholder?: string;         // Text for media without alt text (default: `[media]`)
+  lineWidth?: number;                // Wrap paragraphs and list items at this width
+  maxLength?: number;                // Truncate at a word boundary, ending with `…`
+}
+
+/**
+ * Something the clean markdown profile could not represent and left out
+ */
+export interface MarkdownLoss {
+  type: string;                      // ADF node or mark type, e.g. `panel` or `textColor`
+  detail: string;                    // What was dropped, e.g. `colspan attribute` or `text color`
+  count: number;                     // Number of times it was dropped in the document
+}
+
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
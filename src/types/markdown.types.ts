@@ -17,7 +17,7 @@ export interface ADFMetadata {
 // Custom mdast node types for ADF-specific syntax
 export interface MdastPanelNode extends Node {
   type: 'panel';
-  panelType: 'info' | 'warning' | 'error' | 'success' | 'note';
+  panelType: 'info' | 'warning' | 'error' | 'success' | 'note' | 'custom';
   children: Node[];
 }
 
@@ -0,0 +1,49 @@
+/**
+ * @file Slack Block Kit type definitions for the blocks rendered from ADF
+ */
+
+export interface SlackTextObject {
+  type: 'mrkdwn' | 'plain_text';
+  text: string;
+  emoji?: boolean;
+}
+
+export interface SlackRichTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+export type SlackRichTextElement =
+  | { type: 'text'; text: string; style?: SlackRichTextStyle }
+  | { type: 'link'; url: string; text?: string; style?: SlackRichTextStyle }
+  | { type: 'user'; user_id: string }
+  | { type: 'emoji'; name: string }
+  | { type: 'date'; timestamp: number; format: string; fallback?: string };
+
+export interface SlackRichTextSection {
+  type: 'rich_text_section';
+  elements: SlackRichTextElement[];
+}
+
+export interface SlackRichTextList {
+  type: 'rich_text_list';
+  style: 'bullet' | 'ordered';
+  indent?: number;
+  offset?: number;
+  elements: SlackRichTextSection[];
+}
+
+export interface SlackRichTextPreformatted {
+  type: 'rich_text_preformatted';
+  elements: SlackRichTextElement[];
+}
+
+export type SlackBlock =
+  | { type: 'section'; text: SlackTextObject }
+  | { type: 'header'; text: SlackTextObject }
+  | { type: 'divider' }
+  | { type: 'context'; elements: SlackTextObject[] }
+  | { type: 'image'; image_url: string; alt_text: string }
+  | { type: 'rich_text'; elements: Array<SlackRichTextSection | SlackRichTextList | SlackRichTextPreformatted> };
@@ -0,0 +1,22 @@
+/**
+ * @file adf-utils.ts
+ * @description Helpers for building ADF content in the import engines
+ */
+
+import type { ADFNode } from '../types/adf.types.js';
+
+/**
+ * Merge adjacent text nodes that have the same marks
+ */
+export function mergeTextNodes(nodes: ADFNode[]): ADFNode[] {
+  const merged: ADFNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (node.type === 'text' && previous?.type === 'text' && JSON.stringify(previous.marks) === JSON.stringify(node.marks)) {
+      merged[merged.length - 1] = { ...previous, text: (previous.text || '') + (node.text || '') };
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
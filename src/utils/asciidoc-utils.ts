@@ -0,0 +1,128 @@
+/**
+ * @file asciidoc-utils.ts
+ * @description Escaping, delimited blocks and macros for AsciiDoc output
+ */
+
+import type { ADFNode } from '../types/adf.types.js';
+import type { AsciiDocConversionContext } from '../parser/types.js';
+
+/**
+ * Admonition labels for panel types
+ */
+export const ADMONITION_LABELS: Record<string, string> = {
+  info: 'NOTE',
+  note: 'IMPORTANT',
+  success: 'TIP',
+  warning: 'WARNING',
+  error: 'CAUTION',
+  custom: 'NOTE'
+};
+
+export const LIST_NODE_TYPES = new Set(['bulletList', 'orderedList', 'taskList', 'decisionList']);
+
+// Constrained formatting pairs (`*strong*`, `_em_`, `` `code` ``, `#mark#`) and `^sup^` / `~sub~`
+const FORMATTING_PAIR_PATTERN = /(^|[^\w\\])([*_`#])(?=\S)([\s\S]*?\S)\2(?!\w)|(^|[^\\])([\^~])(?=\S)(\S*?)\5/g;
+
+// Attribute references such as `{version}`
+const ATTRIBUTE_REFERENCE_PATTERN = /(^|[^\\])\{(?=[\w-]+\})/g;
+
+// Words containing syntax a backslash can't reliably escape: inline macros (`link:x[y]`,
+// `footnote:[z]`), cross references (`<<id>>`), anchors (`[[id]]`), passthroughs (`+x+`,
+// `++x++`) and unconstrained formatting pairs (`a__b__c`)
+const PASSTHROUGH_RUN_PATTERN = /\S*?(?:\b[a-z][\w-]*:[^\s[]*\[[^\]]*\]|<<[\s\S]*?>>|\[\[[\s\S]*?\]\]|\+\+[\s\S]*?\+\+|\+(?=\S)[\s\S]*?\S\+|\*\*[\s\S]*?\*\*|__[\s\S]*?__|##[\s\S]*?##|``[\s\S]*?``)\S*/gi;
+
+// Lines AsciiDoc would read as a list item, heading, comment, block title, attribute list,
+// admonition paragraph or delimiter
+const BLOCK_START_PATTERN = /^(?:[*.]+ |-+ |=+ |\/\/|\.\w|\[|<\d+> |(?:NOTE|TIP|IMPORTANT|WARNING|CAUTION): |'''|\|===)/;
+
+/**
+ * Escape text so formatting marks, attribute references, macros and passthroughs in it are
+ * shown as written. Words with syntax a backslash doesn't escape go through a `pass:c[]` macro.
+ */
+export function escapeAsciiDocText(text: string): string {
+  let result = '';
+  let index = 0;
+  for (const match of text.matchAll(PASSTHROUGH_RUN_PATTERN)) {
+    const start = match.index ?? 0;
+    result += escapeConstrainedText(text.slice(index, start)) + passMacro(match[0]);
+    index = start + match[0].length;
+  }
+  return result + escapeConstrainedText(text.slice(index));
+}
+
+/**
+ * A `pass:c[]` macro showing text as written, with only special characters (`<`, `&`) escaped
+ */
+export function passMacro(text: string): string {
+  return `pass:c[${text.replace(/]/g, '\\]')}]`;
+}
+
+function escapeConstrainedText(text: string): string {
+  return text
+    .replace(FORMATTING_PAIR_PATTERN, (match, before?: string, mark?: string, inner?: string, scriptBefore?: string, script?: string, scriptInner?: string) => (
+      mark ? `${before}\\${mark}${inner}${mark}` : `${scriptBefore}\\${script}${scriptInner}${script}`
+    ))
+    .replace(ATTRIBUTE_REFERENCE_PATTERN, '$1\\{');
+}
+
+/**
+ * Stop paragraph lines from being read as block syntax by starting them with `{blank}`
+ */
+export function escapeBlockStarts(text: string): string {
+  return text.split('\n').map(line => (BLOCK_START_PATTERN.test(line) ? `{blank}${line}` : line)).join('\n');
+}
+
+/**
+ * Wrap content in a delimited block, lengthening the delimiter past any line in the content
+ * that would close it (nested blocks of the same kind)
+ */
+export function delimitedBlock(delimiterChar: string, content: string): string {
+  let length = 4;
+  for (const line of content.split('\n')) {
+    if (line.length >= length && line === delimiterChar.repeat(line.length)) {
+      length = line.length + 1;
+    }
+  }
+  const delimiter = delimiterChar.repeat(length);
+  return `${delimiter}\n${content}\n${delimiter}`;
+}
+
+/**
+ * Text for a macro's attribute list (`image::x.png[text]`, `https://x[text]`); text with
+ * commas, equals signs or quotes is quoted so it stays one positional attribute
+ */
+export function macroText(text: string): string {
+  const escaped = text.replace(/]/g, '\\]');
+  return /[,="]/.test(escaped) ? `"${escaped.replace(/"/g, '\\"')}"` : escaped;
+}
+
+/**
+ * A link macro; URLs with a scheme AsciiDoc recognizes are written bare, others use `link:`
+ */
+export function linkMacro(url: string, text = ''): string {
+  const target = url.replace(/ /g, '%20').replace(/\[/g, '%5B').replace(/]/g, '%5D');
+  const prefix = /^(?:https?|ftp|irc|mailto):/i.test(target) ? '' : 'link:';
+  return `${prefix}${target}[${text ? macroText(text) : ''}]`;
+}
+
+/**
+ * Convert nodes as blocks separated by blank lines. Adjacent lists are separated by a `//-`
+ * comment so AsciiDoc doesn't join them into one list.
+ */
+export function convertBlocks(nodes: ADFNode[], context: AsciiDocConversionContext): string {
+  let result = '';
+  let previous: ADFNode | undefined;
+
+  for (const node of nodes) {
+    const text = context.convertChildren([node]);
+    if (!text.trim()) continue;
+
+    if (result) {
+      result += previous && LIST_NODE_TYPES.has(previous.type) && LIST_NODE_TYPES.has(node.type) ? '\n\n//-\n\n' : '\n\n';
+    }
+    result += text;
+    previous = node;
+  }
+
+  return result;
+}
@@ -0,0 +1,1483 @@
+/**
+ * @file emoji-data.ts
+ * @description Unicode emoji dataset used to resolve `:shortname:` codes and raw emoji characters
+ *
+ * Covers every fully-qualified single-codepoint emoji named in Unicode 14, keycaps, skin tone
+ * variants, region flags and the most common ZWJ sequences. Each emoji is listed under its
+ * Unicode character name plus the gemoji/Slack aliases in everyday use.
+ */
+
+/**
+ * One entry per emoji: `<codepoints> <shortname> [aliases...]`.
+ * Codepoints are hyphen-separated hex and include the U+FE0F presentation selector where the
+ * emoji needs it; the first name is the one used when resolving a raw emoji back to a shortname.
+ */
+export const UNICODE_EMOJI: readonly string[] = [
+  '00a9-fe0f copyright copyright_sign',
+  '00ae-fe0f registered registered_sign',
+  '203c-fe0f bangbang double_exclamation_mark',
+  '2049-fe0f interrobang exclamation_question_mark',
+  '2122-fe0f tm trade_mark_sign',
+  '2139-fe0f information_source',
+  '2194-fe0f left_right_arrow',
+  '2195-fe0f arrow_up_down up_down_arrow',
+  '2196-fe0f arrow_upper_left north_west_arrow',
+  '2197-fe0f arrow_upper_right north_east_arrow',
+  '2198-fe0f arrow_lower_right south_east_arrow',
+  '2199-fe0f arrow_lower_left south_west_arrow',
+  '21a9-fe0f leftwards_arrow_with_hook',
+  '21aa-fe0f arrow_right_hook rightwards_arrow_with_hook',
+  '231a watch',
+  '231b hourglass',
+  '2328-fe0f keyboard',
+  '23cf-fe0f eject_symbol',
+  '23e9 fast_forward black_right_pointing_double_triangle',
+  '23ea rewind black_left_pointing_double_triangle',
+  '23eb black_up_pointing_double_triangle',
+  '23ec black_down_pointing_double_triangle',
+  '23ed-fe0f black_right_pointing_double_triangle_with_vertical_bar',
+  '23ee-fe0f black_left_pointing_double_triangle_with_vertical_bar',
+  '23ef-fe0f black_right_pointing_triangle_with_double_vertical_bar',
+  '23f0 alarm_clock',
+  '23f1-fe0f stopwatch',
+  '23f2-fe0f timer_clock',
+  '23f3 hourglass_flowing_sand hourglass_with_flowing_sand',
+  '23f8-fe0f pause_button double_vertical_bar',
+  '23f9-fe0f stop_button black_square_for_stop',
+  '23fa-fe0f record_button black_circle_for_record',
+  '24c2-fe0f m circled_latin_capital_letter_m',
+  '25aa-fe0f black_small_square',
+  '25ab-fe0f white_small_square',
+  '25b6-fe0f arrow_forward black_right_pointing_triangle',
+  '25c0-fe0f arrow_backward black_left_pointing_triangle',
+  '25fb-fe0f white_medium_square',
+  '25fc-fe0f black_medium_square',
+  '25fd white_medium_small_square',
+  '25fe black_medium_small_square',
+  '2600-fe0f sunny black_sun_with_rays',
+  '2601-fe0f cloud',
+  '2602-fe0f open_umbrella',
+  '2603-fe0f snowman_with_snow',
+  '2604-fe0f comet',
+  '260e-fe0f phone telephone black_telephone',
+  '2611-fe0f ballot_box_with_check',
+  '2614 umbrella umbrella_with_rain_drops',
+  '2615 coffee hot_beverage',
+  '2618-fe0f shamrock',
+  '261d-fe0f point_up white_up_pointing_index',
+  '2620-fe0f skull_and_crossbones',
+  '2622-fe0f radioactive_sign',
+  '2623-fe0f biohazard_sign',
+  '2626-fe0f orthodox_cross',
+  '262a-fe0f star_and_crescent',
+  '262e-fe0f peace_symbol',
+  '262f-fe0f yin_yang',
+  '2638-fe0f wheel_of_dharma',
+  '2639-fe0f frowning_face white_frowning_face',
+  '263a-fe0f relaxed white_smiling_face',
+  '2640-fe0f female_sign',
+  '2642-fe0f male_sign',
+  '2648 aries',
+  '2649 taurus',
+  '264a gemini',
+  '264b cancer',
+  '264c leo',
+  '264d virgo',
+  '264e libra',
+  '264f scorpius',
+  '2650 sagittarius',
+  '2651 capricorn',
+  '2652 aquarius',
+  '2653 pisces',
+  '265f-fe0f black_chess_pawn',
+  '2660-fe0f black_spade_suit',
+  '2663-fe0f black_club_suit',
+  '2665-fe0f black_heart_suit',
+  '2666-fe0f black_diamond_suit',
+  '2668-fe0f hot_springs',
+  '267b-fe0f recycle black_universal_recycling_symbol',
+  '267e-fe0f infinity permanent_paper_sign',
+  '267f wheelchair_symbol',
+  '2692-fe0f hammer_and_pick',
+  '2693 anchor',
+  '2694-fe0f crossed_swords',
+  '2695-fe0f medical_symbol staff_of_aesculapius',
+  '2696-fe0f balance_scale scales',
+  '2697-fe0f alembic',
+  '2699-fe0f gear',
+  '269b-fe0f atom_symbol',
+  '269c-fe0f fleur_de_lis',
+  '26a0-fe0f warning warning_sign',
+  '26a1 zap high_voltage_sign',
+  '26a7-fe0f male_with_stroke_and_male_and_female_sign',
+  '26aa white_circle medium_white_circle',
+  '26ab black_circle medium_black_circle',
+  '26b0-fe0f coffin',
+  '26b1-fe0f funeral_urn',
+  '26bd soccer soccer_ball',
+  '26be baseball',
+  '26c4 snowman snowman_without_snow',
+  '26c5 partly_sunny sun_behind_cloud',
+  '26c8-fe0f thunder_cloud_and_rain',
+  '26ce ophiuchus',
+  '26cf-fe0f pick',
+  '26d1-fe0f rescue_worker_helmet helmet_with_white_cross',
+  '26d3-fe0f chains',
+  '26d4 no_entry',
+  '26e9-fe0f shinto_shrine',
+  '26ea church',
+  '26f0-fe0f mountain',
+  '26f1-fe0f umbrella_on_ground',
+  '26f2 fountain',
+  '26f3 golf flag_in_hole',
+  '26f4-fe0f ferry',
+  '26f5 boat sailboat',
+  '26f7-fe0f skier',
+  '26f8-fe0f ice_skate',
+  '26f9-fe0f person_with_ball',
+  '26fa tent',
+  '26fd fuelpump fuel_pump',
+  '2702-fe0f scissors black_scissors',
+  '2705 white_check_mark white_heavy_check_mark',
+  '2708-fe0f airplane',
+  '2709-fe0f envelope',
+  '270a fist_raised fist raised_fist',
+  '270b raised_hand hand',
+  '270c-fe0f v victory_hand',
+  '270d-fe0f writing_hand',
+  '270f-fe0f pencil2',
+  '2712-fe0f black_nib',
+  '2714-fe0f heavy_check_mark',
+  '2716-fe0f heavy_multiplication_x',
+  '271d-fe0f latin_cross',
+  '2721-fe0f star_of_david',
+  '2728 sparkles',
+  '2733-fe0f eight_spoked_asterisk',
+  '2734-fe0f eight_pointed_black_star',
+  '2744-fe0f snowflake',
+  '2747-fe0f sparkle',
+  '274c x cross_mark',
+  '274e negative_squared_cross_mark',
+  '2753 question black_question_mark_ornament',
+  '2754 grey_question white_question_mark_ornament',
+  '2755 grey_exclamation white_exclamation_mark_ornament',
+  '2757 exclamation heavy_exclamation_mark heavy_exclamation_mark_symbol',
+  '2763-fe0f heavy_heart_exclamation heavy_heart_exclamation_mark_ornament',
+  '2764-fe0f heart heavy_black_heart',
+  '2795 heavy_plus_sign',
+  '2796 heavy_minus_sign',
+  '2797 heavy_division_sign',
+  '27a1-fe0f arrow_right black_rightwards_arrow',
+  '27b0 curly_loop',
+  '27bf loop double_curly_loop',
+  '2934-fe0f arrow_heading_up arrow_pointing_rightwards_then_curving_upwards',
+  '2935-fe0f arrow_heading_down arrow_pointing_rightwards_then_curving_downwards',
+  '2b05-fe0f arrow_left leftwards_black_arrow',
+  '2b06-fe0f arrow_up upwards_black_arrow',
+  '2b07-fe0f arrow_down downwards_black_arrow',
+  '2b1b black_large_square',
+  '2b1c white_large_square',
+  '2b50 star white_medium_star',
+  '2b55 o heavy_large_circle',
+  '3030-fe0f wavy_dash',
+  '303d-fe0f part_alternation_mark',
+  '3297-fe0f circled_ideograph_congratulation',
+  '3299-fe0f circled_ideograph_secret',
+  '1f004 mahjong_tile_red_dragon',
+  '1f0cf playing_card_black_joker',
+  '1f170-fe0f a negative_squared_latin_capital_letter_a',
+  '1f171-fe0f b negative_squared_latin_capital_letter_b',
+  '1f17e-fe0f o2 negative_squared_latin_capital_letter_o',
+  '1f17f-fe0f parking negative_squared_latin_capital_letter_p',
+  '1f18e ab negative_squared_ab',
+  '1f191 cl squared_cl',
+  '1f192 cool squared_cool',
+  '1f193 free squared_free',
+  '1f194 id squared_id',
+  '1f195 new squared_new',
+  '1f196 ng squared_ng',
+  '1f197 ok squared_ok',
+  '1f198 sos squared_sos',
+  '1f199 up squared_up_with_exclamation_mark',
+  '1f19a squared_vs',
+  '1f201 squared_katakana_koko',
+  '1f202-fe0f squared_katakana_sa',
+  '1f21a squared_cjk_unified_ideograph_7121',
+  '1f22f squared_cjk_unified_ideograph_6307',
+  '1f232 squared_cjk_unified_ideograph_7981',
+  '1f233 squared_cjk_unified_ideograph_7a7a',
+  '1f234 squared_cjk_unified_ideograph_5408',
+  '1f235 squared_cjk_unified_ideograph_6e80',
+  '1f236 squared_cjk_unified_ideograph_6709',
+  '1f237-fe0f squared_cjk_unified_ideograph_6708',
+  '1f238 squared_cjk_unified_ideograph_7533',
+  '1f239 squared_cjk_unified_ideograph_5272',
+  '1f23a squared_cjk_unified_ideograph_55b6',
+  '1f250 circled_ideograph_advantage',
+  '1f251 circled_ideograph_accept',
+  '1f300 cyclone',
+  '1f301 foggy',
+  '1f302 closed_umbrella',
+  '1f303 night_with_stars',
+  '1f304 sunrise_over_mountains',
+  '1f305 sunrise',
+  '1f306 city_sunset cityscape_at_dusk',
+  '1f307 city_sunrise sunset_over_buildings',
+  '1f308 rainbow',
+  '1f309 bridge_at_night',
+  '1f30a ocean water_wave',
+  '1f30b volcano',
+  '1f30c milky_way',
+  '1f30d earth_africa earth_globe_europe_africa',
+  '1f30e earth_americas earth_globe_americas',
+  '1f30f earth_asia earth_globe_asia_australia',
+  '1f310 globe_with_meridians',
+  '1f311 new_moon new_moon_symbol',
+  '1f312 waxing_crescent_moon_symbol',
+  '1f313 first_quarter_moon_symbol',
+  '1f314 waxing_gibbous_moon_symbol',
+  '1f315 full_moon full_moon_symbol',
+  '1f316 waning_gibbous_moon_symbol',
+  '1f317 last_quarter_moon_symbol',
+  '1f318 waning_crescent_moon_symbol',
+  '1f319 crescent_moon',
+  '1f31a new_moon_with_face',
+  '1f31b first_quarter_moon_with_face',
+  '1f31c last_quarter_moon_with_face',
+  '1f31d full_moon_with_face',
+  '1f31e sun_with_face',
+  '1f31f star2 glowing_star',
+  '1f320 shooting_star',
+  '1f321-fe0f thermometer',
+  '1f324-fe0f white_sun_with_small_cloud',
+  '1f325-fe0f white_sun_behind_cloud',
+  '1f326-fe0f white_sun_behind_cloud_with_rain',
+  '1f327-fe0f cloud_with_rain',
+  '1f328-fe0f cloud_with_snow',
+  '1f329-fe0f cloud_with_lightning',
+  '1f32a-fe0f tornado cloud_with_tornado',
+  '1f32b-fe0f fog',
+  '1f32c-fe0f wind_face wind_blowing_face',
+  '1f32d hotdog hot_dog',
+  '1f32e taco',
+  '1f32f burrito',
+  '1f330 chestnut',
+  '1f331 seedling',
+  '1f332 evergreen_tree',
+  '1f333 deciduous_tree',
+  '1f334 palm_tree',
+  '1f335 cactus',
+  '1f336-fe0f hot_pepper',
+  '1f337 tulip',
+  '1f338 cherry_blossom',
+  '1f339 rose',
+  '1f33a hibiscus',
+  '1f33b sunflower',
+  '1f33c blossom',
+  '1f33d corn ear_of_maize',
+  '1f33e ear_of_rice',
+  '1f33f herb',
+  '1f340 four_leaf_clover',
+  '1f341 maple_leaf',
+  '1f342 fallen_leaf',
+  '1f343 leaves leaf_fluttering_in_wind',
+  '1f344 mushroom',
+  '1f345 tomato',
+  '1f346 eggplant aubergine',
+  '1f347 grapes',
+  '1f348 melon',
+  '1f349 watermelon',
+  '1f34a tangerine orange',
+  '1f34b lemon',
+  '1f34c banana',
+  '1f34d pineapple',
+  '1f34e apple red_apple',
+  '1f34f green_apple',
+  '1f350 pear',
+  '1f351 peach',
+  '1f352 cherries',
+  '1f353 strawberry',
+  '1f354 hamburger',
+  '1f355 pizza slice_of_pizza',
+  '1f356 meat_on_bone',
+  '1f357 poultry_leg',
+  '1f358 rice_cracker',
+  '1f359 rice_ball',
+  '1f35a rice cooked_rice',
+  '1f35b curry curry_and_rice',
+  '1f35c ramen steaming_bowl',
+  '1f35d spaghetti',
+  '1f35e bread',
+  '1f35f fries french_fries',
+  '1f360 roasted_sweet_potato',
+  '1f361 dango',
+  '1f362 oden',
+  '1f363 sushi',
+  '1f364 fried_shrimp',
+  '1f365 fish_cake_with_swirl_design',
+  '1f366 icecream soft_ice_cream',
+  '1f367 shaved_ice',
+  '1f368 ice_cream',
+  '1f369 doughnut',
+  '1f36a cookie',
+  '1f36b chocolate_bar',
+  '1f36c candy',
+  '1f36d lollipop',
+  '1f36e custard',
+  '1f36f honey_pot',
+  '1f370 cake shortcake',
+  '1f371 bento bento_box',
+  '1f372 stew pot_of_food',
+  '1f373 fried_egg cooking',
+  '1f374 fork_and_knife',
+  '1f375 tea teacup_without_handle',
+  '1f376 sake sake_bottle_and_cup',
+  '1f377 wine_glass',
+  '1f378 cocktail cocktail_glass',
+  '1f379 tropical_drink',
+  '1f37a beer beer_mug',
+  '1f37b beers clinking_beer_mugs',
+  '1f37c baby_bottle',
+  '1f37d-fe0f plate_with_cutlery fork_and_knife_with_plate',
+  '1f37e champagne bottle_with_popping_cork',
+  '1f37f popcorn',
+  '1f380 ribbon',
+  '1f381 gift wrapped_present',
+  '1f382 birthday birthday_cake',
+  '1f383 jack_o_lantern',
+  '1f384 christmas_tree',
+  '1f385 santa father_christmas',
+  '1f386 fireworks',
+  '1f387 sparkler firework_sparkler',
+  '1f388 balloon',
+  '1f389 tada party_popper',
+  '1f38a confetti_ball',
+  '1f38b tanabata_tree',
+  '1f38c crossed_flags',
+  '1f38d pine_decoration',
+  '1f38e japanese_dolls',
+  '1f38f carp_streamer',
+  '1f390 wind_chime',
+  '1f391 moon_viewing_ceremony',
+  '1f392 school_satchel',
+  '1f393 mortar_board graduation_cap',
+  '1f396-fe0f medal_military military_medal',
+  '1f397-fe0f reminder_ribbon',
+  '1f399-fe0f studio_microphone',
+  '1f39a-fe0f level_slider',
+  '1f39b-fe0f control_knobs',
+  '1f39e-fe0f film_frames',
+  '1f39f-fe0f tickets admission_tickets',
+  '1f3a0 carousel_horse',
+  '1f3a1 ferris_wheel',
+  '1f3a2 roller_coaster',
+  '1f3a3 fishing_pole_and_fish',
+  '1f3a4 microphone',
+  '1f3a5 movie_camera',
+  '1f3a6 cinema',
+  '1f3a7 headphones headphone',
+  '1f3a8 art artist_palette',
+  '1f3a9 tophat top_hat',
+  '1f3aa circus_tent',
+  '1f3ab ticket',
+  '1f3ac clapper clapper_board',
+  '1f3ad performing_arts',
+  '1f3ae video_game',
+  '1f3af dart direct_hit',
+  '1f3b0 slot_machine',
+  '1f3b1 8ball billiards',
+  '1f3b2 game_die',
+  '1f3b3 bowling',
+  '1f3b4 flower_playing_cards',
+  '1f3b5 musical_note',
+  '1f3b6 notes multiple_musical_notes',
+  '1f3b7 saxophone',
+  '1f3b8 guitar',
+  '1f3b9 musical_keyboard',
+  '1f3ba trumpet',
+  '1f3bb violin',
+  '1f3bc musical_score',
+  '1f3bd running_shirt_with_sash',
+  '1f3be tennis tennis_racquet_and_ball',
+  '1f3bf ski ski_and_ski_boot',
+  '1f3c0 basketball basketball_and_hoop',
+  '1f3c1 checkered_flag chequered_flag',
+  '1f3c2 snowboarder',
+  '1f3c3 runner running',
+  '1f3c4 surfer',
+  '1f3c5 medal_sports sports_medal',
+  '1f3c6 trophy',
+  '1f3c7 horse_racing',
+  '1f3c8 football american_football',
+  '1f3c9 rugby_football',
+  '1f3ca swimmer',
+  '1f3cb-fe0f weight_lifter',
+  '1f3cc-fe0f golfer',
+  '1f3cd-fe0f motorcycle racing_motorcycle',
+  '1f3ce-fe0f racing_car',
+  '1f3cf cricket_game cricket_bat_and_ball',
+  '1f3d0 volleyball',
+  '1f3d1 field_hockey field_hockey_stick_and_ball',
+  '1f3d2 ice_hockey ice_hockey_stick_and_puck',
+  '1f3d3 ping_pong table_tennis_paddle_and_ball',
+  '1f3d4-fe0f mountain_snow snow_capped_mountain',
+  '1f3d5-fe0f camping',
+  '1f3d6-fe0f beach_umbrella beach_with_umbrella',
+  '1f3d7-fe0f building_construction',
+  '1f3d8-fe0f house_buildings',
+  '1f3d9-fe0f cityscape',
+  '1f3da-fe0f derelict_house_building',
+  '1f3db-fe0f classical_building',
+  '1f3dc-fe0f desert',
+  '1f3dd-fe0f desert_island',
+  '1f3de-fe0f national_park',
+  '1f3df-fe0f stadium',
+  '1f3e0 house house_building',
+  '1f3e1 house_with_garden',
+  '1f3e2 office office_building',
+  '1f3e3 japanese_post_office',
+  '1f3e4 european_post_office',
+  '1f3e5 hospital',
+  '1f3e6 bank',
+  '1f3e7 automated_teller_machine',
+  '1f3e8 hotel',
+  '1f3e9 love_hotel',
+  '1f3ea convenience_store',
+  '1f3eb school',
+  '1f3ec department_store',
+  '1f3ed factory',
+  '1f3ee izakaya_lantern',
+  '1f3ef japanese_castle',
+  '1f3f0 european_castle',
+  '1f3f3-fe0f white_flag waving_white_flag',
+  '1f3f4 black_flag waving_black_flag',
+  '1f3f5-fe0f rosette',
+  '1f3f7-fe0f label',
+  '1f3f8 badminton badminton_racquet_and_shuttlecock',
+  '1f3f9 bow_and_arrow',
+  '1f3fa amphora',
+  '1f400 rat',
+  '1f401 mouse2',
+  '1f402 ox',
+  '1f403 water_buffalo',
+  '1f404 cow2',
+  '1f405 tiger2',
+  '1f406 leopard',
+  '1f407 rabbit2',
+  '1f408 cat2',
+  '1f409 dragon',
+  '1f40a crocodile',
+  '1f40b whale2',
+  '1f40c snail',
+  '1f40d snake',
+  '1f40e racehorse',
+  '1f40f ram',
+  '1f410 goat',
+  '1f411 sheep',
+  '1f412 monkey',
+  '1f413 rooster',
+  '1f414 chicken',
+  '1f415 dog2',
+  '1f416 pig2',
+  '1f417 boar',
+  '1f418 elephant',
+  '1f419 octopus',
+  '1f41a spiral_shell',
+  '1f41b bug',
+  '1f41c ant',
+  '1f41d bee honeybee',
+  '1f41e lady_beetle',
+  '1f41f fish',
+  '1f420 tropical_fish',
+  '1f421 blowfish',
+  '1f422 turtle',
+  '1f423 hatching_chick',
+  '1f424 baby_chick',
+  '1f425 front_facing_baby_chick',
+  '1f426 bird',
+  '1f427 penguin',
+  '1f428 koala',
+  '1f429 poodle',
+  '1f42a dromedary_camel',
+  '1f42b camel bactrian_camel',
+  '1f42c dolphin flipper',
+  '1f42d mouse mouse_face',
+  '1f42e cow cow_face',
+  '1f42f tiger tiger_face',
+  '1f430 rabbit rabbit_face',
+  '1f431 cat cat_face',
+  '1f432 dragon_face',
+  '1f433 whale spouting_whale',
+  '1f434 horse horse_face',
+  '1f435 monkey_face',
+  '1f436 dog dog_face',
+  '1f437 pig pig_face',
+  '1f438 frog frog_face',
+  '1f439 hamster hamster_face',
+  '1f43a wolf wolf_face',
+  '1f43b bear bear_face',
+  '1f43c panda_face',
+  '1f43d pig_nose',
+  '1f43e paw_prints',
+  '1f43f-fe0f chipmunk',
+  '1f440 eyes',
+  '1f441-fe0f eye',
+  '1f442 ear',
+  '1f443 nose',
+  '1f444 lips mouth',
+  '1f445 tongue',
+  '1f446 point_up_2 white_up_pointing_backhand_index',
+  '1f447 point_down white_down_pointing_backhand_index',
+  '1f448 point_left white_left_pointing_backhand_index',
+  '1f449 point_right white_right_pointing_backhand_index',
+  '1f44a punch facepunch fist_oncoming fisted_hand_sign',
+  '1f44b wave waving_hand_sign',
+  '1f44c ok_hand ok_hand_sign',
+  '1f44d thumbsup +1 thumbs_up thumbs_up_sign',
+  '1f44e thumbsdown -1 thumbs_down thumbs_down_sign',
+  '1f44f clap clapping_hands clapping_hands_sign',
+  '1f450 open_hands open_hands_sign',
+  '1f451 crown',
+  '1f452 womans_hat',
+  '1f453 eyeglasses',
+  '1f454 necktie',
+  '1f455 shirt tshirt t_shirt',
+  '1f456 jeans',
+  '1f457 dress',
+  '1f458 kimono',
+  '1f459 bikini',
+  '1f45a womans_clothes',
+  '1f45b purse',
+  '1f45c handbag',
+  '1f45d pouch',
+  '1f45e mans_shoe',
+  '1f45f athletic_shoe',
+  '1f460 high_heel high_heeled_shoe',
+  '1f461 womans_sandal',
+  '1f462 womans_boots',
+  '1f463 footprints',
+  '1f464 bust_in_silhouette',
+  '1f465 busts_in_silhouette',
+  '1f466 boy',
+  '1f467 girl',
+  '1f468 man',
+  '1f469 woman',
+  '1f46a family',
+  '1f46b man_and_woman_holding_hands',
+  '1f46c two_men_holding_hands',
+  '1f46d two_women_holding_hands',
+  '1f46e police_officer cop',
+  '1f46f dancers woman_with_bunny_ears',
+  '1f470 bride_with_veil',
+  '1f471 person_with_blond_hair',
+  '1f472 man_with_gua_pi_mao',
+  '1f473 man_with_turban',
+  '1f474 older_man',
+  '1f475 older_woman',
+  '1f476 baby',
+  '1f477 construction_worker',
+  '1f478 princess',
+  '1f479 japanese_ogre',
+  '1f47a japanese_goblin',
+  '1f47b ghost',
+  '1f47c angel baby_angel',
+  '1f47d alien extraterrestrial_alien',
+  '1f47e space_invader alien_monster',
+  '1f47f imp',
+  '1f480 skull',
+  '1f481 information_desk_person tipping_hand_person',
+  '1f482 guard guardsman',
+  '1f483 dancer',
+  '1f484 lipstick',
+  '1f485 nail_care nail_polish',
+  '1f486 face_massage',
+  '1f487 haircut',
+  '1f488 barber_pole',
+  '1f489 syringe',
+  '1f48a pill',
+  '1f48b kiss kiss_mark',
+  '1f48c love_letter',
+  '1f48d ring',
+  '1f48e gem gem_stone',
+  '1f48f ',
+  '1f490 bouquet',
+  '1f491 couple_with_heart',
+  '1f492 wedding',
+  '1f493 heartbeat beating_heart',
+  '1f494 broken_heart',
+  '1f495 two_hearts',
+  '1f496 sparkling_heart',
+  '1f497 heartpulse growing_heart',
+  '1f498 cupid heart_with_arrow',
+  '1f499 blue_heart',
+  '1f49a green_heart',
+  '1f49b yellow_heart',
+  '1f49c purple_heart',
+  '1f49d gift_heart heart_with_ribbon',
+  '1f49e revolving_hearts',
+  '1f49f heart_decoration',
+  '1f4a0 diamond_shape_with_a_dot_inside',
+  '1f4a1 bulb electric_light_bulb',
+  '1f4a2 anger anger_symbol',
+  '1f4a3 bomb',
+  '1f4a4 zzz sleeping_symbol',
+  '1f4a5 boom collision collision_symbol',
+  '1f4a6 sweat_drops splashing_sweat_symbol',
+  '1f4a7 droplet',
+  '1f4a8 dash dash_symbol',
+  '1f4a9 poop hankey shit pile_of_poo',
+  '1f4aa muscle flexed_biceps',
+  '1f4ab dizzy dizzy_symbol',
+  '1f4ac speech_balloon',
+  '1f4ad thought_balloon',
+  '1f4ae white_flower',
+  '1f4af 100 hundred_points_symbol',
+  '1f4b0 moneybag money_bag',
+  '1f4b1 currency_exchange',
+  '1f4b2 heavy_dollar_sign',
+  '1f4b3 credit_card',
+  '1f4b4 banknote_with_yen_sign',
+  '1f4b5 dollar banknote_with_dollar_sign',
+  '1f4b6 banknote_with_euro_sign',
+  '1f4b7 banknote_with_pound_sign',
+  '1f4b8 money_with_wings',
+  '1f4b9 chart_with_upwards_trend_and_yen_sign',
+  '1f4ba seat',
+  '1f4bb computer personal_computer',
+  '1f4bc briefcase',
+  '1f4bd minidisc',
+  '1f4be floppy_disk',
+  '1f4bf cd optical_disc',
+  '1f4c0 dvd',
+  '1f4c1 file_folder',
+  '1f4c2 open_file_folder',
+  '1f4c3 page_with_curl',
+  '1f4c4 page_facing_up',
+  '1f4c5 calendar date',
+  '1f4c6 tear_off_calendar',
+  '1f4c7 card_index',
+  '1f4c8 chart_with_upwards_trend',
+  '1f4c9 chart_with_downwards_trend',
+  '1f4ca bar_chart',
+  '1f4cb clipboard',
+  '1f4cc pushpin',
+  '1f4cd round_pushpin',
+  '1f4ce paperclip',
+  '1f4cf straight_ruler',
+  '1f4d0 triangular_ruler',
+  '1f4d1 bookmark_tabs',
+  '1f4d2 ledger',
+  '1f4d3 notebook',
+  '1f4d4 notebook_with_decorative_cover',
+  '1f4d5 closed_book',
+  '1f4d6 book open_book',
+  '1f4d7 green_book',
+  '1f4d8 blue_book',
+  '1f4d9 orange_book',
+  '1f4da books',
+  '1f4db name_badge',
+  '1f4dc scroll',
+  '1f4dd memo pencil',
+  '1f4de telephone_receiver',
+  '1f4df pager',
+  '1f4e0 fax_machine',
+  '1f4e1 satellite satellite_antenna',
+  '1f4e2 loudspeaker public_address_loudspeaker',
+  '1f4e3 mega cheering_megaphone',
+  '1f4e4 outbox_tray',
+  '1f4e5 inbox_tray',
+  '1f4e6 package',
+  '1f4e7 email e-mail e_mail_symbol',
+  '1f4e8 incoming_envelope',
+  '1f4e9 envelope_with_arrow envelope_with_downwards_arrow_above',
+  '1f4ea mailbox_closed closed_mailbox_with_lowered_flag',
+  '1f4eb mailbox closed_mailbox_with_raised_flag',
+  '1f4ec mailbox_with_mail open_mailbox_with_raised_flag',
+  '1f4ed mailbox_with_no_mail open_mailbox_with_lowered_flag',
+  '1f4ee postbox',
+  '1f4ef postal_horn',
+  '1f4f0 newspaper',
+  '1f4f1 iphone mobile_phone',
+  '1f4f2 calling mobile_phone_with_rightwards_arrow_at_left',
+  '1f4f3 vibration_mode',
+  '1f4f4 mobile_phone_off',
+  '1f4f5 no_mobile_phones',
+  '1f4f6 signal_strength antenna_with_bars',
+  '1f4f7 camera',
+  '1f4f8 camera_flash camera_with_flash',
+  '1f4f9 video_camera',
+  '1f4fa tv television',
+  '1f4fb radio',
+  '1f4fc videocassette',
+  '1f4fd-fe0f film_projector',
+  '1f4ff prayer_beads',
+  '1f500 twisted_rightwards_arrows',
+  '1f501 repeat clockwise_rightwards_and_leftwards_open_circle_arrows',
+  '1f502 repeat_one clockwise_rightwards_and_leftwards_open_circle_arrows_with_circled_one_overlay',
+  '1f503 arrows_clockwise clockwise_downwards_and_upwards_open_circle_arrows',
+  '1f504 arrows_counterclockwise anticlockwise_downwards_and_upwards_open_circle_arrows',
+  '1f505 low_brightness low_brightness_symbol',
+  '1f506 high_brightness high_brightness_symbol',
+  '1f507 speaker_with_cancellation_stroke',
+  '1f508 speaker',
+  '1f509 speaker_with_one_sound_wave',
+  '1f50a speaker_with_three_sound_waves',
+  '1f50b battery',
+  '1f50c electric_plug',
+  '1f50d mag left_pointing_magnifying_glass',
+  '1f50e mag_right right_pointing_magnifying_glass',
+  '1f50f lock_with_ink_pen',
+  '1f510 closed_lock_with_key',
+  '1f511 key',
+  '1f512 lock',
+  '1f513 unlock open_lock',
+  '1f514 bell',
+  '1f515 no_bell bell_with_cancellation_stroke',
+  '1f516 bookmark',
+  '1f517 link link_symbol',
+  '1f518 radio_button',
+  '1f519 back back_with_leftwards_arrow_above',
+  '1f51a end end_with_leftwards_arrow_above',
+  '1f51b on on_with_exclamation_mark_with_left_right_arrow_above',
+  '1f51c soon soon_with_rightwards_arrow_above',
+  '1f51d top top_with_upwards_arrow_above',
+  '1f51e underage no_one_under_eighteen_symbol',
+  '1f51f keycap_ten',
+  '1f520 capital_abcd input_symbol_for_latin_capital_letters',
+  '1f521 abcd input_symbol_for_latin_small_letters',
+  '1f522 1234 input_symbol_for_numbers',
+  '1f523 input_symbol_for_symbols',
+  '1f524 abc input_symbol_for_latin_letters',
+  '1f525 fire',
+  '1f526 flashlight electric_torch',
+  '1f527 wrench',
+  '1f528 hammer',
+  '1f529 nut_and_bolt',
+  '1f52a knife hocho',
+  '1f52b gun pistol',
+  '1f52c microscope',
+  '1f52d telescope',
+  '1f52e crystal_ball',
+  '1f52f six_pointed_star_with_middle_dot',
+  '1f530 beginner japanese_symbol_for_beginner',
+  '1f531 trident trident_emblem',
+  '1f532 black_square_button',
+  '1f533 white_square_button',
+  '1f534 red_circle large_red_circle',
+  '1f535 large_blue_circle blue_circle',
+  '1f536 large_orange_diamond',
+  '1f537 large_blue_diamond',
+  '1f538 small_orange_diamond',
+  '1f539 small_blue_diamond',
+  '1f53a small_red_triangle up_pointing_red_triangle',
+  '1f53b small_red_triangle_down down_pointing_red_triangle',
+  '1f53c arrow_up_small up_pointing_small_red_triangle',
+  '1f53d arrow_down_small down_pointing_small_red_triangle',
+  '1f549-fe0f om_symbol',
+  '1f54a-fe0f dove_of_peace',
+  '1f54b kaaba',
+  '1f54c mosque',
+  '1f54d synagogue',
+  '1f54e menorah_with_nine_branches',
+  '1f550 clock1 clock_face_one_oclock',
+  '1f551 clock2 clock_face_two_oclock',
+  '1f552 clock3 clock_face_three_oclock',
+  '1f553 clock4 clock_face_four_oclock',
+  '1f554 clock5 clock_face_five_oclock',
+  '1f555 clock6 clock_face_six_oclock',
+  '1f556 clock7 clock_face_seven_oclock',
+  '1f557 clock8 clock_face_eight_oclock',
+  '1f558 clock9 clock_face_nine_oclock',
+  '1f559 clock10 clock_face_ten_oclock',
+  '1f55a clock11 clock_face_eleven_oclock',
+  '1f55b clock12 clock_face_twelve_oclock',
+  '1f55c clock130 clock_face_one_thirty',
+  '1f55d clock230 clock_face_two_thirty',
+  '1f55e clock330 clock_face_three_thirty',
+  '1f55f clock430 clock_face_four_thirty',
+  '1f560 clock530 clock_face_five_thirty',
+  '1f561 clock630 clock_face_six_thirty',
+  '1f562 clock730 clock_face_seven_thirty',
+  '1f563 clock830 clock_face_eight_thirty',
+  '1f564 clock930 clock_face_nine_thirty',
+  '1f565 clock1030 clock_face_ten_thirty',
+  '1f566 clock1130 clock_face_eleven_thirty',
+  '1f567 clock1230 clock_face_twelve_thirty',
+  '1f56f-fe0f candle',
+  '1f570-fe0f mantelpiece_clock',
+  '1f573-fe0f hole',
+  '1f574-fe0f man_in_business_suit_levitating',
+  '1f575-fe0f detective sleuth_or_spy',
+  '1f576-fe0f dark_sunglasses',
+  '1f577-fe0f spider',
+  '1f578-fe0f spider_web',
+  '1f579-fe0f joystick',
+  '1f57a man_dancing',
+  '1f587-fe0f paperclips linked_paperclips',
+  '1f58a-fe0f pen lower_left_ballpoint_pen',
+  '1f58b-fe0f fountain_pen lower_left_fountain_pen',
+  '1f58c-fe0f paintbrush lower_left_paintbrush',
+  '1f58d-fe0f crayon lower_left_crayon',
+  '1f590-fe0f raised_hand_with_fingers_splayed',
+  '1f595 middle_finger fu reversed_hand_with_middle_finger_extended',
+  '1f596 vulcan_salute raised_hand_with_part_between_middle_and_ring_fingers',
+  '1f5a4 black_heart',
+  '1f5a5-fe0f desktop_computer',
+  '1f5a8-fe0f printer',
+  '1f5b1-fe0f computer_mouse three_button_mouse',
+  '1f5b2-fe0f trackball',
+  '1f5bc-fe0f framed_picture frame_with_picture',
+  '1f5c2-fe0f card_index_dividers',
+  '1f5c3-fe0f card_file_box',
+  '1f5c4-fe0f file_cabinet',
+  '1f5d1-fe0f wastebasket',
+  '1f5d2-fe0f spiral_notepad spiral_note_pad',
+  '1f5d3-fe0f spiral_calendar spiral_calendar_pad',
+  '1f5dc-fe0f compression',
+  '1f5dd-fe0f old_key',
+  '1f5de-fe0f newspaper_roll rolled_up_newspaper',
+  '1f5e1-fe0f dagger dagger_knife',
+  '1f5e3-fe0f speaking_head_in_silhouette',
+  '1f5e8-fe0f left_speech_bubble',
+  '1f5ef-fe0f right_anger_bubble',
+  '1f5f3-fe0f ballot_box ballot_box_with_ballot',
+  '1f5fa-fe0f world_map',
+  '1f5fb mount_fuji',
+  '1f5fc tokyo_tower',
+  '1f5fd statue_of_liberty',
+  '1f5fe silhouette_of_japan',
+  '1f5ff moyai',
+  '1f600 grinning grinning_face',
+  '1f601 grin grinning_face_with_smiling_eyes',
+  '1f602 joy face_with_tears_of_joy',
+  '1f603 smiley smiling_face_with_open_mouth',
+  '1f604 smile smiling_face_with_open_mouth_and_smiling_eyes',
+  '1f605 sweat_smile smiling_face_with_open_mouth_and_cold_sweat',
+  '1f606 laughing satisfied smiling_face_with_open_mouth_and_tightly_closed_eyes',
+  '1f607 innocent smiling_face_with_halo',
+  '1f608 smiling_imp smiling_face_with_horns',
+  '1f609 wink winking_face',
+  '1f60a blush smiling_face_with_smiling_eyes',
+  '1f60b yum face_savouring_delicious_food',
+  '1f60c relieved relieved_face',
+  '1f60d heart_eyes smiling_face_with_heart_shaped_eyes',
+  '1f60e sunglasses smiling_face_with_sunglasses',
+  '1f60f smirk smirking_face',
+  '1f610 neutral_face',
+  '1f611 expressionless expressionless_face',
+  '1f612 unamused unamused_face',
+  '1f613 sweat face_with_cold_sweat',
+  '1f614 pensive pensive_face',
+  '1f615 confused confused_face',
+  '1f616 confounded confounded_face',
+  '1f617 kissing kissing_face',
+  '1f618 kissing_heart face_throwing_a_kiss',
+  '1f619 kissing_smiling_eyes kissing_face_with_smiling_eyes',
+  '1f61a kissing_closed_eyes kissing_face_with_closed_eyes',
+  '1f61b stuck_out_tongue face_with_stuck_out_tongue',
+  '1f61c stuck_out_tongue_winking_eye face_with_stuck_out_tongue_and_winking_eye',
+  '1f61d stuck_out_tongue_closed_eyes face_with_stuck_out_tongue_and_tightly_closed_eyes',
+  '1f61e disappointed disappointed_face',
+  '1f61f worried worried_face',
+  '1f620 angry angry_face',
+  '1f621 rage pout pouting_face',
+  '1f622 cry crying_face',
+  '1f623 persevere persevering_face',
+  '1f624 triumph face_with_look_of_triumph',
+  '1f625 disappointed_relieved disappointed_but_relieved_face',
+  '1f626 frowning frowning_face_with_open_mouth',
+  '1f627 anguished anguished_face',
+  '1f628 fearful fearful_face',
+  '1f629 weary weary_face',
+  '1f62a sleepy sleepy_face',
+  '1f62b tired_face',
+  '1f62c grimacing grimacing_face',
+  '1f62d sob loudly_crying_face',
+  '1f62e open_mouth face_with_open_mouth',
+  '1f62f hushed hushed_face',
+  '1f630 cold_sweat face_with_open_mouth_and_cold_sweat',
+  '1f631 scream face_screaming_in_fear',
+  '1f632 astonished astonished_face',
+  '1f633 flushed flushed_face',
+  '1f634 sleeping sleeping_face',
+  '1f635 dizzy_face',
+  '1f636 no_mouth face_without_mouth',
+  '1f637 mask face_with_medical_mask',
+  '1f638 smile_cat grinning_cat_face_with_smiling_eyes',
+  '1f639 joy_cat cat_face_with_tears_of_joy',
+  '1f63a smiley_cat smiling_cat_face_with_open_mouth',
+  '1f63b heart_eyes_cat smiling_cat_face_with_heart_shaped_eyes',
+  '1f63c smirk_cat cat_face_with_wry_smile',
+  '1f63d kissing_cat kissing_cat_face_with_closed_eyes',
+  '1f63e pouting_cat pouting_cat_face',
+  '1f63f crying_cat_face',
+  '1f640 scream_cat weary_cat_face',
+  '1f641 slightly_frowning_face',
+  '1f642 slightly_smiling_face',
+  '1f643 upside_down_face',
+  '1f644 roll_eyes face_with_rolling_eyes',
+  '1f645 no_good face_with_no_good_gesture',
+  '1f646 ok_woman face_with_ok_gesture',
+  '1f647 bow person_bowing_deeply',
+  '1f648 see_no_evil see_no_evil_monkey',
+  '1f649 hear_no_evil hear_no_evil_monkey',
+  '1f64a speak_no_evil speak_no_evil_monkey',
+  '1f64b raising_hand happy_person_raising_one_hand',
+  '1f64c raised_hands person_raising_both_hands_in_celebration',
+  '1f64d person_frowning',
+  '1f64e person_with_pouting_face',
+  '1f64f pray person_with_folded_hands',
+  '1f680 rocket',
+  '1f681 helicopter',
+  '1f682 steam_locomotive',
+  '1f683 railway_car',
+  '1f684 high_speed_train',
+  '1f685 high_speed_train_with_bullet_nose',
+  '1f686 train2 train',
+  '1f687 metro',
+  '1f688 light_rail',
+  '1f689 station',
+  '1f68a tram',
+  '1f68b tram_car',
+  '1f68c bus',
+  '1f68d oncoming_bus',
+  '1f68e trolleybus',
+  '1f68f bus_stop',
+  '1f690 minibus',
+  '1f691 ambulance',
+  '1f692 fire_engine',
+  '1f693 police_car',
+  '1f694 oncoming_police_car',
+  '1f695 taxi',
+  '1f696 oncoming_taxi',
+  '1f697 car red_car automobile',
+  '1f698 oncoming_automobile',
+  '1f699 blue_car recreational_vehicle',
+  '1f69a truck delivery_truck',
+  '1f69b articulated_lorry',
+  '1f69c tractor',
+  '1f69d monorail',
+  '1f69e mountain_railway',
+  '1f69f suspension_railway',
+  '1f6a0 mountain_cableway',
+  '1f6a1 aerial_tramway',
+  '1f6a2 ship',
+  '1f6a3 rowboat',
+  '1f6a4 speedboat',
+  '1f6a5 traffic_light horizontal_traffic_light',
+  '1f6a6 vertical_traffic_light',
+  '1f6a7 construction construction_sign',
+  '1f6a8 rotating_light police_cars_revolving_light',
+  '1f6a9 triangular_flag_on_post',
+  '1f6aa door',
+  '1f6ab no_entry_sign',
+  '1f6ac smoking_symbol',
+  '1f6ad no_smoking no_smoking_symbol',
+  '1f6ae put_litter_in_its_place_symbol',
+  '1f6af do_not_litter_symbol',
+  '1f6b0 potable_water_symbol',
+  '1f6b1 non_potable_water_symbol',
+  '1f6b2 bike bicycle',
+  '1f6b3 no_bicycles',
+  '1f6b4 bicyclist',
+  '1f6b5 mountain_bicyclist',
+  '1f6b6 walking pedestrian',
+  '1f6b7 no_pedestrians',
+  '1f6b8 children_crossing',
+  '1f6b9 mens_symbol',
+  '1f6ba womens_symbol',
+  '1f6bb restroom',
+  '1f6bc baby_symbol',
+  '1f6bd toilet',
+  '1f6be water_closet',
+  '1f6bf shower',
+  '1f6c0 bath',
+  '1f6c1 bathtub',
+  '1f6c2 passport_control',
+  '1f6c3 customs',
+  '1f6c4 baggage_claim',
+  '1f6c5 left_luggage',
+  '1f6cb-fe0f couch_and_lamp',
+  '1f6cc sleeping_bed sleeping_accommodation',
+  '1f6cd-fe0f shopping shopping_bags',
+  '1f6ce-fe0f bellhop_bell',
+  '1f6cf-fe0f bed',
+  '1f6d0 place_of_worship',
+  '1f6d1 octagonal_sign',
+  '1f6d2 shopping_cart shopping_trolley',
+  '1f6d5 hindu_temple',
+  '1f6d6 hut',
+  '1f6d7 elevator',
+  '1f6dd playground_slide',
+  '1f6de wheel',
+  '1f6df ring_buoy',
+  '1f6e0-fe0f hammer_and_wrench',
+  '1f6e1-fe0f shield',
+  '1f6e2-fe0f oil_drum',
+  '1f6e3-fe0f motorway',
+  '1f6e4-fe0f railway_track',
+  '1f6e5-fe0f motor_boat',
+  '1f6e9-fe0f small_airplane',
+  '1f6eb flight_departure airplane_departure',
+  '1f6ec flight_arrival airplane_arriving',
+  '1f6f0-fe0f artificial_satellite',
+  '1f6f3-fe0f passenger_ship',
+  '1f6f4 kick_scooter scooter',
+  '1f6f5 motor_scooter',
+  '1f6f6 canoe',
+  '1f6f7 sled',
+  '1f6f8 flying_saucer',
+  '1f6f9 skateboard',
+  '1f6fa auto_rickshaw',
+  '1f6fb pickup_truck',
+  '1f6fc roller_skate',
+  '1f7e0 orange_circle large_orange_circle',
+  '1f7e1 yellow_circle large_yellow_circle',
+  '1f7e2 green_circle large_green_circle',
+  '1f7e3 purple_circle large_purple_circle',
+  '1f7e4 brown_circle large_brown_circle',
+  '1f7e5 red_square large_red_square',
+  '1f7e6 blue_square large_blue_square',
+  '1f7e7 orange_square large_orange_square',
+  '1f7e8 yellow_square large_yellow_square',
+  '1f7e9 green_square large_green_square',
+  '1f7ea purple_square large_purple_square',
+  '1f7eb brown_square large_brown_square',
+  '1f7f0 heavy_equals_sign',
+  '1f90c pinched_fingers',
+  '1f90d white_heart',
+  '1f90e brown_heart',
+  '1f90f pinching_hand',
+  '1f910 zipper_mouth_face',
+  '1f911 money_mouth_face',
+  '1f912 face_with_thermometer',
+  '1f913 nerd_face',
+  '1f914 thinking thinking_face',
+  '1f915 face_with_head_bandage',
+  '1f916 robot robot_face',
+  '1f917 hugs hugging_face',
+  '1f918 metal sign_of_the_horns',
+  '1f919 call_me_hand',
+  '1f91a raised_back_of_hand',
+  '1f91b fist_left left_facing_fist',
+  '1f91c fist_right right_facing_fist',
+  '1f91d handshake',
+  '1f91e crossed_fingers hand_with_index_and_middle_fingers_crossed',
+  '1f91f love_you_gesture i_love_you_hand_sign',
+  '1f920 cowboy_hat_face face_with_cowboy_hat',
+  '1f921 clown_face',
+  '1f922 nauseated_face',
+  '1f923 rofl rolling_on_the_floor_laughing',
+  '1f924 drooling_face',
+  '1f925 lying_face',
+  '1f926 facepalm face_palm',
+  '1f927 sneezing_face',
+  '1f928 raised_eyebrow face_with_one_eyebrow_raised',
+  '1f929 star_struck grinning_face_with_star_eyes',
+  '1f92a zany_face grinning_face_with_one_large_and_one_small_eye',
+  '1f92b shushing_face face_with_finger_covering_closed_lips',
+  '1f92c cursing_face serious_face_with_symbols_covering_mouth',
+  '1f92d hand_over_mouth smiling_face_with_smiling_eyes_and_hand_covering_mouth',
+  '1f92e vomiting_face face_with_open_mouth_vomiting',
+  '1f92f exploding_head shocked_face_with_exploding_head',
+  '1f930 pregnant_woman',
+  '1f931 breast_feeding',
+  '1f932 palms_up_together',
+  '1f933 selfie',
+  '1f934 prince',
+  '1f935 man_in_tuxedo',
+  '1f936 mrs_claus mother_christmas',
+  '1f937 shrug',
+  '1f938 person_doing_cartwheel',
+  '1f939 juggling',
+  '1f93a fencer',
+  '1f93c wrestlers',
+  '1f93d water_polo',
+  '1f93e handball',
+  '1f93f diving_mask',
+  '1f940 wilted_flower',
+  '1f941 drum drum_with_drumsticks',
+  '1f942 clinking_glasses',
+  '1f943 tumbler_glass',
+  '1f944 spoon',
+  '1f945 goal_net',
+  '1f947 1st_place_medal first_place_medal',
+  '1f948 2nd_place_medal second_place_medal',
+  '1f949 3rd_place_medal third_place_medal',
+  '1f94a boxing_glove',
+  '1f94b martial_arts_uniform',
+  '1f94c curling_stone',
+  '1f94d lacrosse_stick_and_ball',
+  '1f94e softball',
+  '1f94f flying_disc',
+  '1f950 croissant',
+  '1f951 avocado',
+  '1f952 cucumber',
+  '1f953 bacon',
+  '1f954 potato',
+  '1f955 carrot',
+  '1f956 baguette_bread',
+  '1f957 green_salad',
+  '1f958 shallow_pan_of_food',
+  '1f959 stuffed_flatbread',
+  '1f95a egg',
+  '1f95b milk_glass glass_of_milk',
+  '1f95c peanuts',
+  '1f95d kiwi_fruit kiwifruit',
+  '1f95e pancakes',
+  '1f95f dumpling',
+  '1f960 fortune_cookie',
+  '1f961 takeout_box',
+  '1f962 chopsticks',
+  '1f963 bowl_with_spoon',
+  '1f964 cup_with_straw',
+  '1f965 coconut',
+  '1f966 broccoli',
+  '1f967 pie',
+  '1f968 pretzel',
+  '1f969 cut_of_meat',
+  '1f96a sandwich',
+  '1f96b canned_food',
+  '1f96c leafy_green',
+  '1f96d mango',
+  '1f96e moon_cake',
+  '1f96f bagel',
+  '1f970 smiling_face_with_three_hearts smiling_face_with_smiling_eyes_and_three_hearts',
+  '1f971 yawning_face',
+  '1f972 smiling_face_with_tear',
+  '1f973 partying_face face_with_party_horn_and_party_hat',
+  '1f974 woozy_face face_with_uneven_eyes_and_wavy_mouth',
+  '1f975 hot_face overheated_face',
+  '1f976 cold_face freezing_face',
+  '1f977 ninja',
+  '1f978 disguised_face',
+  '1f979 face_holding_back_tears',
+  '1f97a pleading_face face_with_pleading_eyes',
+  '1f97b sari',
+  '1f97c lab_coat',
+  '1f97d goggles',
+  '1f97e hiking_boot',
+  '1f97f flat_shoe',
+  '1f980 crab',
+  '1f981 lion lion_face',
+  '1f982 scorpion',
+  '1f983 turkey',
+  '1f984 unicorn unicorn_face',
+  '1f985 eagle',
+  '1f986 duck',
+  '1f987 bat',
+  '1f988 shark',
+  '1f989 owl',
+  '1f98a fox_face',
+  '1f98b butterfly',
+  '1f98c deer',
+  '1f98d gorilla',
+  '1f98e lizard',
+  '1f98f rhinoceros',
+  '1f990 shrimp',
+  '1f991 squid',
+  '1f992 giraffe giraffe_face',
+  '1f993 zebra_face',
+  '1f994 hedgehog',
+  '1f995 sauropod',
+  '1f996 t-rex t_rex',
+  '1f997 cricket',
+  '1f998 kangaroo',
+  '1f999 llama',
+  '1f99a peacock',
+  '1f99b hippopotamus',
+  '1f99c parrot',
+  '1f99d raccoon',
+  '1f99e lobster',
+  '1f99f mosquito',
+  '1f9a0 microbe',
+  '1f9a1 badger',
+  '1f9a2 swan',
+  '1f9a3 mammoth',
+  '1f9a4 dodo',
+  '1f9a5 sloth',
+  '1f9a6 otter',
+  '1f9a7 orangutan',
+  '1f9a8 skunk',
+  '1f9a9 flamingo',
+  '1f9aa oyster',
+  '1f9ab beaver',
+  '1f9ac bison',
+  '1f9ad seal',
+  '1f9ae guide_dog',
+  '1f9af probing_cane',
+  '1f9b0 emoji_component_red_hair',
+  '1f9b1 emoji_component_curly_hair',
+  '1f9b2 emoji_component_bald',
+  '1f9b3 emoji_component_white_hair',
+  '1f9b4 bone',
+  '1f9b5 leg',
+  '1f9b6 foot',
+  '1f9b7 tooth',
+  '1f9b8 superhero',
+  '1f9b9 supervillain',
+  '1f9ba safety_vest',
+  '1f9bb ear_with_hearing_aid',
+  '1f9bc motorized_wheelchair',
+  '1f9bd manual_wheelchair',
+  '1f9be mechanical_arm',
+  '1f9bf mechanical_leg',
+  '1f9c0 cheese cheese_wedge',
+  '1f9c1 cupcake',
+  '1f9c2 salt_shaker',
+  '1f9c3 beverage_box',
+  '1f9c4 garlic',
+  '1f9c5 onion',
+  '1f9c6 falafel',
+  '1f9c7 waffle',
+  '1f9c8 butter',
+  '1f9c9 mate_drink',
+  '1f9ca ice_cube',
+  '1f9cb bubble_tea',
+  '1f9cc troll',
+  '1f9cd standing_person',
+  '1f9ce kneeling_person',
+  '1f9cf deaf_person',
+  '1f9d0 monocle_face face_with_monocle',
+  '1f9d1 adult',
+  '1f9d2 child',
+  '1f9d3 older_adult',
+  '1f9d4 bearded_person',
+  '1f9d5 person_with_headscarf',
+  '1f9d6 person_in_steamy_room',
+  '1f9d7 person_climbing',
+  '1f9d8 person_in_lotus_position',
+  '1f9d9 mage',
+  '1f9da fairy',
+  '1f9db vampire',
+  '1f9dc merperson',
+  '1f9dd elf',
+  '1f9de genie',
+  '1f9df zombie',
+  '1f9e0 brain',
+  '1f9e1 orange_heart',
+  '1f9e2 billed_cap',
+  '1f9e3 scarf',
+  '1f9e4 gloves',
+  '1f9e5 coat',
+  '1f9e6 socks',
+  '1f9e7 red_gift_envelope',
+  '1f9e8 firecracker',
+  '1f9e9 jigsaw jigsaw_puzzle_piece',
+  '1f9ea test_tube',
+  '1f9eb petri_dish',
+  '1f9ec dna dna_double_helix',
+  '1f9ed compass',
+  '1f9ee abacus',
+  '1f9ef fire_extinguisher',
+  '1f9f0 toolbox',
+  '1f9f1 brick',
+  '1f9f2 magnet',
+  '1f9f3 luggage',
+  '1f9f4 lotion_bottle',
+  '1f9f5 spool_of_thread',
+  '1f9f6 ball_of_yarn',
+  '1f9f7 safety_pin',
+  '1f9f8 teddy_bear',
+  '1f9f9 broom',
+  '1f9fa basket',
+  '1f9fb roll_of_paper',
+  '1f9fc bar_of_soap',
+  '1f9fd sponge',
+  '1f9fe receipt',
+  '1f9ff nazar_amulet',
+  '1fa70 ballet_shoes',
+  '1fa71 one_piece_swimsuit',
+  '1fa72 briefs',
+  '1fa73 shorts',
+  '1fa74 thong_sandal',
+  '1fa78 drop_of_blood',
+  '1fa79 adhesive_bandage',
+  '1fa7a stethoscope',
+  '1fa7b x_ray',
+  '1fa7c crutch',
+  '1fa80 yo_yo',
+  '1fa81 kite',
+  '1fa82 parachute',
+  '1fa83 boomerang',
+  '1fa84 magic_wand',
+  '1fa85 pinata',
+  '1fa86 nesting_dolls',
+  '1fa90 ringed_planet',
+  '1fa91 chair',
+  '1fa92 razor',
+  '1fa93 axe',
+  '1fa94 diya_lamp',
+  '1fa95 banjo',
+  '1fa96 military_helmet',
+  '1fa97 accordion',
+  '1fa98 long_drum',
+  '1fa99 coin',
+  '1fa9a carpentry_saw',
+  '1fa9b screwdriver',
+  '1fa9c ladder',
+  '1fa9d hook',
+  '1fa9e mirror',
+  '1fa9f window',
+  '1faa0 plunger',
+  '1faa1 sewing_needle',
+  '1faa2 knot',
+  '1faa3 bucket',
+  '1faa4 mouse_trap',
+  '1faa5 toothbrush',
+  '1faa6 headstone',
+  '1faa7 placard',
+  '1faa8 rock',
+  '1faa9 mirror_ball',
+  '1faaa identification_card',
+  '1faab low_battery',
+  '1faac hamsa',
+  '1fab0 fly',
+  '1fab1 worm',
+  '1fab2 beetle',
+  '1fab3 cockroach',
+  '1fab4 potted_plant',
+  '1fab5 wood',
+  '1fab6 feather',
+  '1fab7 lotus',
+  '1fab8 coral',
+  '1fab9 empty_nest',
+  '1faba nest_with_eggs',
+  '1fac0 anatomical_heart',
+  '1fac1 lungs',
+  '1fac2 people_hugging',
+  '1fac3 pregnant_man',
+  '1fac4 pregnant_person',
+  '1fac5 person_with_crown',
+  '1fad0 blueberries',
+  '1fad1 bell_pepper',
+  '1fad2 olive',
+  '1fad3 flatbread',
+  '1fad4 tamale',
+  '1fad5 fondue',
+  '1fad6 teapot',
+  '1fad7 pouring_liquid',
+  '1fad8 beans',
+  '1fad9 jar',
+  '1fae0 melting_face',
+  '1fae1 saluting_face',
+  '1fae2 face_with_open_eyes_and_hand_over_mouth',
+  '1fae3 face_with_peeking_eye',
+  '1fae4 face_with_diagonal_mouth',
+  '1fae5 dotted_line_face',
+  '1fae6 biting_lip',
+  '1fae7 bubbles',
+  '1faf0 hand_with_index_finger_and_thumb_crossed',
+  '1faf1 rightwards_hand',
+  '1faf2 leftwards_hand',
+  '1faf3 palm_down_hand',
+  '1faf4 palm_up_hand',
+  '1faf5 index_pointing_at_the_viewer',
+  '1faf6 heart_hands',
+  '0030-fe0f-20e3 zero keycap_0',
+  '0031-fe0f-20e3 one keycap_1',
+  '0032-fe0f-20e3 two keycap_2',
+  '0033-fe0f-20e3 three keycap_3',
+  '0034-fe0f-20e3 four keycap_4',
+  '0035-fe0f-20e3 five keycap_5',
+  '0036-fe0f-20e3 six keycap_6',
+  '0037-fe0f-20e3 seven keycap_7',
+  '0038-fe0f-20e3 eight keycap_8',
+  '0039-fe0f-20e3 nine keycap_9',
+  '0023-fe0f-20e3 hash keycap_hash',
+  '002a-fe0f-20e3 asterisk keycap_asterisk',
+  '1f9d1-200d-1f4bb technologist',
+  '1f469-200d-1f4bb woman_technologist',
+  '1f468-200d-1f4bb man_technologist',
+  '1f9d1-200d-1f52c scientist',
+  '1f469-200d-1f52c woman_scientist',
+  '1f468-200d-1f52c man_scientist',
+  '1f9d1-200d-1f3eb teacher',
+  '1f469-200d-1f3eb woman_teacher',
+  '1f468-200d-1f3eb man_teacher',
+  '1f9d1-200d-1f373 cook',
+  '1f469-200d-1f373 woman_cook',
+  '1f468-200d-1f373 man_cook',
+  '1f9d1-200d-1f680 astronaut',
+  '1f469-200d-1f680 woman_astronaut',
+  '1f468-200d-1f680 man_astronaut',
+  '1f9d1-200d-1f692 firefighter',
+  '1f469-200d-1f692 woman_firefighter',
+  '1f468-200d-1f692 man_firefighter',
+  '1f9d1-200d-1f3a8 artist',
+  '1f469-200d-1f3a8 woman_artist',
+  '1f468-200d-1f3a8 man_artist',
+  '1f9d1-200d-1f4bc office_worker',
+  '1f469-200d-1f4bc woman_office_worker',
+  '1f468-200d-1f4bc man_office_worker',
+  '1f9d1-200d-1f527 mechanic',
+  '1f469-200d-1f527 woman_mechanic',
+  '1f468-200d-1f527 man_mechanic',
+  '1f9d1-200d-1f393 student',
+  '1f469-200d-1f393 woman_student',
+  '1f468-200d-1f393 man_student',
+  '1f937-200d-2642-fe0f man_shrugging',
+  '1f937-200d-2640-fe0f woman_shrugging',
+  '1f926-200d-2642-fe0f man_facepalming',
+  '1f926-200d-2640-fe0f woman_facepalming',
+  '1f3c3-200d-2642-fe0f man_running',
+  '1f3c3-200d-2640-fe0f woman_running',
+  '1f9d1-200d-1f91d-200d-1f9d1 people_holding_hands',
+  '1f468-200d-1f469-200d-1f466 family_man_woman_boy',
+  '1f441-fe0f-200d-1f5e8-fe0f eye_speech_bubble',
+  '2764-fe0f-200d-1f525 heart_on_fire',
+  '2764-fe0f-200d-1fa79 mending_heart',
+  '1f62e-200d-1f4a8 face_exhaling',
+  '1f635-200d-1f4ab face_with_spiral_eyes',
+  '1f636-200d-1f32b-fe0f face_in_clouds',
+  '1f415-200d-1f9ba service_dog',
+  '1f408-200d-2b1b black_cat',
+  '1f43b-200d-2744-fe0f polar_bear',
+  '1f3f3-fe0f-200d-1f308 rainbow_flag',
+  '1f3f4-200d-2620-fe0f pirate_flag',
+  '1f3f4-e0067-e0062-e0065-e006e-e0067-e007f england',
+  '1f3f4-e0067-e0062-e0073-e0063-e0074-e007f scotland',
+  '1f3f4-e0067-e0062-e0077-e006c-e0073-e007f wales'
+];
+
+/**
+ * Emoji that accept a skin tone modifier, exposed as `:<name>_tone1:` through `:<name>_tone5:`
+ */
+export const SKIN_TONE_EMOJI: readonly string[] = [
+  '261d', '26f9', '270a', '270b', '270c', '270d', '1f385', '1f3c2', '1f3c3', '1f3c4',
+  '1f3c7', '1f3ca', '1f3cb', '1f3cc', '1f442', '1f443', '1f446', '1f447', '1f448', '1f449',
+  '1f44a', '1f44b', '1f44c', '1f44d', '1f44e', '1f44f', '1f450', '1f466', '1f467', '1f468',
+  '1f469', '1f46b', '1f46c', '1f46d', '1f46e', '1f470', '1f471', '1f472', '1f473', '1f474',
+  '1f475', '1f476', '1f477', '1f478', '1f47c', '1f481', '1f482', '1f483', '1f485', '1f486',
+  '1f487', '1f48f', '1f491', '1f4aa', '1f574', '1f575', '1f57a', '1f590', '1f595', '1f596',
+  '1f645', '1f646', '1f647', '1f64b', '1f64c', '1f64d', '1f64e', '1f64f', '1f6a3', '1f6b4',
+  '1f6b5', '1f6b6', '1f6c0', '1f6cc', '1f90c', '1f90f', '1f918', '1f919', '1f91a', '1f91b',
+  '1f91c', '1f91d', '1f91e', '1f91f', '1f926', '1f930', '1f931', '1f932', '1f933', '1f934',
+  '1f935', '1f936', '1f937', '1f938', '1f939', '1f93d', '1f93e', '1f977', '1f9b5', '1f9b6',
+  '1f9b8', '1f9b9', '1f9bb', '1f9cd', '1f9ce', '1f9cf', '1f9d1', '1f9d2', '1f9d3', '1f9d4',
+  '1f9d5', '1f9d6', '1f9d7', '1f9d8', '1f9d9', '1f9da', '1f9db', '1f9dc', '1f9dd', '1fac3',
+  '1fac4', '1fac5', '1faf0', '1faf1', '1faf2', '1faf3', '1faf4', '1faf5', '1faf6'
+];
+
+/**
+ * Regions with a recommended flag sequence, exposed as `:flag_<region>:`
+ */
+export const FLAG_REGIONS: readonly string[] = [
+  'ac', 'ad', 'ae', 'af', 'ag', 'ai', 'al', 'am', 'ao', 'aq', 'ar', 'as', 'at', 'au', 'aw', 'ax',
+  'az', 'ba', 'bb', 'bd', 'be', 'bf', 'bg', 'bh', 'bi', 'bj', 'bl', 'bm', 'bn', 'bo', 'bq', 'br',
+  'bs', 'bt', 'bv', 'bw', 'by', 'bz', 'ca', 'cc', 'cd', 'cf', 'cg', 'ch', 'ci', 'ck', 'cl', 'cm',
+  'cn', 'co', 'cp', 'cq', 'cr', 'cu', 'cv', 'cw', 'cx', 'cy', 'cz', 'de', 'dg', 'dj', 'dk', 'dm',
+  'do', 'dz', 'ea', 'ec', 'ee', 'eg', 'eh', 'er', 'es', 'et', 'eu', 'fi', 'fj', 'fk', 'fm', 'fo',
+  'fr', 'ga', 'gb', 'gd', 'ge', 'gf', 'gg', 'gh', 'gi', 'gl', 'gm', 'gn', 'gp', 'gq', 'gr', 'gs',
+  'gt', 'gu', 'gw', 'gy', 'hk', 'hm', 'hn', 'hr', 'ht', 'hu', 'ic', 'id', 'ie', 'il', 'im', 'in',
+  'io', 'iq', 'ir', 'is', 'it', 'je', 'jm', 'jo', 'jp', 'ke', 'kg', 'kh', 'ki', 'km', 'kn', 'kp',
+  'kr', 'kw', 'ky', 'kz', 'la', 'lb', 'lc', 'li', 'lk', 'lr', 'ls', 'lt', 'lu', 'lv', 'ly', 'ma',
+  'mc', 'md', 'me', 'mf', 'mg', 'mh', 'mk', 'ml', 'mm', 'mn', 'mo', 'mp', 'mq', 'mr', 'ms', 'mt',
+  'mu', 'mv', 'mw', 'mx', 'my', 'mz', 'na', 'nc', 'ne', 'nf', 'ng', 'ni', 'nl', 'no', 'np', 'nr',
+  'nu', 'nz', 'om', 'pa', 'pe', 'pf', 'pg', 'ph', 'pk', 'pl', 'pm', 'pn', 'pr', 'ps', 'pt', 'pw',
+  'py', 'qa', 're', 'ro', 'rs', 'ru', 'rw', 'sa', 'sb', 'sc', 'sd', 'se', 'sg', 'sh', 'si', 'sj',
+  'sk', 'sl', 'sm', 'sn', 'so', 'sr', 'ss', 'st', 'sv', 'sx', 'sy', 'sz', 'ta', 'tc', 'td', 'tf',
+  'tg', 'th', 'tj', 'tk', 'tl', 'tm', 'tn', 'to', 'tr', 'tt', 'tv', 'tw', 'tz', 'ua', 'ug', 'um',
+  'un', 'us', 'uy', 'uz', 'va', 'vc', 've', 'vg', 'vi', 'vn', 'vu', 'wf', 'ws', 'xk', 'ye', 'yt',
+  'za', 'zm', 'zw'
+];
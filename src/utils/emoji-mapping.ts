@@ -3,6 +3,8 @@
  * @description Mapping of emoji shortnames to Unicode codepoints for reliable ADF format
  */
 
+import { UNICODE_EMOJI, SKIN_TONE_EMOJI, FLAG_REGIONS } from './emoji-data.js';
+
 export interface EmojiData {
   shortName: string; // Shortname (e.g., ":grinning:")
   text: string;      // Unicode character (e.g., "😀")
@@ -10,64 +12,113 @@ export interface EmojiData {
 }
 
 /**
- * Common emoji mappings for ADF format
- * Following official Atlassian documentation structure for Unicode emojis
+ * Site-specific custom emoji. These have an id assigned by the site and no Unicode character.
  */
-export const EMOJI_MAP: Record<string, EmojiData> = {
-  // Smileys & People
-  'grinning': { shortName: ':grinning:', text: '😀' },
-  'smiley': { shortName: ':smiley:', text: '😃' },
-  'smile': { shortName: ':smile:', text: '😄' },
-  'grin': { shortName: ':grin:', text: '😁' },
-  'laughing': { shortName: ':laughing:', text: '😆' },
-  'wink': { shortName: ':wink:', text: '😉' },
-  'blush': { shortName: ':blush:', text: '😊' },
-  'slightly_smiling_face': { shortName: ':slightly_smiling_face:', text: '🙂' },
-  
-  // Objects & Symbols
-  'star': { shortName: ':star:', text: '⭐' },
-  'thumbsup': { shortName: ':thumbsup:', text: '👍' },
-  '+1': { shortName: ':+1:', text: '👍' },
-  'thumbsdown': { shortName: ':thumbsdown:', text: '👎' },
-  '-1': { shortName: ':-1:', text: '👎' },
-  'heart': { shortName: ':heart:', text: '❤️' },
-  'fire': { shortName: ':fire:', text: '🔥' },
-  'rocket': { shortName: ':rocket:', text: '🚀' },
-  'tada': { shortName: ':tada:', text: '🎉' },
-  'warning': { shortName: ':warning:', text: '⚠️' },
-  'x': { shortName: ':x:', text: '❌' },
-  'white_check_mark': { shortName: ':white_check_mark:', text: '✅' },
-  'heavy_check_mark': { shortName: ':heavy_check_mark:', text: '✔️' },
-  'clapping_hands': { shortName: ':clapping_hands:', text: '👏' },
-  'muscle': { shortName: ':muscle:', text: '💪' },
-  'handshake': { shortName: ':handshake:', text: '🤝' },
-  'trophy': { shortName: ':trophy:', text: '🏆' },
-  'memo': { shortName: ':memo:', text: '📝' },
-  'calendar': { shortName: ':calendar:', text: '📅' },
-  
-  // Nature
-  'sunny': { shortName: ':sunny:', text: '☀️' },
-  'cloud': { shortName: ':cloud:', text: '☁️' },
-  'umbrella': { shortName: ':umbrella:', text: '☔' },
-  'snowflake': { shortName: ':snowflake:', text: '❄️' },
-  
-  // Food
-  'coffee': { shortName: ':coffee:', text: '☕' },
-  'pizza': { shortName: ':pizza:', text: '🍕' },
-  'hamburger': { shortName: ':hamburger:', text: '🍔' },
-  
-  // Activities
-  'soccer': { shortName: ':soccer:', text: '⚽' },
-  'basketball': { shortName: ':basketball:', text: '🏀' },
-  'football': { shortName: ':football:', text: '🏈' }
-};
+export interface CustomEmoji {
+  shortName: string; // With or without colons (e.g., ":partyparrot:" or "partyparrot")
+  id: string;        // Site emoji id (e.g., "atlassian-partyparrot")
+  text?: string;     // Fallback text; defaults to the shortname
+}
+
+/**
+ * Pluggable lookup for custom emoji, consulted before the Unicode dataset
+ */
+export interface EmojiRegistry {
+  getEmoji(shortName: string): EmojiData | null | undefined;
+}
+
+const SKIN_TONE_MODIFIERS = ['1f3fb', '1f3fc', '1f3fd', '1f3fe', '1f3ff'];
+const REGIONAL_INDICATOR_A = 0x1f1e6;
+
+// Candidate emoji sequences in running text: flags, keycaps, tag sequences and ZWJ/modifier sequences.
+// Matches are only converted when they are in the dataset.
+const EMOJI_SEQUENCE_PATTERN = /\u{1F3F4}[\u{E0061}-\u{E007A}]+\u{E007F}|\p{Regional_Indicator}{2}|[#*0-9]\uFE0F\u20E3|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*/gu;
+
+function codepointsToText(codepoints: string[]): string {
+  return String.fromCodePoint(...codepoints.map(hex => parseInt(hex, 16)));
+}
+
+function normalizeShortName(shortName: string): string {
+  return shortName.replace(/^:/, '').replace(/:$/, '');
+}
+
+/**
+ * Expand the dataset into a shortname lookup and a reverse lookup by emoji text
+ */
+function buildEmojiMaps(): { byName: Record<string, EmojiData>; byText: Map<string, EmojiData> } {
+  const byName: Record<string, EmojiData> = {};
+  const byText = new Map<string, EmojiData>();
+  const toneBases = new Set(SKIN_TONE_EMOJI);
+
+  const addEmoji = (codepoints: string[], names: string[]) => {
+    const text = codepointsToText(codepoints);
+
+    // Standard Unicode emoji omit the id, per the Atlassian emoji node documentation
+    for (const name of names) {
+      byName[name] = { shortName: `:${name}:`, text };
+    }
+
+    // The first name is the preferred one; sequences also match when typed without U+FE0F
+    byText.set(text, byName[names[0]]);
+    const unqualified = text.replace(/\uFE0F/g, '');
+    if (unqualified !== text && [...unqualified].length > 1 && !byText.has(unqualified)) {
+      byText.set(unqualified, byName[names[0]]);
+    }
+  };
+
+  for (const entry of UNICODE_EMOJI) {
+    const [sequence, ...names] = entry.split(' ');
+    const codepoints = sequence.split('-');
+    addEmoji(codepoints, names);
+
+    if (codepoints.length <= 2 && toneBases.has(codepoints[0])) {
+      SKIN_TONE_MODIFIERS.forEach((modifier, index) => {
+        addEmoji([codepoints[0], modifier], names.map(name => `${name}_tone${index + 1}`));
+      });
+    }
+  }
+
+  for (const region of FLAG_REGIONS) {
+    const codepoints = [...region].map(letter => (REGIONAL_INDICATOR_A + letter.charCodeAt(0) - 97).toString(16));
+    addEmoji(codepoints, [`flag_${region}`]);
+  }
+
+  return { byName, byText };
+}
+
+const { byName, byText } = buildEmojiMaps();
+
+/**
+ * Unicode emoji keyed by shortname (without colons), including aliases,
+ * skin tone variants (`thumbsup_tone2`) and flags (`flag_us`)
+ */
+export const EMOJI_MAP: Record<string, EmojiData> = byName;
 
 /**
  * Get emoji data by shortname (without colons)
  */
 export function getEmojiData(shortName: string): EmojiData | null {
-  const normalizedName = shortName.replace(/^:/, '').replace(/:$/, '');
-  return EMOJI_MAP[normalizedName] || null;
+  return EMOJI_MAP[normalizeShortName(shortName)] || null;
+}
+
+/**
+ * Get emoji data for a raw Unicode emoji (e.g., "🚀"), using its preferred shortname
+ */
+export function getEmojiDataByText(text: string): EmojiData | null {
+  return byText.get(text) || null;
+}
+
+/**
+ * Find the first Unicode emoji in the dataset within a run of text
+ */
+export function findUnicodeEmoji(text: string): { index: number; match: string; emoji: EmojiData } | null {
+  for (const match of text.matchAll(EMOJI_SEQUENCE_PATTERN)) {
+    const emoji = getEmojiDataByText(match[0]);
+    if (emoji && match.index !== undefined) {
+      return { index: match.index, match: match[0], emoji };
+    }
+  }
+  return null;
 }
 
 /**
@@ -75,10 +126,33 @@ export function getEmojiData(shortName: string): EmojiData | null {
  */
 export function createFallbackEmojiData(shortName: string): EmojiData {
   const normalizedShortName = shortName.startsWith(':') ? shortName : `:${shortName}:`;
-  
+
   return {
     shortName: normalizedShortName,
     text: normalizedShortName, // Show shortname as text fallback
     id: shortName.replace(/[^a-zA-Z0-9]/g, '') // Use shortname as fallback ID for non-Unicode
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Create a registry from a list of site custom emoji
+ */
+export function createEmojiRegistry(emojis: CustomEmoji[]): EmojiRegistry {
+  const entries = new Map<string, EmojiData>();
+  for (const emoji of emojis) {
+    const shortName = `:${normalizeShortName(emoji.shortName)}:`;
+    entries.set(shortName, { shortName, id: emoji.id, text: emoji.text ?? shortName });
+  }
+
+  return {
+    getEmoji: (shortName: string) => entries.get(`:${normalizeShortName(shortName)}:`) || null
+  };
+}
+
+/**
+ * Resolve a shortname against the custom registry, then the Unicode dataset,
+ * falling back to a shortname-only emoji
+ */
+export function resolveEmoji(shortName: string, registry?: EmojiRegistry): EmojiData {
+  return registry?.getEmoji(shortName) || getEmojiData(shortName) || createFallbackEmojiData(shortName);
+}
@@ -0,0 +1,96 @@
+/**
+ * @file Fence block utilities
+ * @description Helpers for emitting ADF fence blocks that can be nested inside each other
+ */
+
+const MIN_FENCE_LENGTH = 3;
+
+/**
+ * Names of the ADF fence blocks (`~~~panel`, `~~~layout`, ...) that parse to ADF nodes
+ */
+export const ADF_FENCE_TYPES: readonly string[] = [
+  'panel', 'expand', 'nestedExpand', 'mediaSingle', 'mediaGroup', 'decisions',
+  'layout', 'column', 'extension', 'bodiedExtension',
+  'table', 'row', 'header', 'cell'
+];
+
+/**
+ * Get a tilde fence marker long enough to wrap the given content.
+ * A fence only closes on a marker at least as long as its opener, so the
+ * marker must be longer than any tilde fence already present in the content.
+ */
+export function getFenceMarker(content: string): string {
+  let longest = 0;
+
+  for (const match of content.matchAll(/^[ \t]*(~{3,})/gm)) {
+    longest = Math.max(longest, match[1].length);
+  }
+
+  return '~'.repeat(Math.max(MIN_FENCE_LENGTH, longest + 1));
+}
+
+/**
+ * Wrap content in an ADF fence block (`~~~name attrs`), lengthening the
+ * fence marker when the content contains nested fences
+ */
+export function wrapInFence(name: string, attributes: string, content: string): string {
+  const marker = getFenceMarker(content);
+  const header = attributes ? `${marker}${name} ${attributes}` : `${marker}${name}`;
+  return `${header}\n${content}\n${marker}`;
+}
+
+/**
+ * Format a node-level breakout mark as fence attributes (`breakout=wide breakoutWidth=1200`)
+ */
+export function formatBreakoutAttributes(marks?: Array<{ type: string; attrs?: Record<string, unknown> }>): string {
+  const breakout = marks?.find(mark => mark.type === 'breakout');
+  const mode = breakout?.attrs?.mode;
+  if (typeof mode !== 'string') {
+    return '';
+  }
+
+  const width = breakout?.attrs?.width;
+  return typeof width === 'number' ? `breakout=${mode} breakoutWidth=${width}` : `breakout=${mode}`;
+}
+
+/**
+ * Custom panel attributes that are written as short fence attributes
+ * (`~~~panel type=custom icon=:rocket: color=#E3FCEF`), keyed by fence name
+ */
+export const PANEL_FENCE_ATTRIBUTES: Record<string, string> = {
+  icon: 'panelIcon',
+  iconId: 'panelIconId',
+  iconText: 'panelIconText',
+  color: 'panelColor'
+};
+
+/**
+ * Whether a value can be written as a fence attribute. A value with both quote types can't be
+ * quoted, so it goes in the `attrs='{...}'` JSON attribute instead.
+ */
+export function canFormatFenceAttributeValue(value: unknown): boolean {
+  const text = String(value);
+  return !(text.includes('"') && text.includes("'"));
+}
+
+/**
+ * Format a fence attribute value, quoting it only when it contains whitespace or quotes
+ */
+export function formatFenceAttributeValue(value: unknown): string {
+  const text = String(value);
+  if (!/[\s"']/.test(text) && text !== '') {
+    return text;
+  }
+  return text.includes('"') ? `'${text}'` : `"${text}"`;
+}
+
+/**
+ * Serialize a value as JSON that is safe inside a single-quoted fence attribute. Markdown
+ * drops the backslash of `\"` and `\\` in fence info strings and inline text, so escaped
+ * quotes and backslashes are written as unicode escapes like `'` is.
+ */
+export function toSingleQuotedJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/\\(["\\])/g, (_match, char: string) => (char === '"' ? '\\u0022' : '\\u005c'))
+    .replace(/'/g, '\\u0027');
+}
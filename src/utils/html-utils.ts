@@ -0,0 +1,98 @@
+/**
+ * @file HTML rendering utilities
+ * @description Escaping, URL sanitizing and attribute helpers for the ADF to HTML converters
+ */
+
+import type { ADFMark } from '../types/adf.types.js';
+import type { HtmlConversionContext } from '../parser/types.js';
+
+type AttributeValue = string | number | boolean | null | undefined;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Schemes links and images may use; anything else (javascript:, data:, vbscript:) is dropped
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+// Hex, rgb()/rgba() and named colors
+const CSS_COLOR_PATTERN = /^(?:#[0-9a-f]{3,8}|rgba?\(\s*[\d.%]+\s*(?:,\s*[\d.%]+\s*){2,3}\)|[a-z]+)$/i;
+
+/**
+ * Escape text for use in HTML content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Return the URL if it is relative or uses a safe scheme, otherwise null
+ */
+export function sanitizeUrl(url: unknown): string | null {
+  if (typeof url !== 'string') {
+    return null;
+  }
+  // Browsers ignore control characters and whitespace inside a scheme (`java\nscript:`)
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url.replace(/[\s\p{Cc}]/gu, ''));
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase()) ? url : null;
+}
+
+/**
+ * Return the color if it is a plain CSS color value, otherwise null
+ */
+export function sanitizeColor(color: unknown): string | null {
+  return typeof color === 'string' && CSS_COLOR_PATTERN.test(color.trim()) ? color.trim() : null;
+}
+
+/**
+ * Render attributes as ` name="value"`, skipping null, undefined and false values
+ */
+export function htmlAttributes(attrs: Record<string, AttributeValue>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== null && value !== undefined && value !== false)
+    .map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escapeHtml(String(value))}"`))
+    .join('');
+}
+
+/**
+ * Prefix class names with the configured class prefix
+ */
+export function htmlClass(context: HtmlConversionContext, ...names: Array<string | false | null | undefined>): string {
+  return names.filter(Boolean).map(name => `${context.options.classPrefix}${name}`).join(' ');
+}
+
+/**
+ * Join CSS declarations, skipping empty ones. Returns undefined when there are none.
+ */
+export function htmlStyle(...declarations: Array<string | false | null | undefined>): string | undefined {
+  const style = declarations.filter(Boolean).join('; ');
+  return style || undefined;
+}
+
+/**
+ * CSS declarations for the alignment and indentation block marks
+ */
+export function blockMarkStyles(marks: ADFMark[] | undefined): string[] {
+  const styles: string[] = [];
+  for (const mark of marks || []) {
+    if (mark.type === 'alignment' && (mark.attrs?.align === 'center' || mark.attrs?.align === 'end')) {
+      styles.push(`text-align: ${mark.attrs.align === 'end' ? 'right' : 'center'}`);
+    }
+    if (mark.type === 'indentation' && Number(mark.attrs?.level) > 0) {
+      styles.push(`margin-left: ${Number(mark.attrs?.level) * 30}px`);
+    }
+  }
+  return styles;
+}
+
+/**
+ * Breakout mode of a node's breakout mark, if any
+ */
+export function breakoutMode(marks: ADFMark[] | undefined): string | undefined {
+  const mode: unknown = marks?.find(mark => mark.type === 'breakout')?.attrs?.mode;
+  return typeof mode === 'string' ? mode : undefined;
+}
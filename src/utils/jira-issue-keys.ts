@@ -0,0 +1,66 @@
+/**
+ * @file jira-issue-keys.ts
+ * @description Detection of Jira issue keys (`PROJ-123`) and mapping to and from issue URLs
+ */
+
+export interface JiraIssueLinkOptions {
+  baseUrl: string;                   // Jira site, e.g. https://example.atlassian.net
+  projectKeys?: string[];            // Only link keys of these projects (all but NON_ISSUE_PREFIXES when omitted)
+  linkType?: 'inlineCard' | 'link';  // Node written for a key (default: inlineCard)
+}
+
+// Project keys start with a letter and have at least two characters; keys inside words, paths or
+// longer identifiers (`my-PROJ-1`, `/browse/PROJ-1`, `PROJ-1-2`) are not matched
+const ISSUE_KEY_PATTERN = /(?<![\w/.-])([A-Z][A-Z0-9_]+)-([1-9]\d*)(?![\w-])/g;
+
+// Prefixes of encodings, hashes, standards and the like (`UTF-8`, `SHA-256`, `ISO-8601`) that read as
+// issue keys; only linked when listed in `projectKeys`
+const NON_ISSUE_PREFIXES = new Set([
+  'AES', 'CRC', 'CVE', 'CWE', 'DES', 'ECMA', 'ES', 'HMAC', 'HTTP', 'IEC', 'IEEE', 'IPV', 'ISO', 'MD',
+  'MP', 'PEP', 'RFC', 'RSA', 'SHA', 'SSL', 'TLS', 'UCS', 'UTF', 'WCAG'
+]);
+
+// Code spans and markdown links in raw inline text, which issue keys inside are not taken from
+const SKIPPED_RANGE_PATTERN = /(`+)[\s\S]*?\1|!?\[[^\]]*\]\([^)]*\)/g;
+
+function browseUrlPrefix(options: JiraIssueLinkOptions): string {
+  return `${options.baseUrl.replace(/\/+$/, '')}/browse/`;
+}
+
+function isLinkedProject(projectKey: string, options: JiraIssueLinkOptions): boolean {
+  return options.projectKeys ? options.projectKeys.includes(projectKey) : !NON_ISSUE_PREFIXES.has(projectKey);
+}
+
+/**
+ * URL of an issue on the configured Jira site
+ */
+export function getJiraIssueUrl(key: string, options: JiraIssueLinkOptions): string {
+  return browseUrlPrefix(options) + key;
+}
+
+/**
+ * Issue key of a URL on the configured Jira site, or null for other URLs and projects
+ */
+export function getJiraIssueKeyFromUrl(url: string, options: JiraIssueLinkOptions): string | null {
+  const prefix = browseUrlPrefix(options);
+  if (!url.startsWith(prefix)) {
+    return null;
+  }
+  const match = /^([A-Z][A-Z0-9_]+)-[1-9]\d*$/.exec(url.slice(prefix.length));
+  return match && isLinkedProject(match[1], options) ? match[0] : null;
+}
+
+/**
+ * Find the first issue key of a linked project in a run of text, skipping code spans and links
+ */
+export function findJiraIssueKey(text: string, options: JiraIssueLinkOptions): { index: number; key: string } | null {
+  const skipped = [...text.matchAll(SKIPPED_RANGE_PATTERN)].map(match => [match.index, match.index + match[0].length]);
+
+  for (const match of text.matchAll(ISSUE_KEY_PATTERN)) {
+    const index = match.index;
+    if (isLinkedProject(match[1], options) && !skipped.some(([start, end]) => index >= start && index < end)) {
+      return { index, key: match[0] };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,163 @@
+/**
+ * @file link-resolver.ts
+ * @description Pluggable mapping between relative markdown links and page URLs
+ */
+
+import type { Root } from 'mdast';
+import { visit } from 'unist-util-visit';
+import type { ADFDocument, ADFNode } from '../types/adf.types.js';
+import { ResolverCache, type ResolverLookup } from './resolver-cache.js';
+
+/**
+ * Link target produced for a relative markdown link
+ */
+export interface ResolvedLink {
+  href: string;         // Page URL the link points to
+  inlineCard?: boolean; // Write the link as an inlineCard instead of a link mark
+}
+
+/**
+ * Resolves link targets. Both lookups are optional and may return a value or a promise;
+ * promises are only awaited by the async conversion methods. Anchors (`#install`) are split
+ * off before the lookup and appended to the result.
+ */
+export interface LinkResolver {
+  /** Map a relative markdown link (`../guide/setup.md`) to a page URL */
+  resolvePath?(path: string): ResolverLookup<ResolvedLink> | Promise<ResolverLookup<ResolvedLink>>;
+  /** Map a link URL back to a relative markdown path */
+  resolveUrl?(url: string): ResolverLookup<string> | Promise<ResolverLookup<string>>;
+}
+
+/**
+ * A link the resolver could not map: a relative markdown path, or a URL from an ADF document
+ */
+export interface UnresolvedLink {
+  href: string;
+  source: 'markdown' | 'adf';
+}
+
+type LookupKind = 'path' | 'url';
+
+// Links with a scheme (`https:`, `mailto:`, `adf:`) or protocol-relative links are not relative paths
+const ABSOLUTE_LINK_PATTERN = /^(?:[a-z][a-z\d+.-]*:|\/\/)/i;
+
+/**
+ * Split a link into the part that is resolved and its `#anchor` (if any)
+ */
+function splitAnchor(href: string): [string, string] {
+  const index = href.indexOf('#');
+  return index === -1 ? [href, ''] : [href.slice(0, index), href.slice(index)];
+}
+
+/**
+ * Whether a markdown link target is a relative path the resolver should map
+ */
+export function isRelativeLink(href: string): boolean {
+  return !!href && !href.startsWith('#') && !ABSOLUTE_LINK_PATTERN.test(href);
+}
+
+/**
+ * Caches link lookups so each path or URL is resolved once per parser instance.
+ * Links that stay unresolved are reported per conversion.
+ */
+export class LinkResolverCache extends ResolverCache<LookupKind, ResolvedLink | string> {
+  private unresolvedLinks: UnresolvedLink[] = [];
+
+  constructor(resolver: LinkResolver) {
+    super((kind, key) => (kind === 'url' ? resolver.resolveUrl?.(key) : resolver.resolvePath?.(key)));
+  }
+
+  /**
+   * Start a new unresolved link report, at the start of a conversion
+   */
+  clearUnresolvedLinks(): void {
+    this.unresolvedLinks = [];
+  }
+
+  /**
+   * Resolve a relative markdown link to a page URL, keeping its anchor. Other links return null.
+   */
+  resolvePathSync(href: string): ResolvedLink | null {
+    const [path, anchor] = splitAnchor(href);
+    if (!isRelativeLink(href) || !path) {
+      return null;
+    }
+    const link = this.lookupSync('path', path);
+    if (typeof link !== 'object' || !link) {
+      this.recordUnresolved(path, 'path');
+      return null;
+    }
+    return { ...link, href: link.href + anchor };
+  }
+
+  /**
+   * Resolve a link URL to a relative markdown path, keeping its anchor. Unresolved URLs return null.
+   */
+  resolveUrlSync(href: string): string | null {
+    const [url, anchor] = splitAnchor(href);
+    if (!url) {
+      return null;
+    }
+    const path = this.lookupSync('url', url);
+    if (typeof path !== 'string') {
+      this.recordUnresolved(url, 'url');
+      return null;
+    }
+    return path + anchor;
+  }
+
+  /**
+   * Links of the current conversion whose lookups settled without a result, in the order they were seen
+   */
+  getUnresolvedLinks(): UnresolvedLink[] {
+    return this.unresolvedLinks.map(link => ({ ...link }));
+  }
+
+  private recordUnresolved(href: string, kind: LookupKind): void {
+    const source = kind === 'path' ? 'markdown' : 'adf';
+    if (!this.isPending(kind, href) && !this.unresolvedLinks.some(link => link.href === href && link.source === source)) {
+      this.unresolvedLinks.push({ href, source });
+    }
+  }
+}
+
+/**
+ * Wait for the relative links in a markdown tree to resolve so the sync AST build can use them
+ */
+export async function prefetchMarkdownLinks(tree: Root, cache: LinkResolverCache): Promise<void> {
+  const paths = new Set<string>();
+  visit(tree, 'link', node => {
+    const [path] = splitAnchor(node.url);
+    if (isRelativeLink(node.url) && path) {
+      paths.add(path);
+    }
+  });
+  await Promise.all([...paths].map(path => cache.lookup('path', path)));
+}
+
+function collectLinkUrls(nodes: ADFNode[], urls: Set<string>): void {
+  for (const node of nodes) {
+    const [cardUrl] = node.type === 'inlineCard' && typeof node.attrs?.url === 'string' ? splitAnchor(node.attrs.url) : [''];
+    if (cardUrl) {
+      urls.add(cardUrl);
+    }
+    for (const mark of node.marks || []) {
+      const [url] = mark.type === 'link' && typeof mark.attrs?.href === 'string' ? splitAnchor(mark.attrs.href) : [''];
+      if (url) {
+        urls.add(url);
+      }
+    }
+    if (node.content) {
+      collectLinkUrls(node.content, urls);
+    }
+  }
+}
+
+/**
+ * Wait for the link and inline card URLs in a document to resolve so the sync markdown conversion can use them
+ */
+export async function prefetchAdfLinks(adf: ADFDocument, cache: LinkResolverCache): Promise<void> {
+  const urls = new Set<string>();
+  collectLinkUrls(adf.content || [], urls);
+  await Promise.all([...urls].map(url => cache.lookup('url', url)));
+}
@@ -0,0 +1,78 @@
+/**
+ * @file markdown-loss.ts
+ * @description Tracking what the clean markdown profile drops from a document
+ */
+
+import type { ADFNode, MarkdownLoss } from '../types/index.js';
+import type { ConversionContext } from '../parser/types.js';
+
+// Identifiers mean nothing to a reader of clean markdown, so dropping them isn't reported
+const IDENTIFIER_ATTRIBUTES = new Set(['localId', 'id', 'collection', 'occurrenceKey', 'userType', 'accessLevel']);
+
+// Attribute values ADF writes by default, which carry no information
+const DEFAULT_ATTRIBUTE_VALUES: Record<string, unknown[]> = {
+  colspan: [1],
+  rowspan: [1],
+  layout: ['default', 'center'],
+  color: ['neutral']
+};
+
+/**
+ * Counts dropped constructs per node or mark type, in the order they were first seen
+ */
+export class MarkdownLossTracker {
+  private losses = new Map<string, MarkdownLoss>();
+
+  record(type: string, detail: string): void {
+    const key = `${type}\u0000${detail}`;
+    const loss = this.losses.get(key);
+    if (loss) {
+      loss.count++;
+    } else {
+      this.losses.set(key, { type, detail, count: 1 });
+    }
+  }
+
+  getReport(): MarkdownLoss[] {
+    return Array.from(this.losses.values(), loss => ({ ...loss }));
+  }
+
+  clear(): void {
+    this.losses.clear();
+  }
+}
+
+/**
+ * Record a loss against the conversion's tracker, if it has one
+ */
+export function recordLoss(context: ConversionContext, type: string, detail: string): void {
+  context.options.lossTracker?.record(type, detail);
+}
+
+/**
+ * Copy of a node with only the given attributes and no block marks (alignment, indentation,
+ * breakout). Dropped attributes and marks are recorded, except identifiers and default values.
+ */
+export function withoutMetadata<T extends ADFNode>(node: T, keptAttributes: string[], context: ConversionContext): T {
+  const attrs: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node.attrs || {})) {
+    if (keptAttributes.includes(key)) {
+      attrs[key] = value;
+    } else if (value !== undefined && value !== null && value !== false && value !== ''
+      && !IDENTIFIER_ATTRIBUTES.has(key) && !DEFAULT_ATTRIBUTE_VALUES[key]?.includes(value)) {
+      recordLoss(context, node.type, `${key} attribute`);
+    }
+  }
+
+  for (const mark of node.marks || []) {
+    recordLoss(context, node.type, `${mark.type} mark`);
+  }
+
+  const stripped: T = { ...node };
+  delete stripped.attrs;
+  delete stripped.marks;
+  if (Object.keys(attrs).length > 0) {
+    stripped.attrs = attrs;
+  }
+  return stripped;
+}
@@ -0,0 +1,102 @@
+/**
+ * @file media-resolver.ts
+ * @description Pluggable mapping between image sources (local paths, URLs) and ADF media
+ */
+
+import type { Root } from 'mdast';
+import { visit } from 'unist-util-visit';
+import type { ADFDocument, ADFNode } from '../types/adf.types.js';
+import { ResolverCache, type ResolverLookup } from './resolver-cache.js';
+import { ParserError } from '../errors/index.js';
+
+/**
+ * Media attributes produced for an image source, e.g. after uploading it to the media API
+ */
+export interface ResolvedMedia {
+  id: string;
+  type?: 'file' | 'link';
+  collection?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Resolves media for images. Both lookups are optional and may return a value or a promise;
+ * promises are only awaited by the async conversion methods.
+ */
+export interface MediaResolver {
+  /** Map an image source (`./diagram.png`, `https://...`) to media, e.g. by uploading it */
+  resolveSource?(source: string): ResolverLookup<ResolvedMedia> | Promise<ResolverLookup<ResolvedMedia>>;
+  /** Map a media id back to a file path or URL for the markdown image */
+  resolveId?(id: string): ResolverLookup<string> | Promise<ResolverLookup<string>>;
+}
+
+type LookupKind = 'source' | 'id';
+
+// Images already written as media placeholders don't need resolving
+const MEDIA_PLACEHOLDER_PATTERN = /^(?:adf:)?media:/;
+
+/**
+ * Caches media lookups so each source or media id is resolved (and uploaded) once per parser instance
+ */
+export class MediaResolverCache extends ResolverCache<LookupKind, ResolvedMedia | string> {
+  constructor(resolver: MediaResolver) {
+    super((kind, key) => (kind === 'id' ? resolver.resolveId?.(key) : resolver.resolveSource?.(key)));
+  }
+
+  /**
+   * Media for an image source. Sync conversions can't wait for an upload, so a `resolveSource`
+   * that returns a promise throws; the started lookup stays cached for the async methods.
+   */
+  resolveSourceSync(source: string): ResolvedMedia | null {
+    const media = this.lookupSync('source', source);
+    if (this.isPending('source', source)) {
+      throw new ParserError(
+        `mediaResolver.resolveSource returned a promise for "${source}"; use the async conversion methods (e.g. markdownToAdfAsync) with async media resolvers`,
+        'ASYNC_RESOLVER',
+        undefined,
+        undefined,
+        false
+      );
+    }
+    return typeof media === 'object' ? media : null;
+  }
+
+  resolveIdSync(id: string): string | null {
+    const source = this.lookupSync('id', id);
+    return typeof source === 'string' ? source : null;
+  }
+}
+
+/**
+ * Wait for the image sources in a markdown tree to resolve so the sync AST build can use them
+ */
+export async function prefetchImageSources(tree: Root, cache: MediaResolverCache): Promise<void> {
+  const sources = new Set<string>();
+  visit(tree, 'image', node => {
+    if (node.url && !MEDIA_PLACEHOLDER_PATTERN.test(node.url)) {
+      sources.add(node.url);
+    }
+  });
+  await Promise.all([...sources].map(source => cache.lookup('source', source)));
+}
+
+function collectMediaIds(nodes: ADFNode[], ids: Set<string>): void {
+  for (const node of nodes) {
+    if ((node.type === 'media' || node.type === 'mediaInline') && typeof node.attrs?.id === 'string') {
+      ids.add(node.attrs.id);
+    }
+    if (node.content) {
+      collectMediaIds(node.content, ids);
+    }
+  }
+}
+
+/**
+ * Wait for the media ids in a document to resolve so the sync markdown conversion can use them
+ */
+export async function prefetchMediaIds(adf: ADFDocument, cache: MediaResolverCache): Promise<void> {
+  const ids = new Set<string>();
+  collectMediaIds(adf.content || [], ids);
+  await Promise.all([...ids].map(id => cache.lookup('id', id)));
+}
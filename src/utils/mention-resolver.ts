@@ -0,0 +1,203 @@
+/**
+ * @file mention-resolver.ts
+ * @description Pluggable mapping between mention account IDs and human-readable names
+ */
+
+import type { ADFDocument, ADFNode } from '../types/adf.types.js';
+import { ResolverCache, type ResolverLookup } from './resolver-cache.js';
+
+export interface MentionUser {
+  accountId: string;    // Atlassian account ID stored in the mention's `id`
+  displayName: string;  // Rendered as `@displayName`
+  nickname?: string;    // Short handle matched by `@nickname` (used by the in-memory resolver)
+  slackUserId?: string; // Slack member ID, rendered as `<@U123>` in Slack output
+  userType?: 'DEFAULT' | 'SPECIAL' | 'APP';
+  accessLevel?: 'NONE' | 'SITE' | 'APPLICATION' | 'CONTAINER';
+}
+
+type MentionLookup = ResolverLookup<MentionUser>;
+
+/**
+ * Resolves users for mentions. Both lookups are optional and may return a value or a promise;
+ * promises are only awaited by the async conversion methods.
+ */
+export interface MentionResolver {
+  resolveByName?(name: string): MentionLookup | Promise<MentionLookup>;
+  resolveById?(accountId: string): MentionLookup | Promise<MentionLookup>;
+}
+
+type LookupKind = 'name' | 'id';
+
+// `@name` in running text; the lookbehind skips email addresses and repeated `@`
+const MENTION_TEXT_PATTERN = /(?<![\w@.])@([\w.-]*\w)/g;
+
+/**
+ * Caches mention lookups so each name or account ID is resolved once per parser instance
+ */
+export class MentionResolverCache extends ResolverCache<LookupKind, MentionUser> {
+  constructor(resolver: MentionResolver) {
+    super((kind, key) => (kind === 'id' ? resolver.resolveById?.(key) : resolver.resolveByName?.(key)));
+  }
+}
+
+/**
+ * Create a resolver over a fixed list of users. Names match the nickname or display name,
+ * ignoring case.
+ */
+export function createInMemoryMentionResolver(users: MentionUser[]): MentionResolver {
+  const byId = new Map(users.map(user => [user.accountId, user]));
+  const byName = new Map<string, MentionUser>();
+  for (const user of users) {
+    byName.set(user.displayName.toLowerCase(), user);
+    if (user.nickname) {
+      byName.set(user.nickname.toLowerCase(), user);
+    }
+  }
+
+  return {
+    resolveByName: (name: string) => byName.get(name.toLowerCase()) || null,
+    resolveById: (accountId: string) => byId.get(accountId) || null
+  };
+}
+
+function mentionAttrs(attrs: ADFNode['attrs'], user: MentionUser): ADFNode['attrs'] {
+  return {
+    ...attrs,
+    id: user.accountId,
+    text: `@${user.displayName}`,
+    ...(user.userType && { userType: user.userType }),
+    ...(user.accessLevel && { accessLevel: user.accessLevel })
+  };
+}
+
+/**
+ * Split a text node at every `@name` that resolves to a user
+ */
+function splitTextMentions(node: ADFNode, cache: MentionResolverCache): ADFNode[] {
+  const text = node.text || '';
+  const nodes: ADFNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_TEXT_PATTERN)) {
+    const user = cache.lookupSync('name', match[1]);
+    if (!user || match.index === undefined) {
+      continue;
+    }
+    if (match.index > lastIndex) {
+      nodes.push({ ...node, text: text.slice(lastIndex, match.index) });
+    }
+    nodes.push({ type: 'mention', attrs: mentionAttrs({}, user) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex === 0) {
+    return [node];
+  }
+  if (lastIndex < text.length) {
+    nodes.push({ ...node, text: text.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+// Code blocks keep their text verbatim
+function isCodeBlock(node: ADFNode): boolean {
+  return node.type === 'codeBlock';
+}
+
+function isPlainText(node: ADFNode): boolean {
+  return node.type === 'text' && !node.marks?.some(mark => mark.type === 'code' || mark.type === 'link');
+}
+
+/**
+ * Rewrite mentions in a parsed document: `{user:alice}` and `@alice` become mentions of
+ * the resolved account, and known account IDs get their current display name.
+ */
+function rewriteMarkdownMentions(nodes: ADFNode[], cache: MentionResolverCache): ADFNode[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'mention' && typeof node.attrs?.id === 'string') {
+      const user = cache.lookupSync('id', node.attrs.id) || cache.lookupSync('name', node.attrs.id);
+      return [user ? { ...node, attrs: mentionAttrs(node.attrs, user) } : node];
+    }
+    if (isPlainText(node)) {
+      return splitTextMentions(node, cache);
+    }
+    return [node.content && !isCodeBlock(node) ? { ...node, content: rewriteMarkdownMentions(node.content, cache) } : node];
+  });
+}
+
+/**
+ * Give mentions with a known account ID their current display name before rendering
+ */
+function rewriteAdfMentions(nodes: ADFNode[], cache: MentionResolverCache): ADFNode[] {
+  return nodes.map(node => {
+    if (node.type === 'mention' && typeof node.attrs?.id === 'string') {
+      const user = cache.lookupSync('id', node.attrs.id);
+      return user ? { ...node, attrs: { ...node.attrs, text: `@${user.displayName}` } } : node;
+    }
+    return node.content ? { ...node, content: rewriteAdfMentions(node.content, cache) } : node;
+  });
+}
+
+/**
+ * Collect the lookups a rewrite will make so async resolvers can be awaited up front
+ */
+function collectLookups(nodes: ADFNode[], lookups: Array<[LookupKind, string]>, includeText: boolean): void {
+  for (const node of nodes) {
+    if (node.type === 'mention' && typeof node.attrs?.id === 'string') {
+      lookups.push(['id', node.attrs.id]);
+      if (includeText) {
+        lookups.push(['name', node.attrs.id]);
+      }
+    } else if (includeText && isPlainText(node)) {
+      for (const match of (node.text || '').matchAll(MENTION_TEXT_PATTERN)) {
+        lookups.push(['name', match[1]]);
+      }
+    }
+    if (node.content && !isCodeBlock(node)) {
+      collectLookups(node.content, lookups, includeText);
+    }
+  }
+}
+
+async function prefetch(adf: ADFDocument, cache: MentionResolverCache, includeText: boolean): Promise<void> {
+  const lookups: Array<[LookupKind, string]> = [];
+  collectLookups(adf.content || [], lookups, includeText);
+  await Promise.all(lookups.map(([kind, key]) => cache.lookup(kind, key)));
+}
+
+/**
+ * Wait for the account ID lookups in a document so sync rendering can use them
+ */
+export async function prefetchMentionIds(adf: ADFDocument, cache: MentionResolverCache): Promise<void> {
+  await prefetch(adf, cache, false);
+}
+
+/**
+ * Resolve mentions in a document converted from markdown
+ */
+export function resolveMarkdownMentions(adf: ADFDocument, cache: MentionResolverCache): ADFDocument {
+  return { ...adf, content: rewriteMarkdownMentions(adf.content, cache) };
+}
+
+/**
+ * Resolve mentions in a document converted from markdown, waiting for async resolvers
+ */
+export async function resolveMarkdownMentionsAsync(adf: ADFDocument, cache: MentionResolverCache): Promise<ADFDocument> {
+  await prefetch(adf, cache, true);
+  return resolveMarkdownMentions(adf, cache);
+}
+
+/**
+ * Resolve display names for mentions in a document about to be rendered as markdown
+ */
+export function resolveAdfMentions(adf: ADFDocument, cache: MentionResolverCache): ADFDocument {
+  return { ...adf, content: rewriteAdfMentions(adf.content || [], cache) };
+}
+
+/**
+ * Resolve display names for mentions in a document about to be rendered, waiting for async resolvers
+ */
+export async function resolveAdfMentionsAsync(adf: ADFDocument, cache: MentionResolverCache): Promise<ADFDocument> {
+  await prefetch(adf, cache, false);
+  return resolveAdfMentions(adf, cache);
+}
@@ -55,7 +55,7 @@ export function isAdfMetadataComment(value: string): boolean {
   }
   
   // Exclude processing directives that should be handled differently
-  const processingDirectives = ['inlineCard', 'blockCard'];
+  const processingDirectives = ['inlineCard', 'blockCard', 'embedCard', 'mediaInline', 'annotation', 'emoji', 'mention'];
   
   return !processingDirectives.some(directive => 
     value.includes(`adf:${directive}`)
@@ -279,9 +279,143 @@ export function applyMetadataToAdfNode(adfNode: any, metadata: AdfMetadata[]): a
     }
   }
 
+  if (BLOCK_MARK_NODE_TYPES.includes(String(updatedNode.type))) {
+    updatedNode = applyBlockMarkAttributes(updatedNode as BlockMarkNode);
+  }
+
+  if (updatedNode.type === 'table') {
+    updatedNode = applyTableAttributes(updatedNode as TableMetadataNode);
+  }
+
+  return updatedNode;
+}
+
+interface TableMetadataNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: Array<{ type: string; content?: Array<{ type: string }> }>;
+}
+
+/**
+ * Resolve the readable table hints: `numbered` sets isNumberColumnEnabled and
+ * `headerColumn` turns the first cell of every row below the header row into a tableHeader
+ */
+function applyTableAttributes(adfNode: TableMetadataNode): TableMetadataNode {
+  const { numbered, headerColumn, isNumberColumnEnabled, ...otherAttrs } = adfNode.attrs || {};
+  const numberColumn = numbered ?? isNumberColumnEnabled;
+  const attrs: Record<string, unknown> = {
+    ...(numberColumn !== undefined && { isNumberColumnEnabled: numberColumn === true || numberColumn === 'true' }),
+    ...otherAttrs
+  };
+
+  const content = headerColumn === true || headerColumn === 'true'
+    ? (adfNode.content || []).map((row, index) => index === 0 ? row : {
+      ...row,
+      content: (row.content || []).map((cell, cellIndex) => cellIndex === 0 ? { ...cell, type: 'tableHeader' } : cell)
+    })
+    : adfNode.content;
+
+  const updatedNode: TableMetadataNode = { ...adfNode, attrs, content };
+  if (Object.keys(attrs).length === 0) {
+    delete updatedNode.attrs;
+  }
   return updatedNode;
 }
 
+/**
+ * Node types that carry the alignment and indentation block marks
+ */
+const BLOCK_MARK_NODE_TYPES = ['paragraph', 'heading'];
+
+export interface BlockMarkNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+/**
+ * Normalize an alignment value to the ADF alignment mark values.
+ * `start`/`left` is the default alignment and has no mark.
+ */
+function normalizeAlignment(value: unknown): 'center' | 'end' | undefined {
+  if (value === 'center') {
+    return 'center';
+  }
+  if (value === 'end' || value === 'right') {
+    return 'end';
+  }
+  return undefined;
+}
+
+/**
+ * Turn `align`/`indent` metadata attributes (and legacy `textAlign` values that have
+ * an ADF equivalent) into alignment and indentation block marks
+ */
+function applyBlockMarkAttributes(adfNode: BlockMarkNode): BlockMarkNode {
+  const { align, indent, ...attrs } = adfNode.attrs || {};
+
+  // Legacy textAlign values without an ADF equivalent (left, justify) stay as attributes
+  const legacyAlignment = normalizeAlignment(attrs.textAlign);
+  if (legacyAlignment) {
+    delete attrs.textAlign;
+  }
+
+  if (align === undefined && indent === undefined && !legacyAlignment) {
+    return adfNode;
+  }
+
+  const marks = (adfNode.marks || [])
+    .filter(mark => mark.type !== 'alignment' && mark.type !== 'indentation');
+
+  const alignment = normalizeAlignment(align) ?? legacyAlignment;
+  if (alignment) {
+    marks.push({ type: 'alignment', attrs: { align: alignment } });
+  }
+
+  const level = Number(indent);
+  if (Number.isInteger(level) && level >= 1 && level <= 6) {
+    marks.push({ type: 'indentation', attrs: { level } });
+  }
+
+  const result: BlockMarkNode = { ...adfNode, attrs, marks };
+  if (Object.keys(attrs).length === 0) {
+    delete result.attrs;
+  }
+  if (marks.length === 0) {
+    delete result.marks;
+  }
+  return result;
+}
+
+/**
+ * Map alignment and indentation block marks to their `align`/`indent` metadata attributes
+ */
+export function blockMarksToAttributes(marks?: BlockMarkNode['marks']): Record<string, string | number> {
+  const attrs: Record<string, string | number> = {};
+
+  for (const mark of marks || []) {
+    if (mark.type === 'alignment' && mark.attrs?.align) {
+      attrs.align = String(mark.attrs.align);
+    } else if (mark.type === 'indentation' && mark.attrs?.level) {
+      attrs.indent = Number(mark.attrs.level);
+    }
+  }
+
+  return attrs;
+}
+
+/**
+ * Build the metadata comment for alignment and indentation block marks:
+ * `<!-- adf:paragraph align="center" indent="2" -->`
+ */
+export function generateBlockMarksComment(nodeType: string, marks?: BlockMarkNode['marks']): string {
+  const attrsString = Object.entries(blockMarksToAttributes(marks))
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(' ');
+
+  return attrsString ? `<!-- adf:${nodeType} ${attrsString} -->` : '';
+}
+
 /**
  * Generate metadata comment for ADF node with custom attributes
  */
@@ -0,0 +1,70 @@
+/**
+ * @file resolver-cache.ts
+ * @description Caching for user-supplied resolver hooks that may be sync or async
+ */
+
+export type ResolverLookup<T> = T | null | undefined;
+
+/**
+ * Caches resolver lookups so each key is resolved once per parser instance.
+ * Pending async lookups are kept as promises and replaced by their result once settled.
+ * Lookups that throw or reject are cached as unresolved.
+ */
+export class ResolverCache<K extends string, T> {
+  private readonly entries = new Map<string, ResolverLookup<T> | Promise<ResolverLookup<T>>>();
+
+  constructor(private readonly resolve: (kind: K, key: string) => ResolverLookup<T> | Promise<ResolverLookup<T>>) {}
+
+  /**
+   * Return a settled lookup, starting it if needed. Pending async lookups return null.
+   */
+  lookupSync(kind: K, key: string): T | null {
+    const entry = this.start(kind, key);
+    return entry instanceof Promise ? null : entry ?? null;
+  }
+
+  /**
+   * Return a lookup, waiting for async resolvers
+   */
+  async lookup(kind: K, key: string): Promise<T | null> {
+    return (await this.start(kind, key)) ?? null;
+  }
+
+  /**
+   * Whether a lookup was started and is still waiting for an async resolver
+   */
+  isPending(kind: K, key: string): boolean {
+    return this.entries.get(`${kind}:${key}`) instanceof Promise;
+  }
+
+  private start(kind: K, key: string): ResolverLookup<T> | Promise<ResolverLookup<T>> {
+    const cacheKey = `${kind}:${key}`;
+    if (this.entries.has(cacheKey)) {
+      return this.entries.get(cacheKey);
+    }
+
+    let result: ResolverLookup<T> | Promise<ResolverLookup<T>>;
+    try {
+      result = this.resolve(kind, key);
+    } catch {
+      result = null;
+    }
+    if (result instanceof Promise) {
+      const pending = result.then(
+        value => {
+          this.entries.set(cacheKey, value);
+          return value;
+        },
+        () => {
+          this.entries.set(cacheKey, null);
+          return null;
+        }
+      );
+      this.entries.set(cacheKey, pending);
+      return pending;
+    }
+
+    this.entries.set(cacheKey, result);
+    return result;
+  }
+}
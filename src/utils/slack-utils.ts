@@ -0,0 +1,65 @@
+/**
+ * @file slack-utils.ts
+ * @description Escaping, emoji and length limits for Slack mrkdwn and Block Kit output
+ */
+
+/**
+ * Slack's documented limits for messages and blocks
+ */
+export const SLACK_LIMITS = {
+  messageText: 40000,     // `text` of a message
+  blocks: 50,             // Blocks in a message
+  sectionText: 3000,      // `text` of a section block
+  headerText: 150,        // `text` of a header block
+  contextElements: 10,    // Elements in a context block
+  imageAltText: 2000      // `alt_text` of an image block
+};
+
+/**
+ * Emoji prefixed to panels, which Slack renders as quotes
+ */
+export const SLACK_PANEL_EMOJI: Record<string, string> = {
+  info: ':information_source:',
+  note: ':memo:',
+  success: ':white_check_mark:',
+  warning: ':warning:',
+  error: ':x:',
+  custom: ':pushpin:'
+};
+
+/**
+ * Escape the characters Slack treats as control sequences (`&`, `<` and `>`)
+ */
+export function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape a URL for `<url|text>` links, percent-encoding `|`, which would otherwise end the URL
+ */
+export function escapeSlackUrl(url: string): string {
+  return escapeSlackText(url).replace(/\|/g, '%7C');
+}
+
+/**
+ * Split text into chunks of at most `maxLength` characters, preferring line breaks and then
+ * spaces, so long sections can be spread over several blocks
+ */
+export function splitSlackText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const lineBreak = window.lastIndexOf('\n');
+    const space = window.lastIndexOf(' ');
+    const cut = lineBreak > 0 ? lineBreak : space > 0 ? space : maxLength;
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).replace(/^[ \n]+/, '');
+  }
+
+  if (rest || chunks.length === 0) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
@@ -0,0 +1,69 @@
+/**
+ * @file storage-format.ts
+ * @description Shared tables for Confluence storage format import and export
+ */
+
+// Extension type Confluence uses for its built-in macros
+export const CONFLUENCE_MACRO_EXTENSION_TYPE = 'com.atlassian.confluence.macro.core';
+
+/**
+ * Legacy Confluence emoticon names and the emoji shortnames they map to
+ */
+export const CONFLUENCE_EMOTICONS: Record<string, string> = {
+  'smile': 'slightly_smiling_face',
+  'sad': 'disappointed',
+  'cheeky': 'stuck_out_tongue',
+  'laugh': 'grinning',
+  'wink': 'wink',
+  'thumbs-up': 'thumbsup',
+  'thumbs-down': 'thumbsdown',
+  'information': 'information_source',
+  'tick': 'white_check_mark',
+  'cross': 'x',
+  'warning': 'warning',
+  'plus': 'heavy_plus_sign',
+  'minus': 'heavy_minus_sign',
+  'question': 'question',
+  'light-on': 'bulb',
+  'light-off': 'bulb',
+  'yellow-star': 'star'
+};
+
+const EMOTICONS_BY_SHORT_NAME = new Map(
+  Object.entries(CONFLUENCE_EMOTICONS).reverse().map(([name, shortName]) => [shortName, name])
+);
+
+/**
+ * The legacy emoticon name for an emoji shortname; other emoji use `blue-star` with
+ * their shortname, as Confluence writes them
+ */
+export function getConfluenceEmoticon(shortName: string): string {
+  return EMOTICONS_BY_SHORT_NAME.get(shortName.replace(/^:|:$/g, '')) || 'blue-star';
+}
+
+/**
+ * Column widths (percent) for each layout section type
+ */
+export const LAYOUT_COLUMN_WIDTHS: Record<string, number[]> = {
+  single: [100],
+  two_equal: [50, 50],
+  two_left_sidebar: [33.33, 66.66],
+  two_right_sidebar: [66.66, 33.33],
+  three_equal: [33.33, 33.33, 33.33],
+  three_with_sidebars: [25, 50, 25],
+  four_equal: [25, 25, 25, 25],
+  five_equal: [20, 20, 20, 20, 20]
+};
+
+/**
+ * The layout section type closest to the given column widths
+ */
+export function getLayoutType(widths: number[]): string {
+  const candidates = Object.entries(LAYOUT_COLUMN_WIDTHS).filter(([, columns]) => columns.length === widths.length);
+  if (candidates.length === 0) {
+    return widths.length > 5 ? 'five_equal' : 'single';
+  }
+
+  const distance = (columns: number[]) => columns.reduce((sum, width, index) => sum + Math.abs(width - (widths[index] || 0)), 0);
+  return candidates.reduce((best, candidate) => (distance(candidate[1]) < distance(best[1]) ? candidate : best))[0];
+}
@@ -0,0 +1,86 @@
+/**
+ * @file Plain text rendering utilities
+ * @description Wrapping, truncation and column alignment helpers for the ADF to text engine
+ */
+
+/**
+ * Display length of a string, counting astral characters (most emoji) once
+ */
+export function textLength(text: string): number {
+  return Array.from(text).length;
+}
+
+/**
+ * Wrap text to the given width, breaking at spaces. Existing line breaks are kept, and words
+ * longer than the width are left on a line of their own rather than split.
+ */
+export function wrapText(text: string, width: number): string {
+  if (!(width > 0)) {
+    return text;
+  }
+
+  return text.split('\n').map(line => {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of line.split(/ +/)) {
+      if (current && textLength(current) + 1 + textLength(word) > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+
+    lines.push(current);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/**
+ * Truncate text to at most `maxLength` characters including the ellipsis, cutting at the last
+ * word boundary that fits. A single word longer than the limit is cut mid-word.
+ */
+export function truncateText(text: string, maxLength: number, ellipsis = '…'): string {
+  const chars = Array.from(text);
+  if (!(maxLength >= 0) || chars.length <= maxLength) {
+    return text;
+  }
+
+  const limit = maxLength - textLength(ellipsis);
+  if (limit <= 0) {
+    return Array.from(ellipsis).slice(0, maxLength).join('');
+  }
+
+  // A boundary right after the cut (the next character is whitespace) keeps the whole last word
+  const cut = chars.slice(0, limit + 1).join('');
+  const boundary = cut.search(/\s\S*$/);
+  const kept = boundary > 0 ? cut.slice(0, boundary) : chars.slice(0, limit).join('');
+
+  return kept.trimEnd() + ellipsis;
+}
+
+/**
+ * Lay out rows as columns padded to their widest cell, separated by two spaces.
+ * With `header`, the first row is underlined with dashes.
+ */
+export function alignColumns(rows: string[][], header = false): string {
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(...rows.map(row => textLength(row[column] || '')))
+  );
+
+  const formatRow = (row: string[]) => widths
+    .map((width, column) => {
+      const cell = row[column] || '';
+      return cell + ' '.repeat(width - textLength(cell));
+    })
+    .join('  ')
+    .trimEnd();
+
+  const lines = rows.map(formatRow);
+  if (header && lines.length > 0) {
+    lines.splice(1, 0, widths.map(width => '-'.repeat(width)).join('  '));
+  }
+  return lines.join('\n');
+}
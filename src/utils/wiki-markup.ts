@@ -0,0 +1,120 @@
+/**
+ * @file wiki-markup.ts
+ * @description Shared tables and helpers for Jira wiki markup import and export
+ */
+
+/**
+ * Jira emoticons and the emoji shortnames they map to
+ */
+export const WIKI_EMOTICONS: Record<string, string> = {
+  ':)': 'slightly_smiling_face',
+  ':(': 'disappointed',
+  ':P': 'stuck_out_tongue',
+  ':D': 'grinning',
+  ';)': 'wink',
+  '(y)': 'thumbsup',
+  '(n)': 'thumbsdown',
+  '(i)': 'information_source',
+  '(/)': 'white_check_mark',
+  '(x)': 'x',
+  '(!)': 'warning',
+  '(+)': 'heavy_plus_sign',
+  '(-)': 'heavy_minus_sign',
+  '(?)': 'question',
+  '(on)': 'bulb',
+  '(off)': 'bulb',
+  '(*)': 'star'
+};
+
+// Longest first so `(on)` is not read as a shorter emoticon
+export const WIKI_EMOTICON_KEYS = Object.keys(WIKI_EMOTICONS).sort((a, b) => b.length - a.length);
+
+const EMOTICONS_BY_SHORT_NAME = new Map(
+  Object.entries(WIKI_EMOTICONS).reverse().map(([emoticon, shortName]) => [shortName, emoticon])
+);
+
+/**
+ * The emoticon for an emoji shortname (with or without colons), if Jira has one
+ */
+export function getWikiEmoticon(shortName: string): string | undefined {
+  return EMOTICONS_BY_SHORT_NAME.get(shortName.replace(/^:|:$/g, ''));
+}
+
+/**
+ * Panel macros by ADF panel type. Jira's {note} is yellow and {warning} is red, so they
+ * line up with the ADF warning and error panels.
+ */
+export const PANEL_TYPE_MACROS: Record<string, string> = {
+  info: 'info',
+  success: 'tip',
+  warning: 'note',
+  error: 'warning'
+};
+
+export const PANEL_MACRO_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(PANEL_TYPE_MACROS).map(([panelType, macro]) => [macro, panelType])
+);
+
+/**
+ * Status lozenge colours as written in the {status} macro, by ADF status color
+ */
+export const STATUS_COLOURS: Record<string, string> = {
+  neutral: 'Grey',
+  purple: 'Purple',
+  blue: 'Blue',
+  red: 'Red',
+  yellow: 'Yellow',
+  green: 'Green'
+};
+
+/**
+ * Split macro parameters (`java`, `title=Example|borderStyle=solid`) into a map;
+ * a parameter without a name is stored under the empty key
+ */
+export function parseMacroParams(params: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const param of (params || '').split('|')) {
+    if (!param.trim()) continue;
+    const separator = param.indexOf('=');
+    if (separator === -1) {
+      result[''] = param.trim();
+    } else {
+      result[param.slice(0, separator).trim()] = param.slice(separator + 1).trim();
+    }
+  }
+  return result;
+}
+
+/**
+ * Format macro parameters, skipping empty values
+ */
+export function formatMacroParams(params: Record<string, string | undefined>): string {
+  const formatted = Object.entries(params)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('|');
+  return formatted ? `:${formatted}` : '';
+}
+
+const ALWAYS_ESCAPED = /[\\{}[\]|]/;
+const MARKUP_CHARS = /[*_+^~-]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Escape text so wiki markup characters are read literally. Formatting characters are only
+ * escaped next to whitespace or punctuation, where Jira could read them as markup, so words
+ * such as `well-known` stay readable; `!` only when it could open an image.
+ */
+export function escapeWikiText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const atBoundary = !WORD_CHAR.test(text[i - 1] || ' ') || !WORD_CHAR.test(text[i + 1] || ' ');
+    const opensImage = char === '!' && /\S/.test(text[i + 1] || ' ');
+    if (ALWAYS_ESCAPED.test(char) || (MARKUP_CHARS.test(char) && atBoundary) || opensImage) {
+      result += '\\';
+    }
+    result += char;
+  }
+  return result;
+}
@@ -0,0 +1,172 @@
+/**
+ * @file xml-utils.ts
+ * @description Minimal XML parsing and escaping for Confluence storage format
+ */
+
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+export interface XmlText {
+  type: 'text';
+  value: string;
+  cdata?: boolean;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+// Storage format is XHTML, but pasted content sometimes leaves void elements unclosed
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col', 'input', 'meta', 'link', 'area', 'wbr']);
+
+// XML entities plus the HTML ones Confluence writes in storage format
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  rarr: '→',
+  larr: '←',
+  times: '×'
+};
+
+const TAG_PATTERN = /^<(\/?)([\w:.-]+)((?:\s+[\w:.-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>/]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+)))?/g;
+
+/**
+ * Decode named and numeric character references; unknown entities are left as written
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Escape text for XML content and double-quoted attribute values
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, char => `&${{ '&': 'amp', '<': 'lt', '>': 'gt', '"': 'quot' }[char]};`);
+}
+
+/**
+ * Wrap text in a CDATA section, splitting any `]]>` it contains
+ */
+export function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Parse an XML fragment into a tree. Parsing is forgiving: unmatched closing tags are ignored
+ * and unclosed elements end with their parent, so malformed input still yields its text.
+ */
+export function parseXml(source: string): XmlNode[] {
+  const root: XmlElement = { type: 'element', name: '#root', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const appendText = (value: string, isCdata = false) => {
+    if (!value) return;
+    const parent = stack[stack.length - 1];
+    const last = parent.children[parent.children.length - 1];
+    if (last?.type === 'text' && !last.cdata && !isCdata) {
+      last.value += value;
+    } else {
+      parent.children.push({ type: 'text', value, ...(isCdata && { cdata: true }) });
+    }
+  };
+
+  while (i < source.length) {
+    const next = source.indexOf('<', i);
+    if (next === -1) {
+      appendText(decodeXmlEntities(source.slice(i)));
+      break;
+    }
+    appendText(decodeXmlEntities(source.slice(i, next)));
+    i = next;
+
+    const rest = source.slice(i);
+    if (rest.startsWith('<!--')) {
+      const end = source.indexOf('-->', i + 4);
+      i = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (rest.startsWith('<![CDATA[')) {
+      const end = source.indexOf(']]>', i + 9);
+      appendText(source.slice(i + 9, end === -1 ? source.length : end), true);
+      i = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (rest.startsWith('<?') || rest.startsWith('<!')) {
+      const end = source.indexOf('>', i);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tag = TAG_PATTERN.exec(rest);
+    if (!tag) {
+      appendText('<');
+      i++;
+      continue;
+    }
+    i += tag[0].length;
+
+    const [, closing, name, rawAttrs, selfClosing] = tag;
+    const lowerName = name.toLowerCase();
+
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(lowerName);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const match of rawAttrs.matchAll(ATTRIBUTE_PATTERN)) {
+      attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+
+    const element: XmlElement = { type: 'element', name: lowerName, attrs, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing && !VOID_ELEMENTS.has(lowerName)) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * Child elements, optionally only those with the given name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => child.type === 'element' && (!name || child.name === name));
+}
+
+/**
+ * All text below a node
+ */
+export function textContent(node: XmlNode): string {
+  return node.type === 'text' ? node.value : node.children.map(textContent).join('');
+}
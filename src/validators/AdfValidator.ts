@@ -7,6 +7,15 @@ import addFormats from 'ajv-formats';
 import type { ADFDocument, ValidationResult } from '../types';
 import adfSchema from './schemas/adf-schema.json';
 
+/**
+ * Node types each block mark may be applied to
+ */
+const BLOCK_MARK_NODE_TYPES: Record<string, string[]> = {
+  alignment: ['paragraph', 'heading'],
+  indentation: ['paragraph', 'heading'],
+  breakout: ['codeBlock', 'expand', 'layoutSection']
+};
+
 export class AdfValidator {
   private ajv: Ajv;
   private validateAdf: ValidateFunction;
@@ -123,13 +132,22 @@ export class AdfValidator {
       // Validate panel type
       if (node.type === 'panel') {
         const panelType = node.attrs?.panelType;
-        if (!panelType || !['info', 'warning', 'error', 'success', 'note'].includes(panelType)) {
+        if (!panelType || !['info', 'warning', 'error', 'success', 'note', 'custom'].includes(panelType)) {
           errors.push({
-            message: 'Panel node must have valid panelType (info, warning, error, success, note)',
+            message: 'Panel node must have valid panelType (info, warning, error, success, note, custom)',
             code: 'INVALID_PANEL_TYPE',
             path: nodePath
           });
         }
+        
+        const panelColor = node.attrs?.panelColor;
+        if (panelColor !== undefined && !/^#[0-9a-fA-F]{6}$/.test(String(panelColor))) {
+          errors.push({
+            message: 'Panel node panelColor must be a hex colour (#RRGGBB)',
+            code: 'INVALID_PANEL_COLOR',
+            path: nodePath
+          });
+        }
       }
       
       // Validate ordered list attributes
@@ -144,6 +162,46 @@ export class AdfValidator {
         }
       }
       
+      // Validate layout column widths add up to the full section width
+      if (node.type === 'layoutSection' && Array.isArray(node.content)) {
+        const columns = node.content as Array<{ type: string; attrs?: { width?: unknown } }>;
+        const widths = columns
+          .filter(column => column.type === 'layoutColumn')
+          .map(column => column.attrs?.width);
+        
+        if (!widths.every((width): width is number => typeof width === 'number' && width > 0 && width <= 100)) {
+          errors.push({
+            message: 'LayoutColumn width must be a number between 0 and 100',
+            code: 'INVALID_LAYOUT_COLUMN_WIDTH',
+            path: nodePath
+          });
+        } else {
+          const total = widths.reduce((sum, width) => sum + width, 0);
+          // Allow for rounded thirds (33.33 + 33.33 + 33.33)
+          if (Math.abs(total - 100) > 0.1) {
+            errors.push({
+              message: `LayoutSection column widths must sum to 100 (got ${total})`,
+              code: 'INVALID_LAYOUT_WIDTHS',
+              path: nodePath
+            });
+          }
+        }
+      }
+      
+      // Validate captions only appear as the last child of a mediaSingle, after its media
+      if (Array.isArray(node.content)) {
+        const children = node.content as Array<{ type?: string }>;
+        const captionIndex = children.findIndex(child => child.type === 'caption');
+        if (captionIndex !== -1 &&
+            (node.type !== 'mediaSingle' || captionIndex === 0 || captionIndex !== children.length - 1)) {
+          errors.push({
+            message: 'Caption must be the last child of a mediaSingle node, after its media',
+            code: 'INVALID_CAPTION_PLACEMENT',
+            path: `${nodePath}/content[${captionIndex}]`
+          });
+        }
+      }
+      
       // Recursively validate child content
       if (node.content && Array.isArray(node.content)) {
         this.validateContentNodes(node.content, nodePath, errors);
@@ -152,6 +210,19 @@ export class AdfValidator {
       // Validate marks
       if (node.marks && Array.isArray(node.marks)) {
         this.validateMarks(node.marks, nodePath, errors);
+        
+        // Block marks are only allowed on specific node types
+        const marks = node.marks as Array<{ type?: string }>;
+        marks.forEach((mark, markIndex) => {
+          const allowedTypes = mark.type ? BLOCK_MARK_NODE_TYPES[mark.type] : undefined;
+          if (allowedTypes && !allowedTypes.includes(String(node.type))) {
+            errors.push({
+              message: `${mark.type} mark is only allowed on ${allowedTypes.join(', ')} nodes`,
+              code: 'INVALID_BLOCK_MARK_PLACEMENT',
+              path: `${nodePath}/marks[${markIndex}]`
+            });
+          }
+        });
       }
     });
   }
@@ -196,6 +267,51 @@ export class AdfValidator {
           });
         }
       }
+      
+      // Validate border mark
+      if (mark.type === 'border') {
+        const { size, color } = (mark.attrs ?? {}) as { size?: unknown; color?: unknown };
+        if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > 3 ||
+            typeof color !== 'string' || !/^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(color)) {
+          errors.push({
+            message: 'Border mark must have size between 1 and 3 and a hex color (e.g., #091E4224)',
+            code: 'INVALID_BORDER_MARK',
+            path: markPath
+          });
+        }
+      }
+      
+      // Validate alignment and indentation block marks
+      const { align, level } = (mark.attrs ?? {}) as { align?: unknown; level?: unknown };
+      if (mark.type === 'alignment' && align !== 'center' && align !== 'end') {
+        errors.push({
+          message: 'Alignment mark must have align of center or end',
+          code: 'INVALID_ALIGNMENT_MARK',
+          path: markPath
+        });
+      }
+      
+      if (mark.type === 'indentation') {
+        if (typeof level !== 'number' || !Number.isInteger(level) || level < 1 || level > 6) {
+          errors.push({
+            message: 'Indentation mark must have level between 1 and 6',
+            code: 'INVALID_INDENTATION_MARK',
+            path: markPath
+          });
+        }
+      }
+      
+      // Validate breakout mark
+      if (mark.type === 'breakout') {
+        const { mode } = (mark.attrs ?? {}) as { mode?: unknown };
+        if (mode !== 'wide' && mode !== 'full-width') {
+          errors.push({
+            message: 'Breakout mark must have mode of wide or full-width',
+            code: 'INVALID_BREAKOUT_MARK',
+            path: markPath
+          });
+        }
+      }
     });
   }
   
@@ -3,6 +3,16 @@
  */
 
 import type { ValidationResult } from '../types';
+import { ADF_FENCE_TYPES } from '../utils/fence-utils.js';
+
+/**
+ * Fence that each table grid fence must be nested directly inside
+ */
+const TABLE_FENCE_PARENTS: Record<string, string> = {
+  row: 'table',
+  header: 'row',
+  cell: 'row'
+};
 
 export class MarkdownValidator {
   validate(markdown: string): ValidationResult {
@@ -62,19 +72,18 @@ export class MarkdownValidator {
     errors: Array<{ path?: string; message: string; code?: string; line?: number }>, 
     warnings: string[]
   ): void {
-    const fenceStack: Array<{type: string; line: number; content: string}> = [];
+    const fenceStack: Array<{type: string; line: number; content: string; columnWidths?: number[]}> = [];
     
     lines.forEach((line, index) => {
       const trimmed = line.trim();
       
       // ADF fence blocks
-      const adfFenceMatch = trimmed.match(/^~~~(\w+)(?:\s+(.*))?$/);
+      const adfFenceMatch = trimmed.match(/^~{3,}(\w+)(?:\s+(.*))?$/);
       if (adfFenceMatch) {
         const [, fenceType, attributes] = adfFenceMatch;
         
         // Validate known ADF fence types
-        const validTypes = ['panel', 'expand', 'mediaSingle', 'mediaGroup'];
-        if (!validTypes.includes(fenceType)) {
+        if (!ADF_FENCE_TYPES.includes(fenceType)) {
           warnings.push(`Unknown ADF fence type "${fenceType}" at line ${index + 1}`);
         }
         
@@ -91,7 +100,7 @@ export class MarkdownValidator {
             const typeMatch = attributes.match(/type=(\w+)/);
             if (typeMatch) {
               const panelType = typeMatch[1];
-              const validPanelTypes = ['info', 'warning', 'error', 'success', 'note'];
+              const validPanelTypes = ['info', 'warning', 'error', 'success', 'note', 'custom'];
               if (!validPanelTypes.includes(panelType)) {
                 errors.push({
                   message: `Invalid panel type "${panelType}" at line ${index + 1}. Valid types: ${validPanelTypes.join(', ')}`,
@@ -101,15 +110,63 @@ export class MarkdownValidator {
                 });
               }
             }
+            
+            const colorMatch = attributes.match(/\bcolor=["']?([^"'\s]+)/);
+            if (colorMatch && !/^#[0-9a-fA-F]{6}$/.test(colorMatch[1])) {
+              errors.push({
+                message: `Invalid panel color "${colorMatch[1]}" at line ${index + 1}. Expected a hex colour like #E3FCEF`,
+                code: 'INVALID_PANEL_COLOR',
+                path: `line:${index + 1}`,
+                line: index + 1
+              });
+            }
+          }
+        }
+        
+        // Collect column widths for the enclosing layout
+        if (fenceType === 'column') {
+          const widthMatch = attributes?.match(/width=["']?([\d.]+)/);
+          const layout = [...fenceStack].reverse().find(fence => fence.type === 'layout');
+          if (widthMatch && layout?.columnWidths) {
+            layout.columnWidths.push(parseFloat(widthMatch[1]));
           }
         }
         
-        fenceStack.push({type: fenceType, line: index + 1, content: line});
+        // Table grid fences must nest as table > row > header/cell
+        const requiredParent = TABLE_FENCE_PARENTS[fenceType];
+        if (requiredParent && fenceStack[fenceStack.length - 1]?.type !== requiredParent) {
+          errors.push({
+            message: `Table fence "${fenceType}" at line ${index + 1} must be directly inside a "${requiredParent}" fence`,
+            code: 'INVALID_TABLE_STRUCTURE',
+            path: `line:${index + 1}`,
+            line: index + 1
+          });
+        }
+        
+        fenceStack.push({
+          type: fenceType,
+          line: index + 1,
+          content: line,
+          ...(fenceType === 'layout' && { columnWidths: [] })
+        });
         return;
       }
       
       // Closing fence
-      if (trimmed === '~~~') {
+      if (/^~{3,}$/.test(trimmed)) {
+        const closed = fenceStack[fenceStack.length - 1];
+        if (closed?.type === 'layout' && closed.columnWidths && closed.columnWidths.length > 0) {
+          const total = closed.columnWidths.reduce((sum, width) => sum + width, 0);
+          if (Math.abs(total - 100) > 0.1) {
+            errors.push({
+              message: `Layout column widths must sum to 100 (got ${total}) for layout starting at line ${closed.line}`,
+              code: 'INVALID_LAYOUT_WIDTHS',
+              path: `line:${closed.line}`,
+              line: closed.line
+            });
+          }
+        }
+        
         if (fenceStack.length === 0) {
           errors.push({
             message: `Unmatched closing fence block at line ${index + 1}`,
@@ -185,6 +242,22 @@ export class MarkdownValidator {
     warnings: string[]
   ): void {
     lines.forEach((line, index) => {
+      // Media border metadata: <!-- adf:border size="2" color="#091e4224" -->
+      const borderMatch = line.match(/<!--\s*adf:border\s+(.*?)\s*-->/);
+      if (borderMatch) {
+        const size = Number(borderMatch[1].match(/size="?(\d+)"?/)?.[1]);
+        const color = borderMatch[1].match(/color="?([^"\s]+)"?/)?.[1];
+        if (!Number.isInteger(size) || size < 1 || size > 3 ||
+            !color || !/^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(color)) {
+          errors.push({
+            message: `Invalid border metadata at line ${index + 1}. Size must be 1-3 and color a hex value`,
+            code: 'INVALID_BORDER_MARK',
+            path: `line:${index + 1}`,
+            line: index + 1
+          });
+        }
+      }
+      
       // ADF metadata comments: <!-- adf:nodeType attrs='...' -->
       const metadataMatch = line.match(/<!--\s*adf:(\w+)\s+attrs='(.*)'\s*-->/);
       
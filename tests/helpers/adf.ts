@@ -0,0 +1,15 @@
+/**
+ * @file Builders for the ADF documents used across the test suites
+ */
+
+import type { ADFDocument, ADFNode } from '../../src/types';
+
+export const doc = (...content: ADFNode[]): ADFDocument => ({ version: 1, type: 'doc', content });
+export const paragraph = (...content: ADFNode[]): ADFNode => ({ type: 'paragraph', content });
+export const text = (value: string, marks?: ADFNode['marks']): ADFNode => ({ type: 'text', text: value, ...(marks && { marks }) });
+export const listItem = (...content: ADFNode[]): ADFNode => ({ type: 'listItem', content });
+
+// A table cell holding one block; a string becomes a paragraph of plain text
+export const cell = (type: 'tableCell' | 'tableHeader', content: string | ADFNode, attrs?: Record<string, unknown>): ADFNode => ({
+  type, ...(attrs && { attrs }), content: [typeof content === 'string' ? paragraph(text(content)) : content]
+});
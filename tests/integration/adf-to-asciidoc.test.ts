@@ -0,0 +1,286 @@
+/**
+ * @file Integration tests for ADF to AsciiDoc conversion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, AdfToAsciiDocEngine, createInMemoryMentionResolver } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+import { doc, paragraph, text, listItem, cell } from '../helpers/adf';
+
+describe('ADF to AsciiDoc Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('text and marks', () => {
+    it('should render marks with surrounding whitespace kept outside them', () => {
+      const adf = doc(paragraph(
+        text('bold ', [{ type: 'strong' }]), text('italic', [{ type: 'em' }]), text(' '),
+        text('gone', [{ type: 'strike' }]), text(' '), text('x < y', [{ type: 'code' }]), text(' and '),
+        text('H'), text('2', [{ type: 'subsup', attrs: { type: 'sub' } }]), text('O')
+      ));
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('*bold* _italic_ [.line-through]#gone# `+x < y+` and H~2~O');
+    });
+
+    it('should use unconstrained marks when a word character touches them', () => {
+      const adf = doc(paragraph(
+        text('no', [{ type: 'strong' }]), text('ted, '),
+        text('un'), text('believ', [{ type: 'em' }]), text('able, '),
+        text('re'), text('done', [{ type: 'underline' }])
+      ));
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('**no**ted, un__believ__able, re[.underline]##done##');
+    });
+
+    it('should render links as bare URLs or link macros', () => {
+      const adf = doc(paragraph(
+        text('docs', [{ type: 'link', attrs: { href: 'https://example.com' } }]), text(' '),
+        text('https://example.com', [{ type: 'link', attrs: { href: 'https://example.com' } }]), text(' '),
+        text('a, b', [{ type: 'link', attrs: { href: '/relative page' } }])
+      ));
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('https://example.com[docs] https://example.com[] link:/relative%20page["a, b"]');
+    });
+
+    it('should escape formatting, attribute references and block syntax in text', () => {
+      const adf = doc(
+        paragraph(text('not *bold* or {version}')),
+        paragraph(text('* not a list item'))
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('not \\*bold* or \\{version}\n\n{blank}* not a list item');
+    });
+
+    it('should pass macros, cross references, passthroughs and unconstrained pairs in text through', () => {
+      const adf = doc(paragraph(text('see footnote:[x], <<id>>, +raw+ and a__b__c')));
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('see pass:c[footnote:[x\\],] pass:c[<<id>>,] pass:c[+raw+] and pass:c[a__b__c]');
+    });
+
+    it('should use a pass macro for code containing plus signs', () => {
+      expect(parser.adfToAsciiDoc(doc(paragraph(text('a+b', [{ type: 'code' }]))))).toBe('`pass:c[a+b]`');
+      expect(parser.adfToAsciiDoc(doc(paragraph(text('a+b<c>', [{ type: 'code' }]))))).toBe('`pass:c[a+b<c>]`');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should render headings as sections below the document title', () => {
+      const adf = doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('Overview')] },
+        { type: 'heading', attrs: { level: 6 }, content: [text('Deep')] }
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('== Overview\n\n====== Deep');
+    });
+
+    it('should keep the code block language', () => {
+      const adf = doc(
+        { type: 'codeBlock', attrs: { language: 'js' }, content: [text('const a = 1;')] },
+        { type: 'codeBlock', content: [text('plain')] }
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('[source,js]\n----\nconst a = 1;\n----\n\n[source]\n----\nplain\n----');
+    });
+
+    it('should lengthen delimiters past delimiter lines in the content', () => {
+      const adf = doc({ type: 'codeBlock', content: [text('a\n----\nb')] });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('[source]\n-----\na\n----\nb\n-----');
+    });
+
+    it('should render blockquotes, rules and hard breaks', () => {
+      const adf = doc(
+        { type: 'blockquote', content: [paragraph(text('Quoted'))] },
+        { type: 'rule' },
+        paragraph(text('one'), { type: 'hardBreak' }, text('two'))
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe("____\nQuoted\n____\n\n'''\n\none +\ntwo");
+    });
+  });
+
+  describe('panels and expands', () => {
+    it('should render panels as admonition blocks', () => {
+      const labels = ['info', 'note', 'success', 'warning', 'error'].map(panelType => parser.adfToAsciiDoc(
+        doc({ type: 'panel', attrs: { panelType }, content: [paragraph(text('Body'))] })
+      ).split('\n')[0]);
+
+      expect(labels).toEqual(['[NOTE]', '[IMPORTANT]', '[TIP]', '[WARNING]', '[CAUTION]']);
+      expect(parser.adfToAsciiDoc(doc({ type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful'))] })))
+        .toBe('[WARNING]\n====\nCareful\n====');
+    });
+
+    it('should render expands as collapsible blocks', () => {
+      const adf = doc({
+        type: 'expand',
+        attrs: { title: 'Details' },
+        content: [{ type: 'nestedExpand', attrs: { title: 'Inner' }, content: [paragraph(text('Hidden'))] }]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('.Details\n[%collapsible]\n=====\n.Inner\n[%collapsible]\n====\nHidden\n====\n=====');
+    });
+  });
+
+  describe('lists', () => {
+    it('should render nested lists with repeated markers', () => {
+      const adf = doc({
+        type: 'bulletList',
+        content: [
+          listItem(paragraph(text('one')), {
+            type: 'orderedList',
+            content: [listItem(paragraph(text('nested')))]
+          }),
+          listItem(paragraph(text('two')))
+        ]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('* one\n.. nested\n* two');
+    });
+
+    it('should attach further blocks with list continuations', () => {
+      const adf = doc({
+        type: 'orderedList',
+        attrs: { order: 3 },
+        content: [listItem(paragraph(text('Run')), { type: 'codeBlock', attrs: { language: 'sh' }, content: [text('make')] })]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('[start=3]\n. Run\n+\n[source,sh]\n----\nmake\n----');
+    });
+
+    it('should attach blocks after a nested list to the parent item', () => {
+      const adf = doc({
+        type: 'bulletList',
+        content: [
+          listItem(
+            paragraph(text('Run')),
+            { type: 'orderedList', content: [listItem(paragraph(text('nested')), { type: 'bulletList', content: [listItem(paragraph(text('deep')))] })] },
+            { type: 'codeBlock', attrs: { language: 'sh' }, content: [text('make')] }
+          ),
+          listItem(paragraph(text('two')), { type: 'bulletList', content: [listItem(paragraph(text('nested')))] }, paragraph(text('more')))
+        ]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe(
+        '* Run\n.. nested\n*** deep\n\n\n+\n[source,sh]\n----\nmake\n----\n* two\n** nested\n\n+\nmore'
+      );
+    });
+
+    it('should render task lists as checklists and separate adjacent lists', () => {
+      const adf = doc(
+        {
+          type: 'taskList',
+          content: [
+            { type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Done')] },
+            { type: 'taskItem', attrs: { state: 'TODO' }, content: [text('Open')] }
+          ]
+        },
+        { type: 'bulletList', content: [listItem(paragraph(text('Other')))] }
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('* [x] Done\n* [ ] Open\n\n//-\n\n* Other');
+    });
+  });
+
+  describe('tables', () => {
+    it('should render header rows, column spans and row spans', () => {
+      const adf = doc({
+        type: 'table',
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'A'), cell('tableHeader', 'B')] },
+          { type: 'tableRow', content: [cell('tableCell', 'Wide', { colspan: 2 })] },
+          { type: 'tableRow', content: [cell('tableCell', 'Tall', { rowspan: 2 }), cell('tableCell', 'x | y')] },
+          { type: 'tableRow', content: [cell('tableCell', 'z')] }
+        ]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe([
+        '[cols="2*",options="header"]',
+        '|===',
+        '| A',
+        '| B',
+        '',
+        '2+| Wide',
+        '',
+        '.2+| Tall',
+        '| x \\| y',
+        '',
+        '| z',
+        '|==='
+      ].join('\n'));
+    });
+
+    it('should use AsciiDoc cells for block content and header style for header columns', () => {
+      const adf = doc({
+        type: 'table',
+        content: [{
+          type: 'tableRow',
+          content: [
+            cell('tableHeader', 'Key'),
+            { type: 'tableCell', content: [paragraph(text('one')), paragraph(text('two'))] }
+          ]
+        }]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('[cols="2*"]\n|===\nh| Key\na| one\n\ntwo\n|===');
+    });
+  });
+
+  describe('media', () => {
+    it('should render media as image macros with captions as titles', () => {
+      const adf = doc({
+        type: 'mediaSingle',
+        content: [
+          { type: 'media', attrs: { type: 'external', url: 'https://example.com/a b.png', alt: 'Diagram', width: 400 } },
+          { type: 'caption', content: [text('Architecture')] }
+        ]
+      });
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('.Architecture\nimage::https://example.com/a%20b.png[Diagram,width=400]');
+    });
+
+    it('should resolve file media through the media resolver', async () => {
+      const resolving = new Parser({ mediaResolver: { resolveId: async (id: string) => `images/${id}.png` } });
+      const adf = doc({ type: 'mediaSingle', content: [{ type: 'media', attrs: { type: 'file', id: 'abc', collection: 'c' } }] });
+
+      expect(await resolving.adfToAsciiDocAsync(adf)).toBe('image::images/abc.png[]');
+      expect(parser.adfToAsciiDoc(adf)).toBe('image::abc[]');
+    });
+  });
+
+  describe('inline nodes', () => {
+    it('should render mentions, statuses, dates and emoji', () => {
+      const adf = doc(paragraph(
+        { type: 'mention', attrs: { id: 'acc-1', text: '@Alice' } }, text(' '),
+        { type: 'status', attrs: { text: 'DONE', color: 'green' } }, text(' '),
+        { type: 'date', attrs: { timestamp: '1700000000000' } }, text(' '),
+        { type: 'emoji', attrs: { shortName: ':smile:', text: '😄' } }
+      ));
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('@Alice [.status.status-green]#DONE# 2023-11-14 😄');
+    });
+
+    it('should resolve mention names through the mention resolver', async () => {
+      const resolving = new Parser({
+        mentionResolver: createInMemoryMentionResolver([{ accountId: 'acc-1', displayName: 'Alice Smith' }])
+      });
+      const adf = doc(paragraph({ type: 'mention', attrs: { id: 'acc-1' } }));
+
+      expect(await resolving.adfToAsciiDocAsync(adf)).toBe('@Alice Smith');
+    });
+
+    it('should render cards as links and extensions as comments', () => {
+      const adf = doc(
+        paragraph({ type: 'inlineCard', attrs: { url: 'https://example.com/issue/1' } }),
+        { type: 'extension', attrs: { extensionType: 'com.atlassian.macro', extensionKey: 'toc' } }
+      );
+
+      expect(parser.adfToAsciiDoc(adf)).toBe('https://example.com/issue/1[]\n\n// extension: toc');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return an empty string for invalid input unless strict', () => {
+      expect(new AdfToAsciiDocEngine().convert(null as unknown as ADFDocument)).toBe('');
+      expect(() => new AdfToAsciiDocEngine({ strict: true }).convert(null as unknown as ADFDocument)).toThrow();
+    });
+  });
+});
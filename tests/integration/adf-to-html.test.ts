@@ -0,0 +1,176 @@
+/**
+ * @file Integration tests for ADF to HTML rendering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, AdfToHtmlEngine } from '../../src/index';
+import { doc, paragraph, text, listItem, cell } from '../helpers/adf';
+
+describe('ADF to HTML Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('blocks', () => {
+    it('should render paragraphs, headings and rules', () => {
+      expect(parser.adfToHtml(doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Title')] },
+        paragraph(text('Hello'), { type: 'hardBreak' }, text('world')),
+        { type: 'rule' }
+      ))).toBe('<h2>Title</h2>\n<p>Hello<br>world</p>\n<hr>');
+    });
+
+    it('should apply alignment and indentation marks', () => {
+      expect(parser.adfToHtml(doc({ ...paragraph(text('Centered')), marks: [{ type: 'alignment', attrs: { align: 'center' } }] })))
+        .toBe('<p style="text-align: center">Centered</p>');
+    });
+
+    it('should render panels with type classes', () => {
+      expect(parser.adfToHtml(doc({ type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful'))] })))
+        .toBe('<div class="adf-panel adf-panel-warning" data-panel-type="warning"><p>Careful</p></div>');
+    });
+
+    it('should render custom panels with their icon and color', () => {
+      expect(parser.adfToHtml(doc({
+        type: 'panel',
+        attrs: { panelType: 'custom', panelIcon: ':rocket:', panelColor: '#E3FCEF' },
+        content: [paragraph(text('Launch'))]
+      }))).toBe('<div class="adf-panel adf-panel-custom" data-panel-type="custom" data-panel-icon=":rocket:" style="background-color: #E3FCEF"><p>Launch</p></div>');
+    });
+
+    it('should render expands as details', () => {
+      expect(parser.adfToHtml(doc({
+        type: 'expand',
+        attrs: { title: 'More <info>' },
+        content: [{ type: 'nestedExpand', attrs: { title: 'Inner' }, content: [paragraph(text('Body'))] }]
+      }))).toBe('<details class="adf-expand"><summary>More &lt;info&gt;</summary><details class="adf-nested-expand"><summary>Inner</summary><p>Body</p></details></details>');
+    });
+
+    it('should escape code blocks and add a language class', () => {
+      expect(parser.adfToHtml(doc({ type: 'codeBlock', attrs: { language: 'html' }, content: [text('<b>&</b>')] })))
+        .toBe('<pre class="adf-code-block" data-language="html"><code class="language-html">&lt;b&gt;&amp;&lt;/b&gt;</code></pre>');
+    });
+
+    it('should render lists, task lists and decision lists', () => {
+      expect(parser.adfToHtml(doc(
+        { type: 'orderedList', attrs: { order: 3 }, content: [listItem(paragraph(text('Three')))] },
+        { type: 'taskList', content: [{ type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Ship')] }] },
+        { type: 'decisionList', content: [{ type: 'decisionItem', attrs: { state: 'DECIDED' }, content: [text('Go')] }] }
+      ))).toBe([
+        '<ol start="3"><li><p>Three</p></li></ol>',
+        '<ul class="adf-task-list"><li class="adf-task-item" data-state="DONE"><input type="checkbox" disabled checked> Ship</li></ul>',
+        '<ul class="adf-decision-list"><li class="adf-decision-item" data-state="DECIDED">Go</li></ul>'
+      ].join('\n'));
+    });
+
+    it('should render tables with spans and header cells', () => {
+      expect(parser.adfToHtml(doc({
+        type: 'table',
+        attrs: { layout: 'wide' },
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'H')] },
+          { type: 'tableRow', content: [cell('tableCell', 'C', { colspan: 2, background: '#ffebe6' })] }
+        ]
+      }))).toBe('<table class="adf-table" data-layout="wide"><tbody><tr><th><p>H</p></th></tr><tr><td colspan="2" style="background-color: #ffebe6"><p>C</p></td></tr></tbody></table>');
+    });
+
+    it('should render layouts and extensions', () => {
+      expect(parser.adfToHtml(doc(
+        { type: 'layoutSection', content: [{ type: 'layoutColumn', attrs: { width: 50 }, content: [paragraph(text('Left'))] }] },
+        { type: 'extension', attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'toc' } }
+      ))).toBe([
+        '<div class="adf-layout-section"><div class="adf-layout-column" style="flex-basis: 50%"><p>Left</p></div></div>',
+        '<div class="adf-extension" data-extension-type="com.atlassian.confluence.macro.core" data-extension-key="toc"></div>'
+      ].join('\n'));
+    });
+  });
+
+  describe('inline nodes and marks', () => {
+    it('should render marks', () => {
+      expect(parser.adfToHtml(doc(paragraph(
+        text('bold', [{ type: 'strong' }, { type: 'em' }]),
+        text('red', [{ type: 'textColor', attrs: { color: '#ff5630' } }]),
+        text('2', [{ type: 'subsup', attrs: { type: 'sup' } }]),
+        text('link', [{ type: 'link', attrs: { href: 'https://example.com', title: 'Example' } }])
+      )))).toBe('<p><em><strong>bold</strong></em><span style="color: #ff5630">red</span><sup>2</sup><a href="https://example.com" title="Example">link</a></p>');
+    });
+
+    it('should render status lozenges, mentions, emoji and dates', () => {
+      expect(parser.adfToHtml(doc(paragraph(
+        { type: 'status', attrs: { text: 'DONE', color: 'green' } },
+        { type: 'mention', attrs: { id: 'acc-1', text: '@Alice' } },
+        { type: 'emoji', attrs: { shortName: ':smile:', text: '😄' } },
+        { type: 'date', attrs: { timestamp: '1710460800000' } }
+      )))).toBe('<p><span class="adf-status adf-status-green">DONE</span><span class="adf-mention" data-mention-id="acc-1">@Alice</span><span class="adf-emoji" data-emoji-short-name=":smile:">😄</span><time class="adf-date" datetime="2024-03-15">2024-03-15</time></p>');
+    });
+
+    it('should render media placeholders and external media', () => {
+      expect(parser.adfToHtml(doc({
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [
+          { type: 'media', attrs: { id: 'abc-123', type: 'file', collection: 'contentId-1', alt: 'Diagram' } },
+          { type: 'caption', content: [text('Figure 1')] }
+        ]
+      }, {
+        type: 'mediaSingle',
+        content: [{ type: 'media', attrs: { type: 'external', url: 'https://example.com/a.png' } }]
+      }))).toBe([
+        '<figure class="adf-media-single" data-layout="center"><span class="adf-media adf-media-placeholder" data-media-id="abc-123" data-media-type="file" data-collection="contentId-1">Diagram</span><figcaption class="adf-caption">Figure 1</figcaption></figure>',
+        '<figure class="adf-media-single"><img class="adf-media" src="https://example.com/a.png" alt=""></figure>'
+      ].join('\n'));
+    });
+
+    it('should use media resolver paths as image sources', () => {
+      const html = new Parser({ mediaResolver: { resolveId: id => `/files/${id}.png` } })
+        .adfToHtml(doc({ type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'abc', type: 'file', collection: '' } }] }));
+
+      expect(html).toBe('<figure class="adf-media-single"><img class="adf-media" src="/files/abc.png" alt="" data-media-id="abc"></figure>');
+    });
+
+    it('should render cards as links', () => {
+      expect(parser.adfToHtml(doc(
+        paragraph({ type: 'inlineCard', attrs: { url: 'https://example.com/page' } }),
+        { type: 'blockCard', attrs: { url: 'https://example.com/doc', data: { name: 'Design doc' } } }
+      ))).toBe([
+        '<p><a class="adf-inline-card" href="https://example.com/page">https://example.com/page</a></p>',
+        '<div class="adf-block-card-container"><a class="adf-block-card" href="https://example.com/doc">Design doc</a></div>'
+      ].join('\n'));
+    });
+  });
+
+  describe('safety', () => {
+    it('should escape text and attribute values', () => {
+      expect(parser.adfToHtml(doc(paragraph(
+        text('<script>alert(1)</script>'),
+        { type: 'mention', attrs: { id: '"><img src=x onerror=alert(1)>', text: '@x' } }
+      )))).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;<span class="adf-mention" data-mention-id="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;">@x</span></p>');
+    });
+
+    it('should drop unsafe link targets and colors', () => {
+      expect(parser.adfToHtml(doc(paragraph(
+        text('click', [{ type: 'link', attrs: { href: 'javascript:alert(1)' } }]),
+        text('styled', [{ type: 'textColor', attrs: { color: 'red;background:url(x)' } }])
+      )))).toBe('<p>clickstyled</p>');
+    });
+  });
+
+  describe('options', () => {
+    it('should use the class prefix', () => {
+      expect(parser.adfToHtml(doc({ type: 'status', attrs: { text: 'OK', color: 'blue' } }), { classPrefix: 'jira-' }))
+        .toBe('<span class="jira-status jira-status-blue">OK</span>');
+    });
+
+    it('should render unknown nodes by their content', () => {
+      expect(new AdfToHtmlEngine().convert(doc({ type: 'futureNode', content: [paragraph(text('Kept'))] })))
+        .toBe('<p>Kept</p>');
+    });
+
+    it('should render display names from the mention resolver', async () => {
+      const engine = new AdfToHtmlEngine({
+        mentionResolver: { resolveById: async id => ({ accountId: id, displayName: 'Alice Smith' }) }
+      });
+
+      expect(await engine.convertAsync(doc(paragraph({ type: 'mention', attrs: { id: 'acc-1' } }))))
+        .toBe('<p><span class="adf-mention" data-mention-id="acc-1">@Alice Smith</span></p>');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @file Integration tests for ADF to Slack mrkdwn and Block Kit conversion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, AdfToSlackEngine, createInMemoryMentionResolver } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+import { doc, paragraph, text, listItem } from '../helpers/adf';
+
+const mentionResolver = createInMemoryMentionResolver([
+  { accountId: 'acc-1', displayName: 'Alice Smith', slackUserId: 'U123' },
+  { accountId: 'acc-2', displayName: 'Bob Jones' }
+]);
+
+describe('ADF to Slack Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('mrkdwn', () => {
+    it('should render marks, links and escape control characters', () => {
+      const adf = doc(paragraph(
+        text('bold ', [{ type: 'strong' }]), text('italic', [{ type: 'em' }]), text(' '),
+        text('gone', [{ type: 'strike' }]), text(' '), text('x < y', [{ type: 'code' }]), text(' & '),
+        text('docs', [{ type: 'link', attrs: { href: 'https://example.com?a=1&b=2' } }])
+      ));
+
+      expect(parser.adfToSlackMrkdwn(adf)).toBe('*bold* _italic_ ~gone~ `x &lt; y` &amp; <https://example.com?a=1&amp;b=2|docs>');
+    });
+
+    it('should percent-encode pipes in link, card and image URLs', () => {
+      const url = 'https://example.com/search?q=a|b';
+      const adf = doc(
+        paragraph(text('results', [{ type: 'link', attrs: { href: url } }]), text(' '), { type: 'inlineCard', attrs: { url } }),
+        { type: 'blockCard', attrs: { url } },
+        { type: 'mediaSingle', content: [{ type: 'media', attrs: { type: 'external', url, alt: 'chart' } }] }
+      );
+
+      expect(parser.adfToSlackMrkdwn(adf)).toBe([
+        '<https://example.com/search?q=a%7Cb|results> <https://example.com/search?q=a%7Cb>',
+        '<https://example.com/search?q=a%7Cb>',
+        '<https://example.com/search?q=a%7Cb|chart>'
+      ].join('\n\n'));
+    });
+
+    it('should render mentions as Slack user references when the resolver knows the Slack user', () => {
+      const resolving = new Parser({ mentionResolver });
+      const adf = doc(paragraph(
+        { type: 'mention', attrs: { id: 'acc-1', text: '@Alice' } }, text(' and '),
+        { type: 'mention', attrs: { id: 'acc-2', text: '@Bob' } }, text(' and '),
+        { type: 'mention', attrs: { id: 'acc-3', text: '@Carol' } }
+      ));
+
+      expect(resolving.adfToSlackMrkdwn(adf)).toBe('<@U123> and @Bob Jones and @Carol');
+    });
+
+    it('should wait for async mention resolvers', async () => {
+      const resolving = new Parser({
+        mentionResolver: { resolveById: async accountId => ({ accountId, displayName: 'Async User', slackUserId: 'U999' }) }
+      });
+
+      expect(await resolving.adfToSlackMrkdwnAsync(doc(paragraph({ type: 'mention', attrs: { id: 'acc-9' } })))).toBe('<@U999>');
+    });
+
+    it('should render emoji, dates, status and cards', () => {
+      const adf = doc(paragraph(
+        { type: 'emoji', attrs: { shortName: ':tada:', text: '🎉' } }, text(' '),
+        { type: 'date', attrs: { timestamp: String(Date.UTC(2024, 0, 15)) } }, text(' '),
+        { type: 'status', attrs: { text: 'In progress', color: 'blue' } }, text(' '),
+        { type: 'inlineCard', attrs: { url: 'https://example.com/browse/PROJ-1' } }
+      ));
+
+      expect(parser.adfToSlackMrkdwn(adf)).toBe(
+        ':tada: <!date^1705276800^{date_short}|2024-01-15> `In progress` <https://example.com/browse/PROJ-1>'
+      );
+    });
+
+    it('should render headings, lists, code blocks and quotes', () => {
+      const adf = doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Plan')] },
+        { type: 'bulletList', content: [listItem(paragraph(text('one')), { type: 'bulletList', content: [listItem(paragraph(text('nested')))] }), listItem(paragraph(text('two')))] },
+        { type: 'orderedList', attrs: { order: 3 }, content: [listItem(paragraph(text('third')))] },
+        { type: 'taskList', attrs: { localId: 'l' }, content: [{ type: 'taskItem', attrs: { localId: 't', state: 'DONE' }, content: [text('shipped')] }] },
+        { type: 'codeBlock', attrs: { language: 'js' }, content: [text('if (a < b) {}')] },
+        { type: 'blockquote', content: [paragraph(text('quoted'))] }
+      );
+
+      expect(parser.adfToSlackMrkdwn(adf)).toBe([
+        '*Plan*',
+        '• one\n    • nested\n• two',
+        '3. third',
+        '☑ shipped',
+        '```\nif (a &lt; b) {}\n```',
+        '> quoted'
+      ].join('\n\n'));
+    });
+
+    it('should downgrade panels, expands and tables', () => {
+      const adf = doc(
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful')), paragraph(text('Really'))] },
+        { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('Hidden'))] },
+        {
+          type: 'table',
+          content: [
+            { type: 'tableRow', content: [{ type: 'tableHeader', content: [paragraph(text('Name'))] }, { type: 'tableHeader', content: [paragraph(text('Qty'))] }] },
+            { type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('Apple'))] }, { type: 'tableCell', content: [paragraph(text('3'))] }] }
+          ]
+        }
+      );
+
+      expect(parser.adfToSlackMrkdwn(adf)).toBe([
+        '> :warning: Careful\n> \n> Really',
+        '*Details*\nHidden',
+        '```\nName   Qty\n-----  ---\nApple  3\n```'
+      ].join('\n\n'));
+    });
+
+    it('should keep whitespace outside of mark delimiters', () => {
+      expect(parser.adfToSlackMrkdwn(doc(paragraph(text('a'), text(' bold ', [{ type: 'strong' }]), text('b')))))
+        .toBe('a *bold* b');
+    });
+
+    it('should truncate messages over the text limit', () => {
+      const long = doc(...Array.from({ length: 5000 }, () => paragraph(text('lorem ipsum'))));
+      const mrkdwn = parser.adfToSlackMrkdwn(long);
+
+      expect(mrkdwn.length).toBeLessThanOrEqual(40000);
+      expect(mrkdwn.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('Block Kit', () => {
+    it('should render headers, sections and dividers', () => {
+      const adf = doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('Release ', [{ type: 'strong' }]), text('notes')] },
+        paragraph(text('First')),
+        paragraph(text('Second', [{ type: 'em' }])),
+        { type: 'rule' },
+        paragraph(text('After'))
+      );
+
+      expect(parser.adfToSlackBlocks(adf)).toEqual([
+        { type: 'header', text: { type: 'plain_text', text: 'Release notes', emoji: true } },
+        { type: 'section', text: { type: 'mrkdwn', text: 'First\n\n_Second_' } },
+        { type: 'divider' },
+        { type: 'section', text: { type: 'mrkdwn', text: 'After' } }
+      ]);
+    });
+
+    it('should render lists as rich text with nested indents', () => {
+      const resolving = new Parser({ mentionResolver });
+      const adf = doc({
+        type: 'orderedList',
+        attrs: { order: 1 },
+        content: [
+          listItem(paragraph(text('ask '), { type: 'mention', attrs: { id: 'acc-1' } }), { type: 'bulletList', content: [listItem(paragraph(text('sub', [{ type: 'strong' }])))] }),
+          listItem(paragraph(text('docs', [{ type: 'link', attrs: { href: 'https://example.com' } }])))
+        ]
+      });
+
+      expect(resolving.adfToSlackBlocks(adf)).toEqual([{
+        type: 'rich_text',
+        elements: [
+          { type: 'rich_text_list', style: 'ordered', elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'ask ' }, { type: 'user', user_id: 'U123' }] }] },
+          { type: 'rich_text_list', style: 'bullet', indent: 1, elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'sub', style: { bold: true } }] }] },
+          { type: 'rich_text_list', style: 'ordered', offset: 1, elements: [{ type: 'rich_text_section', elements: [{ type: 'link', url: 'https://example.com', text: 'docs' }] }] }
+        ]
+      }]);
+    });
+
+    it('should render code blocks as preformatted rich text and task items with checkboxes', () => {
+      const adf = doc(
+        { type: 'codeBlock', attrs: { language: 'sh' }, content: [text('yarn test')] },
+        { type: 'taskList', attrs: { localId: 'l' }, content: [{ type: 'taskItem', attrs: { localId: 't', state: 'TODO' }, content: [text('review')] }] }
+      );
+
+      expect(parser.adfToSlackBlocks(adf)).toEqual([
+        { type: 'rich_text', elements: [{ type: 'rich_text_preformatted', elements: [{ type: 'text', text: 'yarn test' }] }] },
+        { type: 'rich_text', elements: [{ type: 'rich_text_list', style: 'bullet', elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: '☐ ' }, { type: 'text', text: 'review' }] }] }] }
+      ]);
+    });
+
+    it('should render external images as image blocks with captions in context blocks', () => {
+      const adf = doc({
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [
+          { type: 'media', attrs: { type: 'external', url: 'https://example.com/chart.png', alt: 'Chart' } },
+          { type: 'caption', content: [text('Weekly ', [{ type: 'strong' }]), text('usage')] }
+        ]
+      });
+
+      expect(parser.adfToSlackBlocks(adf)).toEqual([
+        { type: 'image', image_url: 'https://example.com/chart.png', alt_text: 'Chart' },
+        { type: 'context', elements: [{ type: 'mrkdwn', text: '*Weekly* usage' }] }
+      ]);
+    });
+
+    it('should split long sections and truncate long headers', () => {
+      const blocks = parser.adfToSlackBlocks(doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('word '.repeat(60))] },
+        paragraph(text('lorem ipsum '.repeat(400)))
+      ));
+
+      expect(blocks.map(block => block.type)).toEqual(['header', 'section', 'section']);
+      for (const block of blocks) {
+        const limit = block.type === 'header' ? 150 : 3000;
+        expect('text' in block && block.text.text.length).toBeLessThanOrEqual(limit);
+      }
+    });
+
+    it('should end messages over the block limit with a context block', () => {
+      const adf = doc(...Array.from({ length: 60 }, () => ({ type: 'rule' })));
+      const blocks = parser.adfToSlackBlocks(adf);
+
+      expect(blocks).toHaveLength(50);
+      expect(blocks[49]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: '_11 more blocks not shown_' }] });
+    });
+
+    it('should return no blocks for invalid input unless strict', () => {
+      expect(new AdfToSlackEngine().convertToBlocks(null as unknown as ADFDocument)).toEqual([]);
+      expect(() => new AdfToSlackEngine({ strict: true }).convertToBlocks(null as unknown as ADFDocument)).toThrow('Invalid ADF document');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @file Integration tests for ADF to plain text rendering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, AdfToTextEngine } from '../../src/index';
+import type { ADFDocument, ADFNode } from '../../src/types';
+import { doc, paragraph, text, listItem, cell } from '../helpers/adf';
+
+describe('ADF to Text Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('blocks', () => {
+    it('should separate blocks with blank lines and drop marks', () => {
+      expect(parser.adfToText(doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('Release notes')] },
+        paragraph(text('Now '), text('faster', [{ type: 'strong' }]), text(' and '), text('safer', [{ type: 'link', attrs: { href: 'https://example.com' } }])),
+        { type: 'rule' }
+      ))).toBe('Release notes\n\nNow faster and safer\n\n---');
+    });
+
+    it('should keep panel, expand and code block content', () => {
+      expect(parser.adfToText(doc(
+        { type: 'panel', attrs: { panelType: 'info' }, content: [paragraph(text('Heads up'))] },
+        { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('Hidden'))] },
+        { type: 'codeBlock', attrs: { language: 'js' }, content: [text('const a = 1;\nconst b = 2;')] }
+      ))).toBe('Heads up\n\nDetails\nHidden\n\nconst a = 1;\nconst b = 2;');
+    });
+
+    it('should render hard breaks as newlines', () => {
+      expect(parser.adfToText(doc(paragraph(text('one'), { type: 'hardBreak' }, text('two'))))).toBe('one\ntwo');
+    });
+  });
+
+  describe('lists', () => {
+    it('should render bullet and ordered lists with nesting', () => {
+      const list: ADFNode = {
+        type: 'bulletList',
+        content: [
+          listItem(paragraph(text('First')), { type: 'orderedList', attrs: { order: 3 }, content: [listItem(paragraph(text('Three'))), listItem(paragraph(text('Four')))] }),
+          listItem(paragraph(text('Second')))
+        ]
+      };
+      expect(parser.adfToText(doc(list))).toBe('- First\n  3. Three\n  4. Four\n- Second');
+      expect(parser.adfToText(doc(list), { bullet: '•' })).toBe('• First\n  3. Three\n  4. Four\n• Second');
+    });
+
+    it('should render task and decision lists', () => {
+      expect(parser.adfToText(doc(
+        { type: 'taskList', attrs: { localId: 't' }, content: [
+          { type: 'taskItem', attrs: { localId: '1', state: 'DONE' }, content: [text('Ship it')] },
+          { type: 'taskItem', attrs: { localId: '2', state: 'TODO' }, content: [text('Announce')] }
+        ] },
+        { type: 'decisionList', attrs: { localId: 'd' }, content: [{ type: 'decisionItem', attrs: { localId: '3', state: 'DECIDED' }, content: [text('Use Postgres')] }] }
+      ))).toBe('[x] Ship it\n[ ] Announce\n\n- Use Postgres');
+    });
+  });
+
+  describe('tables', () => {
+    const table = doc({
+      type: 'table',
+      content: [
+        { type: 'tableRow', content: [cell('tableHeader', 'Service'), cell('tableHeader', 'Owner')] },
+        { type: 'tableRow', content: [cell('tableCell', 'API'), cell('tableCell', 'Platform team')] },
+        { type: 'tableRow', content: [cell('tableCell', 'Merged', { colspan: 2 })] }
+      ]
+    });
+
+    it('should align columns by default', () => {
+      expect(parser.adfToText(table)).toBe('Service  Owner\n-------  -------------\nAPI      Platform team\nMerged');
+    });
+
+    it('should render TSV', () => {
+      expect(parser.adfToText(table, { tableFormat: 'tsv' })).toBe('Service\tOwner\nAPI\tPlatform team\nMerged\t');
+    });
+
+    it('should pad cells covered by a rowspan from an earlier row', () => {
+      const spanned = doc({
+        type: 'table',
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'Team'), cell('tableHeader', 'Service'), cell('tableHeader', 'Status')] },
+          { type: 'tableRow', content: [cell('tableCell', 'Platform', { rowspan: 2 }), cell('tableCell', 'API'), cell('tableCell', 'Up')] },
+          { type: 'tableRow', content: [cell('tableCell', 'Queue'), cell('tableCell', 'Down')] },
+          { type: 'tableRow', content: [cell('tableCell', 'Data'), cell('tableCell', 'ETL'), cell('tableCell', 'Paused', { rowspan: 2 })] },
+          { type: 'tableRow', content: [cell('tableCell', 'Web'), cell('tableCell', 'CDN')] }
+        ]
+      });
+
+      expect(parser.adfToText(spanned, { tableFormat: 'tsv' })).toBe(
+        'Team\tService\tStatus\nPlatform\tAPI\tUp\n\tQueue\tDown\nData\tETL\tPaused\nWeb\tCDN\t'
+      );
+      expect(parser.adfToText(spanned)).toBe([
+        'Team      Service  Status',
+        '--------  -------  ------',
+        'Platform  API      Up',
+        '          Queue    Down',
+        'Data      ETL      Paused',
+        'Web       CDN'
+      ].join('\n'));
+    });
+  });
+
+  describe('inline nodes', () => {
+    const inline = doc(paragraph(
+      { type: 'mention', attrs: { id: 'abc', text: '@Alice' } },
+      text(' set '),
+      { type: 'status', attrs: { text: 'DONE', color: 'green' } },
+      text(' on '),
+      { type: 'date', attrs: { timestamp: '1710460800000' } },
+      text(' '),
+      { type: 'emoji', attrs: { shortName: ':tada:', text: '🎉' } }
+    ));
+
+    it('should render mentions, status, dates and emoji', () => {
+      expect(parser.adfToText(inline)).toBe('@Alice set [DONE] on 2024-03-15 🎉');
+    });
+
+    it('should apply mention, status and date options', () => {
+      expect(parser.adfToText(inline, {
+        mentionPrefix: '',
+        statusFormat: 'plain',
+        formatDate: date => `${date.getUTCDate()}/${date.getUTCMonth() + 1}/${date.getUTCFullYear()}`
+      })).toBe('Alice set DONE on 15/3/2024 🎉');
+    });
+
+    it('should resolve mention names with the mention resolver', async () => {
+      const mention = doc(paragraph({ type: 'mention', attrs: { id: 'abc' } }));
+      const resolver = { resolveById: async (id: string) => ({ accountId: id, displayName: 'Alice Smith' }) };
+      expect(await new AdfToTextEngine({ mentionResolver: resolver }).convertAsync(mention)).toBe('@Alice Smith');
+    });
+
+    it('should render media alt text or a placeholder', () => {
+      const media = (alt?: string): ADFNode => ({ type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'm', type: 'file', collection: '', ...(alt && { alt }) } }] });
+      expect(parser.adfToText(doc(media('Architecture diagram'), media()))).toBe('Architecture diagram\n\n[media]');
+      expect(parser.adfToText(doc(media()), { mediaPlaceholder: '' })).toBe('');
+    });
+
+    it('should render cards as their URL', () => {
+      expect(parser.adfToText(doc(paragraph(text('See '), { type: 'inlineCard', attrs: { url: 'https://example.com/a' } }))))
+        .toBe('See https://example.com/a');
+    });
+  });
+
+  describe('wrapping and truncation', () => {
+    it('should wrap paragraphs and list items at the line width', () => {
+      expect(parser.adfToText(doc(
+        paragraph(text('The quick brown fox jumps over the lazy dog')),
+        { type: 'bulletList', content: [listItem(paragraph(text('A list item that wraps')))] }
+      ), { lineWidth: 16 })).toBe('The quick brown\nfox jumps over\nthe lazy dog\n\n- A list item\n  that wraps');
+    });
+
+    it('should truncate at a word boundary', () => {
+      expect(parser.adfToText(doc(paragraph(text('The deployment finished successfully'))), { maxLength: 25 }))
+        .toBe('The deployment finished…');
+    });
+  });
+
+  it('should return an empty string for invalid input', () => {
+    expect(new AdfToTextEngine().convert(null as unknown as ADFDocument)).toBe('');
+  });
+});
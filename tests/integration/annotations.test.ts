@@ -0,0 +1,197 @@
+/**
+ * @file Integration tests for bidirectional annotation mark conversion
+ * Tests that Confluence inline comment anchors survive a markdown round trip
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+const annotation = (id: string) => ({
+  type: 'annotation',
+  attrs: { annotationType: 'inlineComment', id }
+});
+
+describe('Annotation Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should apply the annotation mark to the wrapped range', () => {
+      const adf = parser.markdownToAdf(
+        'Hello <!-- adf:annotation id="123" annotationType="inlineComment" -->world<!-- /adf:annotation --> again'
+      );
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Hello ' },
+          { type: 'text', text: 'world', marks: [annotation('123')] },
+          { type: 'text', text: ' again' }
+        ]
+      }]);
+    });
+
+    it('should handle an annotation at the start of a paragraph', () => {
+      const adf = parser.markdownToAdf(
+        '<!-- adf:annotation id="a1" annotationType="inlineComment" -->Start<!-- /adf:annotation --> of text'
+      );
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Start', marks: [annotation('a1')] },
+          { type: 'text', text: ' of text' }
+        ]
+      }]);
+    });
+
+    it('should combine the annotation with formatting inside the range', () => {
+      const adf = parser.markdownToAdf(
+        'See <!-- adf:annotation id="b2" annotationType="inlineComment" -->**this** part<!-- /adf:annotation -->'
+      );
+
+      expect(adf.content[0].content).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'text', text: 'this', marks: [{ type: 'strong' }, annotation('b2')] },
+        { type: 'text', text: ' part', marks: [annotation('b2')] }
+      ]);
+    });
+
+    it('should keep numeric-looking ids as strings', () => {
+      const adf = parser.markdownToAdf(
+        'x <!-- adf:annotation id="42" annotationType="inlineComment" -->y<!-- /adf:annotation -->'
+      );
+
+      expect(adf.content[0].content![1].marks).toEqual([annotation('42')]);
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve annotation marks through ADF → Markdown → ADF', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Hello ' },
+              { type: 'text', text: 'world', marks: [annotation('123')] },
+              { type: 'text', text: ' and ' },
+              { type: 'text', text: 'bold', marks: [{ type: 'strong' }, annotation('abc')] }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Start', marks: [annotation('x1')] },
+              { type: 'text', text: ' rest' }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(markdown).toContain('<!-- adf:annotation id="123" annotationType="inlineComment" -->world<!-- /adf:annotation -->');
+
+      const roundTripAdf = parser.markdownToAdf(markdown);
+      expect(roundTripAdf).toEqual(originalAdf);
+    });
+
+    it('should wrap an annotation across mixed formatting once', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'no', marks: [{ type: 'strong' }, annotation('a1')] },
+              { type: 'text', text: 'ted', marks: [annotation('a1')] },
+              { type: 'text', text: ' here' }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Text ' },
+              { type: 'text', text: 'in', marks: [{ type: 'em' }, annotation('a2')] },
+              { type: 'text', text: ' range', marks: [annotation('a2')] }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(markdown).toBe([
+        '<!-- adf:annotation id="a1" annotationType="inlineComment" -->**no**ted<!-- /adf:annotation --> here',
+        '',
+        'Text <!-- adf:annotation id="a2" annotationType="inlineComment" -->*in* range<!-- /adf:annotation -->'
+      ].join('\n'));
+
+      expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+    });
+
+    it('should preserve overlapping annotations', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'ab', marks: [annotation('a1')] },
+              { type: 'text', text: 'cd', marks: [annotation('a1'), annotation('a2')] },
+              { type: 'text', text: 'ef', marks: [annotation('a2')] }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Start ' },
+              { type: 'text', text: 'ab', marks: [annotation('a3')] },
+              { type: 'text', text: 'cd', marks: [annotation('a3'), annotation('a4')] },
+              { type: 'text', text: 'ef', marks: [annotation('a4')] }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+    });
+
+    it('should preserve nested annotations', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'ab', marks: [annotation('a1')] },
+              { type: 'text', text: 'cd', marks: [{ type: 'strong' }, annotation('a1'), annotation('a2')] },
+              { type: 'text', text: 'ef', marks: [annotation('a1')] }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'x ' },
+              { type: 'text', text: 'ab', marks: [annotation('a3')] },
+              { type: 'text', text: 'cd', marks: [annotation('a3'), annotation('a4')] },
+              { type: 'text', text: 'ef', marks: [annotation('a3')] }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(markdown.match(/<!-- adf:annotation id="a1"/g)).toHaveLength(1);
+      expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+    });
+  });
+});
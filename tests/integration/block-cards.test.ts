@@ -0,0 +1,96 @@
+/**
+ * @file Integration tests for bidirectional blockCard and embedCard conversion
+ * Tests that standalone card links with a display hint convert to/from block-level cards
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Block Card Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert a standalone card link with a blockCard hint', () => {
+      const adf = parser.markdownToAdf('[Roadmap](card:https://example.com/roadmap)<!-- adf:blockCard -->');
+
+      expect(adf.content).toEqual([
+        { type: 'blockCard', attrs: { url: 'https://example.com/roadmap' } }
+      ]);
+    });
+
+    it('should convert a regular link with an embedCard hint', () => {
+      const adf = parser.markdownToAdf('[Demo](https://www.youtube.com/watch?v=abc) <!-- adf:embedCard layout="wide" width="80" -->');
+
+      expect(adf.content).toEqual([
+        {
+          type: 'embedCard',
+          attrs: { url: 'https://www.youtube.com/watch?v=abc', layout: 'wide', width: 80 }
+        }
+      ]);
+    });
+
+    it('should default embedCard layout to center', () => {
+      const adf = parser.markdownToAdf('[Board](card:https://example.com/board)<!-- adf:embedCard -->');
+
+      expect(adf.content[0].attrs).toEqual({ url: 'https://example.com/board', layout: 'center' });
+    });
+
+    it('should keep card links inside other text as inlineCard', () => {
+      const adf = parser.markdownToAdf('See [Roadmap](card:https://example.com/roadmap) for details');
+
+      expect(adf.content[0].type).toBe('paragraph');
+      expect(adf.content[0].content![1]).toEqual({
+        type: 'inlineCard',
+        attrs: { url: 'https://example.com/roadmap' }
+      });
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve blockCard and embedCard attributes', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          { type: 'blockCard', attrs: { url: 'https://example.com/page?id=1' } },
+          {
+            type: 'embedCard',
+            attrs: { url: 'https://www.youtube.com/watch?v=abc', layout: 'wide', width: 80 }
+          },
+          {
+            type: 'embedCard',
+            attrs: { url: 'https://example.com/design', layout: 'center', originalWidth: 640, originalHeight: 480 }
+          },
+          {
+            type: 'blockCard',
+            attrs: { data: { '@type': 'Document', name: 'Design doc' }, localId: '12' }
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+
+    it('should escape brackets in card titles', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          { type: 'blockCard', attrs: { url: 'https://example.com/x', data: { name: "it's [x]" } } }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+
+      expect(markdown).toContain("[it's \\[x\\]](card:https://example.com/x)");
+      expect(parser.markdownToAdf(markdown)).toEqual(original);
+    });
+  });
+});
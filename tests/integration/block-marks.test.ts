@@ -0,0 +1,88 @@
+/**
+ * @file Integration tests for bidirectional alignment and indentation block marks
+ * Tests that paragraph and heading block marks map to adf:paragraph / adf:heading comments
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+import { AdfValidator } from '../../src/validators/AdfValidator';
+
+describe('Block Marks Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert align and indent metadata to block marks', () => {
+      const adf = parser.markdownToAdf('Centered text<!-- adf:paragraph align="center" indent="2" -->');
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [{ type: 'text', text: 'Centered text' }],
+        marks: [
+          { type: 'alignment', attrs: { align: 'center' } },
+          { type: 'indentation', attrs: { level: 2 } }
+        ]
+      }]);
+    });
+
+    it('should accept a metadata comment on the line before the paragraph', () => {
+      const adf = parser.markdownToAdf('<!-- adf:paragraph indent="1" -->\nIndented text');
+
+      expect(adf.content[0].marks).toEqual([{ type: 'indentation', attrs: { level: 1 } }]);
+      expect(adf.content[0].attrs).toBeUndefined();
+    });
+
+    it('should convert heading alignment', () => {
+      const adf = parser.markdownToAdf('## Title<!-- adf:heading align="end" -->');
+
+      expect(adf.content[0]).toEqual({
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [{ type: 'text', text: 'Title' }],
+        marks: [{ type: 'alignment', attrs: { align: 'end' } }]
+      });
+    });
+
+    it('should produce ADF that passes validation', () => {
+      const adf = parser.markdownToAdf(
+        '# Title<!-- adf:heading align="center" -->\n\nBody<!-- adf:paragraph align="end" indent="3" -->'
+      );
+
+      expect(new AdfValidator().validate(adf).valid).toBe(true);
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve block marks through ADF → Markdown → ADF', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'heading',
+            attrs: { level: 1 },
+            marks: [{ type: 'alignment', attrs: { align: 'center' } }],
+            content: [{ type: 'text', text: 'Centered heading' }]
+          },
+          {
+            type: 'paragraph',
+            marks: [{ type: 'indentation', attrs: { level: 2 } }],
+            content: [
+              { type: 'text', text: 'Indented ' },
+              { type: 'text', text: 'bold', marks: [{ type: 'strong' }] }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(markdown).toContain('# Centered heading<!-- adf:heading align="center" -->');
+      expect(markdown).toContain('Indented **bold**<!-- adf:paragraph indent="2" -->');
+
+      expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @file Integration tests for bidirectional breakout mark conversion
+ * Tests that wide and full-width code blocks, expands and layouts keep their breakout mark
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Breakout Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should read breakout from a code fence after the language', () => {
+      const adf = parser.markdownToAdf('```javascript breakout=wide\nconst a = 1;\n```');
+
+      expect(adf.content[0]).toEqual({
+        type: 'codeBlock',
+        attrs: { language: 'javascript' },
+        marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+        content: [{ type: 'text', text: 'const a = 1;' }]
+      });
+    });
+
+    it('should read breakout from a code fence without a language', () => {
+      const adf = parser.markdownToAdf('```breakout=full-width breakoutWidth=1800\nplain\n```');
+
+      expect(adf.content[0]).toEqual({
+        type: 'codeBlock',
+        attrs: {},
+        marks: [{ type: 'breakout', attrs: { mode: 'full-width', width: 1800 } }],
+        content: [{ type: 'text', text: 'plain' }]
+      });
+    });
+
+    it('should read breakout from an expand fence', () => {
+      const adf = parser.markdownToAdf('~~~expand title="Details" breakout=wide\nBody\n~~~');
+
+      expect(adf.content[0]).toEqual({
+        type: 'expand',
+        attrs: { title: 'Details' },
+        marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Body' }] }]
+      });
+    });
+
+    it('should ignore unknown breakout modes', () => {
+      const adf = parser.markdownToAdf('```js breakout=huge\nx\n```');
+
+      expect(adf.content[0].marks).toBeUndefined();
+      expect(adf.content[0].attrs).toEqual({ language: 'js' });
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve breakout marks through ADF → Markdown → ADF', () => {
+      const originalAdf = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'codeBlock',
+            attrs: { language: 'python' },
+            marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+            content: [{ type: 'text', text: 'print("wide")' }]
+          },
+          {
+            type: 'expand',
+            attrs: { title: 'Full width' },
+            marks: [{ type: 'breakout', attrs: { mode: 'full-width' } }],
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Inside' }] }]
+          },
+          {
+            type: 'layoutSection',
+            marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+            content: [
+              { type: 'layoutColumn', attrs: { width: 50 }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Left' }] }] },
+              { type: 'layoutColumn', attrs: { width: 50 }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Right' }] }] }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(originalAdf);
+      expect(markdown).toContain('```python breakout=wide');
+      expect(markdown).toContain('~~~expand title="Full width" breakout=full-width');
+      expect(markdown).toContain('~~~~layout breakout=wide');
+
+      expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+    });
+  });
+});
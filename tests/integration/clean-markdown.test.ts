@@ -0,0 +1,242 @@
+/**
+ * @file Integration tests for the clean markdown profile
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, AdfToMarkdownEngine } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+import { doc, paragraph, text, cell } from '../helpers/adf';
+
+describe('Clean Markdown Profile Integration Tests', () => {
+  const parser = new Parser();
+  const clean = (adf: ADFDocument) => parser.adfToMarkdown(adf, { markdownProfile: 'clean' });
+
+  describe('inline nodes', () => {
+    it('should render mentions, statuses, dates and emoji without metadata', () => {
+      const adf = doc(paragraph(
+        { type: 'mention', attrs: { id: 'acc-1', text: '@Alice' } }, text(' moved it to '),
+        { type: 'status', attrs: { text: 'In Progress', color: 'blue', localId: 's-1' } }, text(' on '),
+        { type: 'date', attrs: { timestamp: '1700000000000' } }, text(' '),
+        { type: 'emoji', attrs: { shortName: ':rocket:', text: '🚀' } }
+      ));
+
+      expect(clean(adf)).toBe('@Alice moved it to **[IN PROGRESS]** on 2023-11-14 🚀');
+      expect(parser.getMarkdownLossReport()).toEqual([{ type: 'status', detail: 'color attribute', count: 1 }]);
+    });
+
+    it('should render cards as plain links', () => {
+      const adf = doc(
+        paragraph({ type: 'inlineCard', attrs: { url: 'https://example.com/a', data: { name: 'Spec' } } }, text(' and '),
+          { type: 'inlineCard', attrs: { url: 'https://example.com/b' } }),
+        { type: 'blockCard', attrs: { url: 'https://example.com/c' } }
+      );
+
+      expect(clean(adf)).toBe('[Spec](https://example.com/a) and <https://example.com/b>\n\n<https://example.com/c>');
+    });
+
+    it('should keep the text of marks markdown cannot express and report them', () => {
+      const adf = doc(paragraph(
+        text('bold', [{ type: 'strong' }]), text(' '),
+        text('red', [{ type: 'textColor', attrs: { color: '#ff0000' } }]), text(' '),
+        text('under', [{ type: 'underline' }]), text(' '),
+        text('x', [{ type: 'link', attrs: { href: 'https://example.com', collection: '' } }])
+      ));
+
+      expect(clean(adf)).toBe('**bold** red under [x](https://example.com)');
+      expect(parser.getMarkdownLossReport()).toEqual([
+        { type: 'textColor', detail: 'text color', count: 1 },
+        { type: 'underline', detail: 'underline', count: 1 }
+      ]);
+    });
+
+    it('should write subscript and superscript as plain tags', () => {
+      const adf = doc(paragraph(
+        text('H'), text('2', [{ type: 'subsup', attrs: { type: 'sub' } }]), text('O and E=mc'),
+        text('2', [{ type: 'subsup', attrs: { type: 'sup' } }])
+      ));
+
+      expect(clean(adf)).toBe('H<sub>2</sub>O and E=mc<sup>2</sup>');
+    });
+  });
+
+  it('should never write metadata comments', () => {
+    const adf = doc(
+      { type: 'heading', attrs: { level: 2, id: 'h-1' }, content: [text('Title')] },
+      paragraph(
+        text('x', [{ type: 'subsup', attrs: { type: 'sub' } }]), text(' '),
+        text('note', [{ type: 'annotation', attrs: { id: 'a-1', annotationType: 'inlineComment' } }]), text(' '),
+        text('red', [{ type: 'textColor', attrs: { color: '#ff0000' } }, { type: 'underline' }]), text(' '),
+        { type: 'mention', attrs: { id: 'acc-1', text: '@Alice' } }, text(' '),
+        { type: 'status', attrs: { text: 'Done', color: 'green' } }, text(' '),
+        { type: 'inlineCard', attrs: { url: 'https://example.com' } }
+      ),
+      { type: 'panel', attrs: { panelType: 'note' }, content: [paragraph(text('Panel'))] },
+      { type: 'expand', attrs: { title: 'More' }, content: [paragraph(text('Hidden'))] },
+      { type: 'codeBlock', attrs: { language: 'js' }, content: [text('run()')] },
+      { type: 'taskList', attrs: { localId: 'l-1' }, content: [{ type: 'taskItem', attrs: { localId: 't-1', state: 'DONE' }, content: [text('Task')] }] },
+      { type: 'mediaSingle', attrs: { layout: 'center' }, content: [{ type: 'media', attrs: { type: 'external', url: 'https://example.com/a.png' } }] },
+      { type: 'table', attrs: { layout: 'wide' }, content: [{ type: 'tableRow', content: [cell('tableHeader', 'A', { colspan: 2 })] }] }
+    );
+
+    expect(clean(adf)).not.toContain('<!--');
+  });
+
+  describe('blocks', () => {
+    it('should render panels as blockquotes with a bold label', () => {
+      const adf = doc(
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Back up first.')), paragraph(text('Really.'))] },
+        { type: 'panel', attrs: { panelType: 'info' }, content: [{ type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Item'))] }] }] }
+      );
+
+      expect(clean(adf)).toBe('> **Warning:** Back up first.\n>\n> Really.\n\n> **Info:**\n>\n> - Item');
+    });
+
+    it('should render expands as details elements', () => {
+      const adf = doc({
+        type: 'expand',
+        attrs: { title: 'Logs & <output>' },
+        content: [paragraph(text('Hidden'))]
+      });
+
+      expect(clean(adf)).toBe('<details>\n<summary>Logs &amp; &lt;output&gt;</summary>\n\nHidden\n\n</details>');
+    });
+
+    it('should drop block attributes and marks and report them', () => {
+      const adf = doc(
+        { type: 'heading', attrs: { level: 2, localId: 'h-1' }, marks: [{ type: 'alignment', attrs: { align: 'center' } }], content: [text('Title')] },
+        { type: 'codeBlock', attrs: { language: 'ts', uniqueId: 'c-1' }, content: [text('let a = 1;')] },
+        {
+          type: 'taskList',
+          attrs: { localId: 'tl-1' },
+          content: [{ type: 'taskItem', attrs: { localId: 'ti-1', state: 'DONE' }, content: [text('Ship it')] }]
+        }
+      );
+
+      const markdown = clean(adf);
+      expect(markdown).toBe('## Title\n\n```ts\nlet a = 1;\n```\n\n- [x] Ship it');
+      expect(markdown).not.toContain('<!--');
+      expect(parser.getMarkdownLossReport()).toEqual([
+        { type: 'heading', detail: 'alignment mark', count: 1 },
+        { type: 'codeBlock', detail: 'uniqueId attribute', count: 1 }
+      ]);
+    });
+
+    it('should render decisions as a labelled bullet list', () => {
+      const adf = doc({
+        type: 'decisionList',
+        attrs: { localId: 'd' },
+        content: [{ type: 'decisionItem', attrs: { localId: 'd-1', state: 'DECIDED' }, content: [text('Use PostgreSQL')] }]
+      });
+
+      expect(clean(adf)).toBe('- **Decision:** Use PostgreSQL');
+    });
+
+    it('should drop extensions and layouts but keep their content', () => {
+      const adf = doc(
+        { type: 'extension', attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'toc' } },
+        {
+          type: 'layoutSection',
+          content: [
+            { type: 'layoutColumn', attrs: { width: 50 }, content: [paragraph(text('Left'))] },
+            { type: 'layoutColumn', attrs: { width: 50 }, content: [paragraph(text('Right'))] }
+          ]
+        },
+        { type: 'bodiedExtension', attrs: { extensionKey: 'excerpt' }, content: [paragraph(text('Body'))] }
+      );
+
+      expect(clean(adf)).toBe('Left\n\nRight\n\nBody');
+      expect(parser.getMarkdownLossReport()).toEqual([
+        { type: 'extension', detail: '"toc" macro', count: 1 },
+        { type: 'layoutSection', detail: 'column layout', count: 1 },
+        { type: 'bodiedExtension', detail: '"excerpt" macro', count: 1 }
+      ]);
+    });
+
+    it('should keep the content of unknown nodes', () => {
+      const adf = doc({ type: 'futureNode', content: [paragraph(text('Kept'))] });
+
+      expect(clean(adf)).toBe('Kept');
+      expect(parser.getMarkdownLossReport()).toEqual([{ type: 'futureNode', detail: 'unsupported node', count: 1 }]);
+    });
+  });
+
+  describe('tables', () => {
+    it('should write every table as a pipe table and report merged cells', () => {
+      const adf = doc({
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default' },
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'A', { colspan: 1, rowspan: 1 }), cell('tableHeader', 'B')] },
+          { type: 'tableRow', content: [cell('tableCell', 'Wide', { colspan: 2 })] },
+          { type: 'tableRow', content: [cell('tableCell', 'Tall', { rowspan: 2 }), { type: 'tableCell', content: [paragraph(text('x | y')), paragraph(text('z'))] }] },
+          { type: 'tableRow', content: [cell('tableCell', 'w')] }
+        ]
+      });
+
+      expect(clean(adf)).toBe([
+        '| A | B |',
+        '| --- | --- |',
+        '| Wide |  |',
+        '| Tall | x \\| y<br>z |',
+        '|  | w |'
+      ].join('\n'));
+      expect(parser.getMarkdownLossReport()).toEqual([
+        { type: 'tableCell', detail: 'colspan attribute', count: 1 },
+        { type: 'tableCell', detail: 'rowspan attribute', count: 1 }
+      ]);
+    });
+
+    it('should add an empty header row to tables without one', () => {
+      const adf = doc({ type: 'table', content: [{ type: 'tableRow', content: [cell('tableCell', 'a'), cell('tableCell', 'b')] }] });
+
+      expect(clean(adf)).toBe('|  |  |\n| --- | --- |\n| a | b |');
+    });
+  });
+
+  describe('media', () => {
+    it('should render images with a URL and report file media without one', () => {
+      const adf = doc(
+        {
+          type: 'mediaSingle',
+          attrs: { layout: 'center' },
+          content: [
+            { type: 'media', attrs: { type: 'external', url: 'https://example.com/a.png', alt: 'Diagram' } },
+            { type: 'caption', content: [text('Architecture')] }
+          ]
+        },
+        { type: 'mediaSingle', content: [{ type: 'media', attrs: { type: 'file', id: 'abc', collection: 'c' } }] }
+      );
+
+      expect(clean(adf)).toBe('![Diagram](https://example.com/a.png)\n\nArchitecture');
+      expect(parser.getMarkdownLossReport()).toEqual([{ type: 'media', detail: 'media without a URL', count: 1 }]);
+    });
+
+    it('should use paths from the media resolver', async () => {
+      const resolving = new Parser({ markdownProfile: 'clean', mediaResolver: { resolveId: async (id: string) => `./images/${id}.png` } });
+      const adf = doc({ type: 'mediaSingle', content: [{ type: 'media', attrs: { type: 'file', id: 'abc', collection: 'c' } }] });
+
+      expect(await resolving.adfToMarkdownAsync(adf)).toBe('![](./images/abc.png)');
+      expect(resolving.getMarkdownLossReport()).toEqual([]);
+    });
+  });
+
+  describe('profiles', () => {
+    it('should count repeated losses and reset the report for each conversion', () => {
+      const engine = new AdfToMarkdownEngine({ markdownProfile: 'clean' });
+      const colored = text('c', [{ type: 'textColor', attrs: { color: '#00f' } }]);
+
+      engine.convert(doc(paragraph(colored, text(' '), colored)));
+      expect(engine.getLossReport()).toEqual([{ type: 'textColor', detail: 'text color', count: 2 }]);
+
+      engine.convert(doc(paragraph(text('plain'))));
+      expect(engine.getLossReport()).toEqual([]);
+    });
+
+    it('should leave the extended profile unchanged', () => {
+      const adf = doc(paragraph({ type: 'status', attrs: { text: 'Done', color: 'green' } }));
+
+      expect(parser.adfToMarkdown(adf)).toBe('{status:Done|color:green}');
+      expect(parser.getMarkdownLossReport()).toEqual([]);
+    });
+  });
+});
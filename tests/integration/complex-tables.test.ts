@@ -0,0 +1,186 @@
+/**
+ * @file Integration tests for complex tables
+ * Tests that tables with merged cells, column widths or block content in cells
+ * use a fence grid and round-trip exactly
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+import { paragraph, text, listItem, cell } from '../helpers/adf';
+
+const complexTableAdf: ADFDocument = {
+  version: 1,
+  type: 'doc',
+  content: [
+    {
+      type: 'table',
+      attrs: { isNumberColumnEnabled: false, layout: 'default' },
+      content: [
+        {
+          type: 'tableRow',
+          content: [
+            cell('tableHeader', 'Merged header', { colspan: 2, colwidth: [120, 200] }),
+            cell('tableHeader', 'Notes')
+          ]
+        },
+        {
+          type: 'tableRow',
+          content: [
+            {
+              type: 'tableCell',
+              attrs: { rowspan: 2, background: '#DEEBFF' },
+              content: [
+                paragraph(text('Tall cell')),
+                {
+                  type: 'bulletList',
+                  content: [listItem(paragraph(text('First point')))]
+                }
+              ]
+            },
+            {
+              type: 'tableCell',
+              content: [{ type: 'codeBlock', attrs: { language: 'json' }, content: [{ type: 'text', text: '{ "a": 1 }' }] }]
+            },
+            { type: 'tableCell', content: [{ type: 'paragraph' }] }
+          ]
+        },
+        {
+          type: 'tableRow',
+          content: [
+            cell('tableCell', 'B3'),
+            cell('tableCell', 'C3')
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+describe('Complex Table Integration Tests', () => {
+  const parsers = [
+    { name: 'default parser', parser: new Parser() },
+    { name: 'ADF extensions parser', parser: new Parser({ enableAdfExtensions: true }) }
+  ];
+
+  parsers.forEach(({ name, parser }) => {
+    describe(`with ${name}`, () => {
+      it('should render a complex table as a fence grid', () => {
+        const markdown = parser.adfToMarkdown(complexTableAdf);
+
+        expect(markdown).toContain('~~~~~table attrs=\'{"isNumberColumnEnabled":false,"layout":"default"}\'');
+        expect(markdown).toContain('~~~header colspan=2 colwidth=120,200\nMerged header\n~~~');
+        expect(markdown).toContain('~~~cell rowspan=2 background=#DEEBFF\nTall cell\n\n- First point\n~~~');
+        expect(markdown).not.toContain('<br>');
+      });
+
+      it('should round-trip merged cells, column widths and block content', () => {
+        const markdown = parser.adfToMarkdown(complexTableAdf);
+
+        expect(parser.markdownToAdf(markdown)).toEqual(complexTableAdf);
+      });
+
+      it('should parse a hand-written fence grid', () => {
+        const markdown = [
+          '~~~~~table',
+          '~~~~row',
+          '~~~header colwidth=150',
+          'Name',
+          '~~~',
+          '~~~~',
+          '',
+          '~~~~row',
+          '~~~cell rowspan=2',
+          '**Bold** value',
+          '~~~',
+          '~~~~',
+          '~~~~~'
+        ].join('\n');
+
+        expect(parser.markdownToAdf(markdown).content[0]).toEqual({
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [cell('tableHeader', 'Name', { colwidth: [150] })]
+            },
+            {
+              type: 'tableRow',
+              content: [
+                {
+                  type: 'tableCell',
+                  attrs: { rowspan: 2 },
+                  content: [{
+                    type: 'paragraph',
+                    content: [
+                      { type: 'text', text: 'Bold', marks: [{ type: 'strong' }] },
+                      { type: 'text', text: ' value' }
+                    ]
+                  }]
+                }
+              ]
+            }
+          ]
+        });
+      });
+
+      it('should keep simple tables as GFM pipe tables', () => {
+        const simpleAdf: ADFDocument = {
+          version: 1,
+          type: 'doc',
+          content: [{
+            type: 'table',
+            content: [
+              { type: 'tableRow', content: [cell('tableHeader', 'A')] },
+              { type: 'tableRow', content: [cell('tableCell', '1')] }
+            ]
+          }]
+        };
+
+        expect(parser.adfToMarkdown(simpleAdf)).toBe('| A |\n| -------- |\n| 1 |');
+      });
+
+      it('should use a fence grid for cells with hard breaks', () => {
+        const hardBreakAdf: ADFDocument = {
+          version: 1,
+          type: 'doc',
+          content: [{
+            type: 'table',
+            content: [
+              { type: 'tableRow', content: [cell('tableHeader', 'A')] },
+              {
+                type: 'tableRow',
+                content: [cell('tableCell', paragraph(text('l1'), { type: 'hardBreak' }, text('l2')))]
+              }
+            ]
+          }]
+        };
+
+        const markdown = parser.adfToMarkdown(hardBreakAdf);
+
+        expect(markdown).toContain('~~~table');
+        expect(markdown).not.toContain('<br>');
+        expect(parser.markdownToAdf(markdown)).toEqual(hardBreakAdf);
+      });
+
+      it('should escape pipes in pipe table cells', () => {
+        const pipeAdf: ADFDocument = {
+          version: 1,
+          type: 'doc',
+          content: [{
+            type: 'table',
+            content: [
+              { type: 'tableRow', content: [cell('tableHeader', 'x|y')] },
+              { type: 'tableRow', content: [cell('tableCell', 'a|b')] }
+            ]
+          }]
+        };
+
+        const markdown = parser.adfToMarkdown(pipeAdf);
+
+        expect(markdown).toBe('| x\\|y |\n| -------- |\n| a\\|b |');
+        expect(parser.markdownToAdf(markdown)).toEqual(pipeAdf);
+      });
+    });
+  });
+});
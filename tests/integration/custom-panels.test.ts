@@ -0,0 +1,87 @@
+/**
+ * @file Integration tests for custom panels
+ * Tests that panelType custom with icon and colour attributes round-trips through fence attributes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+describe('Custom Panel Integration Tests', () => {
+  const parsers = [
+    { name: 'default parser', parser: new Parser() },
+    { name: 'ADF extensions parser', parser: new Parser({ enableAdfExtensions: true }) }
+  ];
+
+  const customPanelAdf: ADFDocument = {
+    version: 1,
+    type: 'doc',
+    content: [
+      {
+        type: 'panel',
+        attrs: {
+          panelType: 'custom',
+          panelIcon: ':rocket:',
+          panelIconId: '1f680',
+          panelIconText: '🚀',
+          panelColor: '#E3FCEF'
+        },
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'Launch checklist' }] }
+        ]
+      }
+    ]
+  };
+
+  parsers.forEach(({ name, parser }) => {
+    describe(`with ${name}`, () => {
+      it('should read custom panel fence attributes', () => {
+        const adf = parser.markdownToAdf('~~~panel type=custom icon=:rocket: iconId=1f680 iconText=🚀 color=#E3FCEF\nLaunch checklist\n~~~');
+
+        expect(adf).toEqual(customPanelAdf);
+      });
+
+      it('should keep numeric-looking icon ids as strings', () => {
+        const adf = parser.markdownToAdf('~~~panel type=custom iconId=2705 color=#FFFAE6\nDone\n~~~');
+
+        expect(adf.content[0].attrs).toEqual({
+          panelType: 'custom',
+          panelIconId: '2705',
+          panelColor: '#FFFAE6'
+        });
+      });
+
+      it('should still accept custom panel attributes in the JSON attrs form', () => {
+        const adf = parser.markdownToAdf('~~~panel type=custom attrs=\'{"panelIcon":":rocket:","panelColor":"#E3FCEF"}\'\nLaunch\n~~~');
+
+        expect(adf.content[0].attrs).toEqual({
+          panelType: 'custom',
+          panelIcon: ':rocket:',
+          panelColor: '#E3FCEF'
+        });
+      });
+
+      it('should round-trip a custom panel', () => {
+        const markdown = parser.adfToMarkdown(customPanelAdf);
+
+        expect(markdown).toContain('~~~panel type=custom icon=:rocket: iconId=1f680 iconText=🚀 color=#E3FCEF');
+        expect(parser.markdownToAdf(markdown)).toEqual(customPanelAdf);
+      });
+
+      it('should round-trip attribute values with both quote types and backslashes', () => {
+        const quotedPanelAdf: ADFDocument = {
+          ...customPanelAdf,
+          content: [{
+            ...customPanelAdf.content[0],
+            attrs: { panelType: 'custom', panelIconText: 'it\'s "x"', panelColor: '#E3FCEF', localId: 'a\\b\'c' }
+          }]
+        };
+
+        const markdown = parser.adfToMarkdown(quotedPanelAdf);
+
+        expect(markdown).toContain('~~~panel type=custom color=#E3FCEF attrs=');
+        expect(parser.markdownToAdf(markdown)).toEqual(quotedPanelAdf);
+      });
+    });
+  });
+});
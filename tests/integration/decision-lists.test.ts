@@ -0,0 +1,115 @@
+/**
+ * @file Integration tests for bidirectional decision list conversion
+ * Tests that `~~~decisions` fences convert to/from ADF decisionList/decisionItem nodes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Decision List Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert a decisions fence to a decisionList', () => {
+      const markdown = '~~~decisions\n- [D] Use PostgreSQL\n- [ ] Pick a hosting provider\n~~~';
+
+      const adf = parser.markdownToAdf(markdown);
+
+      expect(adf.content).toHaveLength(1);
+      const decisionList = adf.content[0];
+      expect(decisionList.type).toBe('decisionList');
+      expect(decisionList.attrs?.localId).toEqual(expect.any(String));
+      expect(decisionList.content).toEqual([
+        {
+          type: 'decisionItem',
+          attrs: { localId: expect.any(String), state: 'DECIDED' },
+          content: [{ type: 'text', text: 'Use PostgreSQL' }]
+        },
+        {
+          type: 'decisionItem',
+          attrs: { localId: expect.any(String), state: 'UNDECIDED' },
+          content: [{ type: 'text', text: 'Pick a hosting provider' }]
+        }
+      ]);
+    });
+
+    it('should treat items without a marker as decided', () => {
+      const adf = parser.markdownToAdf('~~~decisions\n- Ship on Friday\n~~~');
+
+      expect(adf.content[0].content![0].attrs?.state).toBe('DECIDED');
+      expect(adf.content[0].content![0].content).toEqual([{ type: 'text', text: 'Ship on Friday' }]);
+    });
+
+    it('should apply localIds from the fence and metadata comments', () => {
+      const markdown = [
+        '~~~decisions localId="decisions-1"',
+        '- [D] Use **PostgreSQL** <!-- adf:decisionItem localId="decision-1" -->',
+        '~~~'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+      const decisionList = adf.content[0];
+
+      expect(decisionList.attrs).toEqual({ localId: 'decisions-1' });
+      expect(decisionList.content![0]).toEqual({
+        type: 'decisionItem',
+        attrs: { localId: 'decision-1', state: 'DECIDED' },
+        content: [
+          { type: 'text', text: 'Use ' },
+          { type: 'text', text: 'PostgreSQL', marks: [{ type: 'strong' }] }
+        ]
+      });
+    });
+  });
+
+  describe('ADF to Markdown Conversion', () => {
+    it('should no longer fall back to the unknown node comment', () => {
+      const markdown = parser.adfToMarkdown({
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'decisionList',
+          attrs: { localId: 'decisions-1' },
+          content: [
+            { type: 'decisionItem', attrs: { localId: 'decision-1', state: 'DECIDED' }, content: [{ type: 'text', text: 'Go' }] }
+          ]
+        }]
+      });
+
+      expect(markdown).not.toContain('adf:unknown');
+      expect(markdown).toBe('~~~decisions localId="decisions-1"\n- [D] Go <!-- adf:decisionItem localId="decision-1" -->\n~~~');
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve states and localIds', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'decisionList',
+            attrs: { localId: 'decisions-1' },
+            content: [
+              { type: 'decisionItem', attrs: { localId: 'decision-1', state: 'DECIDED' }, content: [{ type: 'text', text: 'Use PostgreSQL' }] },
+              { type: 'decisionItem', attrs: { localId: 'decision-2', state: 'UNDECIDED' }, content: [{ type: 'text', text: 'Pick hosting' }] }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: 'Follow-up notes' }]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @file Integration tests for emoji shortnames, raw Unicode emoji detection and site custom emoji
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, createEmojiRegistry } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+const paragraphContent = (adf: ADFDocument) => adf.content[0].content;
+
+describe('Emoji Integration Tests', () => {
+  describe('shortnames', () => {
+    const parser = new Parser();
+
+    it('should resolve shortnames beyond the common set', () => {
+      expect(paragraphContent(parser.markdownToAdf(':face_with_monocle: :flag_us: :thumbsup_tone2:'))).toEqual([
+        { type: 'emoji', attrs: { shortName: ':face_with_monocle:', text: '🧐' } },
+        { type: 'text', text: ' ' },
+        { type: 'emoji', attrs: { shortName: ':flag_us:', text: '🇺🇸' } },
+        { type: 'text', text: ' ' },
+        { type: 'emoji', attrs: { shortName: ':thumbsup_tone2:', text: '👍🏼' } }
+      ]);
+    });
+
+    it('should leave raw Unicode emoji as text by default', () => {
+      expect(paragraphContent(parser.markdownToAdf('Ship it 🚀'))).toEqual([
+        { type: 'text', text: 'Ship it 🚀' }
+      ]);
+    });
+  });
+
+  describe('Unicode emoji detection', () => {
+    const parser = new Parser({ detectUnicodeEmoji: true });
+
+    it('should convert raw emoji to emoji nodes when enabled', () => {
+      expect(paragraphContent(parser.markdownToAdf('Ship it 🚀 👍🏽!'))).toEqual([
+        { type: 'text', text: 'Ship it ' },
+        { type: 'emoji', attrs: { shortName: ':rocket:', text: '🚀' } },
+        { type: 'text', text: ' ' },
+        { type: 'emoji', attrs: { shortName: ':thumbsup_tone3:', text: '👍🏽' } },
+        { type: 'text', text: '!' }
+      ]);
+    });
+
+    it('should keep emoji inside inline code and text-presentation symbols as text', () => {
+      expect(paragraphContent(parser.markdownToAdf('`🚀` © 2024'))).toEqual([
+        { type: 'text', text: '🚀', marks: [{ type: 'code' }] },
+        { type: 'text', text: ' © 2024' }
+      ]);
+    });
+  });
+
+  describe('custom emoji registry', () => {
+    const emojiRegistry = createEmojiRegistry([
+      { shortName: ':partyparrot:', id: 'atlassian-partyparrot' }
+    ]);
+    const parser = new Parser({ emojiRegistry });
+
+    it('should resolve site custom emoji by id', () => {
+      expect(paragraphContent(parser.markdownToAdf('Shipped :partyparrot:'))).toEqual([
+        { type: 'text', text: 'Shipped ' },
+        {
+          type: 'emoji',
+          attrs: { shortName: ':partyparrot:', id: 'atlassian-partyparrot', text: ':partyparrot:' }
+        }
+      ]);
+    });
+  });
+
+  describe('round trip', () => {
+    const parser = new Parser();
+
+    it('should restore emoji nodes from their metadata comments', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Go ' },
+            { type: 'emoji', attrs: { shortName: ':rocket:', id: '1f680', text: '🚀' } },
+            { type: 'text', text: ' and ' },
+            { type: 'emoji', attrs: { shortName: ':partyparrot:', id: 'atlassian-partyparrot', text: ':partyparrot:' } }
+          ]
+        }]
+      };
+
+      expect(parser.markdownToAdf(parser.adfToMarkdown(adf))).toEqual(adf);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @file Integration tests for bidirectional extension conversion
+ * Tests that ~~~extension / ~~~bodiedExtension fences and {extension:...} inline
+ * syntax convert to/from ADF extension, bodiedExtension and inlineExtension nodes
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Extension Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert an extension fence to an extension node', () => {
+      const markdown = [
+        '~~~extension type="com.atlassian.confluence.macro.core" key="toc" params=\'{"maxLevel":"3"}\' attrs=\'{"layout":"default"}\'',
+        '~~~'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+
+      expect(adf.content).toEqual([{
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'toc',
+          parameters: { maxLevel: '3' },
+          layout: 'default'
+        }
+      }]);
+    });
+
+    it('should parse nested body content of a bodiedExtension fence', () => {
+      const markdown = [
+        '~~~~bodiedExtension type="com.atlassian.confluence.macro.core" key="excerpt"',
+        '- one',
+        '- two',
+        '',
+        '~~~panel type=warning',
+        'Careful',
+        '~~~',
+        '~~~~'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+      const extension = adf.content[0];
+
+      expect(extension.type).toBe('bodiedExtension');
+      expect(extension.attrs).toEqual({
+        extensionType: 'com.atlassian.confluence.macro.core',
+        extensionKey: 'excerpt'
+      });
+      expect(extension.content!.map(node => node.type)).toEqual(['bulletList', 'panel']);
+      expect(extension.content![1].attrs?.panelType).toBe('warning');
+    });
+
+    it('should convert inline extension syntax within a paragraph', () => {
+      const adf = parser.markdownToAdf('See {extension:jira type="com.atlassian.jira" params=\'{"key":"PROJ-1"}\'} for details');
+
+      expect(adf.content[0].content).toEqual([
+        { type: 'text', text: 'See ' },
+        {
+          type: 'inlineExtension',
+          attrs: {
+            extensionType: 'com.atlassian.jira',
+            extensionKey: 'jira',
+            parameters: { key: 'PROJ-1' }
+          }
+        },
+        { type: 'text', text: ' for details' }
+      ]);
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve extensions, bodied extensions and inline extensions', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'extension',
+            attrs: {
+              extensionType: 'com.atlassian.confluence.macro.core',
+              extensionKey: 'toc',
+              parameters: { macroParams: { maxLevel: { value: '3' } }, title: "What's new" },
+              layout: 'default',
+              localId: '42'
+            }
+          },
+          {
+            type: 'bodiedExtension',
+            attrs: {
+              extensionType: 'com.atlassian.confluence.macro.core',
+              extensionKey: 'excerpt',
+              parameters: { macroParams: {} }
+            },
+            content: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'Summary' }] },
+              {
+                type: 'panel',
+                attrs: { panelType: 'info' },
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Nested' }] }]
+              }
+            ]
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Ticket ' },
+              {
+                type: 'inlineExtension',
+                attrs: {
+                  extensionType: 'com.atlassian.jira',
+                  extensionKey: 'jira',
+                  parameters: { key: 'PROJ-1' }
+                }
+              }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+
+    it('should preserve quotes and backslashes in parameter values', () => {
+      const jql = { jqlQuery: 'project = "ABC" AND summary ~ "a\\"b"', path: 'C:\\temp\\new', note: "it's" };
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'extension',
+            attrs: { extensionType: 'com.atlassian.jira', extensionKey: 'jira-issues', parameters: jql }
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'See ' },
+              {
+                type: 'inlineExtension',
+                attrs: { extensionType: 'com.atlassian.jira', extensionKey: 'jira', parameters: jql }
+              }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      expect(markdown).not.toMatch(/\\["\\]/);
+      expect(parser.markdownToAdf(markdown)).toEqual(original);
+    });
+  });
+
+  it('should warn about params that are not valid JSON', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const adf = parser.markdownToAdf('~~~extension type="com.atlassian.jira" key="jira-issues" params=\'{"jqlQuery":\'\n~~~');
+
+      expect(adf.content[0].attrs).toEqual({ extensionType: 'com.atlassian.jira', extensionKey: 'jira-issues' });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid extension params for "jira-issues"'), expect.anything());
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @file Integration tests for Jira issue key auto-linking
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+const ISSUE_URL = 'https://example.atlassian.net/browse/PROJ-123';
+
+describe('Jira Issue Link Integration Tests', () => {
+  describe('as inline cards', () => {
+    const parser = new Parser({ jiraIssueLinks: { baseUrl: 'https://example.atlassian.net', projectKeys: ['PROJ'] } });
+
+    it('should turn issue keys into inline cards', () => {
+      expect(parser.markdownToAdf('Fixed in PROJ-123.').content[0].content).toEqual([
+        { type: 'text', text: 'Fixed in ' },
+        { type: 'inlineCard', attrs: { url: ISSUE_URL } },
+        { type: 'text', text: '.' }
+      ]);
+    });
+
+    it('should leave keys of other projects, code spans and links alone', () => {
+      const adf = parser.markdownToAdf('OPS-1 `PROJ-1` [PROJ-2](https://example.com) https://example.com/PROJ-3');
+
+      expect(JSON.stringify(adf)).not.toContain('inlineCard');
+    });
+
+    it('should collapse issue cards back to the bare key', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [{ type: 'text', text: 'Fixed in ' }, { type: 'inlineCard', attrs: { url: ISSUE_URL } }]
+        }]
+      };
+
+      expect(parser.adfToMarkdown(adf)).toBe('Fixed in PROJ-123');
+      expect(parser.markdownToAdf(parser.adfToMarkdown(adf))).toEqual(adf);
+    });
+
+    it('should keep the formatting of a formatted key as a link on the key', () => {
+      const adf = parser.markdownToAdf('Fixed in **PROJ-123**');
+
+      expect(adf.content[0].content).toEqual([
+        { type: 'text', text: 'Fixed in ' },
+        { type: 'text', text: 'PROJ-123', marks: [{ type: 'link', attrs: { href: ISSUE_URL } }, { type: 'strong' }] }
+      ]);
+      expect(parser.adfToMarkdown(adf)).toBe('Fixed in **PROJ-123**');
+    });
+
+    it('should not link issue keys without the option', () => {
+      expect(JSON.stringify(new Parser().markdownToAdf('Fixed in PROJ-123'))).not.toContain('inlineCard');
+    });
+  });
+
+  describe('as links', () => {
+    const parser = new Parser({ jiraIssueLinks: { baseUrl: 'https://example.atlassian.net', linkType: 'link' } });
+
+    it('should turn issue keys into link marks', () => {
+      expect(parser.markdownToAdf('See OPS-7').content[0].content).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'text', text: 'OPS-7', marks: [{ type: 'link', attrs: { href: 'https://example.atlassian.net/browse/OPS-7' } }] }
+      ]);
+    });
+
+    it('should leave encodings and hashes alone without a project allowlist', () => {
+      expect(JSON.stringify(parser.markdownToAdf('Encoded as UTF-8, hashed with SHA-256'))).not.toContain('link');
+    });
+
+    it('should collapse issue links back to the bare key, keeping other link text', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'PROJ-123', marks: [{ type: 'link', attrs: { href: ISSUE_URL } }] },
+            { type: 'text', text: ' and ' },
+            { type: 'text', text: 'the issue', marks: [{ type: 'link', attrs: { href: ISSUE_URL } }] }
+          ]
+        }]
+      };
+
+      expect(parser.adfToMarkdown(adf)).toBe(`PROJ-123 and [the issue](${ISSUE_URL})`);
+    });
+  });
+});
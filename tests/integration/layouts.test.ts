@@ -0,0 +1,117 @@
+/**
+ * @file Integration tests for bidirectional page layout conversion
+ * Tests that `~~~layout` / `~~~column` fences convert to/from ADF layoutSection/layoutColumn nodes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Layout Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert a two-column layout', () => {
+      const markdown = [
+        '~~~~layout',
+        '~~~column width=50',
+        'Left **column**',
+        '~~~',
+        '',
+        '~~~column width=50',
+        'Right column',
+        '~~~',
+        '~~~~'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+
+      expect(adf.content).toEqual([{
+        type: 'layoutSection',
+        content: [
+          {
+            type: 'layoutColumn',
+            attrs: { width: 50 },
+            content: [{
+              type: 'paragraph',
+              content: [
+                { type: 'text', text: 'Left ' },
+                { type: 'text', text: 'column', marks: [{ type: 'strong' }] }
+              ]
+            }]
+          },
+          {
+            type: 'layoutColumn',
+            attrs: { width: 50 },
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Right column' }] }]
+          }
+        ]
+      }]);
+    });
+
+    it('should split the width evenly between columns without a width', () => {
+      const markdown = '~~~~layout\n~~~column\nA\n~~~\n~~~column\nB\n~~~\n~~~column\nC\n~~~\n~~~~';
+
+      const adf = parser.markdownToAdf(markdown);
+      const widths = adf.content[0].content!.map(column => column.attrs?.width);
+
+      expect(widths).toEqual([33.33, 33.33, 33.33]);
+    });
+
+    it('should produce valid ADF', () => {
+      const markdown = '~~~~layout\n~~~column width=30\nA\n~~~\n~~~column width=70\nB\n~~~\n~~~~';
+
+      const adf = parser.markdownToAdf(markdown);
+
+      expect(parser.validateAdf(adf).valid).toBe(true);
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve columns containing nested fence blocks', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'layoutSection',
+            content: [
+              {
+                type: 'layoutColumn',
+                attrs: { width: 33.33 },
+                content: [
+                  { type: 'paragraph', content: [{ type: 'text', text: 'Summary' }] },
+                  {
+                    type: 'bulletList',
+                    content: [
+                      { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'One' }] }] },
+                      { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Two' }] }] }
+                    ]
+                  }
+                ]
+              },
+              {
+                type: 'layoutColumn',
+                attrs: { width: 66.67 },
+                content: [{
+                  type: 'panel',
+                  attrs: { panelType: 'info' },
+                  content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Details' }] }]
+                }]
+              }
+            ]
+          },
+          { type: 'paragraph', content: [{ type: 'text', text: 'After the layout' }] }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @file Integration tests for link resolvers mapping relative markdown links to page URLs and back
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { LinkResolver, ResolvedLink } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+const SETUP_URL = 'https://example.atlassian.net/wiki/spaces/DOCS/pages/123/Setup';
+const API_URL = 'https://example.atlassian.net/wiki/spaces/DOCS/pages/456/API';
+
+const pages: Record<string, ResolvedLink> = {
+  '../guide/setup.md': { href: SETUP_URL },
+  './api.md': { href: API_URL, inlineCard: true }
+};
+
+const paths: Record<string, string> = {
+  [SETUP_URL]: '../guide/setup.md',
+  [API_URL]: './api.md'
+};
+
+const resolver: LinkResolver = {
+  resolvePath: path => pages[path] || null,
+  resolveUrl: url => paths[url] || null
+};
+
+const linkDoc = (href: string): ADFDocument => ({
+  version: 1,
+  type: 'doc',
+  content: [{
+    type: 'paragraph',
+    content: [{ type: 'text', text: 'Setup', marks: [{ type: 'link', attrs: { href } }] }]
+  }]
+});
+
+const cardDoc = (attrs: Record<string, unknown>): ADFDocument => ({
+  version: 1,
+  type: 'doc',
+  content: [{ type: 'paragraph', content: [{ type: 'inlineCard', attrs }] }]
+});
+
+describe('Link Resolver Integration Tests', () => {
+  describe('with a sync resolver', () => {
+    it('should map relative links to page URLs, keeping anchors', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      expect(parser.markdownToAdf('See [Setup](../guide/setup.md#install)')).toEqual({
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'See ' },
+            { type: 'text', text: 'Setup', marks: [{ type: 'link', attrs: { href: `${SETUP_URL}#install` } }] }
+          ]
+        }]
+      });
+    });
+
+    it('should write links the resolver marks as cards as inline cards', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      expect(parser.markdownToAdf('[API](./api.md)').content[0].content).toEqual([
+        { type: 'inlineCard', attrs: { url: API_URL } }
+      ]);
+    });
+
+    it('should leave absolute URLs and anchors alone', () => {
+      const resolvePath = jest.fn(() => null);
+      const parser = new Parser({ linkResolver: { resolvePath } });
+
+      const adf = parser.markdownToAdf('[Site](https://example.com) [Top](#top) [Mail](mailto:a@example.com)');
+
+      expect(resolvePath).not.toHaveBeenCalled();
+      expect(adf.content[0].content?.filter(node => node.marks).map(node => node.marks?.[0].attrs?.href)).toEqual([
+        'https://example.com', '#top', 'mailto:a@example.com'
+      ]);
+    });
+
+    it('should map page URLs back to relative paths', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      expect(parser.adfToMarkdown(linkDoc(`${SETUP_URL}#install`))).toBe('[Setup](../guide/setup.md#install)');
+      expect(parser.adfToMarkdown(linkDoc('https://example.com'))).toBe('[Setup](https://example.com)');
+    });
+
+    it('should round trip resolved links', () => {
+      const parser = new Parser({ linkResolver: resolver });
+      const adf = linkDoc(`${SETUP_URL}#install`);
+
+      expect(parser.markdownToAdf(parser.adfToMarkdown(adf))).toEqual(adf);
+    });
+
+    it('should write inline cards for resolved URLs as links to their paths', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      expect(parser.adfToMarkdown(cardDoc({ url: API_URL }))).toBe('[./api.md](./api.md)');
+      expect(parser.adfToMarkdown(cardDoc({ url: API_URL, data: { title: 'API' } }))).toContain('[API](./api.md)');
+    });
+
+    it('should round trip inline cards the resolver marks as cards', () => {
+      const parser = new Parser({ linkResolver: resolver });
+      const adf = cardDoc({ url: API_URL });
+
+      expect(parser.markdownToAdf(parser.adfToMarkdown(adf))).toEqual(adf);
+    });
+  });
+
+  describe('unresolved link report', () => {
+    it('should list links the resolver could not map in the last conversion', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      parser.markdownToAdf('[Missing](./missing.md#intro) and [Setup](../guide/setup.md)');
+      expect(parser.getUnresolvedLinks()).toEqual([{ href: './missing.md', source: 'markdown' }]);
+
+      parser.adfToMarkdown(linkDoc('https://example.com/other'));
+      expect(parser.getUnresolvedLinks()).toEqual([{ href: 'https://example.com/other', source: 'adf' }]);
+    });
+
+    it('should start a new report for every conversion, including cached lookups', () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      parser.markdownToAdf('[Missing](./missing.md)');
+      parser.markdownToAdf('No links here');
+      expect(parser.getUnresolvedLinks()).toEqual([]);
+
+      parser.markdownToAdf('[Again](./missing.md)');
+      expect(parser.getUnresolvedLinks()).toEqual([{ href: './missing.md', source: 'markdown' }]);
+    });
+
+    it('should report links from conversions with per-call options', async () => {
+      const parser = new Parser({ linkResolver: resolver });
+
+      parser.markdownToAdf('[Missing](./missing.md)', { strict: false });
+      expect(parser.getUnresolvedLinks()).toEqual([{ href: './missing.md', source: 'markdown' }]);
+
+      await parser.adfToMarkdownAsync(linkDoc('https://example.com/other'), { strict: false });
+      expect(parser.getUnresolvedLinks()).toEqual([{ href: 'https://example.com/other', source: 'adf' }]);
+    });
+
+    it('should be empty without a resolver', () => {
+      const parser = new Parser();
+      parser.markdownToAdf('[Missing](./missing.md)');
+
+      expect(parser.getUnresolvedLinks()).toEqual([]);
+    });
+  });
+
+  describe('with an async resolver', () => {
+    it('should resolve each path once and use the result', async () => {
+      const resolvePath = jest.fn(async (path: string) => pages[path] || null);
+      const parser = new Parser({ linkResolver: { resolvePath } });
+
+      const adf = await parser.markdownToAdfAsync('[A](../guide/setup.md) and [B](../guide/setup.md#install)');
+
+      expect(resolvePath).toHaveBeenCalledTimes(1);
+      expect(adf.content[0].content?.filter(node => node.marks).map(node => node.marks?.[0].attrs?.href)).toEqual([
+        SETUP_URL, `${SETUP_URL}#install`
+      ]);
+    });
+
+    it('should resolve page URLs to paths', async () => {
+      const parser = new Parser({ linkResolver: { resolveUrl: async url => (url === SETUP_URL ? '../guide/setup.md' : null) } });
+
+      expect(await parser.adfToMarkdownAsync(linkDoc(SETUP_URL))).toBe('[Setup](../guide/setup.md)');
+    });
+
+    it('should resolve inline card URLs to paths', async () => {
+      const parser = new Parser({ linkResolver: { resolveUrl: async url => paths[url] || null } });
+
+      expect(await parser.adfToMarkdownAsync(cardDoc({ url: API_URL }))).toBe('[./api.md](./api.md)');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @file Integration tests for mediaSingle captions and media border marks
+ * Tests that captions inside ~~~mediaSingle fences and border metadata round-trip
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Media Caption Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should turn the paragraph after the image into a caption', () => {
+      const markdown = [
+        '~~~mediaSingle layout=wide width=80',
+        '![Screenshot](adf:media:abc-123)',
+        '',
+        'Figure 1: the *login* screen',
+        '~~~'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+      const mediaSingle = adf.content[0];
+
+      expect(mediaSingle.type).toBe('mediaSingle');
+      expect(mediaSingle.attrs).toEqual({ layout: 'wide', width: 80 });
+      expect(mediaSingle.content!.map(node => node.type)).toEqual(['media', 'caption']);
+      expect(mediaSingle.content![1].content).toEqual([
+        { type: 'text', text: 'Figure 1: the ' },
+        { type: 'text', text: 'login', marks: [{ type: 'em' }] },
+        { type: 'text', text: ' screen' }
+      ]);
+    });
+
+    it('should apply border metadata as a border mark on the media', () => {
+      const markdown = [
+        '<!-- adf:border size="2" color="#091e4224" -->',
+        '![Screenshot](adf:media:abc-123)'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+      const media = adf.content[0].content![0];
+
+      expect(media.type).toBe('media');
+      expect(media.marks).toEqual([{ type: 'border', attrs: { size: 2, color: '#091e4224' } }]);
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve captions and borders', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'mediaSingle',
+            attrs: { layout: 'center', width: 80 },
+            content: [
+              {
+                type: 'media',
+                attrs: { id: 'abc-123', type: 'file', collection: 'contentId-1', alt: 'Screenshot' },
+                marks: [{ type: 'border', attrs: { size: 2, color: '#091e4224' } }]
+              },
+              {
+                type: 'caption',
+                content: [
+                  { type: 'text', text: 'Figure 1: ' },
+                  { type: 'text', text: 'Login', marks: [{ type: 'strong' }] }
+                ]
+              }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file Integration tests for bidirectional mediaInline conversion
+ * Tests that adf:media images with a mediaInline directive stay inline next to text
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Media Inline Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should keep inline media inside the paragraph', () => {
+      const adf = parser.markdownToAdf(
+        'See ![report.pdf](adf:media:abc-123)<!-- adf:mediaInline type="file" collection="contentId-1" --> for details'
+      );
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'See ' },
+          {
+            type: 'mediaInline',
+            attrs: { id: 'abc-123', type: 'file', collection: 'contentId-1', alt: 'report.pdf' }
+          },
+          { type: 'text', text: ' for details' }
+        ]
+      }]);
+    });
+
+    it('should not hoist a standalone inline media to mediaSingle', () => {
+      const adf = parser.markdownToAdf('![](adf:media:abc-123)<!-- adf:mediaInline type="file" -->');
+
+      expect(adf.content[0].type).toBe('paragraph');
+      expect(adf.content[0].content![0].type).toBe('mediaInline');
+    });
+
+    it('should still convert standalone media without the directive to mediaSingle', () => {
+      const adf = parser.markdownToAdf('![](adf:media:abc-123)');
+
+      expect(adf.content[0].type).toBe('mediaSingle');
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve id, collection and type', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Attached ' },
+              { type: 'mediaInline', attrs: { id: 'abc-123', type: 'file', collection: 'contentId-1' } },
+              { type: 'text', text: ' and ' },
+              { type: 'mediaInline', attrs: { id: 'img-9', type: 'image', collection: 'contentId-1', alt: 'shot.png' } }
+            ]
+          }
+        ]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+  });
+});
@@ -259,7 +259,7 @@ More content here.
   describe('Error Handling and Edge Cases', () => {
     it('should ignore regular images (non-ADF placeholders)', async () => {
       const markdown = `
-![Regular Image](https://example.com/image.jpg)
+![Regular Image](./images/image.jpg)
 
 Some text here.
 `.trim();
@@ -0,0 +1,148 @@
+/**
+ * @file Integration tests for media resolvers mapping image sources to ADF media and back
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { MediaResolver, ResolvedMedia } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+const uploads: Record<string, ResolvedMedia> = {
+  './images/diagram.png': { id: 'media-diagram', collection: 'contentId-123', width: 800, height: 600 }
+};
+
+const paths: Record<string, string> = {
+  'media-diagram': './images/diagram.png'
+};
+
+const resolver: MediaResolver = {
+  resolveSource: source => uploads[source] || null,
+  resolveId: id => paths[id] || null
+};
+
+const mediaDoc = (attrs: Record<string, any>): ADFDocument => ({
+  version: 1,
+  type: 'doc',
+  content: [{
+    type: 'mediaSingle',
+    attrs: { layout: 'center' },
+    content: [{ type: 'media', attrs }]
+  }]
+});
+
+describe('Media Resolver Integration Tests', () => {
+  describe('without a resolver', () => {
+    const parser = new Parser();
+
+    it('should leave local images unconverted', () => {
+      const adf = parser.markdownToAdf('![Diagram](./images/diagram.png)');
+      expect(JSON.stringify(adf)).not.toContain('"type":"media"');
+    });
+
+    it('should turn URLs into external media', () => {
+      expect(parser.markdownToAdf('![Logo](https://example.com/logo.png)').content).toEqual(
+        mediaDoc({ type: 'external', url: 'https://example.com/logo.png', alt: 'Logo' }).content
+      );
+    });
+
+    it('should link external images in running text', () => {
+      expect(parser.markdownToAdf('Inline ![logo](https://example.com/logo.png) text').content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Inline ' },
+          { type: 'text', text: 'logo', marks: [{ type: 'link', attrs: { href: 'https://example.com/logo.png' } }] },
+          { type: 'text', text: ' text' }
+        ]
+      }]);
+    });
+
+    it('should round trip external media', () => {
+      const adf = mediaDoc({ type: 'external', url: 'https://example.com/diagram.png', alt: 'Diagram' });
+      const markdown = parser.adfToMarkdown(adf);
+
+      expect(markdown).toContain('<!-- adf:media type="external" -->');
+      expect(markdown).toContain('![Diagram](https://example.com/diagram.png)');
+      expect(parser.markdownToAdf(markdown)).toEqual(adf);
+    });
+  });
+
+  describe('with a sync resolver', () => {
+    const parser = new Parser({ mediaResolver: resolver });
+
+    it('should turn a local image into file media', () => {
+      expect(parser.markdownToAdf('![Diagram](./images/diagram.png)').content).toEqual([{
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{
+          type: 'media',
+          attrs: { type: 'file', id: 'media-diagram', collection: 'contentId-123', width: 800, height: 600, alt: 'Diagram' }
+        }]
+      }]);
+    });
+
+    it('should turn unresolved URLs into external media', () => {
+      expect(parser.markdownToAdf('![Logo](https://example.com/logo.png)').content[0].content).toEqual([
+        { type: 'media', attrs: { type: 'external', url: 'https://example.com/logo.png', alt: 'Logo' } }
+      ]);
+    });
+
+    it('should write media ids as their resolved paths and read them back', () => {
+      const adf = mediaDoc({ id: 'media-diagram', type: 'file', collection: 'contentId-123', alt: 'Diagram' });
+      const markdown = parser.adfToMarkdown(adf);
+
+      expect(markdown).toContain('![Diagram](./images/diagram.png)');
+      expect(markdown).toContain('id="media-diagram"');
+      expect(parser.markdownToAdf(markdown)).toEqual(adf);
+    });
+
+    it('should keep placeholders for unresolved ids', () => {
+      expect(parser.adfToMarkdown(mediaDoc({ id: 'other', type: 'file', collection: '' }))).toContain('![Media](adf:media:other)');
+    });
+
+    it('should turn an image in running text into mediaInline', () => {
+      const adf = parser.markdownToAdf('Inline ![icon](./images/diagram.png) text');
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Inline ' },
+          {
+            type: 'mediaInline',
+            attrs: { id: 'media-diagram', type: 'file', collection: 'contentId-123', width: 800, height: 600, alt: 'icon' }
+          },
+          { type: 'text', text: ' text' }
+        ]
+      }]);
+
+      const markdown = parser.adfToMarkdown(adf);
+      expect(markdown).toContain('![icon](./images/diagram.png)<!-- adf:mediaInline id="media-diagram"');
+      expect(parser.markdownToAdf(markdown)).toEqual(adf);
+    });
+  });
+
+  describe('with an async resolver', () => {
+    it('should point sync conversions to the async methods', () => {
+      const parser = new Parser({ mediaResolver: { resolveSource: async source => uploads[source] || null } });
+
+      expect(() => parser.markdownToAdf('![A](./images/diagram.png)')).toThrow(/markdownToAdfAsync/);
+    });
+
+    it('should upload each source once and use the result', async () => {
+      const resolveSource = jest.fn(async (source: string) => uploads[source] || null);
+      const parser = new Parser({ mediaResolver: { resolveSource } });
+
+      const adf = await parser.markdownToAdfAsync('![A](./images/diagram.png)\n\n![B](./images/diagram.png)');
+
+      expect(resolveSource).toHaveBeenCalledTimes(1);
+      expect(adf.content.map(node => node.content?.[0].attrs?.id)).toEqual(['media-diagram', 'media-diagram']);
+    });
+
+    it('should resolve media ids to paths', async () => {
+      const parser = new Parser({ mediaResolver: { resolveId: async id => paths[id] || null } });
+
+      const markdown = await parser.adfToMarkdownAsync(mediaDoc({ id: 'media-diagram', type: 'file', collection: '' }));
+
+      expect(markdown).toContain('![Media](./images/diagram.png)');
+    });
+  });
+});
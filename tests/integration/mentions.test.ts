@@ -0,0 +1,121 @@
+/**
+ * @file Integration tests for mention round trips and mention resolvers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, createInMemoryMentionResolver } from '../../src/index';
+import type { MentionResolver, MentionUser } from '../../src/index';
+import type { ADFDocument } from '../../src/types';
+
+const users: MentionUser[] = [
+  { accountId: '5b10a2844c20165700ede21g', displayName: 'Alice Smith', nickname: 'alice', accessLevel: 'CONTAINER' },
+  { accountId: '5d53f3cbc6b9320d9ea5bdc2', displayName: 'Build Bot', nickname: 'bot', userType: 'APP' }
+];
+
+const mentionDoc = (id: string, text?: string): ADFDocument => ({
+  version: 1,
+  type: 'doc',
+  content: [{
+    type: 'paragraph',
+    content: [
+      { type: 'text', text: 'Assigned to ' },
+      { type: 'mention', attrs: { id, ...(text && { text }) } }
+    ]
+  }]
+});
+
+describe('Mention Integration Tests', () => {
+  describe('round trip', () => {
+    const parser = new Parser();
+
+    it('should parse the mention link form written for ADF mentions', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [{
+            type: 'mention',
+            attrs: { id: '5b10a2844c20165700ede21g', text: '@Alice Smith', userType: 'DEFAULT', accessLevel: 'CONTAINER' }
+          }]
+        }]
+      };
+
+      expect(parser.markdownToAdf(parser.adfToMarkdown(adf))).toEqual(adf);
+    });
+
+    it('should parse a mention link without a metadata comment', () => {
+      expect(parser.markdownToAdf('[@Alice Smith](adf://mention/5b10a2844c20165700ede21g)').content[0].content).toEqual([
+        { type: 'mention', attrs: { id: '5b10a2844c20165700ede21g', text: '@Alice Smith' } }
+      ]);
+    });
+  });
+
+  describe('with an in-memory resolver', () => {
+    const parser = new Parser({ mentionResolver: createInMemoryMentionResolver(users) });
+
+    it('should resolve @name and {user:name} to account IDs', () => {
+      expect(parser.markdownToAdf('Ping @alice and {user:bot}').content[0].content).toEqual([
+        { type: 'text', text: 'Ping ' },
+        { type: 'mention', attrs: { id: '5b10a2844c20165700ede21g', text: '@Alice Smith', accessLevel: 'CONTAINER' } },
+        { type: 'text', text: ' and ' },
+        { type: 'mention', attrs: { id: '5d53f3cbc6b9320d9ea5bdc2', text: '@Build Bot', userType: 'APP' } }
+      ]);
+    });
+
+    it('should leave unknown names unresolved', () => {
+      expect(parser.markdownToAdf('Ping @carol and {user:carol}').content[0].content).toEqual([
+        { type: 'text', text: 'Ping @carol and ' },
+        { type: 'mention', attrs: { id: 'carol', text: '@carol', userType: 'DEFAULT' } }
+      ]);
+    });
+
+    it('should render account IDs as readable names', () => {
+      expect(parser.adfToMarkdown(mentionDoc('5d53f3cbc6b9320d9ea5bdc2'))).toBe(
+        'Assigned to [@Build Bot](adf://mention/5d53f3cbc6b9320d9ea5bdc2)<!-- adf:mention attrs=\'{"id":"5d53f3cbc6b9320d9ea5bdc2","text":"@Build Bot"}\' -->'
+      );
+    });
+  });
+
+  describe('with a resolver that throws', () => {
+    const parser = new Parser({
+      mentionResolver: {
+        resolveById: () => {
+          throw new Error('directory unavailable');
+        }
+      }
+    });
+
+    it('should convert the document with the mention unresolved', () => {
+      expect(parser.adfToMarkdown(mentionDoc('5d53f3cbc6b9320d9ea5bdc2', '@Bot'))).toBe(
+        'Assigned to [@Bot](adf://mention/5d53f3cbc6b9320d9ea5bdc2)<!-- adf:mention attrs=\'{"id":"5d53f3cbc6b9320d9ea5bdc2","text":"@Bot"}\' -->'
+      );
+    });
+  });
+
+  describe('with an async resolver', () => {
+    let calls = 0;
+    const resolver: MentionResolver = {
+      resolveByName: async name => {
+        calls++;
+        return users.find(user => user.nickname === name) ?? null;
+      },
+      resolveById: async accountId => users.find(user => user.accountId === accountId) ?? null
+    };
+    const parser = new Parser({ mentionResolver: resolver });
+
+    it('should resolve names in markdownToAdfAsync and cache the lookups', async () => {
+      const first = await parser.markdownToAdfAsync('@alice @alice');
+      await parser.markdownToAdfAsync('@alice');
+
+      expect(first.content[0].content?.filter(node => node.type === 'mention')).toHaveLength(2);
+      expect(calls).toBe(1);
+    });
+
+    it('should resolve display names in adfToMarkdownAsync', async () => {
+      const markdown = await parser.adfToMarkdownAsync(mentionDoc('5b10a2844c20165700ede21g', '@asmith'));
+
+      expect(markdown).toContain('[@Alice Smith](adf://mention/5b10a2844c20165700ede21g)');
+    });
+  });
+});
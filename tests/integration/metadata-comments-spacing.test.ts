@@ -29,7 +29,7 @@ This is centered text.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'This is centered text.' }
         ]
@@ -48,7 +48,7 @@ This is centered text.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'This is centered text.' }
         ]
@@ -71,7 +71,7 @@ This is centered text.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'This is centered text.' }
         ]
@@ -192,7 +192,8 @@ Final paragraph.
       // Centered blue heading
       expect(result.content[2]).toEqual({
         type: 'heading',
-        attrs: { level: 2, textAlign: 'center', color: '#0052cc' },
+        attrs: { level: 2, color: '#0052cc' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Centered Blue Heading' }
         ]
@@ -201,7 +202,7 @@ Final paragraph.
       // Centered paragraph
       expect(result.content[3]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Centered paragraph after heading.' }
         ]
@@ -252,7 +253,7 @@ This is the last paragraph.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'right' },
+        marks: [{ type: 'alignment', attrs: { align: 'end' } }],
         content: [
           { type: 'text', text: 'This is the last paragraph.' }
         ]
@@ -276,8 +277,8 @@ Final paragraph with all three attributes applied.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         attrs: { 
-          textAlign: 'center',
           backgroundColor: '#f0f0f0',
           fontWeight: 'bold'
         },
@@ -316,7 +317,7 @@ Centered paragraph.
       
       expect(result.content[1]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Centered paragraph.' }
         ]
@@ -339,7 +340,7 @@ Centered paragraph with multiple line breaks.
       expect(result.content).toHaveLength(1);
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Centered paragraph with multiple line breaks.' }
         ]
@@ -357,9 +358,9 @@ Centered paragraph with multiple line breaks.
             type: 'heading',
             attrs: { 
               level: 1,
-              id: 'custom-heading',
-              textAlign: 'center'
+              id: 'custom-heading'
             },
+            marks: [{ type: 'alignment', attrs: { align: 'center' } }],
             content: [
               { type: 'text', text: 'Custom Heading' }
             ]
@@ -391,9 +392,9 @@ Centered paragraph with multiple line breaks.
       // Should preserve all custom attributes
       expect(reconstructed.content[0].attrs).toEqual({
         level: 1,
-        id: 'custom-heading',
-        textAlign: 'center'
+        id: 'custom-heading'
       });
+      expect(reconstructed.content[0].marks).toEqual([{ type: 'alignment', attrs: { align: 'center' } }]);
       
       expect(reconstructed.content[1].attrs).toEqual({
         textAlign: 'justify',
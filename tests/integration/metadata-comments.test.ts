@@ -32,7 +32,7 @@ This is a centered paragraph.
       expect(result.content[0].type).toBe('heading');
       expect(result.content[1]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'This is a centered paragraph.' }
         ]
@@ -53,9 +53,9 @@ Some content.
         type: 'heading',
         attrs: { 
           level: 1,
-          id: 'custom-heading',
-          textAlign: 'center'
+          id: 'custom-heading'
         },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Custom Heading' }
         ]
@@ -86,13 +86,14 @@ Right aligned paragraph.
       
       expect(result.content[1]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center', backgroundColor: '#f0f0f0' },
+        attrs: { backgroundColor: '#f0f0f0' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [{ type: 'text', text: 'Centered paragraph with background.' }]
       });
       
       expect(result.content[2]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'right' },
+        marks: [{ type: 'alignment', attrs: { align: 'end' } }],
         content: [{ type: 'text', text: 'Right aligned paragraph.' }]
       });
     });
@@ -167,9 +168,9 @@ This paragraph has multiple metadata attributes.
       expect(result.content[0]).toEqual({
         type: 'paragraph',
         attrs: { 
-          textAlign: 'center',
           backgroundColor: '#fff3cd'
         },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'This paragraph has multiple metadata attributes.' }
         ]
@@ -187,9 +188,9 @@ This paragraph has multiple metadata attributes.
             type: 'heading',
             attrs: { 
               level: 1,
-              id: 'custom-id',
-              textAlign: 'center'
+              id: 'custom-id'
             },
+            marks: [{ type: 'alignment', attrs: { align: 'center' } }],
             content: [
               { type: 'text', text: 'Custom Heading' }
             ]
@@ -197,9 +198,9 @@ This paragraph has multiple metadata attributes.
           {
             type: 'paragraph',
             attrs: { 
-              textAlign: 'center',
               backgroundColor: '#f0f0f0'
             },
+            marks: [{ type: 'alignment', attrs: { align: 'center' } }],
             content: [
               { type: 'text', text: 'Styled paragraph' }
             ]
@@ -211,8 +212,8 @@ This paragraph has multiple metadata attributes.
       const markdown = await parser.stringify(originalAdf);
       
       // Should contain metadata comments
-      expect(markdown).toContain('<!-- adf:heading attrs=\'{"id":"custom-id","textAlign":"center"}\' -->');
-      expect(markdown).toContain('<!-- adf:paragraph attrs=\'{"textAlign":"center","backgroundColor":"#f0f0f0"}\' -->');
+      expect(markdown).toContain('<!-- adf:heading attrs=\'{"id":"custom-id","align":"center"}\' -->');
+      expect(markdown).toContain('<!-- adf:paragraph attrs=\'{"backgroundColor":"#f0f0f0","align":"center"}\' -->');
 
       // Convert back to ADF
       const reconstructed = await parser.parse(markdown);
@@ -220,14 +221,14 @@ This paragraph has multiple metadata attributes.
       // Should preserve custom attributes
       expect(reconstructed.content[0].attrs).toEqual({
         level: 1,
-        id: 'custom-id',
-        textAlign: 'center'
+        id: 'custom-id'
       });
+      expect(reconstructed.content[0].marks).toEqual([{ type: 'alignment', attrs: { align: 'center' } }]);
       
       expect(reconstructed.content[1].attrs).toEqual({
-        textAlign: 'center',
         backgroundColor: '#f0f0f0'
       });
+      expect(reconstructed.content[1].marks).toEqual([{ type: 'alignment', attrs: { align: 'center' } }]);
     });
 
     it('should handle complex round-trip with panels and metadata', async () => {
@@ -322,7 +323,7 @@ Centered paragraph.
       
       expect(result.content[0]).toEqual({
         type: 'paragraph',
-        attrs: { textAlign: 'center' },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
         content: [
           { type: 'text', text: 'Centered paragraph.' }
         ]
@@ -0,0 +1,213 @@
+/**
+ * @file Integration tests for Confluence storage format import and export
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, StorageFormatToAdfEngine, createInMemoryMentionResolver } from '../../src/index';
+import { doc, paragraph, text } from '../helpers/adf';
+
+const macro = (name: string, params: Record<string, string>, body = '') =>
+  `<ac:structured-macro ac:name="${name}">${Object.entries(params).map(([key, value]) => `<ac:parameter ac:name="${key}">${value}</ac:parameter>`).join('')}${body}</ac:structured-macro>`;
+
+describe('Storage Format Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('storage format to ADF', () => {
+    it('should parse headings, paragraphs, marks and entities', () => {
+      expect(parser.storageFormatToAdf('<h2>Notes</h2><p>Tom &amp; Jerry<br />with <strong>bold</strong>, <em>em</em>, <code>code</code> and <a href="https://example.com">a link</a>&nbsp;</p><hr />').content).toEqual([
+        { type: 'heading', attrs: { level: 2 }, content: [text('Notes')] },
+        paragraph(
+          text('Tom & Jerry'), { type: 'hardBreak' }, text('with '),
+          text('bold', [{ type: 'strong' }]), text(', '),
+          text('em', [{ type: 'em' }]), text(', '),
+          text('code', [{ type: 'code' }]), text(' and '),
+          text('a link', [{ type: 'link', attrs: { href: 'https://example.com' } }])
+        ),
+        { type: 'rule' }
+      ]);
+    });
+
+    it('should convert panel macros, keeping the title as a bold paragraph', () => {
+      const storage = macro('info', { title: 'Heads up' }, '<ac:rich-text-body><p>Read this</p></ac:rich-text-body>')
+        + macro('note', {}, '<ac:rich-text-body><p>Careful</p></ac:rich-text-body>')
+        + macro('tip', {}, '<ac:rich-text-body><p>Nice</p></ac:rich-text-body>');
+
+      expect(parser.storageFormatToAdf(storage).content).toEqual([
+        { type: 'panel', attrs: { panelType: 'info' }, content: [paragraph(text('Heads up', [{ type: 'strong' }])), paragraph(text('Read this'))] },
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful'))] },
+        { type: 'panel', attrs: { panelType: 'success' }, content: [paragraph(text('Nice'))] }
+      ]);
+    });
+
+    it('should convert expand, code and status macros', () => {
+      const storage = macro('expand', { title: 'Details' }, '<ac:rich-text-body><p>Hidden</p></ac:rich-text-body>')
+        + macro('code', { language: 'TypeScript' }, '<ac:plain-text-body><![CDATA[if (a < b && c) {}]]></ac:plain-text-body>')
+        + `<p>State: ${macro('status', { colour: 'Green', title: 'Done' })}</p>`;
+
+      expect(parser.storageFormatToAdf(storage).content).toEqual([
+        { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('Hidden'))] },
+        { type: 'codeBlock', attrs: { language: 'typescript' }, content: [text('if (a < b && c) {}')] },
+        paragraph(text('State: '), { type: 'status', attrs: { text: 'Done', color: 'green' } })
+      ]);
+    });
+
+    it('should keep other macros such as jira as extensions', () => {
+      const storage = '<ac:structured-macro ac:name="jira" ac:macro-id="m-1"><ac:parameter ac:name="key">PROJ-42</ac:parameter></ac:structured-macro>';
+
+      expect(parser.storageFormatToAdf(storage).content).toEqual([{
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'jira',
+          parameters: { macroParams: { key: { value: 'PROJ-42' } } },
+          localId: 'm-1'
+        }
+      }]);
+    });
+
+    it('should convert task lists and layouts', () => {
+      const storage = '<ac:task-list><ac:task><ac:task-id>7</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Ship it</ac:task-body></ac:task></ac:task-list>'
+        + '<ac:layout><ac:layout-section ac:type="two_left_sidebar"><ac:layout-cell><p>Nav</p></ac:layout-cell><ac:layout-cell><p>Main</p></ac:layout-cell></ac:layout-section></ac:layout>';
+
+      const [taskList, layout] = parser.storageFormatToAdf(storage).content;
+      expect(taskList.type).toBe('taskList');
+      expect(taskList.content).toEqual([{ type: 'taskItem', attrs: { localId: '7', state: 'DONE' }, content: [text('Ship it')] }]);
+      expect(layout).toEqual({
+        type: 'layoutSection',
+        content: [
+          { type: 'layoutColumn', attrs: { width: 33.33 }, content: [paragraph(text('Nav'))] },
+          { type: 'layoutColumn', attrs: { width: 66.66 }, content: [paragraph(text('Main'))] }
+        ]
+      });
+    });
+
+    it('should map attachments to file media with the media resolver', () => {
+      const resolving = new Parser({
+        mediaResolver: { resolveSource: source => (source === 'diagram.png' ? { id: 'media-1', collection: 'page-1' } : null) }
+      });
+      const adf = resolving.storageFormatToAdf('<ac:image ac:width="400"><ri:attachment ri:filename="diagram.png" /></ac:image>');
+
+      expect(adf.content[0]).toEqual({
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { type: 'file', id: 'media-1', collection: 'page-1', width: 400 } }]
+      });
+      expect(resolving.getStorageFormatWarnings()).toEqual([]);
+    });
+
+    it('should keep unresolved attachments as external images with a warning', () => {
+      const adf = parser.storageFormatToAdf('<ac:image><ri:attachment ri:filename="photo.jpg" /></ac:image>');
+
+      expect(adf.content[0].content?.[0].attrs).toMatchObject({ type: 'external', url: 'photo.jpg' });
+      expect(parser.getStorageFormatWarnings()).toEqual(['Attachment "photo.jpg" has no media id; it was kept as an external image']);
+    });
+
+    it('should convert user links, emoticons and dates', () => {
+      const adf = parser.storageFormatToAdf('<p><ac:link><ri:user ri:account-id="abc-123" /></ac:link> <ac:emoticon ac:name="tick" /> <time datetime="2024-01-15" /></p>');
+
+      expect(adf.content[0].content).toEqual([
+        { type: 'mention', attrs: { id: 'abc-123', text: '@abc-123', userType: 'DEFAULT' } },
+        text(' '),
+        { type: 'emoji', attrs: { shortName: ':white_check_mark:', text: '✅' } },
+        text(' '),
+        { type: 'date', attrs: { timestamp: String(Date.UTC(2024, 0, 15)) } }
+      ]);
+    });
+
+    it('should resolve mention display names asynchronously', async () => {
+      const resolving = new Parser({
+        mentionResolver: createInMemoryMentionResolver([{ accountId: 'abc-123', displayName: 'Alice Smith' }])
+      });
+      const adf = await resolving.storageFormatToAdfAsync('<p><ac:link><ri:user ri:account-id="abc-123" /></ac:link></p>');
+
+      expect(adf.content[0].content?.[0].attrs).toMatchObject({ id: 'abc-123', text: '@Alice Smith' });
+    });
+
+    it('should parse tables with merged cells', () => {
+      const adf = parser.storageFormatToAdf('<table><tbody><tr><th>A</th><th>B</th></tr><tr><td colspan="2"><p>Both</p></td></tr></tbody></table>');
+      const [header, body] = adf.content[0].content || [];
+
+      expect(header.content?.map(cell => cell.type)).toEqual(['tableHeader', 'tableHeader']);
+      expect(body.content?.[0]).toMatchObject({ type: 'tableCell', attrs: { colspan: 2 }, content: [paragraph(text('Both'))] });
+    });
+
+    it('should recover from malformed markup', () => {
+      expect(new StorageFormatToAdfEngine().convert('<p>Open <strong>bold</p><p>next</p></em>').content).toEqual([
+        paragraph(text('Open '), text('bold', [{ type: 'strong' }])),
+        paragraph(text('next'))
+      ]);
+    });
+  });
+
+  describe('ADF to storage format', () => {
+    it('should render blocks and marks as XHTML', () => {
+      const adf = doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+        paragraph(text('a < b', [{ type: 'strong' }]), text(' '), text('docs', [{ type: 'link', attrs: { href: 'https://example.com?a=1&b=2' } }])),
+        { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('one'))] }] },
+        { type: 'rule' }
+      );
+
+      expect(parser.adfToStorageFormat(adf)).toBe(
+        '<h1>Title</h1><p><strong>a &lt; b</strong> <a href="https://example.com?a=1&amp;b=2">docs</a></p><ul><li>one</li></ul><hr />'
+      );
+    });
+
+    it('should render panels, expands and code blocks as macros', () => {
+      const adf = doc(
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Stop'))] },
+        { type: 'expand', attrs: { title: 'More' }, content: [paragraph(text('Hidden'))] },
+        { type: 'codeBlock', attrs: { language: 'sql' }, content: [text('SELECT 1 -- ]]>')] }
+      );
+
+      expect(parser.adfToStorageFormat(adf)).toBe(
+        '<ac:structured-macro ac:name="note"><ac:rich-text-body><p>Stop</p></ac:rich-text-body></ac:structured-macro>'
+        + '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">More</ac:parameter><ac:rich-text-body><p>Hidden</p></ac:rich-text-body></ac:structured-macro>'
+        + '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">sql</ac:parameter><ac:plain-text-body><![CDATA[SELECT 1 -- ]]]]><![CDATA[>]]></ac:plain-text-body></ac:structured-macro>'
+      );
+    });
+
+    it('should render task lists, mentions and file media', () => {
+      const resolving = new Parser({ mediaResolver: { resolveId: id => (id === 'media-1' ? 'diagram.png' : null) } });
+      const adf = doc(
+        { type: 'taskList', attrs: { localId: 'list' }, content: [{ type: 'taskItem', attrs: { localId: 't1', state: 'TODO' }, content: [{ type: 'mention', attrs: { id: 'abc-123' } }] }] },
+        { type: 'mediaSingle', attrs: { layout: 'center' }, content: [{ type: 'media', attrs: { type: 'file', id: 'media-1', collection: 'c', width: 300 } }] }
+      );
+
+      expect(resolving.adfToStorageFormat(adf)).toBe(
+        '<ac:task-list><ac:task><ac:task-id>t1</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body><ac:link><ri:user ri:account-id="abc-123" /></ac:link></ac:task-body></ac:task></ac:task-list>'
+        + '<p><ac:image ac:align="center" ac:layout="center" ac:width="300"><ri:attachment ri:filename="diagram.png" /></ac:image></p>'
+      );
+      expect(resolving.getStorageFormatWarnings()).toEqual([]);
+    });
+
+    it('should warn about media without an attachment filename and decision lists', () => {
+      parser.adfToStorageFormat(doc(
+        { type: 'mediaGroup', content: [{ type: 'media', attrs: { type: 'file', id: 'unknown', collection: 'c' } }] },
+        { type: 'decisionList', content: [{ type: 'decisionItem', attrs: { state: 'DECIDED' }, content: [text('Go')] }] }
+      ));
+
+      expect(parser.getStorageFormatWarnings()).toEqual([
+        'Media "unknown" has no attachment filename; its id was used',
+        'Decision lists are rendered as bullet lists'
+      ]);
+    });
+  });
+
+  describe('round trips', () => {
+    it('should keep macros, layouts and attachments through storage format → ADF → storage format', () => {
+      const storage = macro('info', {}, '<ac:rich-text-body><p>Note</p></ac:rich-text-body>')
+        + '<ac:structured-macro ac:name="jira" ac:macro-id="m-1"><ac:parameter ac:name="key">PROJ-42</ac:parameter></ac:structured-macro>'
+        + '<ac:layout><ac:layout-section ac:type="two_equal"><ac:layout-cell><p>L</p></ac:layout-cell><ac:layout-cell><p>R</p></ac:layout-cell></ac:layout-section></ac:layout>'
+        + '<p><ac:image ac:align="center" ac:layout="center" ac:alt="chart.png"><ri:attachment ri:filename="chart.png" /></ac:image></p>';
+
+      expect(parser.adfToStorageFormat(parser.storageFormatToAdf(storage))).toBe(storage);
+    });
+
+    it('should migrate storage format to markdown through ADF', () => {
+      const adf = parser.storageFormatToAdf(`<h1>Plan</h1>${macro('warning', {}, '<ac:rich-text-body><p>Risky</p></ac:rich-text-body>')}`);
+
+      expect(parser.adfToMarkdown(adf)).toBe('# Plan\n\n~~~panel type=error\nRisky\n~~~');
+    });
+  });
+});
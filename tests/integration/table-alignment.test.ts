@@ -0,0 +1,84 @@
+/**
+ * @file Integration tests for table column alignment, header columns and numbered columns
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+import type { ADFDocument, ADFNode } from '../../src/types';
+import { paragraph, text, cell } from '../helpers/adf';
+
+// A cell whose paragraph carries an alignment mark
+const alignedCell = (type: 'tableHeader' | 'tableCell', value: string, align: 'center' | 'end'): ADFNode =>
+  cell(type, { ...paragraph(text(value)), marks: [{ type: 'alignment', attrs: { align } }] });
+
+describe('Table Alignment Integration Tests', () => {
+  const parsers = [
+    { name: 'default parser', parser: new Parser() },
+    { name: 'ADF extensions parser', parser: new Parser({ enableAdfExtensions: true }) }
+  ];
+
+  parsers.forEach(({ name, parser }) => {
+    describe(`with ${name}`, () => {
+      it('should map GFM alignment markers to paragraph alignment marks', () => {
+        const adf = parser.markdownToAdf('| Left | Center | Right |\n| :--- | :---: | ---: |\n| a | b | c |');
+
+        expect(adf.content[0]).toEqual({
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [cell('tableHeader', 'Left'), alignedCell('tableHeader', 'Center', 'center'), alignedCell('tableHeader', 'Right', 'end')]
+            },
+            {
+              type: 'tableRow',
+              content: [cell('tableCell', 'a'), alignedCell('tableCell', 'b', 'center'), alignedCell('tableCell', 'c', 'end')]
+            }
+          ]
+        });
+      });
+
+      it('should read numbered, headerColumn and table attributes from the table comment', () => {
+        const adf = parser.markdownToAdf(
+          '<!-- adf:table numbered="true" headerColumn="true" width="760" displayMode="fixed" localId="t-1" -->\n' +
+          '| Metric | Value |\n| --- | --- |\n| Users | 10 |'
+        );
+
+        expect(adf.content[0]).toEqual({
+          type: 'table',
+          attrs: { isNumberColumnEnabled: true, width: 760, displayMode: 'fixed', localId: 't-1' },
+          content: [
+            { type: 'tableRow', content: [cell('tableHeader', 'Metric'), cell('tableHeader', 'Value')] },
+            { type: 'tableRow', content: [cell('tableHeader', 'Users'), cell('tableCell', '10')] }
+          ]
+        });
+      });
+
+      it('should round-trip an aligned table with a header column and number column', () => {
+        const originalAdf: ADFDocument = {
+          version: 1,
+          type: 'doc',
+          content: [{
+            type: 'table',
+            attrs: { isNumberColumnEnabled: true, layout: 'wide', width: 760, displayMode: 'fixed', localId: 't-1' },
+            content: [
+              { type: 'tableRow', content: [cell('tableHeader', 'Metric'), alignedCell('tableHeader', 'Q1', 'end')] },
+              { type: 'tableRow', content: [cell('tableHeader', 'Users'), alignedCell('tableCell', '10', 'end')] },
+              { type: 'tableRow', content: [cell('tableHeader', 'Teams'), alignedCell('tableCell', '3', 'end')] }
+            ]
+          }]
+        };
+
+        const markdown = parser.adfToMarkdown(originalAdf);
+
+        expect(markdown).toBe(
+          '<!-- adf:table numbered="true" headerColumn="true" layout="wide" width="760" displayMode="fixed" localId="t-1" -->\n' +
+          '| Metric | Q1 |\n' +
+          '| -------- | -------: |\n' +
+          '| Users | 10 |\n' +
+          '| Teams | 3 |'
+        );
+        expect(parser.markdownToAdf(markdown)).toEqual(originalAdf);
+      });
+    });
+  });
+});
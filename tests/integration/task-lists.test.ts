@@ -0,0 +1,164 @@
+/**
+ * @file Integration tests for bidirectional task list conversion
+ * Tests that GFM checkbox lists convert to/from ADF taskList/taskItem nodes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser } from '../../src/index';
+
+describe('Task List Integration Tests', () => {
+  let parser: Parser;
+
+  beforeEach(() => {
+    parser = new Parser();
+  });
+
+  describe('Markdown to ADF Conversion', () => {
+    it('should convert GFM checkboxes to taskList with TODO/DONE items', () => {
+      const adf = parser.markdownToAdf('- [ ] Write docs\n- [x] Write code');
+
+      expect(adf.content).toHaveLength(1);
+      const taskList = adf.content[0];
+      expect(taskList.type).toBe('taskList');
+      expect(taskList.attrs?.localId).toEqual(expect.any(String));
+      expect(taskList.content).toHaveLength(2);
+
+      expect(taskList.content![0]).toEqual({
+        type: 'taskItem',
+        attrs: { localId: expect.any(String), state: 'TODO' },
+        content: [{ type: 'text', text: 'Write docs' }]
+      });
+      expect(taskList.content![1].attrs?.state).toBe('DONE');
+    });
+
+    it('should keep inline formatting inside task items', () => {
+      const adf = parser.markdownToAdf('- [ ] Review **important** PR');
+      const item = adf.content[0].content![0];
+
+      expect(item.content).toEqual([
+        { type: 'text', text: 'Review ' },
+        { type: 'text', text: 'important', marks: [{ type: 'strong' }] },
+        { type: 'text', text: ' PR' }
+      ]);
+    });
+
+    it('should convert nested task lists to sibling taskList nodes', () => {
+      const adf = parser.markdownToAdf('- [ ] Parent\n  - [x] Child\n- [ ] Sibling');
+      const taskList = adf.content[0];
+
+      expect(taskList.content!.map(node => node.type)).toEqual(['taskItem', 'taskList', 'taskItem']);
+      expect(taskList.content![1].content![0].attrs?.state).toBe('DONE');
+      expect(taskList.content![1].content![0].content).toEqual([{ type: 'text', text: 'Child' }]);
+    });
+
+    it('should apply localIds from metadata comments', () => {
+      const markdown = [
+        '<!-- adf:taskList localId="list-1" -->',
+        '- [ ] First <!-- adf:taskItem localId="task-1" -->',
+        '  <!-- adf:taskList localId="list-2" -->',
+        '  - [x] Nested <!-- adf:taskItem localId="task-2" -->'
+      ].join('\n');
+
+      const adf = parser.markdownToAdf(markdown);
+      const taskList = adf.content[0];
+
+      expect(taskList.attrs?.localId).toBe('list-1');
+      expect(taskList.content![0]).toEqual({
+        type: 'taskItem',
+        attrs: { localId: 'task-1', state: 'TODO' },
+        content: [{ type: 'text', text: 'First' }]
+      });
+      expect(taskList.content![1].attrs?.localId).toBe('list-2');
+      expect(taskList.content![1].content![0].attrs).toEqual({ localId: 'task-2', state: 'DONE' });
+    });
+
+    it('should leave regular bullet lists untouched', () => {
+      const adf = parser.markdownToAdf('- one\n- two');
+
+      expect(adf.content[0].type).toBe('bulletList');
+    });
+
+    it('should keep a list with plain items as a bullet list with checkbox markers as text', () => {
+      const adf = parser.markdownToAdf('- [ ] task\n- plain item');
+      const list = adf.content[0];
+
+      expect(list.type).toBe('bulletList');
+      expect(list.content![0].content).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: '[ ] task' }] }
+      ]);
+      expect(parser.adfToMarkdown(adf)).toBe('- [ ] task\n- plain item');
+    });
+
+    it('should not turn a nested plain bullet list into tasks', () => {
+      const adf = parser.markdownToAdf('- [ ] Parent\n  - plain child\n- [x] Done');
+      const taskList = adf.content[0];
+
+      expect(taskList.content!.map(node => node.type)).toEqual(['taskItem', 'taskItem']);
+      expect(taskList.content![0].content).toEqual([
+        { type: 'text', text: 'Parent' },
+        { type: 'hardBreak' },
+        { type: 'text', text: 'plain child' }
+      ]);
+    });
+
+    it('should keep code blocks inside task items as inline code', () => {
+      const adf = parser.markdownToAdf('- [ ] Run\n\n  ```js\n  a()\n  b()\n  ```');
+      const item = adf.content[0].content![0];
+
+      expect(item.content).toEqual([
+        { type: 'text', text: 'Run' },
+        { type: 'hardBreak' },
+        { type: 'text', text: 'a()', marks: [{ type: 'code' }] },
+        { type: 'hardBreak' },
+        { type: 'text', text: 'b()', marks: [{ type: 'code' }] }
+      ]);
+    });
+  });
+
+  describe('ADF to Markdown Conversion', () => {
+    it('should render task items as GFM checkboxes', () => {
+      const markdown = parser.adfToMarkdown({
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'taskList',
+          content: [
+            { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'Open' }] },
+            { type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'Closed' }] }
+          ]
+        }]
+      });
+
+      expect(markdown).toBe('- [ ] Open\n- [x] Closed');
+    });
+  });
+
+  describe('Round-trip Conversion', () => {
+    it('should preserve states, nesting and localIds', () => {
+      const original = {
+        version: 1,
+        type: 'doc' as const,
+        content: [{
+          type: 'taskList',
+          attrs: { localId: 'list-1' },
+          content: [
+            { type: 'taskItem', attrs: { localId: 'task-1', state: 'TODO' }, content: [{ type: 'text', text: 'Parent' }] },
+            {
+              type: 'taskList',
+              attrs: { localId: 'list-2' },
+              content: [
+                { type: 'taskItem', attrs: { localId: 'task-2', state: 'DONE' }, content: [{ type: 'text', text: 'Child' }] }
+              ]
+            },
+            { type: 'taskItem', attrs: { localId: 'task-3', state: 'DONE' }, content: [{ type: 'text', text: 'Sibling' }] }
+          ]
+        }]
+      };
+
+      const markdown = parser.adfToMarkdown(original);
+      const roundTrip = parser.markdownToAdf(markdown);
+
+      expect(roundTrip).toEqual(original);
+    });
+  });
+});
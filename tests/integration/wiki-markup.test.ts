@@ -0,0 +1,209 @@
+/**
+ * @file Integration tests for Jira wiki markup import and export
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Parser, WikiMarkupToAdfEngine, createInMemoryMentionResolver } from '../../src/index';
+import { doc, paragraph, text } from '../helpers/adf';
+
+describe('Wiki Markup Integration Tests', () => {
+  const parser = new Parser();
+
+  describe('wiki markup to ADF', () => {
+    it('should parse headings, paragraphs and rules', () => {
+      expect(parser.wikiMarkupToAdf('h2. Release notes\n\nFirst line\nsecond line\n\n----').content).toEqual([
+        { type: 'heading', attrs: { level: 2 }, content: [text('Release notes')] },
+        paragraph(text('First line'), { type: 'hardBreak' }, text('second line')),
+        { type: 'rule' }
+      ]);
+    });
+
+    it('should parse text effects', () => {
+      expect(parser.wikiMarkupToAdf('*bold* _italic_ -gone- +under+ ^sup^ ~sub~ {{code}} {color:#ff5630}red{color}').content[0].content).toEqual([
+        text('bold', [{ type: 'strong' }]), text(' '),
+        text('italic', [{ type: 'em' }]), text(' '),
+        text('gone', [{ type: 'strike' }]), text(' '),
+        text('under', [{ type: 'underline' }]), text(' '),
+        text('sup', [{ type: 'subsup', attrs: { type: 'sup' } }]), text(' '),
+        text('sub', [{ type: 'subsup', attrs: { type: 'sub' } }]), text(' '),
+        text('code', [{ type: 'code' }]), text(' '),
+        text('red', [{ type: 'textColor', attrs: { color: '#ff5630' } }])
+      ]);
+    });
+
+    it('should leave hyphenated words and escaped characters alone', () => {
+      expect(parser.wikiMarkupToAdf('a well-known fix - not \\*bold\\*').content[0].content)
+        .toEqual([text('a well-known fix - not *bold*')]);
+    });
+
+    it('should parse links, mentions, emoticons and status', () => {
+      expect(parser.wikiMarkupToAdf('See [the docs|https://example.com/docs] or [https://example.com], ask [~accountid:abc-123] (y) {status:colour=Green|title=Done}').content[0].content).toEqual([
+        text('See '),
+        text('the docs', [{ type: 'link', attrs: { href: 'https://example.com/docs' } }]),
+        text(' or '),
+        text('https://example.com', [{ type: 'link', attrs: { href: 'https://example.com' } }]),
+        text(', ask '),
+        { type: 'mention', attrs: { id: 'abc-123', text: '@abc-123', userType: 'DEFAULT' } },
+        text(' '),
+        { type: 'emoji', attrs: { shortName: ':thumbsup:', text: '👍' } },
+        text(' '),
+        { type: 'status', attrs: { text: 'Done', color: 'green' } }
+      ]);
+    });
+
+    it('should resolve [~username] mentions with the mention resolver', () => {
+      const resolving = new Parser({
+        mentionResolver: createInMemoryMentionResolver([{ accountId: 'acc-1', displayName: 'Alice Smith', nickname: 'alice' }])
+      });
+      expect(resolving.wikiMarkupToAdf('Thanks [~alice]').content[0].content?.[1]).toMatchObject({
+        type: 'mention',
+        attrs: { id: 'acc-1', text: '@Alice Smith' }
+      });
+    });
+
+    it('should parse code and noformat blocks', () => {
+      expect(parser.wikiMarkupToAdf('{code:Java}\nint a = 1;\n{code}\n\n{noformat}\nraw *text*\n{noformat}').content).toEqual([
+        { type: 'codeBlock', attrs: { language: 'java' }, content: [text('int a = 1;')] },
+        { type: 'codeBlock', attrs: {}, content: [text('raw *text*')] }
+      ]);
+    });
+
+    it('should parse panels, quotes and expands', () => {
+      expect(parser.wikiMarkupToAdf('{note}\nCareful\n{note}\n{panel:title=Notes|bgColor=#E3FCEF}\nCustom\n{panel}\n{quote}Quoted{quote}\n{expand:Details}\nHidden\n{expand}').content).toEqual([
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful'))] },
+        {
+          type: 'panel',
+          attrs: { panelType: 'custom', panelColor: '#E3FCEF' },
+          content: [paragraph(text('Notes', [{ type: 'strong' }])), paragraph(text('Custom'))]
+        },
+        { type: 'blockquote', content: [paragraph(text('Quoted'))] },
+        { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('Hidden'))] }
+      ]);
+    });
+
+    it('should parse nested and mixed lists', () => {
+      expect(parser.wikiMarkupToAdf('* One\n** Nested\n*# Numbered\n* Two').content).toEqual([{
+        type: 'bulletList',
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              paragraph(text('One')),
+              { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Nested'))] }] },
+              { type: 'orderedList', attrs: { order: 1 }, content: [{ type: 'listItem', content: [paragraph(text('Numbered'))] }] }
+            ]
+          },
+          { type: 'listItem', content: [paragraph(text('Two'))] }
+        ]
+      }]);
+    });
+
+    it('should parse tables with header rows and links in cells', () => {
+      const table = parser.wikiMarkupToAdf('||Service||Owner||\n|API|[Platform|https://example.com/team]|').content[0];
+      expect(table.type).toBe('table');
+      expect(table.content?.map(row => row.content?.map(cell => cell.type))).toEqual([['tableHeader', 'tableHeader'], ['tableCell', 'tableCell']]);
+      expect(table.content?.[1].content?.[1].content).toEqual([
+        paragraph(text('Platform', [{ type: 'link', attrs: { href: 'https://example.com/team' } }]))
+      ]);
+    });
+
+    it('should parse images', () => {
+      expect(parser.wikiMarkupToAdf('!https://example.com/a.png|alt=Diagram, width=300!').content).toEqual([{
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { type: 'external', url: 'https://example.com/a.png', alt: 'Diagram', width: 300 } }]
+      }]);
+    });
+
+    it('should keep unsupported constructs as text and report them', () => {
+      const adf = parser.wikiMarkupToAdf('Intro\n\n{anchor:top}Jump and see [^log.txt]');
+      expect(adf.content[1].content).toEqual([text('{anchor:top}Jump and see log.txt')]);
+      expect(parser.getWikiMarkupWarnings()).toEqual([
+        'Line 3: Unsupported macro {anchor} kept as text',
+        'Line 3: Attachment link [^log.txt] kept as text'
+      ]);
+    });
+
+    it('should report unclosed macros', () => {
+      const engine = new WikiMarkupToAdfEngine();
+      expect(engine.convert('{code}\nlet a;').content).toEqual([{ type: 'codeBlock', attrs: {}, content: [text('let a;')] }]);
+      expect(engine.getWarnings()).toEqual(['Line 1: Unclosed {code} macro runs to the end of the document']);
+    });
+  });
+
+  describe('ADF to wiki markup', () => {
+    it('should render blocks and text effects', () => {
+      expect(parser.adfToWikiMarkup(doc(
+        { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+        paragraph(
+          text('bold', [{ type: 'strong' }]), text(' and '),
+          text('docs', [{ type: 'link', attrs: { href: 'https://example.com' } }]), text(' and '),
+          text('x', [{ type: 'code' }])
+        ),
+        { type: 'codeBlock', attrs: { language: 'js' }, content: [text('const a = 1;')] },
+        { type: 'rule' }
+      ))).toBe('h1. Title\n\n*bold* and [docs|https://example.com] and {{x}}\n\n{code:js}\nconst a = 1;\n{code}\n\n----');
+      expect(parser.getWikiMarkupWarnings()).toEqual([]);
+    });
+
+    it('should render panels, lists and tables', () => {
+      expect(parser.adfToWikiMarkup(doc(
+        { type: 'panel', attrs: { panelType: 'success' }, content: [paragraph(text('Shipped'))] },
+        {
+          type: 'orderedList',
+          content: [{
+            type: 'listItem',
+            content: [paragraph(text('First')), { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Sub'))] }] }]
+          }]
+        },
+        {
+          type: 'table',
+          content: [
+            { type: 'tableRow', content: [{ type: 'tableHeader', content: [paragraph(text('A'))] }, { type: 'tableHeader', content: [paragraph(text('B'))] }] },
+            { type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('1'))] }, { type: 'tableCell', content: [paragraph(text('2'))] }] }
+          ]
+        }
+      ))).toBe('{tip}\nShipped\n{tip}\n\n# First\n#* Sub\n\n||A||B||\n|1|2|');
+    });
+
+    it('should render mentions, emoji and status', () => {
+      expect(parser.adfToWikiMarkup(doc(paragraph(
+        { type: 'mention', attrs: { id: '5b10a2844c20165700ede21g', text: '@Alice' } },
+        text(' '),
+        { type: 'emoji', attrs: { shortName: ':thumbsup:', text: '👍' } },
+        text(' '),
+        { type: 'status', attrs: { text: 'In progress', color: 'blue' } }
+      )))).toBe('[~accountid:5b10a2844c20165700ede21g] (y) {status:colour=Blue|title=In progress}');
+    });
+
+    it('should write mentions of ids that are not account ids as usernames', () => {
+      expect(parser.adfToWikiMarkup(doc(paragraph(
+        { type: 'mention', attrs: { id: '557058:f58131cb-b67d-43c7-b30d-6b58d40bd077', text: '@Bob' } },
+        text(' '),
+        { type: 'mention', attrs: { id: 'jsmith', text: '@jsmith' } }
+      )))).toBe('[~accountid:557058:f58131cb-b67d-43c7-b30d-6b58d40bd077] [~jsmith]');
+    });
+
+    it('should escape markup characters in text', () => {
+      expect(parser.adfToWikiMarkup(doc(paragraph(text('* not a list, {braces} and a well-known [link]')))))
+        .toBe('\\* not a list, \\{braces\\} and a well-known \\[link\\]');
+    });
+
+    it('should report constructs wiki markup cannot express', () => {
+      parser.adfToWikiMarkup(doc(
+        { type: 'panel', attrs: { panelType: 'note' }, content: [paragraph(text('Purple', [{ type: 'backgroundColor', attrs: { color: '#fedec8' } }]))] },
+        { type: 'extension', attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'toc' } }
+      ));
+      expect(parser.getWikiMarkupWarnings()).toEqual([
+        'Unsupported mark "backgroundColor"; its text was kept',
+        'Panel type "note" has no wiki macro; rendered as {info}',
+        'Extension "toc" is not supported and was dropped'
+      ]);
+    });
+  });
+
+  it('should round trip wiki markup through ADF', () => {
+    const wikiMarkup = 'h3. Steps\n\n# Install\n# Run *tests*\n\n{info}\nUse [~accountid:5b10a2844c20165700ede21g] or [~jsmith] for help (i)\n{info}\n\n{code:bash}\nyarn test\n{code}';
+    expect(parser.adfToWikiMarkup(parser.wikiMarkupToAdf(wikiMarkup))).toBe(wikiMarkup);
+  });
+});
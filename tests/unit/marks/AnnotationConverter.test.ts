@@ -0,0 +1,55 @@
+/**
+ * @file Tests for AnnotationConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { AnnotationConverter } from '../../../src/parser/adf-to-markdown/marks/AnnotationConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+
+const mockContext: ConversionContext = {
+  convertChildren: jest.fn(),
+  depth: 0,
+  options: {}
+};
+
+describe('AnnotationConverter', () => {
+  const converter = new AnnotationConverter();
+
+  describe('markType', () => {
+    it('should have correct markType', () => {
+      expect(converter.markType).toBe('annotation');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should wrap the annotated text in annotation comments', () => {
+      const mark = {
+        type: 'annotation',
+        attrs: { id: 'c8a0b6f0', annotationType: 'inlineComment' }
+      };
+
+      const result = converter.toMarkdown('reviewed text', mark, mockContext);
+      expect(result).toBe('<!-- adf:annotation id="c8a0b6f0" annotationType="inlineComment" -->reviewed text<!-- /adf:annotation -->');
+    });
+
+    it('should wrap already formatted text', () => {
+      const mark = {
+        type: 'annotation',
+        attrs: { id: 'abc', annotationType: 'inlineComment' }
+      };
+
+      const result = converter.toMarkdown('**bold**', mark, mockContext);
+      expect(result).toBe('<!-- adf:annotation id="abc" annotationType="inlineComment" -->**bold**<!-- /adf:annotation -->');
+    });
+
+    it('should return text unchanged when id is missing', () => {
+      const mark = {
+        type: 'annotation',
+        attrs: { annotationType: 'inlineComment' }
+      };
+
+      const result = converter.toMarkdown('text', mark, mockContext);
+      expect(result).toBe('text');
+    });
+  });
+});
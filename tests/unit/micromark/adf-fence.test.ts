@@ -106,6 +106,15 @@ describe('ADF Fence Micromark Extension', () => {
         expect(validateAdfContext('panel', { type: 'invalid' })).toBe(false);
       });
 
+      it('should validate custom panel with hex color', () => {
+        expect(validateAdfContext('panel', { type: 'custom', icon: ':rocket:', color: '#E3FCEF' })).toBe(true);
+      });
+
+      it('should reject panel with invalid color', () => {
+        expect(validateAdfContext('panel', { type: 'custom', color: 'green' })).toBe(false);
+        expect(validateAdfContext('panel', { type: 'custom', color: '#FFF' })).toBe(false);
+      });
+
       it('should validate panel with additional valid attributes', () => {
         expect(validateAdfContext('panel', { 
           type: 'info',
@@ -115,6 +124,23 @@ describe('ADF Fence Micromark Extension', () => {
       });
     });
 
+    describe('table grid validation', () => {
+      it('should validate table and row fences', () => {
+        expect(validateAdfContext('table', {})).toBe(true);
+        expect(validateAdfContext('row', {})).toBe(true);
+      });
+
+      it('should validate cells with positive spans', () => {
+        expect(validateAdfContext('cell', { colspan: 2, rowspan: 3 })).toBe(true);
+        expect(validateAdfContext('header', { colwidth: '120,200' })).toBe(true);
+      });
+
+      it('should reject cells with invalid spans', () => {
+        expect(validateAdfContext('cell', { colspan: 0 })).toBe(false);
+        expect(validateAdfContext('header', { rowspan: 'two' })).toBe(false);
+      });
+    });
+
     describe('expand validation', () => {
       it('should validate expand blocks', () => {
         expect(validateAdfContext('expand', {})).toBe(true);
@@ -159,6 +185,43 @@ describe('ADF Fence Micromark Extension', () => {
       });
     });
 
+    describe('decisions validation', () => {
+      it('should validate decisions blocks', () => {
+        expect(validateAdfContext('decisions', {})).toBe(true);
+        expect(validateAdfContext('decisions', { localId: 'decisions-1' })).toBe(true);
+      });
+    });
+
+    describe('layout validation', () => {
+      it('should validate layout blocks', () => {
+        expect(validateAdfContext('layout', {})).toBe(true);
+      });
+
+      it('should validate columns with a width percentage', () => {
+        expect(validateAdfContext('column', {})).toBe(true);
+        expect(validateAdfContext('column', { width: 50 })).toBe(true);
+        expect(validateAdfContext('column', { width: 33.33 })).toBe(true);
+      });
+
+      it('should reject columns with invalid widths', () => {
+        expect(validateAdfContext('column', { width: 0 })).toBe(false);
+        expect(validateAdfContext('column', { width: 150 })).toBe(false);
+        expect(validateAdfContext('column', { width: 'wide' })).toBe(false);
+      });
+    });
+
+    describe('extension validation', () => {
+      it('should validate extensions with a key', () => {
+        expect(validateAdfContext('extension', { type: 'com.atlassian.confluence.macro.core', key: 'toc' })).toBe(true);
+        expect(validateAdfContext('bodiedExtension', { key: 'excerpt' })).toBe(true);
+      });
+
+      it('should reject extensions without a key', () => {
+        expect(validateAdfContext('extension', { type: 'com.atlassian.confluence.macro.core' })).toBe(false);
+        expect(validateAdfContext('bodiedExtension', { key: '' })).toBe(false);
+      });
+    });
+
     describe('unknown node types', () => {
       it('should reject unknown node types', () => {
         expect(validateAdfContext('unknown', {})).toBe(false);
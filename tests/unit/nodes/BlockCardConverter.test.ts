@@ -0,0 +1,74 @@
+/**
+ * @file Tests for BlockCardConverter and EmbedCardConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { BlockCardConverter, EmbedCardConverter } from '../../../src/parser/adf-to-markdown/nodes/BlockCardConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { BlockCardNode, EmbedCardNode } from '../../../src/types';
+
+describe('Block-level card converters', () => {
+  const mockContext: ConversionContext = {
+    convertChildren: jest.fn(),
+    depth: 0,
+    options: {}
+  };
+
+  describe('BlockCardConverter', () => {
+    const converter = new BlockCardConverter();
+
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('blockCard');
+    });
+
+    it('should render a card link with a blockCard directive', () => {
+      const node: BlockCardNode = {
+        type: 'blockCard',
+        attrs: { url: 'https://example.com/page' }
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('[https://example.com/page](card:https://example.com/page)<!-- adf:blockCard -->');
+    });
+
+    it('should use the data name as link text and keep data as JSON', () => {
+      const node: BlockCardNode = {
+        type: 'blockCard',
+        attrs: { data: { '@type': 'Document', name: 'Design doc' } }
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('[Design doc](card:)<!-- adf:blockCard attrs=\'{"data":{"@type":"Document","name":"Design doc"}}\' -->');
+    });
+  });
+
+  describe('EmbedCardConverter', () => {
+    const converter = new EmbedCardConverter();
+
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('embedCard');
+    });
+
+    it('should render layout and width as readable attributes', () => {
+      const node: EmbedCardNode = {
+        type: 'embedCard',
+        attrs: { url: 'https://www.youtube.com/watch?v=abc', layout: 'wide', width: 80 }
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe(
+        '[https://www.youtube.com/watch?v=abc](card:https://www.youtube.com/watch?v=abc)<!-- adf:embedCard layout="wide" width="80" -->'
+      );
+    });
+
+    it('should fall back to JSON attrs for other attributes', () => {
+      const node: EmbedCardNode = {
+        type: 'embedCard',
+        attrs: { url: 'https://example.com', layout: 'center', originalWidth: 640, originalHeight: 480 }
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe(
+        '[https://example.com](card:https://example.com)<!-- adf:embedCard attrs=\'{"layout":"center","originalWidth":640,"originalHeight":480}\' -->'
+      );
+    });
+  });
+});
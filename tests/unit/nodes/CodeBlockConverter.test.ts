@@ -140,5 +140,32 @@ describe('CodeBlockConverter', () => {
       const result = converter.toMarkdown(node, mockContext);
       expect(result).toBe('```markdown\n```javascript\nconsole.log("nested");\n```\n```');
     });
+
+    it('should write a breakout mark after the language', () => {
+      const node: CodeBlockNode = {
+        type: 'codeBlock',
+        attrs: { language: 'javascript' },
+        marks: [{ type: 'breakout', attrs: { mode: 'full-width', width: 1800 } }],
+        content: [
+          { type: 'text', text: 'const wide = true;' }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('```javascript breakout=full-width breakoutWidth=1800\nconst wide = true;\n```');
+    });
+
+    it('should write a breakout mark without a language', () => {
+      const node: CodeBlockNode = {
+        type: 'codeBlock',
+        marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+        content: [
+          { type: 'text', text: 'plain' }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('```breakout=wide\nplain\n```');
+    });
   });
 });
\ No newline at end of file
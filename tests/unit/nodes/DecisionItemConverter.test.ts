@@ -0,0 +1,72 @@
+/**
+ * @file Tests for DecisionItemConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { DecisionItemConverter } from '../../../src/parser/adf-to-markdown/nodes/DecisionItemConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { DecisionItemNode } from '../../../src/types';
+
+describe('DecisionItemConverter', () => {
+  const converter = new DecisionItemConverter();
+
+  const mockContext: ConversionContext = {
+    convertChildren: jest.fn().mockImplementation((nodes: any) => nodes.map((node: any) => node.text).join('')),
+    depth: 0,
+    options: {}
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('decisionItem');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should render DECIDED items with the [D] marker', () => {
+      const node: DecisionItemNode = {
+        type: 'decisionItem',
+        attrs: { state: 'DECIDED' },
+        content: [{ type: 'text', text: 'Use PostgreSQL' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [D] Use PostgreSQL');
+    });
+
+    it('should render UNDECIDED items with an empty marker', () => {
+      const node: DecisionItemNode = {
+        type: 'decisionItem',
+        attrs: { state: 'UNDECIDED' },
+        content: [{ type: 'text', text: 'Pick hosting' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [ ] Pick hosting');
+    });
+
+    it('should preserve localId in a trailing metadata comment', () => {
+      const node: DecisionItemNode = {
+        type: 'decisionItem',
+        attrs: { localId: 'decision-1', state: 'DECIDED' },
+        content: [{ type: 'text', text: 'Ship it' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('- [D] Ship it <!-- adf:decisionItem localId="decision-1" -->');
+    });
+
+    it('should preserve unknown states in the metadata comment', () => {
+      const node = {
+        type: 'decisionItem',
+        attrs: { localId: 'decision-2', state: 'PROPOSED' },
+        content: [{ type: 'text', text: 'Maybe' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('- [D] Maybe <!-- adf:decisionItem localId="decision-2" state="PROPOSED" -->');
+    });
+  });
+});
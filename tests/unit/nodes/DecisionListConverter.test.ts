@@ -0,0 +1,75 @@
+/**
+ * @file Tests for DecisionListConverter
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConverterRegistry } from '../../../src/parser/ConverterRegistry';
+import { DecisionListConverter } from '../../../src/parser/adf-to-markdown/nodes/DecisionListConverter';
+import { DecisionItemConverter } from '../../../src/parser/adf-to-markdown/nodes/DecisionItemConverter';
+import { TextConverter } from '../../../src/parser/adf-to-markdown/nodes/TextConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { ADFNode, DecisionListNode } from '../../../src/types';
+
+describe('DecisionListConverter', () => {
+  const converter = new DecisionListConverter();
+  let registry: ConverterRegistry;
+  let context: ConversionContext;
+
+  beforeEach(() => {
+    registry = new ConverterRegistry();
+    registry.registerNodes([
+      new DecisionListConverter(),
+      new DecisionItemConverter(),
+      new TextConverter()
+    ]);
+
+    context = {
+      convertChildren: (nodes: ADFNode[]) => {
+        return nodes.map(node => registry.getNodeConverter(node.type).toMarkdown(node, context)).join('');
+      },
+      depth: 0,
+      options: { registry }
+    };
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('decisionList');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should wrap decision items in a decisions fence', () => {
+      const node: DecisionListNode = {
+        type: 'decisionList',
+        content: [
+          { type: 'decisionItem', attrs: { state: 'DECIDED' }, content: [{ type: 'text', text: 'First' }] },
+          { type: 'decisionItem', attrs: { state: 'UNDECIDED' }, content: [{ type: 'text', text: 'Second' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('~~~decisions\n- [D] First\n- [ ] Second\n~~~');
+    });
+
+    it('should include the list localId as a fence attribute', () => {
+      const node: DecisionListNode = {
+        type: 'decisionList',
+        attrs: { localId: 'decisions-1' },
+        content: [
+          { type: 'decisionItem', attrs: { state: 'DECIDED' }, content: [{ type: 'text', text: 'Decision' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('~~~decisions localId="decisions-1"\n- [D] Decision\n~~~');
+    });
+
+    it('should handle empty decision lists', () => {
+      const node: DecisionListNode = {
+        type: 'decisionList',
+        content: []
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('');
+    });
+  });
+});
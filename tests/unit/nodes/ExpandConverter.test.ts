@@ -176,6 +176,25 @@ describe('ExpandConverter', () => {
       const result = converter.toMarkdown(node, mockContext);
       expect(result).toBe('~~~expand title="Title with "quotes" and more"\nContent\n~~~');
     });
+
+    it('should write a breakout mark as a fence attribute', () => {
+      const node: ExpandNode = {
+        type: 'expand',
+        attrs: { title: 'Wide' },
+        marks: [{ type: 'breakout', attrs: { mode: 'wide' } }],
+        content: [
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: 'Content' }]
+          }
+        ]
+      };
+
+      (mockNodeConverter.toMarkdown as jest.Mock).mockReturnValue('Content');
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('~~~expand title="Wide" breakout=wide\nContent\n~~~');
+    });
   });
 });
 
@@ -0,0 +1,169 @@
+/**
+ * @file Tests for ExtensionConverter, BodiedExtensionConverter and InlineExtensionConverter
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConverterRegistry } from '../../../src/parser/ConverterRegistry';
+import {
+  ExtensionConverter,
+  BodiedExtensionConverter,
+  InlineExtensionConverter
+} from '../../../src/parser/adf-to-markdown/nodes/ExtensionConverter';
+import { ParagraphConverter } from '../../../src/parser/adf-to-markdown/nodes/ParagraphConverter';
+import { PanelConverter } from '../../../src/parser/adf-to-markdown/nodes/PanelConverter';
+import { TextConverter } from '../../../src/parser/adf-to-markdown/nodes/TextConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { ADFNode, ExtensionNode } from '../../../src/types';
+
+describe('Extension converters', () => {
+  let registry: ConverterRegistry;
+  let context: ConversionContext;
+
+  beforeEach(() => {
+    registry = new ConverterRegistry();
+    registry.registerNodes([
+      new ExtensionConverter(),
+      new BodiedExtensionConverter(),
+      new InlineExtensionConverter(),
+      new ParagraphConverter(),
+      new PanelConverter(),
+      new TextConverter()
+    ]);
+
+    context = {
+      convertChildren: (nodes: ADFNode[]) => {
+        return nodes.map(node => registry.getNodeConverter(node.type).toMarkdown(node, context)).join('');
+      },
+      depth: 0,
+      options: { registry }
+    };
+  });
+
+  describe('ExtensionConverter', () => {
+    const converter = new ExtensionConverter();
+
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('extension');
+    });
+
+    it('should render type, key and parameters on the fence line', () => {
+      const node: ExtensionNode = {
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'toc',
+          parameters: { macroParams: { maxLevel: { value: '3' } } }
+        }
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~extension type="com.atlassian.confluence.macro.core" key="toc" params=\'{"macroParams":{"maxLevel":{"value":"3"}}}\'\n~~~'
+      );
+    });
+
+    it('should preserve remaining attributes as JSON', () => {
+      const node: ExtensionNode = {
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'children',
+          layout: 'wide',
+          localId: 'ext-1'
+        }
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~extension type="com.atlassian.confluence.macro.core" key="children" attrs=\'{"layout":"wide","localId":"ext-1"}\'\n~~~'
+      );
+    });
+
+    it('should escape single quotes inside parameters', () => {
+      const node: ExtensionNode = {
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.example',
+          extensionKey: 'note',
+          parameters: { title: "it's" }
+        }
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~extension type="com.example" key="note" params=\'{"title":"it\\u0027s"}\'\n~~~'
+      );
+    });
+  });
+
+  describe('BodiedExtensionConverter', () => {
+    const converter = new BodiedExtensionConverter();
+
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('bodiedExtension');
+    });
+
+    it('should render the body as block content', () => {
+      const node: ExtensionNode = {
+        type: 'bodiedExtension',
+        attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'excerpt' },
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'First' }] },
+          { type: 'paragraph', content: [{ type: 'text', text: 'Second' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~bodiedExtension type="com.atlassian.confluence.macro.core" key="excerpt"\nFirst\n\nSecond\n~~~'
+      );
+    });
+
+    it('should lengthen its fence around nested fences', () => {
+      const node: ExtensionNode = {
+        type: 'bodiedExtension',
+        attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'section' },
+        content: [
+          {
+            type: 'panel',
+            attrs: { panelType: 'info' },
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Inside' }] }]
+          }
+        ]
+      };
+
+      const markdown = converter.toMarkdown(node, context);
+
+      expect(markdown.startsWith('~~~~bodiedExtension ')).toBe(true);
+      expect(markdown.endsWith('\n~~~~')).toBe(true);
+    });
+  });
+
+  describe('InlineExtensionConverter', () => {
+    const converter = new InlineExtensionConverter();
+
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('inlineExtension');
+    });
+
+    it('should render the inline form', () => {
+      const node: ExtensionNode = {
+        type: 'inlineExtension',
+        attrs: {
+          extensionType: 'com.atlassian.jira',
+          extensionKey: 'jira',
+          parameters: { key: 'PROJ-1' }
+        }
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '{extension:jira type="com.atlassian.jira" params=\'{"key":"PROJ-1"}\'}'
+      );
+    });
+
+    it('should render a bare key when no other attributes are set', () => {
+      const node: ExtensionNode = {
+        type: 'inlineExtension',
+        attrs: { extensionKey: 'anchor' }
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('{extension:anchor}');
+    });
+  });
+});
@@ -145,6 +145,20 @@ describe('HeadingConverter', () => {
       expect(result).toBe('### Custom Heading <!-- adf:heading attrs=\'{"id":"custom-id","className":"special-heading"}\' -->');
     });
 
+    it('should write alignment marks as a heading comment', () => {
+      const node: HeadingNode = {
+        type: 'heading',
+        attrs: { level: 2 },
+        marks: [{ type: 'alignment', attrs: { align: 'center' } }],
+        content: [
+          { type: 'text', text: 'Centered Heading' }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('## Heading Text<!-- adf:heading align="center" -->');
+    });
+
     it('should not include metadata when only level attribute exists', () => {
       const node: HeadingNode = {
         type: 'heading',
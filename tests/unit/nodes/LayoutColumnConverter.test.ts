@@ -0,0 +1,85 @@
+/**
+ * @file Tests for LayoutColumnConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { LayoutColumnConverter } from '../../../src/parser/adf-to-markdown/nodes/LayoutColumnConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { LayoutColumnNode } from '../../../src/types';
+
+describe('LayoutColumnConverter', () => {
+  const converter = new LayoutColumnConverter();
+
+  const mockNodeConverter = {
+    nodeType: 'paragraph',
+    toMarkdown: jest.fn().mockImplementation((node: any) => node.content?.[0]?.text || '')
+  };
+
+  const mockContext: ConversionContext = {
+    convertChildren: jest.fn(),
+    depth: 0,
+    options: {
+      registry: {
+        getNodeConverter: jest.fn().mockReturnValue(mockNodeConverter)
+      } as any
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('layoutColumn');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should convert a column with width', () => {
+      const node: LayoutColumnNode = {
+        type: 'layoutColumn',
+        attrs: { width: 50 },
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Left' }] }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('~~~column width=50\nLeft\n~~~');
+    });
+
+    it('should separate block content with blank lines', () => {
+      const node: LayoutColumnNode = {
+        type: 'layoutColumn',
+        attrs: { width: 33.33 },
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'First' }] },
+          { type: 'paragraph', content: [{ type: 'text', text: 'Second' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('~~~column width=33.33\nFirst\n\nSecond\n~~~');
+    });
+
+    it('should lengthen the fence when content contains fences', () => {
+      mockNodeConverter.toMarkdown.mockReturnValueOnce('~~~panel type=info\nNote\n~~~');
+      const node: LayoutColumnNode = {
+        type: 'layoutColumn',
+        attrs: { width: 100 },
+        content: [{ type: 'panel', attrs: { panelType: 'info' }, content: [] }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('~~~~column width=100\n~~~panel type=info\nNote\n~~~\n~~~~');
+    });
+
+    it('should preserve custom attributes', () => {
+      const node = {
+        type: 'layoutColumn',
+        attrs: { width: 50, localId: 'col-1' },
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Text' }] }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('~~~column width=50 attrs=\'{"localId":"col-1"}\'\nText\n~~~');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file Tests for LayoutSectionConverter
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConverterRegistry } from '../../../src/parser/ConverterRegistry';
+import { LayoutSectionConverter } from '../../../src/parser/adf-to-markdown/nodes/LayoutSectionConverter';
+import { LayoutColumnConverter } from '../../../src/parser/adf-to-markdown/nodes/LayoutColumnConverter';
+import { ParagraphConverter } from '../../../src/parser/adf-to-markdown/nodes/ParagraphConverter';
+import { TextConverter } from '../../../src/parser/adf-to-markdown/nodes/TextConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { ADFNode, LayoutSectionNode } from '../../../src/types';
+
+describe('LayoutSectionConverter', () => {
+  const converter = new LayoutSectionConverter();
+  let registry: ConverterRegistry;
+  let context: ConversionContext;
+
+  beforeEach(() => {
+    registry = new ConverterRegistry();
+    registry.registerNodes([
+      new LayoutSectionConverter(),
+      new LayoutColumnConverter(),
+      new ParagraphConverter(),
+      new TextConverter()
+    ]);
+
+    context = {
+      convertChildren: (nodes: ADFNode[]) => {
+        return nodes.map(node => registry.getNodeConverter(node.type).toMarkdown(node, context)).join('');
+      },
+      depth: 0,
+      options: { registry }
+    };
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('layoutSection');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should convert a two-column layout with a longer outer fence', () => {
+      const node: LayoutSectionNode = {
+        type: 'layoutSection',
+        content: [
+          { type: 'layoutColumn', attrs: { width: 50 }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Left' }] }] },
+          { type: 'layoutColumn', attrs: { width: 50 }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Right' }] }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~~layout\n~~~column width=50\nLeft\n~~~\n\n~~~column width=50\nRight\n~~~\n~~~~'
+      );
+    });
+
+    it('should write a breakout mark on the layout fence', () => {
+      const node: LayoutSectionNode = {
+        type: 'layoutSection',
+        marks: [{ type: 'breakout', attrs: { mode: 'full-width' } }],
+        content: [
+          { type: 'layoutColumn', attrs: { width: 100 }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Full' }] }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '~~~~layout breakout=full-width\n~~~column width=100\nFull\n~~~\n~~~~'
+      );
+    });
+
+    it('should handle empty layout sections', () => {
+      const node: LayoutSectionNode = {
+        type: 'layoutSection',
+        content: []
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('');
+    });
+  });
+});
@@ -184,5 +184,19 @@ describe('MediaConverter', () => {
       const result = converter.toMarkdown(node, mockContext);
       expect(result).toBe('<!-- adf:media id="protected-image" type="file" isProtected="true" isPublic="false" -->\n![Media](adf:media:protected-image)');
     });
+
+    it('should carry a border mark in a separate metadata comment', () => {
+      const node: MediaNode = {
+        type: 'media',
+        attrs: {
+          id: 'bordered',
+          type: 'file'
+        },
+        marks: [{ type: 'border', attrs: { size: 2, color: '#091e4224' } }]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('<!-- adf:media id="bordered" type="file" -->\n<!-- adf:border size="2" color="#091e4224" -->\n![Media](adf:media:bordered)');
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * @file Tests for MediaInlineConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { MediaInlineConverter } from '../../../src/parser/adf-to-markdown/nodes/MediaInlineConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { MediaInlineNode } from '../../../src/types';
+
+describe('MediaInlineConverter', () => {
+  const converter = new MediaInlineConverter();
+
+  const mockContext: ConversionContext = {
+    convertChildren: jest.fn(),
+    depth: 0,
+    options: {}
+  };
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('mediaInline');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should render an adf:media image with a mediaInline directive', () => {
+      const node: MediaInlineNode = {
+        type: 'mediaInline',
+        attrs: { id: 'abc-123', type: 'file', collection: 'contentId-1' }
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('![](adf:media:abc-123)<!-- adf:mediaInline type="file" collection="contentId-1" -->');
+    });
+
+    it('should use alt as the image text', () => {
+      const node: MediaInlineNode = {
+        type: 'mediaInline',
+        attrs: { id: 'img-1', type: 'image', collection: 'c', alt: 'screenshot.png', width: 200 }
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('![screenshot.png](adf:media:img-1)<!-- adf:mediaInline type="image" collection="c" width="200" -->');
+    });
+
+    it('should keep the directive when only an id is present', () => {
+      const node: MediaInlineNode = {
+        type: 'mediaInline',
+        attrs: { id: 'abc-123' }
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('![](adf:media:abc-123)<!-- adf:mediaInline -->');
+    });
+  });
+});
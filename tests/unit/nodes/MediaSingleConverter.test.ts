@@ -253,5 +253,24 @@ describe('MediaSingleConverter', () => {
       const result = converter.toMarkdown(node, mockContext);
       expect(result).toBe('<!-- adf:mediaSingle layout="full-width" width="100" responsive="true" priority="0" -->\n<!-- adf:media id="full-width-media" type="file" -->\n![Media](adf:media:full-width-media)');
     });
+
+    it('should render a fence block with the caption after the media', () => {
+      const node: MediaSingleNode = {
+        type: 'mediaSingle',
+        attrs: { layout: 'center', width: 80 },
+        content: [
+          { type: 'media', attrs: { id: 'captioned', type: 'file' } },
+          { type: 'caption', content: [{ type: 'text', text: 'Figure 1' }] }
+        ]
+      };
+
+      (mockContext.convertChildren as jest.Mock)
+        .mockReturnValueOnce('![Media](adf:media:captioned)')
+        .mockReturnValueOnce('Figure **1**');
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(mockContext.convertChildren).toHaveBeenNthCalledWith(1, [node.content![0]]);
+      expect(result).toBe('~~~mediaSingle layout=center width=80\n![Media](adf:media:captioned)\n\nFigure **1**\n~~~');
+    });
   });
 });
\ No newline at end of file
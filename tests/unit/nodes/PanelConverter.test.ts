@@ -157,5 +157,50 @@ describe('PanelConverter', () => {
       const result = converter.toMarkdown(node, mockContext);
       expect(result).toBe('~~~panel type=warning\npanel content\n~~~');
     });
+
+    it('should write custom panel icon and color as fence attributes', () => {
+      const node: PanelNode = {
+        type: 'panel',
+        attrs: {
+          panelType: 'custom',
+          panelIcon: ':rocket:',
+          panelIconId: '1f680',
+          panelIconText: '🚀',
+          panelColor: '#E3FCEF'
+        },
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'Launch checklist' }] }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('~~~panel type=custom icon=:rocket: iconId=1f680 iconText=🚀 color=#E3FCEF\npanel content\n~~~');
+    });
+
+    it('should quote custom panel attribute values containing spaces', () => {
+      const node: PanelNode = {
+        type: 'panel',
+        attrs: { panelType: 'custom', panelIconText: 'Heads up' },
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'Note' }] }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('~~~panel type=custom iconText="Heads up"\npanel content\n~~~');
+    });
+
+    it('should keep other attributes in JSON alongside custom panel attributes', () => {
+      const node: PanelNode = {
+        type: 'panel',
+        attrs: { panelType: 'custom', panelColor: '#FFEBE6', localId: 'p-1' } as any,
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'Note' }] }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('~~~panel type=custom color=#FFEBE6 attrs=\'{"localId":"p-1"}\'\npanel content\n~~~');
+    });
   });
 });
\ No newline at end of file
@@ -77,6 +77,44 @@ describe('ParagraphConverter', () => {
       expect(result).toBe('paragraph text <!-- adf:paragraph attrs=\'{"customAttr":"value","alignment":"center"}\' -->');
     });
 
+    it('should write alignment and indentation marks as a paragraph comment', () => {
+      const node: ParagraphNode = {
+        type: 'paragraph',
+        marks: [
+          { type: 'alignment', attrs: { align: 'center' } },
+          { type: 'indentation', attrs: { level: 2 } }
+        ],
+        content: [
+          { type: 'text', text: 'paragraph text' }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, {
+        convertChildren: jest.fn().mockReturnValue('paragraph text'),
+        depth: 0,
+        options: {}
+      });
+      expect(result).toBe('paragraph text<!-- adf:paragraph align="center" indent="2" -->');
+    });
+
+    it('should merge block marks into the attrs comment when attributes exist', () => {
+      const node: ParagraphNode = {
+        type: 'paragraph',
+        attrs: { customAttr: 'value' },
+        marks: [{ type: 'alignment', attrs: { align: 'end' } }],
+        content: [
+          { type: 'text', text: 'paragraph text' }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, {
+        convertChildren: jest.fn().mockReturnValue('paragraph text'),
+        depth: 0,
+        options: {}
+      });
+      expect(result).toBe('paragraph text <!-- adf:paragraph attrs=\'{"customAttr":"value","align":"end"}\' -->');
+    });
+
     it('should not include metadata for empty attributes', () => {
       const mockContextForAttrs: ConversionContext = {
         convertChildren: jest.fn().mockReturnValue('paragraph text'),
@@ -207,7 +207,7 @@ describe('TableConverter', () => {
       mockTableRowConverter.toMarkdown.mockReturnValueOnce('| Data |');
 
       const result = converter.toMarkdown(node, mockContext);
-      expect(result).toBe('| Data |\n<!-- adf:table attrs=\'{"isNumberColumnEnabled":true,"layout":"full-width"}\' -->');
+      expect(result).toBe('<!-- adf:table numbered="true" layout="full-width" -->\n| Data |');
     });
 
     it('should not include metadata when no attributes', () => {
@@ -311,4 +311,223 @@ describe('TableConverter', () => {
       expect(result).toBe('| Name | Age |\n| -------- | -------- |\n| John | 25 |');
     });
   });
+
+  describe('alignment and header columns', () => {
+    const alignedParagraph = (text: string, align?: string) => ({
+      type: 'paragraph',
+      content: [{ type: 'text', text }],
+      ...(align && { marks: [{ type: 'alignment', attrs: { align } }] })
+    });
+
+    it('should write uniform column alignment in the separator row', () => {
+      const node: TableNode = {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', content: [alignedParagraph('Name')] },
+              { type: 'tableHeader', content: [alignedParagraph('Status', 'center')] },
+              { type: 'tableHeader', content: [alignedParagraph('Total', 'end')] }
+            ]
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableCell', content: [alignedParagraph('A')] },
+              { type: 'tableCell', content: [alignedParagraph('Done', 'center')] },
+              { type: 'tableCell', content: [alignedParagraph('42', 'end')] }
+            ]
+          }
+        ]
+      };
+
+      mockTableRowConverter.toMarkdown
+        .mockReturnValueOnce('| Name | Status | Total |')
+        .mockReturnValueOnce('| A | Done | 42 |');
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('| Name | Status | Total |\n| -------- | :------: | -------: |\n| A | Done | 42 |');
+
+      // Alignment marks are removed from the cells handed to the row converter
+      const convertedRow = mockTableRowConverter.toMarkdown.mock.calls[1][0] as any;
+      expect(convertedRow.content[1].content[0].marks).toBeUndefined();
+    });
+
+    it('should mark a first column of header cells with headerColumn', () => {
+      const node: TableNode = {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', content: [alignedParagraph('Metric')] },
+              { type: 'tableHeader', content: [alignedParagraph('Value')] }
+            ]
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', content: [alignedParagraph('Users')] },
+              { type: 'tableCell', content: [alignedParagraph('10')] }
+            ]
+          }
+        ]
+      };
+
+      mockTableRowConverter.toMarkdown
+        .mockReturnValueOnce('| Metric | Value |')
+        .mockReturnValueOnce('| Users | 10 |');
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('<!-- adf:table headerColumn="true" -->\n| Metric | Value |\n| -------- | -------- |\n| Users | 10 |');
+    });
+
+    it('should write readable table attributes before the table', () => {
+      const node: TableNode = {
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default', width: 760, displayMode: 'fixed', localId: 't-1' } as any,
+        content: [
+          { type: 'tableRow', content: [{ type: 'tableHeader', content: [alignedParagraph('A')] }] }
+        ]
+      };
+
+      mockTableRowConverter.toMarkdown.mockReturnValueOnce('| A |');
+
+      const result = converter.toMarkdown(node, mockContext);
+      expect(result).toBe('<!-- adf:table width="760" displayMode="fixed" localId="t-1" -->\n| A |\n| -------- |');
+    });
+  });
+
+  describe('fence grid', () => {
+    const mockBlockConverter = {
+      nodeType: 'paragraph',
+      toMarkdown: jest.fn().mockImplementation((node: any) =>
+        node.type === 'bulletList' ? '- item' : node.content?.[0]?.text || ''
+      )
+    };
+
+    const gridContext: ConversionContext = {
+      convertChildren: jest.fn(),
+      depth: 0,
+      options: {
+        registry: {
+          getNodeConverter: jest.fn().mockReturnValue(mockBlockConverter)
+        } as any
+      }
+    };
+
+    const paragraph = (text: string) => ({ type: 'paragraph', content: [{ type: 'text', text }] });
+
+    it('should use a fence grid for merged cells', () => {
+      const node: TableNode = {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', attrs: { colspan: 2, colwidth: [120, 200] }, content: [paragraph('Merged')] }
+            ]
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableCell', attrs: { rowspan: 2 }, content: [paragraph('Tall')] },
+              { type: 'tableCell', content: [paragraph('B')] }
+            ]
+          }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, gridContext);
+      expect(result).toBe([
+        '~~~~~table',
+        '~~~~row',
+        '~~~header colspan=2 colwidth=120,200',
+        'Merged',
+        '~~~',
+        '~~~~',
+        '',
+        '~~~~row',
+        '~~~cell rowspan=2',
+        'Tall',
+        '~~~',
+        '',
+        '~~~cell',
+        'B',
+        '~~~',
+        '~~~~',
+        '~~~~~'
+      ].join('\n'));
+    });
+
+    it('should use a fence grid for cells with block content', () => {
+      const node: TableNode = {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              {
+                type: 'tableCell',
+                content: [paragraph('Intro'), { type: 'bulletList', content: [] }]
+              }
+            ]
+          }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, gridContext);
+      expect(result).toBe('~~~~~table\n~~~~row\n~~~cell\nIntro\n\n- item\n~~~\n~~~~\n~~~~~');
+    });
+
+    it('should use a fence grid when cells in a column have different alignments', () => {
+      const node: TableNode = {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [{
+              type: 'tableHeader',
+              content: [{ ...paragraph('Head'), marks: [{ type: 'alignment', attrs: { align: 'center' } }] }]
+            }]
+          },
+          { type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph('Body')] }] }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, gridContext);
+      expect(result.startsWith('~~~~~table\n~~~~row\n~~~header\n')).toBe(true);
+    });
+
+    it('should keep table attributes and custom cell attributes on the grid fences', () => {
+      const node: TableNode = {
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'wide' },
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              {
+                type: 'tableCell',
+                attrs: { colspan: 2, background: '#DEEBFF', localId: 'c-1' } as any,
+                content: [paragraph('Wide')]
+              }
+            ]
+          }
+        ]
+      };
+
+      const result = converter.toMarkdown(node, gridContext);
+      expect(result).toBe(
+        '~~~~~table attrs=\'{"isNumberColumnEnabled":false,"layout":"wide"}\'\n' +
+        '~~~~row\n' +
+        '~~~cell colspan=2 background=#DEEBFF attrs=\'{"localId":"c-1"}\'\n' +
+        'Wide\n' +
+        '~~~\n' +
+        '~~~~\n' +
+        '~~~~~'
+      );
+    });
+  });
 });
\ No newline at end of file
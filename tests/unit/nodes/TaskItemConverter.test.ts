@@ -0,0 +1,96 @@
+/**
+ * @file Tests for TaskItemConverter
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { TaskItemConverter } from '../../../src/parser/adf-to-markdown/nodes/TaskItemConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { TaskItemNode } from '../../../src/types';
+
+describe('TaskItemConverter', () => {
+  const converter = new TaskItemConverter();
+
+  const mockContext: ConversionContext = {
+    convertChildren: jest.fn().mockImplementation((nodes: any) =>
+      nodes.map((node: any) => node.type === 'hardBreak' ? '  \n' : node.text).join('')
+    ),
+    depth: 0,
+    options: {}
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('taskItem');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should render TODO items as unchecked checkboxes', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        attrs: { state: 'TODO' },
+        content: [{ type: 'text', text: 'Write tests' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [ ] Write tests');
+    });
+
+    it('should render DONE items as checked checkboxes', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        attrs: { state: 'DONE' },
+        content: [{ type: 'text', text: 'Ship release' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [x] Ship release');
+    });
+
+    it('should default to unchecked when state is missing', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        content: [{ type: 'text', text: 'No state' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [ ] No state');
+    });
+
+    it('should preserve localId in a trailing metadata comment', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        attrs: { localId: 'task-1', state: 'TODO' },
+        content: [{ type: 'text', text: 'Tracked task' }]
+      };
+
+      expect(converter.toMarkdown(node, mockContext))
+        .toBe('- [ ] Tracked task <!-- adf:taskItem localId="task-1" -->');
+    });
+
+    it('should handle empty task items', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        attrs: { state: 'TODO' },
+        content: []
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [ ]');
+    });
+
+    it('should indent continuation lines after hard breaks', () => {
+      const node: TaskItemNode = {
+        type: 'taskItem',
+        attrs: { state: 'TODO' },
+        content: [
+          { type: 'text', text: 'First line' },
+          { type: 'hardBreak' },
+          { type: 'text', text: 'Second line' }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, mockContext)).toBe('- [ ] First line  \n  Second line');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @file Tests for TaskListConverter
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConverterRegistry } from '../../../src/parser/ConverterRegistry';
+import { TaskListConverter } from '../../../src/parser/adf-to-markdown/nodes/TaskListConverter';
+import { TaskItemConverter } from '../../../src/parser/adf-to-markdown/nodes/TaskItemConverter';
+import { TextConverter } from '../../../src/parser/adf-to-markdown/nodes/TextConverter';
+import type { ConversionContext } from '../../../src/parser/types';
+import type { ADFNode, TaskListNode } from '../../../src/types';
+
+describe('TaskListConverter', () => {
+  const converter = new TaskListConverter();
+  let registry: ConverterRegistry;
+  let context: ConversionContext;
+
+  beforeEach(() => {
+    registry = new ConverterRegistry();
+    registry.registerNodes([
+      new TaskListConverter(),
+      new TaskItemConverter(),
+      new TextConverter()
+    ]);
+
+    context = {
+      convertChildren: (nodes: ADFNode[]) => {
+        return nodes.map(node => registry.getNodeConverter(node.type).toMarkdown(node, context)).join('');
+      },
+      depth: 0,
+      options: { registry }
+    };
+  });
+
+  describe('nodeType', () => {
+    it('should have correct nodeType', () => {
+      expect(converter.nodeType).toBe('taskList');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should convert a flat task list', () => {
+      const node: TaskListNode = {
+        type: 'taskList',
+        content: [
+          { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'First' }] },
+          { type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'Second' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('- [ ] First\n- [x] Second');
+    });
+
+    it('should indent nested task lists under the preceding item', () => {
+      const node: TaskListNode = {
+        type: 'taskList',
+        content: [
+          { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'Parent' }] },
+          {
+            type: 'taskList',
+            content: [
+              { type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'Child' }] },
+              {
+                type: 'taskList',
+                content: [
+                  { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'Grandchild' }] }
+                ]
+              }
+            ]
+          },
+          { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'Sibling' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '- [ ] Parent\n  - [x] Child\n    - [ ] Grandchild\n- [ ] Sibling'
+      );
+    });
+
+    it('should emit a metadata comment for the list localId', () => {
+      const node: TaskListNode = {
+        type: 'taskList',
+        attrs: { localId: 'list-1' },
+        content: [
+          { type: 'taskItem', attrs: { localId: 'task-1', state: 'TODO' }, content: [{ type: 'text', text: 'Item' }] }
+        ]
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe(
+        '<!-- adf:taskList localId="list-1" -->\n- [ ] Item <!-- adf:taskItem localId="task-1" -->'
+      );
+    });
+
+    it('should handle empty task lists', () => {
+      const node: TaskListNode = {
+        type: 'taskList',
+        content: []
+      };
+
+      expect(converter.toMarkdown(node, context)).toBe('');
+    });
+  });
+});
@@ -136,7 +136,7 @@ describe('ASTBuilder Media Placeholders', () => {
           type: 'paragraph',
           children: [{
             type: 'image',
-            url: 'https://example.com/image.jpg',
+            url: './images/image.jpg',
             alt: 'Regular Image'
           }]
         }]
@@ -0,0 +1,57 @@
+/**
+ * @file asciidoc-utils.test.ts
+ * @description Unit tests for AsciiDoc escaping, delimited blocks and macros
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeAsciiDocText, escapeBlockStarts, delimitedBlock, macroText, linkMacro, passMacro } from '../../../src/utils/asciidoc-utils.js';
+
+describe('AsciiDoc Utils', () => {
+  it('should escape constrained formatting pairs and attribute references only', () => {
+    expect(escapeAsciiDocText('*a* _b_ `c` #d# x^2^ {attr}')).toBe('\\*a* \\_b_ \\`c` \\#d# x\\^2^ \\{attr}');
+    expect(escapeAsciiDocText('2 * 3 * 4, snake_case_name, {not an attr}')).toBe('2 * 3 * 4, snake_case_name, {not an attr}');
+  });
+
+  it('should pass words with inline macros, cross references and anchors through', () => {
+    expect(escapeAsciiDocText('see link:x.html[here] now')).toBe('see pass:c[link:x.html[here\\]] now');
+    expect(escapeAsciiDocText('a footnote:[note] and pass:[<b>]')).toBe('a pass:c[footnote:[note\\]] and pass:c[pass:[<b>\\]]');
+    expect(escapeAsciiDocText('go to <<install>> or [[top]]')).toBe('go to pass:c[<<install>>] or pass:c[[[top\\]\\]]');
+  });
+
+  it('should pass words with passthroughs through', () => {
+    expect(escapeAsciiDocText('a +pass+ b')).toBe('a pass:c[+pass+] b');
+    expect(escapeAsciiDocText('x++y++z and C++ or C++')).toBe('pass:c[x++y++z] and pass:c[C++ or C++]');
+    expect(escapeAsciiDocText('1 + 2 = 3')).toBe('1 + 2 = 3');
+  });
+
+  it('should pass words with unconstrained formatting pairs through', () => {
+    expect(escapeAsciiDocText('a__b__c, x**y**z and ##h##')).toBe('pass:c[a__b__c,] pass:c[x**y**z] and pass:c[##h##]');
+    expect(escapeAsciiDocText('*a* and a__b__c')).toBe('\\*a* and pass:c[a__b__c]');
+  });
+
+  it('should escape closing brackets in pass macros', () => {
+    expect(passMacro('a]b')).toBe('pass:c[a\\]b]');
+  });
+
+  it('should escape lines that start block syntax', () => {
+    expect(escapeBlockStarts('. item\n== Title\nplain\nNOTE: x')).toBe('{blank}. item\n{blank}== Title\nplain\n{blank}NOTE: x');
+  });
+
+  it('should lengthen delimiters past matching lines in the content', () => {
+    expect(delimitedBlock('=', 'x')).toBe('====\nx\n====');
+    expect(delimitedBlock('=', '====\ny\n====')).toBe('=====\n====\ny\n====\n=====');
+  });
+
+  it('should quote and escape macro text', () => {
+    expect(macroText('Plain')).toBe('Plain');
+    expect(macroText('a, b')).toBe('"a, b"');
+    expect(macroText('x]y')).toBe('x\\]y');
+  });
+
+  it('should write bare URLs for known schemes and link macros otherwise', () => {
+    expect(linkMacro('https://example.com', 'Site')).toBe('https://example.com[Site]');
+    expect(linkMacro('mailto:a@example.com')).toBe('mailto:a@example.com[]');
+    expect(linkMacro('docs/page one.html')).toBe('link:docs/page%20one.html[]');
+    expect(linkMacro('https://example.com/?q=[a]', 'Search')).toBe('https://example.com/?q=%5Ba%5D[Search]');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @file emoji-mapping.test.ts
+ * @description Unit tests for the emoji dataset lookups and custom emoji registry
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  EMOJI_MAP,
+  getEmojiData,
+  getEmojiDataByText,
+  findUnicodeEmoji,
+  createFallbackEmojiData,
+  createEmojiRegistry,
+  resolveEmoji
+} from '../../../src/utils/emoji-mapping.js';
+
+describe('Emoji Mapping', () => {
+  describe('getEmojiData', () => {
+    it('should resolve Unicode character names and common aliases', () => {
+      expect(getEmojiData('grinning_face')).toEqual({ shortName: ':grinning_face:', text: '😀' });
+      expect(getEmojiData('grinning')).toEqual({ shortName: ':grinning:', text: '😀' });
+      expect(getEmojiData(':+1:')).toEqual({ shortName: ':+1:', text: '👍' });
+      expect(getEmojiData('thumbs_up_sign')?.text).toBe('👍');
+    });
+
+    it('should keep every shortname from the original mapping', () => {
+      ['smile', 'thumbsup', 'thumbsdown', 'heart', 'fire', 'rocket', 'tada', 'warning', 'x',
+        'white_check_mark', 'clapping_hands', 'handshake', 'calendar', 'sunny', 'coffee', 'football'
+      ].forEach(name => expect(EMOJI_MAP[name]).toBeDefined());
+      expect(getEmojiData('calendar')?.text).toBe('📅');
+    });
+
+    it('should include the presentation selector for text-default emoji', () => {
+      expect(getEmojiData('heart')?.text).toBe('❤️');
+      expect(getEmojiData('warning')?.text).toBe('⚠️');
+      expect(getEmojiData('hash')?.text).toBe('#️⃣');
+    });
+
+    it('should resolve skin tone variants, flags and ZWJ sequences', () => {
+      expect(getEmojiData('thumbsup_tone3')?.text).toBe('👍🏽');
+      expect(getEmojiData('wave_tone5')?.text).toBe('👋🏿');
+      expect(getEmojiData('flag_de')?.text).toBe('🇩🇪');
+      expect(getEmojiData('woman_technologist')?.text).toBe('👩‍💻');
+      expect(getEmojiData('scotland')?.text).toBe('🏴󠁧󠁢󠁳󠁣󠁴󠁿');
+    });
+
+    it('should return null for unknown shortnames', () => {
+      expect(getEmojiData('definitely_not_an_emoji')).toBeNull();
+      expect(getEmojiData('flag_zz')).toBeNull();
+    });
+  });
+
+  describe('getEmojiDataByText', () => {
+    it('should resolve raw emoji to their preferred shortname', () => {
+      expect(getEmojiDataByText('👍')?.shortName).toBe(':thumbsup:');
+      expect(getEmojiDataByText('❤️')?.shortName).toBe(':heart:');
+      expect(getEmojiDataByText('🇯🇵')?.shortName).toBe(':flag_jp:');
+    });
+
+    it('should not treat text-presentation characters as emoji', () => {
+      expect(getEmojiDataByText('❤')).toBeNull();
+      expect(getEmojiDataByText('©')).toBeNull();
+    });
+  });
+
+  describe('findUnicodeEmoji', () => {
+    it('should find the first known emoji with its position', () => {
+      expect(findUnicodeEmoji('Ship it 🚀 now')).toEqual({
+        index: 8,
+        match: '🚀',
+        emoji: { shortName: ':rocket:', text: '🚀' }
+      });
+    });
+
+    it('should match modifier and ZWJ sequences as a whole', () => {
+      expect(findUnicodeEmoji('👍🏽')?.emoji.shortName).toBe(':thumbsup_tone3:');
+      expect(findUnicodeEmoji('by 👩‍💻')?.emoji.shortName).toBe(':woman_technologist:');
+    });
+
+    it('should return null when the text has no emoji', () => {
+      expect(findUnicodeEmoji('Plain text © 2024 #1')).toBeNull();
+    });
+  });
+
+  describe('createEmojiRegistry', () => {
+    const registry = createEmojiRegistry([
+      { shortName: 'partyparrot', id: 'atlassian-partyparrot' },
+      { shortName: ':rocket:', id: 'site-rocket', text: '🚀' }
+    ]);
+
+    it('should look up custom emoji with or without colons', () => {
+      expect(registry.getEmoji(':partyparrot:')).toEqual({
+        shortName: ':partyparrot:',
+        id: 'atlassian-partyparrot',
+        text: ':partyparrot:'
+      });
+      expect(registry.getEmoji('partyparrot')?.id).toBe('atlassian-partyparrot');
+      expect(registry.getEmoji('unknown')).toBeNull();
+    });
+
+    it('should take precedence over the Unicode dataset in resolveEmoji', () => {
+      expect(resolveEmoji('rocket', registry)).toEqual({ shortName: ':rocket:', id: 'site-rocket', text: '🚀' });
+      expect(resolveEmoji('fire', registry)).toEqual({ shortName: ':fire:', text: '🔥' });
+      expect(resolveEmoji('mystery', registry)).toEqual(createFallbackEmojiData('mystery'));
+    });
+  });
+});
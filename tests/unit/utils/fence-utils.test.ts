@@ -0,0 +1,83 @@
+/**
+ * @file fence-utils.test.ts
+ * @description Unit tests for nestable fence block helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  canFormatFenceAttributeValue,
+  formatBreakoutAttributes,
+  formatFenceAttributeValue,
+  getFenceMarker,
+  toSingleQuotedJson,
+  wrapInFence
+} from '../../../src/utils/fence-utils.js';
+
+describe('Fence Utils', () => {
+  describe('getFenceMarker', () => {
+    it('should use three tildes for plain content', () => {
+      expect(getFenceMarker('Just text')).toBe('~~~');
+      expect(getFenceMarker('')).toBe('~~~');
+    });
+
+    it('should lengthen the marker past nested fences', () => {
+      expect(getFenceMarker('~~~panel type=info\nText\n~~~')).toBe('~~~~');
+      expect(getFenceMarker('~~~~column\n~~~panel\nText\n~~~\n~~~~')).toBe('~~~~~');
+    });
+
+    it('should ignore tildes that do not start a line', () => {
+      expect(getFenceMarker('Approx ~~~ value')).toBe('~~~');
+    });
+  });
+
+  describe('wrapInFence', () => {
+    it('should wrap content with a header and closing marker', () => {
+      expect(wrapInFence('column', 'width=50', 'Text')).toBe('~~~column width=50\nText\n~~~');
+    });
+
+    it('should omit the attribute separator when there are no attributes', () => {
+      expect(wrapInFence('layout', '', 'Text')).toBe('~~~layout\nText\n~~~');
+    });
+
+    it('should use a longer marker around nested fences', () => {
+      expect(wrapInFence('layout', '', '~~~column width=100\nText\n~~~'))
+        .toBe('~~~~layout\n~~~column width=100\nText\n~~~\n~~~~');
+    });
+  });
+
+  describe('formatBreakoutAttributes', () => {
+    it('should return an empty string without a breakout mark', () => {
+      expect(formatBreakoutAttributes(undefined)).toBe('');
+      expect(formatBreakoutAttributes([{ type: 'strong' }])).toBe('');
+    });
+
+    it('should format the breakout mode', () => {
+      expect(formatBreakoutAttributes([{ type: 'breakout', attrs: { mode: 'wide' } }])).toBe('breakout=wide');
+    });
+
+    it('should include the breakout width when set', () => {
+      expect(formatBreakoutAttributes([{ type: 'breakout', attrs: { mode: 'full-width', width: 1800 } }]))
+        .toBe('breakout=full-width breakoutWidth=1800');
+    });
+  });
+
+  describe('attribute values', () => {
+    it('should quote values with whitespace or one kind of quote', () => {
+      expect(formatFenceAttributeValue('#E3FCEF')).toBe('#E3FCEF');
+      expect(formatFenceAttributeValue('two words')).toBe('"two words"');
+      expect(formatFenceAttributeValue('say "hi"')).toBe('\'say "hi"\'');
+    });
+
+    it('should not format values with both kinds of quote', () => {
+      expect(canFormatFenceAttributeValue('it\'s')).toBe(true);
+      expect(canFormatFenceAttributeValue('it\'s "x"')).toBe(false);
+    });
+
+    it('should write quotes and backslashes in JSON as unicode escapes', () => {
+      const value = { text: 'it\'s "x" in C:\\temp' };
+
+      expect(toSingleQuotedJson(value)).toBe('{"text":"it\\u0027s \\u0022x\\u0022 in C:\\u005ctemp"}');
+      expect(JSON.parse(toSingleQuotedJson(value))).toEqual(value);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * @file html-utils.test.ts
+ * @description Unit tests for HTML escaping and sanitizing helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeHtml, sanitizeUrl, sanitizeColor, htmlAttributes, blockMarkStyles } from '../../../src/utils/html-utils.js';
+
+describe('HTML Utils', () => {
+  it('should escape markup characters', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+
+  it('should keep safe and relative URLs', () => {
+    for (const url of ['https://example.com', 'mailto:a@example.com', '/wiki/page', './setup.md', '#install']) {
+      expect(sanitizeUrl(url)).toBe(url);
+    }
+  });
+
+  it('should drop script and data URLs, including obfuscated schemes', () => {
+    for (const url of ['javascript:alert(1)', 'JavaScript:alert(1)', ' java\nscript:alert(1)', 'data:text/html,x', 'vbscript:x']) {
+      expect(sanitizeUrl(url)).toBeNull();
+    }
+    expect(sanitizeUrl(undefined)).toBeNull();
+  });
+
+  it('should only accept plain CSS colors', () => {
+    expect(sanitizeColor('#ff5630')).toBe('#ff5630');
+    expect(sanitizeColor('rgb(255, 86, 48)')).toBe('rgb(255, 86, 48)');
+    expect(sanitizeColor('red')).toBe('red');
+    expect(sanitizeColor('red; background: url(x)')).toBeNull();
+  });
+
+  it('should render attributes, skipping empty values', () => {
+    expect(htmlAttributes({ href: 'a"b', title: undefined, checked: true, disabled: false, width: 10 }))
+      .toBe(' href="a&quot;b" checked width="10"');
+  });
+
+  it('should map alignment and indentation marks to styles', () => {
+    expect(blockMarkStyles([
+      { type: 'alignment', attrs: { align: 'end' } },
+      { type: 'indentation', attrs: { level: 2 } }
+    ])).toEqual(['text-align: right', 'margin-left: 60px']);
+  });
+});
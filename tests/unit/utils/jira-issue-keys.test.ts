@@ -0,0 +1,59 @@
+/**
+ * @file jira-issue-keys.test.ts
+ * @description Unit tests for Jira issue key detection and issue URLs
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  findJiraIssueKey,
+  getJiraIssueUrl,
+  getJiraIssueKeyFromUrl,
+  type JiraIssueLinkOptions
+} from '../../../src/utils/jira-issue-keys.js';
+
+const options: JiraIssueLinkOptions = { baseUrl: 'https://example.atlassian.net/' };
+const allowlist: JiraIssueLinkOptions = { ...options, projectKeys: ['PROJ'] };
+
+describe('Jira Issue Keys', () => {
+  describe('findJiraIssueKey', () => {
+    it('should find the first issue key in text', () => {
+      expect(findJiraIssueKey('Fixed in PROJ-123 and OPS-7', options)).toEqual({ index: 9, key: 'PROJ-123' });
+    });
+
+    it('should only match keys of allowed projects', () => {
+      expect(findJiraIssueKey('See OPS-7 and PROJ-12', allowlist)).toEqual({ index: 14, key: 'PROJ-12' });
+      expect(findJiraIssueKey('See OPS-7', allowlist)).toBeNull();
+    });
+
+    it('should not match keys inside words, paths or identifiers', () => {
+      for (const text of ['my-PROJ-1', '/browse/PROJ-1', 'PROJ-1-2', 'UTF-8x', 'A-1', 'PROJ-0', 'proj-1']) {
+        expect(findJiraIssueKey(text, options)).toBeNull();
+      }
+    });
+
+    it('should not match encodings, hashes and standards unless their prefix is an allowed project', () => {
+      for (const text of ['UTF-8', 'SHA-256', 'ISO-8601', 'RFC-7231', 'AES-128']) {
+        expect(findJiraIssueKey(text, options)).toBeNull();
+      }
+      expect(findJiraIssueKey('UTF-8', { ...options, projectKeys: ['UTF'] })).toEqual({ index: 0, key: 'UTF-8' });
+    });
+
+    it('should skip code spans and markdown links', () => {
+      expect(findJiraIssueKey('`PROJ-1` [PROJ-2](https://example.com) PROJ-3', options)).toEqual({ index: 39, key: 'PROJ-3' });
+    });
+  });
+
+  describe('issue URLs', () => {
+    it('should build browse URLs without a doubled slash', () => {
+      expect(getJiraIssueUrl('PROJ-123', options)).toBe('https://example.atlassian.net/browse/PROJ-123');
+    });
+
+    it('should read keys back from browse URLs of the configured site', () => {
+      expect(getJiraIssueKeyFromUrl('https://example.atlassian.net/browse/PROJ-123', options)).toBe('PROJ-123');
+      expect(getJiraIssueKeyFromUrl('https://example.atlassian.net/browse/PROJ-123?focused=1', options)).toBeNull();
+      expect(getJiraIssueKeyFromUrl('https://other.atlassian.net/browse/PROJ-123', options)).toBeNull();
+      expect(getJiraIssueKeyFromUrl('https://example.atlassian.net/browse/OPS-1', allowlist)).toBeNull();
+      expect(getJiraIssueKeyFromUrl('https://example.atlassian.net/browse/UTF-8', options)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file markdown-loss.test.ts
+ * @description Unit tests for tracking what the clean markdown profile drops
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { MarkdownLossTracker, withoutMetadata } from '../../../src/utils/markdown-loss.js';
+import type { ConversionContext } from '../../../src/parser/types.js';
+
+describe('Markdown Loss Utils', () => {
+  const createContext = (lossTracker: MarkdownLossTracker): ConversionContext => ({
+    convertChildren: () => '',
+    depth: 0,
+    options: { lossTracker }
+  });
+
+  it('should count losses per type and detail in first-seen order', () => {
+    const tracker = new MarkdownLossTracker();
+    tracker.record('textColor', 'text color');
+    tracker.record('panel', 'panelColor attribute');
+    tracker.record('textColor', 'text color');
+
+    expect(tracker.getReport()).toEqual([
+      { type: 'textColor', detail: 'text color', count: 2 },
+      { type: 'panel', detail: 'panelColor attribute', count: 1 }
+    ]);
+
+    tracker.clear();
+    expect(tracker.getReport()).toEqual([]);
+  });
+
+  it('should keep the given attributes and drop the rest with block marks', () => {
+    const tracker = new MarkdownLossTracker();
+    const node = withoutMetadata({
+      type: 'heading',
+      attrs: { level: 2, localId: 'h-1', colspan: 1, indent: 1 },
+      marks: [{ type: 'alignment', attrs: { align: 'end' } }]
+    }, ['level'], createContext(tracker));
+
+    expect(node).toEqual({ type: 'heading', attrs: { level: 2 } });
+    expect(tracker.getReport()).toEqual([
+      { type: 'heading', detail: 'indent attribute', count: 1 },
+      { type: 'heading', detail: 'alignment mark', count: 1 }
+    ]);
+  });
+});
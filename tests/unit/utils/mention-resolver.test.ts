@@ -0,0 +1,143 @@
+/**
+ * @file mention-resolver.test.ts
+ * @description Unit tests for mention resolution and caching
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  MentionResolverCache,
+  createInMemoryMentionResolver,
+  resolveMarkdownMentions,
+  resolveMarkdownMentionsAsync,
+  resolveAdfMentions,
+  type MentionResolver,
+  type MentionUser
+} from '../../../src/utils/mention-resolver.js';
+import { doc, paragraph } from '../../helpers/adf';
+
+const alice: MentionUser = { accountId: 'acc-alice', displayName: 'Alice Smith', nickname: 'alice', accessLevel: 'CONTAINER' };
+const bot: MentionUser = { accountId: 'acc-bot', displayName: 'Build Bot', userType: 'APP' };
+
+describe('Mention Resolver', () => {
+  describe('createInMemoryMentionResolver', () => {
+    const resolver = createInMemoryMentionResolver([alice, bot]);
+
+    it('should match nicknames and display names ignoring case', () => {
+      expect(resolver.resolveByName?.('alice')).toBe(alice);
+      expect(resolver.resolveByName?.('ALICE SMITH')).toBe(alice);
+      expect(resolver.resolveByName?.('bob')).toBeNull();
+    });
+
+    it('should match account IDs exactly', () => {
+      expect(resolver.resolveById?.('acc-bot')).toBe(bot);
+      expect(resolver.resolveById?.('ACC-BOT')).toBeNull();
+    });
+  });
+
+  describe('MentionResolverCache', () => {
+    it('should call the resolver once per key', () => {
+      const resolveByName = jest.fn((name: string) => (name === 'alice' ? alice : null));
+      const cache = new MentionResolverCache({ resolveByName });
+
+      expect(cache.lookupSync('name', 'alice')).toBe(alice);
+      expect(cache.lookupSync('name', 'alice')).toBe(alice);
+      expect(cache.lookupSync('name', 'bob')).toBeNull();
+      expect(cache.lookupSync('name', 'bob')).toBeNull();
+      expect(resolveByName).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only return async lookups once they have settled', async () => {
+      const cache = new MentionResolverCache({ resolveById: async () => bot });
+
+      expect(cache.lookupSync('id', 'acc-bot')).toBeNull();
+      expect(await cache.lookup('id', 'acc-bot')).toBe(bot);
+      expect(cache.lookupSync('id', 'acc-bot')).toBe(bot);
+    });
+
+    it('should treat rejected lookups as unresolved', async () => {
+      const cache = new MentionResolverCache({ resolveById: () => Promise.reject(new Error('offline')) });
+
+      expect(await cache.lookup('id', 'acc-bot')).toBeNull();
+    });
+
+    it('should treat lookups that throw as unresolved', () => {
+      const resolveById = jest.fn((): MentionUser => {
+        throw new Error('offline');
+      });
+      const cache = new MentionResolverCache({ resolveById });
+
+      expect(cache.lookupSync('id', 'acc-bot')).toBeNull();
+      expect(cache.lookupSync('id', 'acc-bot')).toBeNull();
+      expect(resolveById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip lookups the resolver does not implement', () => {
+      const cache = new MentionResolverCache({ resolveById: () => bot });
+
+      expect(cache.lookupSync('name', 'bot')).toBeNull();
+    });
+  });
+
+  describe('resolveMarkdownMentions', () => {
+    const cache = new MentionResolverCache(createInMemoryMentionResolver([alice, bot]));
+
+    it('should resolve mention names to account IDs with user type and access level', () => {
+      const adf = doc(paragraph(
+        { type: 'mention', attrs: { id: 'alice', text: '@alice', userType: 'DEFAULT' } },
+        { type: 'mention', attrs: { id: 'acc-bot', text: '@acc-bot' } }
+      ));
+
+      expect(resolveMarkdownMentions(adf, cache).content[0].content).toEqual([
+        { type: 'mention', attrs: { id: 'acc-alice', text: '@Alice Smith', userType: 'DEFAULT', accessLevel: 'CONTAINER' } },
+        { type: 'mention', attrs: { id: 'acc-bot', text: '@Build Bot', userType: 'APP' } }
+      ]);
+    });
+
+    it('should turn resolvable @names in text into mentions', () => {
+      const adf = doc(paragraph({ type: 'text', text: 'Thanks @alice and @bob!', marks: [{ type: 'strong' }] }));
+
+      expect(resolveMarkdownMentions(adf, cache).content[0].content).toEqual([
+        { type: 'text', text: 'Thanks ', marks: [{ type: 'strong' }] },
+        { type: 'mention', attrs: { id: 'acc-alice', text: '@Alice Smith', accessLevel: 'CONTAINER' } },
+        { type: 'text', text: ' and @bob!', marks: [{ type: 'strong' }] }
+      ]);
+    });
+
+    it('should leave emails, inline code and code blocks alone', () => {
+      const adf = doc(
+        paragraph(
+          { type: 'text', text: 'mail alice@example.com ' },
+          { type: 'text', text: '@alice', marks: [{ type: 'code' }] }
+        ),
+        { type: 'codeBlock', content: [{ type: 'text', text: '@alice' }] }
+      );
+
+      expect(resolveMarkdownMentions(adf, cache)).toEqual(adf);
+    });
+
+    it('should wait for async resolvers', async () => {
+      const resolver: MentionResolver = { resolveByName: async name => (name === 'alice' ? alice : null) };
+      const adf = doc(paragraph({ type: 'text', text: 'Hi @alice' }));
+
+      expect((await resolveMarkdownMentionsAsync(adf, new MentionResolverCache(resolver))).content[0].content).toEqual([
+        { type: 'text', text: 'Hi ' },
+        { type: 'mention', attrs: { id: 'acc-alice', text: '@Alice Smith', accessLevel: 'CONTAINER' } }
+      ]);
+    });
+  });
+
+  describe('resolveAdfMentions', () => {
+    it('should use the current display name for known account IDs', () => {
+      const cache = new MentionResolverCache(createInMemoryMentionResolver([alice]));
+      const adf = doc(paragraph(
+        { type: 'mention', attrs: { id: 'acc-alice', text: '@Alice' } },
+        { type: 'mention', attrs: { id: 'acc-unknown', text: '@Someone' } }
+      ));
+
+      expect(resolveAdfMentions(adf, cache).content[0].content).toEqual([
+        { type: 'mention', attrs: { id: 'acc-alice', text: '@Alice Smith' } },
+        { type: 'mention', attrs: { id: 'acc-unknown', text: '@Someone' } }
+      ]);
+    });
+  });
+});
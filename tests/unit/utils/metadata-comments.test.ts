@@ -13,6 +13,7 @@ import {
   getNodeMetadata,
   applyMetadataToAdfNode,
   generateMetadataComment,
+  generateBlockMarksComment,
   validateMetadataComment,
   type AdfMetadata
 } from '../../../src/utils/metadata-comments.js';
@@ -288,7 +289,7 @@ describe('Metadata Comments', () => {
       const metadata: AdfMetadata[] = [
         {
           nodeType: 'paragraph',
-          attrs: { textAlign: 'center' },
+          attrs: { textAlign: 'justify' },
           raw: '<!-- adf:paragraph -->'
         }
       ];
@@ -297,7 +298,7 @@ describe('Metadata Comments', () => {
       expect(result).toEqual({
         type: 'paragraph',
         content: [],
-        attrs: { textAlign: 'center' }
+        attrs: { textAlign: 'justify' }
       });
     });
 
@@ -306,7 +307,7 @@ describe('Metadata Comments', () => {
       const metadata: AdfMetadata[] = [
         {
           nodeType: 'paragraph',
-          attrs: { textAlign: 'center' },
+          attrs: { textAlign: 'justify' },
           raw: '<!-- comment1 -->'
         },
         {
@@ -319,11 +320,93 @@ describe('Metadata Comments', () => {
       const result = applyMetadataToAdfNode(adfNode, metadata);
       expect(result.attrs).toEqual({
         id: 'existing',
-        textAlign: 'center',
+        textAlign: 'justify',
         backgroundColor: '#f0f0f0'
       });
     });
 
+    it('should convert align and indent attributes to block marks', () => {
+      const adfNode = { type: 'paragraph', content: [] };
+      const metadata: AdfMetadata[] = [
+        {
+          nodeType: 'paragraph',
+          attrs: { align: 'center', indent: 2 },
+          raw: '<!-- adf:paragraph align="center" indent="2" -->'
+        }
+      ];
+
+      const result = applyMetadataToAdfNode(adfNode, metadata);
+      expect(result).toEqual({
+        type: 'paragraph',
+        content: [],
+        marks: [
+          { type: 'alignment', attrs: { align: 'center' } },
+          { type: 'indentation', attrs: { level: 2 } }
+        ]
+      });
+    });
+
+    it('should convert legacy textAlign values that have an alignment mark', () => {
+      const adfNode = { type: 'heading', attrs: { level: 2 }, content: [] };
+      const metadata: AdfMetadata[] = [
+        {
+          nodeType: 'heading',
+          attrs: { textAlign: 'right' },
+          raw: '<!-- adf:heading attrs=\'{"textAlign":"right"}\' -->'
+        }
+      ];
+
+      const result = applyMetadataToAdfNode(adfNode, metadata);
+      expect(result).toEqual({
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [],
+        marks: [{ type: 'alignment', attrs: { align: 'end' } }]
+      });
+    });
+
+    it('should drop start alignment and out of range indentation', () => {
+      const adfNode = { type: 'paragraph', content: [] };
+      const metadata: AdfMetadata[] = [
+        {
+          nodeType: 'paragraph',
+          attrs: { align: 'start', indent: 9 },
+          raw: '<!-- adf:paragraph align="start" indent="9" -->'
+        }
+      ];
+
+      const result = applyMetadataToAdfNode(adfNode, metadata);
+      expect(result).toEqual({ type: 'paragraph', content: [] });
+    });
+
+    it('should resolve numbered and headerColumn table hints', () => {
+      const cell = (type: string) => ({ type, content: [{ type: 'paragraph' }] });
+      const adfNode = {
+        type: 'table',
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader'), cell('tableHeader')] },
+          { type: 'tableRow', content: [cell('tableCell'), cell('tableCell')] }
+        ]
+      };
+      const metadata: AdfMetadata[] = [
+        {
+          nodeType: 'table',
+          attrs: { numbered: 'true', headerColumn: 'true', layout: 'wide', width: 760 },
+          raw: '<!-- adf:table numbered="true" headerColumn="true" layout="wide" width="760" -->'
+        }
+      ];
+
+      const result = applyMetadataToAdfNode(adfNode, metadata);
+      expect(result).toEqual({
+        type: 'table',
+        attrs: { isNumberColumnEnabled: true, layout: 'wide', width: 760 },
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader'), cell('tableHeader')] },
+          { type: 'tableRow', content: [cell('tableHeader'), cell('tableCell')] }
+        ]
+      });
+    });
+
     it('should return unchanged node when no metadata', () => {
       const adfNode = { type: 'paragraph', content: [] };
       const result = applyMetadataToAdfNode(adfNode, []);
@@ -353,6 +436,21 @@ describe('Metadata Comments', () => {
     });
   });
 
+  describe('generateBlockMarksComment', () => {
+    it('should return empty string when there are no block marks', () => {
+      expect(generateBlockMarksComment('paragraph', undefined)).toBe('');
+      expect(generateBlockMarksComment('paragraph', [{ type: 'strong' }])).toBe('');
+    });
+
+    it('should generate align and indent attributes', () => {
+      const result = generateBlockMarksComment('paragraph', [
+        { type: 'alignment', attrs: { align: 'center' } },
+        { type: 'indentation', attrs: { level: 3 } }
+      ]);
+      expect(result).toBe('<!-- adf:paragraph align="center" indent="3" -->');
+    });
+  });
+
   describe('validateMetadataComment', () => {
     it('should validate correct metadata comments', () => {
       const result = validateMetadataComment('<!-- adf:paragraph -->');
@@ -0,0 +1,28 @@
+/**
+ * @file slack-utils.test.ts
+ * @description Unit tests for Slack text escaping and splitting
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeSlackText, escapeSlackUrl, splitSlackText } from '../../../src/utils/slack-utils.js';
+
+describe('Slack Utils', () => {
+  it('should escape ampersands and angle brackets only', () => {
+    expect(escapeSlackText('<b> & "q" *x*')).toBe('&lt;b&gt; &amp; "q" *x*');
+  });
+
+  it('should percent-encode pipes in URLs', () => {
+    expect(escapeSlackUrl('https://example.com/search?q=a|b&c')).toBe('https://example.com/search?q=a%7Cb&amp;c');
+  });
+
+  it('should split at line breaks, then spaces, then anywhere', () => {
+    expect(splitSlackText('one two\nthree four', 12)).toEqual(['one two', 'three four']);
+    expect(splitSlackText('alpha beta gamma', 11)).toEqual(['alpha beta', 'gamma']);
+    expect(splitSlackText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should keep short text whole', () => {
+    expect(splitSlackText('short', 10)).toEqual(['short']);
+    expect(splitSlackText('', 10)).toEqual(['']);
+  });
+});
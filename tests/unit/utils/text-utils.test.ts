@@ -0,0 +1,35 @@
+/**
+ * @file text-utils.test.ts
+ * @description Unit tests for plain text wrapping, truncation and column alignment
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { wrapText, truncateText, alignColumns } from '../../../src/utils/text-utils.js';
+
+describe('Text Utils', () => {
+  it('should wrap at spaces and keep existing line breaks', () => {
+    expect(wrapText('the quick brown fox jumps', 10)).toBe('the quick\nbrown fox\njumps');
+    expect(wrapText('one\ntwo three', 5)).toBe('one\ntwo\nthree');
+  });
+
+  it('should leave long words whole and skip wrapping without a width', () => {
+    expect(wrapText('a https://example.com/long/path b', 10)).toBe('a\nhttps://example.com/long/path\nb');
+    expect(wrapText('no wrapping here', 0)).toBe('no wrapping here');
+  });
+
+  it('should truncate at word boundaries within the limit', () => {
+    expect(truncateText('The deployment finished successfully', 20)).toBe('The deployment…');
+    expect(truncateText('Hello world again', 12)).toBe('Hello world…');
+    expect(truncateText('short', 10)).toBe('short');
+  });
+
+  it('should cut mid-word when a single word exceeds the limit', () => {
+    expect(truncateText('Supercalifragilistic', 6)).toBe('Super…');
+    expect(truncateText('Hello', 1)).toBe('…');
+  });
+
+  it('should align columns and underline a header row', () => {
+    expect(alignColumns([['Name', 'Status'], ['API', 'Done'], ['Frontend', '']], true))
+      .toBe('Name      Status\n--------  ------\nAPI       Done\nFrontend');
+  });
+});
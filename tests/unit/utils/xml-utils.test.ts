@@ -0,0 +1,40 @@
+/**
+ * @file xml-utils.test.ts
+ * @description Unit tests for storage format XML parsing and escaping
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseXml, decodeXmlEntities, escapeXml, cdata, textContent, type XmlElement } from '../../../src/utils/xml-utils.js';
+
+describe('XML Utils', () => {
+  it('should parse namespaced elements, attributes and self-closing tags', () => {
+    const [macro] = parseXml('<ac:structured-macro ac:name="code" ac:schema-version=\'1\'><ac:parameter ac:name="language">js</ac:parameter><br/></ac:structured-macro>') as XmlElement[];
+
+    expect(macro.name).toBe('ac:structured-macro');
+    expect(macro.attrs).toEqual({ 'ac:name': 'code', 'ac:schema-version': '1' });
+    expect(macro.children.map(child => (child as XmlElement).name)).toEqual(['ac:parameter', 'br']);
+    expect(textContent(macro)).toBe('js');
+  });
+
+  it('should keep CDATA sections verbatim and skip comments', () => {
+    const [body] = parseXml('<ac:plain-text-body><!-- note --><![CDATA[a < b && &amp;]]></ac:plain-text-body>') as XmlElement[];
+
+    expect(body.children).toEqual([{ type: 'text', value: 'a < b && &amp;', cdata: true }]);
+  });
+
+  it('should close unclosed elements with their parent and ignore stray closing tags', () => {
+    const nodes = parseXml('<p>one <em>two</p></strong><p>three<br>four</p>') as XmlElement[];
+
+    expect(nodes.map(node => node.name)).toEqual(['p', 'p']);
+    expect(nodes.map(textContent)).toEqual(['one two', 'threefour']);
+  });
+
+  it('should decode named and numeric entities and leave unknown ones', () => {
+    expect(decodeXmlEntities('&lt;&amp;&gt; &nbsp;&mdash; &#169; &#x1F600; &unknown;')).toBe('<&>  — © 😀 &unknown;');
+  });
+
+  it('should escape text and split CDATA terminators', () => {
+    expect(escapeXml('a < b & "c" > d')).toBe('a &lt; b &amp; &quot;c&quot; &gt; d');
+    expect(cdata('x ]]> y')).toBe('<![CDATA[x ]]]]><![CDATA[> y]]>');
+  });
+});
@@ -222,7 +222,7 @@ describe('AdfValidator', () => {
 
   describe('Panel Validation', () => {
     it('should validate panel with valid type', () => {
-      const validPanelTypes = ['info', 'warning', 'error', 'success', 'note'];
+      const validPanelTypes = ['info', 'warning', 'error', 'success', 'note', 'custom'];
 
       validPanelTypes.forEach(panelType => {
         const adf: ADFDocument = {
@@ -279,6 +279,53 @@ describe('AdfValidator', () => {
       const result = validator.validate(adf);
       expect(result.valid).toBe(false);
     });
+
+    it('should validate custom panel with icon and color', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'panel',
+          attrs: {
+            panelType: 'custom',
+            panelIcon: ':rocket:',
+            panelIconId: '1f680',
+            panelIconText: '🚀',
+            panelColor: '#E3FCEF'
+          },
+          content: [
+            {
+              type: 'paragraph',
+              content: [{ type: 'text', text: 'Launch checklist' }]
+            }
+          ]
+        }]
+      };
+
+      const result = validator.validate(adf);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject panel with a non-hex color', () => {
+      const adf = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'panel',
+          attrs: { panelType: 'custom', panelColor: 'green' },
+          content: []
+        }]
+      };
+
+      const result = validator.validate(adf);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'SCHEMA_VALIDATION_ERROR',
+          message: expect.stringContaining('must match pattern')
+        })
+      );
+    });
   });
 
   describe('Text Node Validation', () => {
@@ -379,6 +426,190 @@ describe('AdfValidator', () => {
     });
   });
 
+  describe('Layout Validation', () => {
+    const layout = (widths: number[]) => ({
+      version: 1,
+      type: 'doc',
+      content: [{
+        type: 'layoutSection',
+        content: widths.map(width => ({
+          type: 'layoutColumn',
+          attrs: { width },
+          content: [{ type: 'paragraph', content: [{ type: 'text', text: `${width}%` }] }]
+        }))
+      }]
+    });
+
+    it('should validate layout columns that sum to 100', () => {
+      expect(validator.validate(layout([50, 50])).valid).toBe(true);
+      expect(validator.validate(layout([33.33, 33.33, 33.33])).valid).toBe(true);
+    });
+
+    it('should reject layout columns that do not sum to 100', () => {
+      const result = validator.validate(layout([50, 30]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_LAYOUT_WIDTHS'
+        })
+      );
+    });
+
+    it('should reject layout columns with invalid widths', () => {
+      const result = validator.validate(layout([0, 100]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_LAYOUT_COLUMN_WIDTH'
+        })
+      );
+    });
+  });
+
+  describe('Media Caption and Border Validation', () => {
+    const mediaSingle = (content: any[]) => ({
+      version: 1,
+      type: 'doc',
+      content: [{ type: 'mediaSingle', attrs: { layout: 'center' }, content }]
+    });
+    const media = (marks?: any[]) => ({
+      type: 'media',
+      attrs: { id: 'abc', type: 'file', collection: 'c' },
+      ...(marks && { marks })
+    });
+    const caption = { type: 'caption', content: [{ type: 'text', text: 'Figure 1' }] };
+
+    it('should validate a caption after the media', () => {
+      expect(validator.validate(mediaSingle([media(), caption])).valid).toBe(true);
+    });
+
+    it('should reject a caption before the media', () => {
+      const result = validator.validate(mediaSingle([caption, media()]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_CAPTION_PLACEMENT'
+        })
+      );
+    });
+
+    it('should reject a caption outside mediaSingle', () => {
+      const result = validator.validate({
+        version: 1,
+        type: 'doc',
+        content: [{ type: 'panel', attrs: { panelType: 'info' }, content: [caption] }]
+      });
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_CAPTION_PLACEMENT'
+        })
+      );
+    });
+
+    it('should validate border marks on media', () => {
+      const adf = mediaSingle([media([{ type: 'border', attrs: { size: 2, color: '#091e4224' } }])]);
+      expect(validator.validate(adf).valid).toBe(true);
+    });
+
+    it('should reject border marks with invalid size or color', () => {
+      const result = validator.validate(
+        mediaSingle([media([{ type: 'border', attrs: { size: 5, color: 'grey' } }])])
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'SCHEMA_VALIDATION_ERROR',
+          path: expect.stringContaining('/marks/0/attrs/size')
+        })
+      );
+    });
+  });
+
+  describe('Block Mark Validation', () => {
+    const paragraph = (marks: any[]) => ({
+      version: 1,
+      type: 'doc',
+      content: [{ type: 'paragraph', marks, content: [{ type: 'text', text: 'Text' }] }]
+    });
+
+    it('should validate alignment and indentation marks on paragraphs and headings', () => {
+      expect(validator.validate(paragraph([{ type: 'alignment', attrs: { align: 'center' } }])).valid).toBe(true);
+      expect(validator.validate(paragraph([{ type: 'indentation', attrs: { level: 3 } }])).valid).toBe(true);
+      expect(validator.validate({
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'heading',
+          attrs: { level: 2 },
+          marks: [{ type: 'alignment', attrs: { align: 'end' } }],
+          content: [{ type: 'text', text: 'Title' }]
+        }]
+      }).valid).toBe(true);
+    });
+
+    it('should reject alignment marks with an invalid align value', () => {
+      const result = validator.validate(paragraph([{ type: 'alignment', attrs: { align: 'left' } }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'SCHEMA_VALIDATION_ERROR',
+          path: expect.stringContaining('/marks/0/attrs/align')
+        })
+      );
+    });
+
+    it('should reject indentation marks with a level out of range', () => {
+      const result = validator.validate(paragraph([{ type: 'indentation', attrs: { level: 7 } }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'SCHEMA_VALIDATION_ERROR',
+          path: expect.stringContaining('/marks/0/attrs/level')
+        })
+      );
+    });
+
+    it('should validate breakout marks on code blocks, expands and layouts', () => {
+      const breakout = [{ type: 'breakout', attrs: { mode: 'wide' } }];
+      const result = validator.validate({
+        version: 1,
+        type: 'doc',
+        content: [
+          { type: 'codeBlock', attrs: { language: 'js' }, marks: breakout, content: [{ type: 'text', text: 'x' }] },
+          { type: 'expand', attrs: { title: 'More' }, marks: breakout, content: [{ type: 'paragraph', content: [] }] }
+        ]
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject breakout marks on paragraphs', () => {
+      const result = validator.validate(paragraph([{ type: 'breakout', attrs: { mode: 'wide' } }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_BLOCK_MARK_PLACEMENT'
+        })
+      );
+    });
+
+    it('should reject block marks on text nodes', () => {
+      const result = validator.validate({
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [{ type: 'text', text: 'Text', marks: [{ type: 'alignment', attrs: { align: 'center' } }] }]
+        }]
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_BLOCK_MARK_PLACEMENT'
+        })
+      );
+    });
+  });
+
   describe('Mark Validation', () => {
     it('should validate link mark with href', () => {
       const adf: ADFDocument = {
@@ -128,11 +128,46 @@ Panel content
       expect(panelResult.valid).toBe(true);
       expect(panelResult.warnings || []).not.toContain(expect.stringContaining('Unknown ADF fence type "panel"'));
     });
+
+    it('should validate nested fences with longer markers', () => {
+      const markdown = `~~~~layout
+~~~column width=50
+Left
+~~~
+~~~column width=50
+Right
+~~~
+~~~~`;
+
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(true);
+      expect(result.warnings || []).toHaveLength(0);
+    });
+
+    it('should detect layout column widths that do not sum to 100', () => {
+      const markdown = `~~~~layout
+~~~column width=50
+Left
+~~~
+~~~column width=30
+Right
+~~~
+~~~~`;
+
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_LAYOUT_WIDTHS',
+          message: expect.stringContaining('got 80')
+        })
+      );
+    });
   });
 
   describe('Panel Validation', () => {
     it('should validate panel with valid type', () => {
-      const validTypes = ['info', 'warning', 'error', 'success', 'note'];
+      const validTypes = ['info', 'warning', 'error', 'success', 'note', 'custom'];
       
       validTypes.forEach(type => {
         const markdown = `~~~panel type=${type}
@@ -182,6 +217,62 @@ Panel with extra attributes
       const result = validator.validate(markdown);
       expect(result.valid).toBe(true);
     });
+
+    it('should validate custom panel with icon and hex color', () => {
+      const markdown = `~~~panel type=custom icon=:rocket: color=#E3FCEF
+Custom panel
+~~~`;
+      
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject panel with invalid color', () => {
+      const markdown = `~~~panel type=custom color=green
+Custom panel
+~~~`;
+      
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_PANEL_COLOR',
+          message: expect.stringContaining('Invalid panel color "green"')
+        })
+      );
+    });
+  });
+
+  describe('Table Grid Validation', () => {
+    it('should validate a nested table fence grid', () => {
+      const markdown = `~~~~~table
+~~~~row
+~~~header colspan=2
+Merged
+~~~
+~~~~
+~~~~~`;
+
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a cell outside of a row', () => {
+      const markdown = `~~~~table
+~~~cell
+Orphan
+~~~
+~~~~`;
+
+      const result = validator.validate(markdown);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_TABLE_STRUCTURE',
+          message: expect.stringContaining('must be directly inside a "row" fence')
+        })
+      );
+    });
   });
 
   describe('Heading Validation', () => {
@@ -257,6 +348,25 @@ Panel with extra attributes
       );
     });
 
+    it('should validate media border metadata', () => {
+      const markdown = '<!-- adf:border size="2" color="#091e4224" -->\n![Media](adf:media:abc)';
+      const result = validator.validate(markdown);
+      
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject invalid media border metadata', () => {
+      const markdown = '<!-- adf:border size="4" color="grey" -->\n![Media](adf:media:abc)';
+      const result = validator.validate(markdown);
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          code: 'INVALID_BORDER_MARK'
+        })
+      );
+    });
+
     it('should validate complex metadata attributes', () => {
       const markdown = 'Panel <!-- adf:panel attrs=\'{"panelType":"info","customAttr":"value","number":42}\' -->';
       const result = validator.validate(markdown);